@@ -1,4 +1,8 @@
 import '@testing-library/jest-dom'
+import { TextDecoder, TextEncoder } from 'util'
+
+// jsdom lacks the encoding API
+Object.assign(global, { TextDecoder, TextEncoder })
 
 // Mock WebGL context for testing
 class MockWebGL2RenderingContext {
@@ -0,0 +1,164 @@
+import {
+  DEFAULT_KEYFRAME_SPACING,
+  MAX_GIF_FPS,
+  addKeyframe,
+  createAnimation,
+  getAnimationFrame,
+  getFrameCount,
+  interpolateParams,
+  removeKeyframe,
+  updateKeyframe,
+  validateMovieSettings
+} from '@/lib/animation/keyframes';
+import { lzwEncode, quantize } from '@/lib/export/gif';
+import { ZipWriter } from '@/lib/export/zip';
+import { crc32 } from '@/lib/export/png';
+import { validateFractalParams } from '@/lib/fractal-presets-modular';
+
+const wide = validateFractalParams({ center: { real: -0.5, imag: 0 }, zoom: 1, maxIterations: 100 });
+const close = validateFractalParams({ center: { real: -0.745, imag: 0.113 }, zoom: 1000, maxIterations: 500 });
+
+// Reference GIF LZW decoder
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bit = 0;
+
+  const reset = () => {
+    table = Array.from({ length: endCode + 1 }, (_, k) => [k]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let k = 0; k < codeSize; k++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << k;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    if (previous) table.push([...previous, entry[0]]);
+    output.push(...entry);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return output;
+}
+
+describe('Keyframe animation', () => {
+  it('should keep keyframes in time order and last until the final one', () => {
+    let animation = addKeyframe(createAnimation(), wide);
+    animation = addKeyframe(animation, close);
+    expect(animation.keyframes.map(keyframe => keyframe.timestamp)).toEqual([0, DEFAULT_KEYFRAME_SPACING]);
+    expect(animation.duration).toBe(DEFAULT_KEYFRAME_SPACING);
+
+    animation = updateKeyframe(animation, 0, { timestamp: 5000 });
+    expect(animation.keyframes[1].params).toBe(wide);
+    expect(animation.duration).toBe(5000);
+
+    animation = removeKeyframe(animation, 1);
+    expect(animation.keyframes).toHaveLength(1);
+    expect(animation.duration).toBe(DEFAULT_KEYFRAME_SPACING);
+  });
+
+  it('should zoom on a log scale and keep the point zoomed into still', () => {
+    const middle = interpolateParams(wide, close, 0.5);
+    expect(middle.zoom).toBeCloseTo(Math.sqrt(1000), 6);
+
+    // The point at the same screen position in both keyframes
+    const still = (close.center.real * close.zoom - wide.center.real * wide.zoom) / (close.zoom - wide.zoom);
+    const offset = (still - wide.center.real) * wide.zoom;
+    for (const s of [0.1, 0.5, 0.9]) {
+      const params = interpolateParams(wide, close, s);
+      expect((still - params.center.real) * params.zoom).toBeCloseTo(offset, 6);
+    }
+  });
+
+  it('should ease into each keyframe and hold outside the timeline', () => {
+    let animation = addKeyframe(createAnimation(), wide);
+    animation = addKeyframe(animation, close, 1000);
+    animation = updateKeyframe(animation, 1, { easing: 'linear' });
+
+    expect(getAnimationFrame(createAnimation(), 0)).toBeNull();
+    expect(getAnimationFrame(animation, -100)!.zoom).toBe(1);
+    expect(getAnimationFrame(animation, 2000)!.zoom).toBe(1000);
+    expect(getAnimationFrame(animation, 500)!.zoom).toBeCloseTo(Math.sqrt(1000), 6);
+    expect(getAnimationFrame(animation, 250)!.maxIterations).toBe(100);
+    expect(getAnimationFrame({ ...animation, loop: true }, 1500)!.zoom).toBeCloseTo(Math.sqrt(1000), 6);
+
+    animation = updateKeyframe(animation, 1, { easing: 'ease-in' });
+    expect(getAnimationFrame(animation, 500)!.zoom).toBeCloseTo(Math.pow(1000, 0.125), 6);
+  });
+
+  it('should count frames including both ends and clamp movie settings', () => {
+    const animation = addKeyframe(addKeyframe(createAnimation(), wide), close, 2000);
+    expect(getFrameCount(animation, 30)).toBe(61);
+    expect(getFrameCount(createAnimation(), 30)).toBe(1);
+
+    expect(validateMovieSettings({ width: 100000, height: 5, fps: 120, format: 'gif' })).toEqual({
+      width: 4096, height: 16, fps: MAX_GIF_FPS, format: 'gif'
+    });
+    expect(validateMovieSettings({ fps: NaN }).format).toBe('png-sequence');
+  });
+});
+
+describe('Movie encoders', () => {
+  it('should round-trip GIF LZW across code size changes and table resets', () => {
+    const indices = new Uint8Array(20000);
+    let seed = 7;
+    for (let i = 0; i < indices.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      indices[i] = i % 300 < 150 ? (seed >> 16) & 0xff : i & 3;
+    }
+    expect(lzwDecode(lzwEncode(indices), 8)).toEqual(Array.from(indices));
+    expect(lzwDecode(lzwEncode(new Uint8Array(0)), 8)).toEqual([]);
+  });
+
+  it('should quantize to at most 256 colors and keep exact colors when few', () => {
+    const pixels = new Uint8Array(4 * 1000);
+    for (let i = 0; i < 1000; i++) {
+      pixels.set([i % 256, (i * 7) % 256, (i * 13) % 256, 255], i * 4);
+    }
+    const { palette, indices } = quantize(pixels);
+    expect(palette).toHaveLength(768);
+    expect(Math.max(...indices)).toBeLessThan(256);
+
+    const flat = new Uint8Array([0, 0, 0, 255, 255, 255, 255, 255]);
+    const result = quantize(flat);
+    expect(Array.from(result.palette.subarray(result.indices[1] * 3, result.indices[1] * 3 + 3))).toEqual([252, 252, 252]);
+    expect(result.indices[0]).not.toBe(result.indices[1]);
+  });
+
+  it('should write stored ZIP entries with their CRCs', async () => {
+    const zip = new ZipWriter();
+    const data = new Uint8Array([1, 2, 3, 4]);
+    zip.addFile('frame-00001.png', data);
+    // jsdom blobs are read through FileReader
+    const bytes = await new Promise<Uint8Array>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.readAsArrayBuffer(zip.finish());
+    });
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(data));
+    expect(view.getUint32(18, true)).toBe(4);
+    expect(new TextDecoder().decode(bytes.subarray(30, 45))).toBe('frame-00001.png');
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(1);
+    expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014b50);
+  });
+});
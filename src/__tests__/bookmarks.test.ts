@@ -0,0 +1,80 @@
+import {
+  BOOKMARK_LIBRARY_FORMAT,
+  BOOKMARK_PRESET_PREFIX,
+  bookmarkToPreset,
+  createBookmark,
+  exportBookmarkLibrary,
+  filterBookmarks,
+  importBookmarkLibrary,
+  mergeBookmarks,
+  parseTags
+} from '@/lib/bookmarks/bookmarks';
+import { validateFractalParams } from '@/lib/fractal-presets-modular';
+import { Bookmark } from '@/types/fractal';
+
+const seahorse: Bookmark = {
+  ...createBookmark(validateFractalParams({ center: { real: -0.745, imag: 0.113 }, zoom: 200 }), {
+    name: 'Seahorse tail',
+    tags: ['spiral', 'favorite'],
+    notes: 'Deep in the valley'
+  }),
+  createdAt: 1000
+};
+const julia: Bookmark = {
+  ...createBookmark(validateFractalParams({ fractalType: 'julia', zoom: 2 }), {
+    name: 'Dendrite',
+    tags: [],
+    notes: ''
+  }),
+  createdAt: 2000
+};
+
+describe('Bookmarks', () => {
+  it('should parse tags without blanks or repeats', () => {
+    expect(parseTags(' spiral, ,Favorite,spiral , favorite')).toEqual(['spiral', 'Favorite']);
+  });
+
+  it('should search names, tags and notes and filter by fractal type', () => {
+    const library = [seahorse, julia];
+    expect(filterBookmarks(library, { query: '', fractalType: 'all' })).toEqual([julia, seahorse]);
+    expect(filterBookmarks(library, { query: 'FAV valley', fractalType: 'all' })).toEqual([seahorse]);
+    expect(filterBookmarks(library, { query: 'spiral dendrite', fractalType: 'all' })).toEqual([]);
+    expect(filterBookmarks(library, { query: '', fractalType: 'julia' })).toEqual([julia]);
+  });
+
+  it('should round-trip the library through JSON and replace bookmarks by id on import', () => {
+    const imported = importBookmarkLibrary(exportBookmarkLibrary([seahorse, julia]));
+    expect(imported).toEqual([seahorse, julia]);
+
+    const renamed = { ...seahorse, name: 'Renamed' };
+    expect(mergeBookmarks([seahorse, julia], [renamed])).toEqual([julia, renamed]);
+  });
+
+  it('should validate imported entries and reject other files', () => {
+    const [bookmark] = importBookmarkLibrary(JSON.stringify({
+      format: BOOKMARK_LIBRARY_FORMAT,
+      version: 1,
+      bookmarks: [
+        { name: 'Odd', params: { fractalType: 'nonexistent', zoom: -5 }, tags: ['a', 3], thumbnail: 'javascript:alert(1)' },
+        { name: 'No view' }
+      ]
+    }));
+    expect(bookmark.params.fractalType).toBe('mandelbrot');
+    expect(bookmark.params.zoom).toBeGreaterThan(0);
+    expect(bookmark.tags).toEqual(['a']);
+    expect(bookmark.thumbnail).toBeUndefined();
+    expect(bookmark.id).toBeTruthy();
+
+    expect(() => importBookmarkLibrary('{')).toThrow('Not a bookmark library');
+    expect(() => importBookmarkLibrary(JSON.stringify({ bookmarks: [] }))).toThrow('Not a bookmark library');
+    expect(() => importBookmarkLibrary(JSON.stringify({ format: BOOKMARK_LIBRARY_FORMAT, version: 2, bookmarks: [] })))
+      .toThrow('newer version');
+  });
+
+  it('should list bookmarks as presets selected by id', () => {
+    const preset = bookmarkToPreset(seahorse);
+    expect(preset.id).toBe(BOOKMARK_PRESET_PREFIX + seahorse.id);
+    expect(preset.name).toBe('Seahorse tail');
+    expect(preset.params).toBe(seahorse.params);
+  });
+});
@@ -0,0 +1,28 @@
+import { buildColorMap, validateColorMapping } from '@/lib/coloring/color-mapping';
+
+describe('Color Mapping', () => {
+  // Eight bins, with every escaped pixel in bins 2 to 5
+  const histogram = new Float32Array([0, 0, 10, 30, 50, 10, 0, 0]);
+
+  it('should equalize the histogram into its cumulative distribution', () => {
+    const map = buildColorMap(histogram, { mode: 'histogram', clip: 0 });
+    expect(map).toEqual(new Float32Array([0, 0, 0, 0.1, 0.4, 0.9, 1, 1, 1]));
+  });
+
+  it('should stretch the used or unclipped range over the palette', () => {
+    const autoRange = buildColorMap(histogram, { mode: 'auto-range', clip: 0 });
+    expect(autoRange).toEqual(new Float32Array([0, 0, 0, 0.25, 0.5, 0.75, 1, 1, 1]));
+
+    // 5% of 100 pixels is half of bin 2 and half of bin 5
+    const percentile = buildColorMap(histogram, { mode: 'percentile', clip: 5 });
+    expect(percentile[2]).toBe(0);
+    expect(percentile[4]).toBeCloseTo(0.5);
+    expect(percentile[6]).toBe(1);
+  });
+
+  it('should map linearly without statistics', () => {
+    const map = buildColorMap(new Float32Array(4), { mode: 'histogram', clip: 0 });
+    expect(map).toEqual(new Float32Array([0, 0.25, 0.5, 0.75, 1]));
+    expect(validateColorMapping({ mode: 'nope' as never, clip: 90 })).toEqual({ mode: 'linear', clip: 25 });
+  });
+});
@@ -3,6 +3,7 @@ import {
   getColorPaletteIds, 
   generateSmoothGradient,
   ColorUtils,
+  createCustomPalette,
   createPaletteTexture
 } from '@/lib/color-palettes';
 
@@ -69,6 +70,30 @@ describe('Color Palettes', () => {
       
       expect(gradient).toEqual([]);
     });
+
+    it('should place colors at their stops', () => {
+      const gradient = generateSmoothGradient(['#000000', '#ffffff', '#ff0000'], 11, { stops: [0, 0.2, 1] });
+
+      expect(gradient[0]).toBe('#000000');
+      expect(gradient[2]).toBe('#ffffff');
+      expect(gradient[10]).toBe('#ff0000');
+    });
+
+    it('should blend cyclic gradients back into the first color', () => {
+      const gradient = generateSmoothGradient(['#000000', '#ffffff'], 4, { cyclic: true });
+
+      expect(gradient).toEqual(['#000000', '#808080', '#ffffff', '#808080']);
+    });
+
+    it('should interpolate in the chosen color space', () => {
+      const rgb = generateSmoothGradient(['#ff0000', '#00ff00'], 3)[1];
+      const hsl = generateSmoothGradient(['#ff0000', '#00ff00'], 3, { interpolation: 'hsl' })[1];
+      const oklab = generateSmoothGradient(['#ff0000', '#00ff00'], 3, { interpolation: 'oklab' })[1];
+
+      expect(rgb).toBe('#808000');
+      expect(hsl).toBe('#ffff00');
+      expect(oklab).not.toBe(rgb);
+    });
   });
 
   describe('ColorUtils', () => {
@@ -127,6 +152,13 @@ describe('Color Palettes', () => {
       });
     });
 
+    describe('rgbToLab and rgbToOklab', () => {
+      it('should round trip through labToRgb and oklabToRgb', () => {
+        expect(ColorUtils.oklabToRgb(...ColorUtils.rgbToOklab(255, 128, 64))).toEqual([255, 128, 64]);
+        expect(ColorUtils.labToRgb(...ColorUtils.rgbToLab(12, 200, 90))).toEqual([12, 200, 90]);
+      });
+    });
+
     describe('interpolateRgb', () => {
       it('should interpolate between two colors', () => {
         const color1: [number, number, number] = [255, 0, 0]; // Red
@@ -144,6 +176,21 @@ describe('Color Palettes', () => {
     });
   });
 
+  describe('createCustomPalette', () => {
+    it('should keep the stops of the valid colors', () => {
+      const palette = createCustomPalette('My Sunset', ['#000000', 'red', '#ff8000'], 'cyclic', [0, 0.5, 0.8], 'oklab');
+
+      expect(palette).toEqual({
+        id: 'custom-my-sunset',
+        name: 'My Sunset',
+        type: 'cyclic',
+        colors: ['#000000', '#ff8000'],
+        stops: [0, 0.8],
+        interpolation: 'oklab'
+      });
+    });
+  });
+
   describe('createPaletteTexture', () => {
     let mockGl: WebGL2RenderingContext;
 
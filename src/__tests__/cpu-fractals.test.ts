@@ -0,0 +1,55 @@
+import { escapeTime } from '@/lib/cpu/escape-time';
+import FractalLoader from '@/lib/fractals/loader';
+import { DEFAULT_NEWTON_PARAMS, iterateNewton } from '@/lib/fractals/newton';
+import { DEFAULT_PHOENIX_P } from '@/lib/fractals/phoenix';
+import { findRoots } from '@/lib/fractals/polynomial';
+import { Complex } from '@/types/fractal';
+
+describe('CPU fractals', () => {
+  describe('Newton', () => {
+    const roots = findRoots(DEFAULT_NEWTON_PARAMS.coefficients);
+    const basin = (t: number) => Math.floor(t * 3);
+    const nearestRoot = (z: Complex) => roots.reduce((best, root, k) =>
+      Math.hypot(z.real - root.real, z.imag - root.imag) <
+      Math.hypot(z.real - roots[best].real, z.imag - roots[best].imag) ? k : best, 0);
+
+    it('should color points by the root they converge to', () => {
+      const point = { real: 2, imag: 0.1 };
+      expect(basin(iterateNewton(point, DEFAULT_NEWTON_PARAMS, roots, 50))).toBe(nearestRoot({ real: 1, imag: 0 }));
+      const upper = { real: -1, imag: 2 };
+      expect(basin(iterateNewton(upper, DEFAULT_NEWTON_PARAMS, roots, 50))).toBe(nearestRoot({ real: -0.5, imag: 0.866 }));
+    });
+
+    it('should leave points where p\'(z) vanishes as interior', () => {
+      expect(iterateNewton({ real: 0, imag: 0 }, DEFAULT_NEWTON_PARAMS, roots, 50)).toBe(1);
+    });
+
+    it('should read the relaxation and the Nova variant', () => {
+      const point = { real: 2, imag: 0.1 };
+      const relaxed = { ...DEFAULT_NEWTON_PARAMS, relaxation: 0.5 };
+      expect(iterateNewton(point, relaxed, roots, 50)).toBeGreaterThan(iterateNewton(point, DEFAULT_NEWTON_PARAMS, roots, 50));
+
+      // Nova starts from the root z = 1, so c = 0 converges at once and a far c takes longer
+      const nova = { ...DEFAULT_NEWTON_PARAMS, variant: 'nova' as const };
+      expect(iterateNewton({ real: 0, imag: 0 }, nova, roots, 50)).toBe(0);
+      expect(iterateNewton({ real: 10, imag: 0 }, nova, roots, 50)).toBeGreaterThan(0.1);
+    });
+  });
+
+  describe('Phoenix', () => {
+    const phoenix = FractalLoader.getDefinition('phoenix').formula;
+    const origin = { real: 0, imag: 0 };
+
+    it('should iterate with the coupling parameter p', () => {
+      const c = { real: 0.3, imag: 0 };
+      expect(escapeTime(phoenix, origin, c, 200, 4, null, { p: DEFAULT_PHOENIX_P })).toBeLessThan(200);
+      expect(escapeTime(phoenix, origin, c, 200, 4, null, { p: -0.5 })).toBe(200);
+      expect(escapeTime(phoenix, origin, { real: 0.6, imag: 0.2 }, 200, 4, null, { p: -0.5 })).toBeLessThan(200);
+    });
+
+    it('should fall back to the default p', () => {
+      const c = { real: -0.5, imag: 0.3 };
+      expect(escapeTime(phoenix, origin, c, 200, 4)).toBe(escapeTime(phoenix, origin, c, 200, 4, null, { p: DEFAULT_PHOENIX_P }));
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { FixedPoint, isDecimalString } from '@/lib/deep-zoom/fixed-point';
+import { computeReferenceOrbit, supportsPerturbation } from '@/lib/deep-zoom/reference-orbit';
+import {
+  getPrecisionBits,
+  getReferenceOffset,
+  splitPixelScale,
+  translateCenter
+} from '@/lib/deep-zoom/perturbation';
+import { validateFractalParams, MAX_ZOOM } from '@/lib/fractal-presets-modular';
+
+describe('Deep Zoom', () => {
+  describe('FixedPoint', () => {
+    it('should round-trip decimal strings beyond double precision', () => {
+      const text = '-0.743643887037158704752191506114774';
+      const value = FixedPoint.fromString(text, 256);
+      expect(value.toString()).toBe(text);
+      expect(FixedPoint.fromString(value.toString(), 256).mantissa).toBe(value.mantissa);
+      expect(value.toString(3)).toBe('-0.744');
+    });
+
+    it('should parse exponent notation', () => {
+      expect(FixedPoint.fromString('1.5e-3', 64).toNumber()).toBeCloseTo(0.0015, 15);
+      expect(FixedPoint.fromString('2E2', 64).toNumber()).toBe(200);
+    });
+
+    it('should convert doubles exactly', () => {
+      const values = [0.1, -1.25, 1e-40, 3.141592653589793];
+      values.forEach(value => {
+        expect(FixedPoint.fromNumber(value, 200).toNumber()).toBe(value);
+      });
+    });
+
+    it('should do arithmetic in fixed point', () => {
+      const a = FixedPoint.fromString('1.5', 64);
+      const b = FixedPoint.fromString('-0.25', 64);
+      expect(a.add(b).toNumber()).toBe(1.25);
+      expect(a.sub(b).toNumber()).toBe(1.75);
+      expect(a.mul(b).toNumber()).toBe(-0.375);
+      expect(b.square().toNumber()).toBe(0.0625);
+      expect(b.abs().toNumber()).toBe(0.25);
+      expect(b.sign()).toBe(-1);
+    });
+
+    it('should read tiny differences through the scale exponent', () => {
+      const a = FixedPoint.fromString('0.1', 512);
+      const b = a.add(FixedPoint.fromString('3e-120', 512));
+      expect(b.sub(a).toNumber(400)).toBeCloseTo(3e-120 * Math.pow(2, 400), 5);
+    });
+
+    it('should reject malformed numbers', () => {
+      expect(() => FixedPoint.fromString('abc', 64)).toThrow('Invalid decimal number');
+      expect(isDecimalString('-1.5e-20')).toBe(true);
+      expect(isDecimalString('.')).toBe(false);
+      expect(isDecimalString(1.5)).toBe(false);
+    });
+  });
+
+  describe('computeReferenceOrbit', () => {
+    it('should match double-precision iteration at shallow zoom', () => {
+      const orbit = computeReferenceOrbit('mandelbrot', { real: '-0.75', imag: '0.1' }, 50, 2, 64);
+
+      let x = 0;
+      let y = 0;
+      for (let n = 0; n < orbit.length; n++) {
+        expect(orbit.points[n * 2]).toBeCloseTo(x, 4);
+        expect(orbit.points[n * 2 + 1]).toBeCloseTo(y, 4);
+        [x, y] = [x * x - y * y - 0.75, 2 * x * y + 0.1];
+      }
+    });
+
+    it('should stop once the reference escapes', () => {
+      const orbit = computeReferenceOrbit('mandelbrot', { real: '1', imag: '1' }, 100, 2, 64);
+      expect(orbit.escaped).toBe(true);
+      expect(orbit.length).toBeLessThan(5);
+    });
+
+    it('should flip the imaginary axis for Burning Ship', () => {
+      const orbit = computeReferenceOrbit('burning-ship', { real: '0', imag: '0.5' }, 3, 2, 64);
+      expect(orbit.points[3]).toBeCloseTo(-0.5);
+    });
+
+    it('should only support quadratic escape-time fractals', () => {
+      expect(supportsPerturbation('mandelbrot')).toBe(true);
+      expect(supportsPerturbation('celtic')).toBe(true);
+      expect(supportsPerturbation('newton')).toBe(false);
+    });
+  });
+
+  describe('view math', () => {
+    it('should split the pixel scale into mantissa and exponent', () => {
+      const { mantissa, exponent } = splitPixelScale(1e100);
+      expect(mantissa).toBeGreaterThanOrEqual(1);
+      expect(mantissa).toBeLessThan(2);
+      expect(mantissa * Math.pow(2, exponent)).toBeCloseTo(1e-100, 110);
+    });
+
+    it('should grow precision with zoom depth', () => {
+      expect(getPrecisionBits(4)).toBe(66);
+      expect(getPrecisionBits(1e100)).toBeGreaterThan(332);
+    });
+
+    it('should pan in fixed point when deep zoom is on', () => {
+      const params = {
+        center: { real: -0.75, imag: 0.1 },
+        preciseCenter: { real: '-0.75', imag: '0.1' },
+        zoom: 1e80,
+        deepZoom: true
+      };
+      const moved = translateCenter(params, 1e-82, 0);
+      const bits = getPrecisionBits(params.zoom);
+      const step = FixedPoint.fromString(moved.preciseCenter!.real, bits).sub(FixedPoint.fromString('-0.75', bits));
+      expect(step.toNumber() / 1e-82).toBeCloseTo(1, 10);
+      expect(moved.preciseCenter?.imag).toBe('0.1');
+
+      const offset = getReferenceOffset(moved.preciseCenter!, params.preciseCenter, -270, 400);
+      expect(offset.real).toBeCloseTo(1e-82 * Math.pow(2, 270), 0);
+      expect(offset.imag).toBe(0);
+    });
+
+    it('should only move the double center without deep zoom', () => {
+      const moved = translateCenter({ center: { real: 0, imag: 0 }, zoom: 4 }, 0.5, -0.5);
+      expect(moved).toEqual({ center: { real: 0.5, imag: -0.5 } });
+    });
+  });
+
+  describe('validateFractalParams', () => {
+    it('should clamp zoom unless deep zoom is enabled', () => {
+      expect(validateFractalParams({ zoom: 1e50 }).zoom).toBe(MAX_ZOOM);
+      expect(validateFractalParams({ zoom: 1e50, deepZoom: true }).zoom).toBe(1e50);
+      expect(validateFractalParams({ zoom: 1e50, deepZoom: true, fractalType: 'newton' }).zoom).toBe(MAX_ZOOM);
+    });
+
+    it('should keep valid precise centers in deep zoom mode', () => {
+      const preciseCenter = { real: '-1.76877851023801', imag: '-0.00173889944794' };
+      expect(validateFractalParams({ deepZoom: true, preciseCenter }).preciseCenter).toEqual(preciseCenter);
+      expect(validateFractalParams({ deepZoom: true, preciseCenter: { real: 'x', imag: '0' } }).preciseCenter).toBeUndefined();
+      expect(validateFractalParams({ preciseCenter }).preciseCenter).toBeUndefined();
+    });
+  });
+});
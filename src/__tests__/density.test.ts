@@ -0,0 +1,76 @@
+import {
+  DEFAULT_DENSITY_SETTINGS,
+  accumulateOrbits,
+  getChannelLimits,
+  isInMainBulbs,
+  toneMap
+} from '@/lib/buddhabrot/density';
+import { DensitySettings, ViewportState } from '@/types/fractal';
+
+const view: ViewportState = {
+  center: { real: -0.5, imag: 0 },
+  zoom: 0.25,
+  width: 40,
+  height: 40,
+  aspectRatio: 1
+};
+
+// Deterministic generator for repeatable sampling
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+const sum = (histogram: Float32Array, channel: number) =>
+  histogram.reduce((total, value, i) => (i % 3 === channel ? total + value : total), 0);
+
+describe('Orbit density', () => {
+  it('should detect the main cardioid and period-2 bulb', () => {
+    expect(isInMainBulbs({ real: 0, imag: 0 })).toBe(true);
+    expect(isInMainBulbs({ real: -1, imag: 0.1 })).toBe(true);
+    expect(isInMainBulbs({ real: 0.3, imag: 0 })).toBe(false);
+    expect(isInMainBulbs({ real: -0.75, imag: 0.2 })).toBe(false);
+  });
+
+  it('should splat escaping orbits equally into every Buddhabrot channel', () => {
+    const histogram = new Float32Array(view.width * view.height * 3);
+    accumulateOrbits(histogram, view, DEFAULT_DENSITY_SETTINGS, 2000, seededRandom(1));
+
+    expect(sum(histogram, 0)).toBeGreaterThan(0);
+    expect(sum(histogram, 1)).toBe(sum(histogram, 0));
+    expect(sum(histogram, 2)).toBe(sum(histogram, 0));
+  });
+
+  it('should keep longer orbits out of the narrower Nebulabrot bands', () => {
+    const settings: DensitySettings = { ...DEFAULT_DENSITY_SETTINGS, mode: 'nebulabrot', bands: [500, 50, 5], minIterations: 0 };
+    expect(getChannelLimits(settings)).toEqual([500, 50, 5]);
+
+    const histogram = new Float32Array(view.width * view.height * 3);
+    accumulateOrbits(histogram, view, settings, 2000, seededRandom(2));
+    expect(sum(histogram, 0)).toBeGreaterThan(sum(histogram, 1));
+    expect(sum(histogram, 1)).toBeGreaterThan(sum(histogram, 2));
+  });
+
+  it('should only splat bounded orbits for the anti-Buddhabrot', () => {
+    const settings: DensitySettings = { ...DEFAULT_DENSITY_SETTINGS, mode: 'anti-buddhabrot', maxIterations: 50 };
+    const histogram = new Float32Array(view.width * view.height * 3);
+    // c = 0 stays at the origin; c = 2 + 2i escapes at once
+    const values = [0.5, 0.5, 1, 1];
+    accumulateOrbits(histogram, view, settings, 2, () => values.shift()!);
+
+    expect(sum(histogram, 0)).toBe(50);
+    // The origin sits 0.5 right of the center at 10 pixels per unit
+    const origin = (20 * view.width + 25) * 3;
+    expect(histogram[origin]).toBe(50);
+  });
+
+  it('should tone-map the brightest pixel to full intensity', () => {
+    const histogram = new Float32Array([4, 0, 1, 1, 0, 1]);
+    const pixels = new Uint8ClampedArray(8);
+    toneMap(histogram, { ...DEFAULT_DENSITY_SETTINGS, gamma: 2, exposure: 1 }, pixels);
+    expect(Array.from(pixels)).toEqual([255, 0, 255, 255, 128, 0, 255, 255]);
+  });
+});
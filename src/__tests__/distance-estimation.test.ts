@@ -0,0 +1,37 @@
+import {
+  DEFAULT_DISTANCE_ESTIMATION,
+  MAX_BOUNDARY_WIDTH,
+  MAX_GLOW,
+  MAX_LIGHT_HEIGHT,
+  validateDistanceEstimation
+} from '@/lib/coloring/distance-estimation';
+
+describe('Distance Estimation', () => {
+  it('should fill in the defaults', () => {
+    expect(validateDistanceEstimation({})).toEqual(DEFAULT_DISTANCE_ESTIMATION);
+  });
+
+  it('should keep settings in range', () => {
+    const settings = { boundary: 0, glow: 12, lighting: false, lightAngle: -2, lightHeight: 3 };
+    expect(validateDistanceEstimation(settings)).toEqual(settings);
+  });
+
+  it('should clamp widths and the light height', () => {
+    const settings = validateDistanceEstimation({ boundary: 100, glow: -5, lightHeight: 10 });
+    expect(settings.boundary).toBe(MAX_BOUNDARY_WIDTH);
+    expect(settings.glow).toBe(0);
+    expect(settings.lightHeight).toBe(MAX_LIGHT_HEIGHT);
+    expect(validateDistanceEstimation({ glow: 1000 }).glow).toBe(MAX_GLOW);
+  });
+
+  it('should replace non-finite numbers and non-boolean lighting', () => {
+    const settings = validateDistanceEstimation({
+      boundary: NaN,
+      glow: Infinity,
+      lightAngle: -Infinity,
+      lightHeight: NaN,
+      lighting: 'yes' as unknown as boolean
+    });
+    expect(settings).toEqual(DEFAULT_DISTANCE_ESTIMATION);
+  });
+});
@@ -0,0 +1,137 @@
+import { parseFormula } from '@/lib/formula/parser';
+import { compileFormula, formatDiagnostic } from '@/lib/formula/compiler';
+import { mapShaderErrors } from '@/lib/formula/glsl';
+import {
+  getCustomFormula,
+  getCustomFractalType,
+  registerCustomFormula,
+  unregisterCustomFormula
+} from '@/lib/formula/custom-fractal';
+import { buildFractalShader } from '@/lib/webgl/shader-builder';
+import { getFractalPresetByType, validateFractalParams } from '@/lib/fractal-presets-modular';
+import FractalLoader from '@/lib/fractals/loader';
+
+describe('Formula language', () => {
+  describe('parseFormula', () => {
+    it('should parse statements, operators and the modulus', () => {
+      const { program, diagnostics } = parseFormula({
+        name: 'test',
+        init: 'w = 0.5',
+        iterate: 'z = -z^2 + c*sin(z); w = w/2 // halve\n',
+        bailout: '|z| > 4 && !(re(w) == 0)'
+      });
+
+      expect(diagnostics).toEqual([]);
+      expect(program!.variables).toEqual(['z', 'c', 'w']);
+      expect(program!.iterate).toHaveLength(2);
+
+      // Unary minus applies to the power
+      const value = program!.iterate[0].value;
+      expect(value.kind === 'binary' && value.left).toMatchObject({ kind: 'unary', operator: '-' });
+      expect(program!.bailout).toMatchObject({ kind: 'logical', operator: '&&' });
+    });
+
+    it('should report errors with field, line and column', () => {
+      const { program, diagnostics } = parseFormula({ name: 'test', iterate: 'z = z^2 + c\nz = z * q' });
+      expect(program).toBeNull();
+      expect(diagnostics).toEqual([
+        { message: "Unknown variable 'q'", field: 'iterate', location: { line: 2, column: 9 } }
+      ]);
+      expect(formatDiagnostic(diagnostics[0])).toBe("iterate:2:9: Unknown variable 'q'");
+    });
+
+    it('should reject malformed and ill-typed formulas', () => {
+      const message = (iterate: string, bailout?: string) =>
+        parseFormula({ name: 'test', iterate, bailout }).diagnostics[0]?.message;
+
+      expect(message('z = (z + c')).toBe("Expected ')'");
+      expect(message('z = z $ c')).toBe("Unexpected character '$'");
+      expect(message('pi = z')).toBe("'pi' cannot be assigned");
+      expect(message('z = sin(z, c)')).toBe('sin() takes 1 argument, got 2');
+      expect(message('z = z > c')).toBe('Expected a number, not a condition');
+      expect(message('z = z^2 + c', 'abs(z)')).toBe('Expected a condition');
+      expect(message('')).toBe('The iteration needs at least one statement');
+    });
+  });
+
+  describe('compiled JavaScript', () => {
+    it('should match the built-in Mandelbrot iteration', () => {
+      const { javascript } = compileFormula({ name: 'test', iterate: 'z = z^2 + c' });
+      const mandelbrot = FractalLoader.getDefinition('mandelbrot');
+
+      expect(javascript!.iterate({ real: 0, imag: 0 }, 100, 2)).toBe(100);
+      expect(javascript!.iterate({ real: 1, imag: 1 }, 100, 2)).toBeCloseTo(
+        3 - Math.log2(Math.log2(10) * 0.5)
+      );
+
+      const z = { real: 0.3, imag: -0.2 };
+      const c = { real: -0.5, imag: 0.6 };
+      const expected = mandelbrot.formula(z, c);
+      expect(javascript!.formula(z, c).real).toBeCloseTo(expected.real, 12);
+      expect(javascript!.formula(z, c).imag).toBeCloseTo(expected.imag, 12);
+    });
+
+    it('should evaluate complex functions and custom bailouts', () => {
+      const { javascript } = compileFormula({
+        name: 'test',
+        init: 'z = exp(i*pi/2)',
+        iterate: 'z = z*2',
+        bailout: 'abs(z) >= 8'
+      });
+
+      // exp(iπ/2) = i doubles to modulus 8 after three steps
+      expect(javascript!.iterate({ real: 0, imag: 0 }, 50, 2)).toBe(3);
+      expect(javascript!.formula({ real: 1, imag: 0 }).real).toBe(2);
+    });
+  });
+
+  describe('GLSL', () => {
+    it('should tag statements and map compile errors back to them', () => {
+      const { shader } = compileFormula({ name: 'test', iterate: 'z = z^3 + c*sin(z)', bailout: 'norm(z) > 16' });
+      expect(shader!.step).toContain('complexPow(z, 3)');
+      expect(shader!.step).toContain('complexSin(z)');
+
+      const source = buildFractalShader({ ...FractalLoader.getDefinition('mandelbrot'), shader: shader! });
+      const lines = source.split('\n');
+      const stepLine = lines.findIndex(line => line.includes('/* formula:iterate:1:1 */')) + 1;
+      const bailoutLine = lines.findIndex(line => line.includes('/* formula:bailout:1:9 */')) + 1;
+      expect(bailoutLine).toBeGreaterThan(0);
+
+      const errors = mapShaderErrors(source, [
+        `ERROR: 0:${stepLine}: 'complexSin' : no matching overloaded function found\nERROR: 0:3: 'x' : syntax error\n`
+      ]);
+      expect(errors).toEqual([
+        {
+          message: "'complexSin' : no matching overloaded function found",
+          field: 'iterate',
+          location: { line: 1, column: 1 }
+        },
+        { message: "'x' : syntax error" }
+      ]);
+    });
+  });
+
+  describe('custom fractals', () => {
+    afterEach(() => unregisterCustomFormula(getCustomFractalType('My Cubic')));
+
+    it('should register like a built-in fractal', () => {
+      const result = registerCustomFormula({ name: 'My Cubic', iterate: 'z = z^3 + c' });
+      expect(result).toEqual({ success: true, fractalType: 'custom-my-cubic', errors: [] });
+
+      expect(FractalLoader.getAvailableTypes()).toContain('custom-my-cubic');
+      expect(getFractalPresetByType('custom-my-cubic')?.name).toBe('My Cubic');
+      expect(validateFractalParams({ fractalType: 'custom-my-cubic' }).fractalType).toBe('custom-my-cubic');
+      expect(getCustomFormula('custom-my-cubic')?.iterate).toBe('z = z^3 + c');
+
+      unregisterCustomFormula('custom-my-cubic');
+      expect(FractalLoader.getAvailableTypes()).not.toContain('custom-my-cubic');
+      expect(getFractalPresetByType('custom-my-cubic')).toBeUndefined();
+    });
+
+    it('should not register invalid formulas', () => {
+      expect(registerCustomFormula({ name: 'My Cubic', iterate: 'z = ' }).success).toBe(false);
+      expect(registerCustomFormula({ name: '  ', iterate: 'z = z' }).errors[0].message).toBe('The formula needs a name');
+      expect(FractalLoader.getAvailableTypes()).not.toContain('custom-my-cubic');
+    });
+  });
+});
@@ -1,4 +1,13 @@
-import { validateFractalParams, getFractalPreset, getRecommendedIterations } from '@/lib/fractal-presets-modular';
+import {
+  validateFractalParams,
+  getFractalPreset,
+  getRecommendedIterations,
+  getRecommendedPrecision,
+  getAutoPrecision,
+  MAX_ZOOM
+} from '@/lib/fractal-presets-modular';
+import { MAX_MULTIBROT_EXPONENT, complexPowReal } from '@/lib/fractals/multibrot';
+import { DEFAULT_PHOENIX_P } from '@/lib/fractals/phoenix';
 
 describe('Fractal Presets', () => {
   describe('validateFractalParams', () => {
@@ -24,9 +33,10 @@ describe('Fractal Presets', () => {
     it('should validate max iterations', () => {
       const validResult = validateFractalParams({ maxIterations: 500 });
       expect(validResult.maxIterations).toBe(500);
+      expect(validateFractalParams({ maxIterations: 2500000 }).maxIterations).toBe(2500000);
 
-      const invalidResult = validateFractalParams({ maxIterations: 200 as unknown as 50 | 100 | 500 | 1000 });
-      expect(invalidResult.maxIterations).toBe(100); // Should fallback to default
+      expect(validateFractalParams({ maxIterations: 5 }).maxIterations).toBe(100); // Should fallback to default
+      expect(validateFractalParams({ maxIterations: 1.5 }).maxIterations).toBe(100);
     });
 
     it('should validate complex center coordinates', () => {
@@ -67,6 +77,54 @@ describe('Fractal Presets', () => {
     });
   });
 
+  describe('Multibrot', () => {
+    it('should clamp the exponent', () => {
+      expect(validateFractalParams({ fractalType: 'multibrot', exponent: 2.5 }).exponent).toBe(2.5);
+      expect(validateFractalParams({ exponent: 100 }).exponent).toBe(MAX_MULTIBROT_EXPONENT);
+      expect(validateFractalParams({ exponent: NaN }).exponent).toBeUndefined();
+    });
+
+    it('should carry the exponent in its location presets', () => {
+      expect(getFractalPreset('Multibrot Set - Power 4')?.params.exponent).toBe(4);
+    });
+
+    it('should raise to real powers', () => {
+      const cube = complexPowReal({ real: 1, imag: 1 }, 3);
+      expect(cube.real).toBeCloseTo(-2, 12);
+      expect(cube.imag).toBeCloseTo(2, 12);
+      expect(complexPowReal({ real: 4, imag: 0 }, 0.5).real).toBeCloseTo(2, 12);
+      expect(complexPowReal({ real: 0, imag: 0 }, 2.5)).toEqual({ real: 0, imag: 0 });
+    });
+  });
+
+  describe('Fractal parameters', () => {
+    it('should fill in defaults from the schema', () => {
+      expect(validateFractalParams({ fractalType: 'phoenix' }).parameters).toEqual({ p: DEFAULT_PHOENIX_P });
+      expect(validateFractalParams({ fractalType: 'lyapunov' }).parameters?.sequence).toBe('AB');
+      expect(validateFractalParams({ fractalType: 'mandelbrot', parameters: { p: 0.1 } }).parameters).toBeUndefined();
+    });
+
+    it('should clamp and clean parameter values', () => {
+      expect(validateFractalParams({ fractalType: 'phoenix', parameters: { p: 3, q: 1 } }).parameters)
+        .toEqual({ p: 1 });
+      expect(validateFractalParams({ fractalType: 'lyapunov', parameters: { sequence: 'aab-x' } }).parameters?.sequence)
+        .toBe('AAB');
+      expect(validateFractalParams({ fractalType: 'lambda', parameters: { plane: 'other', lambda: { real: 9, imag: 0 } } })
+        .parameters).toEqual({ plane: 'parameter', lambda: { real: 4, imag: 0 } });
+    });
+
+    it('should round integer parameters', () => {
+      const parameters = { sequence: 'BBBBBBAAAAAA', warmup: 12.6 };
+      expect(validateFractalParams({ fractalType: 'lyapunov', parameters }).parameters)
+        .toMatchObject({ sequence: 'BBBBBBAAAAAA', warmup: 13 });
+    });
+
+    it('should reset parameters a location preset does not set', () => {
+      expect(getFractalPreset('Lambda Fractal - Douady Rabbit')?.params.parameters?.plane).toBe('dynamic');
+      expect(getFractalPreset('Lambda Fractal')?.params.parameters?.plane).toBe('parameter');
+    });
+  });
+
   describe('getFractalPreset', () => {
     it('should return correct preset for valid name', () => {
       const mandelbrotPreset = getFractalPreset('Mandelbrot Set');
@@ -109,4 +167,26 @@ describe('Fractal Presets', () => {
       expect(getRecommendedIterations(Infinity)).toBe(1000);
     });
   });
+
+  describe('getRecommendedPrecision', () => {
+    it('should switch to emulated double past the float32 limit', () => {
+      expect(getRecommendedPrecision(10, 'high')).toBe('highp');
+      expect(getRecommendedPrecision(5000, 'high')).toBe('mediump');
+      expect(getRecommendedPrecision(1e7, 'high')).toBe('emulated-double');
+      expect(getRecommendedPrecision(1e7, 'medium')).toBe('emulated-double');
+      expect(getRecommendedPrecision(1e7, 'low')).toBe('lowp');
+    });
+
+    it('should only upgrade highp automatically', () => {
+      expect(getAutoPrecision({ fractalType: 'mandelbrot', zoom: 1e7, precision: 'highp' })).toBe('emulated-double');
+      expect(getAutoPrecision({ fractalType: 'mandelbrot', zoom: 5000, precision: 'highp' })).toBe('highp');
+      expect(getAutoPrecision({ fractalType: 'mandelbrot', zoom: 1e7, precision: 'mediump' })).toBe('mediump');
+      expect(getAutoPrecision({ fractalType: 'newton', zoom: 1e7, precision: 'highp' })).toBe('highp');
+    });
+
+    it('should raise the zoom limit for emulated double', () => {
+      expect(validateFractalParams({ zoom: 1e10, precision: 'emulated-double' }).zoom).toBe(1e10);
+      expect(validateFractalParams({ zoom: 1e10, precision: 'highp' }).zoom).toBe(MAX_ZOOM);
+    });
+  });
 });
@@ -0,0 +1,105 @@
+import { crc32, createChunk, createTextChunk, filterRows, readPngText } from '@/lib/export/png';
+import {
+  createExportMetadata,
+  getJitterOffsets,
+  getTileView,
+  readExportMetadata,
+  validateExportSettings
+} from '@/lib/export/image-export';
+import { validateFractalParams } from '@/lib/fractal-presets-modular';
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+}
+
+describe('PNG encoding', () => {
+  it('should checksum chunks with the standard CRC-32', () => {
+    const iend = createChunk('IEND', new Uint8Array(0));
+    expect(Array.from(iend)).toEqual([0, 0, 0, 0, 73, 69, 78, 68, 0xae, 0x42, 0x60, 0x82]);
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should read back the text chunks of a PNG', () => {
+    const png = concat([
+      new Uint8Array(SIGNATURE),
+      createChunk('tEXt', new TextEncoder().encode('Software\0Fractal Studio')),
+      createTextChunk('Title', 'Zoom ∞ — Seahorse Valley'),
+      createChunk('IEND', new Uint8Array(0))
+    ]);
+
+    expect(readPngText(png)).toEqual({ Software: 'Fractal Studio', Title: 'Zoom ∞ — Seahorse Valley' });
+    expect(() => readPngText(new Uint8Array(16))).toThrow('Not a PNG file');
+  });
+
+  it('should sub-filter each row against the pixel to its left', () => {
+    const pixels = new Uint8Array([10, 20, 30, 255, 5, 25, 30, 255]);
+    const output = new Uint8Array(9);
+    filterRows(pixels, 2, 1, output);
+    expect(Array.from(output)).toEqual([1, 10, 20, 30, 255, 251, 5, 0, 0]);
+  });
+});
+
+describe('Image export', () => {
+  const params = { center: { real: -0.5, imag: 0.25 }, zoom: 0.5 };
+
+  it('should cover the image view with its tiles', () => {
+    const whole = getTileView(params, 400, 200, { x: 0, y: 0, width: 400, height: 200 });
+    expect(whole.center).toEqual(params.center);
+    expect(whole.zoom).toBe(0.5);
+
+    // The top-left quarter: 2 units tall, so 0.01 units per pixel
+    const tile = getTileView(params, 400, 200, { x: 0, y: 0, width: 200, height: 100 });
+    expect(tile.center.real).toBeCloseTo(-1.5);
+    expect(tile.center.imag).toBeCloseTo(0.75);
+    expect(tile.zoom).toBe(1);
+    expect(tile.aspectRatio).toBe(2);
+
+    const jittered = getTileView(params, 400, 200, { x: 0, y: 0, width: 200, height: 100 }, { x: 0.5, y: 0.5 });
+    expect(jittered.center.real - tile.center.real).toBeCloseTo(0.005);
+    expect(jittered.center.imag - tile.center.imag).toBeCloseTo(-0.005);
+  });
+
+  it('should place deep zoom tiles from the precise center', () => {
+    const deep = {
+      center: { real: -0.75, imag: 0.1 },
+      preciseCenter: { real: '-0.75000000000000000000000000001', imag: '0.1' },
+      zoom: 1e20,
+      deepZoom: true
+    };
+    expect(getTileView(deep, 400, 200, { x: 0, y: 0, width: 400, height: 200 }).preciseCenter).toEqual(deep.preciseCenter);
+
+    // 100 pixels of 5e-23 left of and 50 above the center
+    const tile = getTileView(deep, 400, 200, { x: 0, y: 0, width: 200, height: 100 });
+    expect(tile.preciseCenter!.real.startsWith('-0.75000000000000000000500000001')).toBe(true);
+    expect(tile.preciseCenter!.imag.startsWith('0.1000000000000000000025')).toBe(true);
+    expect(tile.zoom).toBe(2e20);
+  });
+
+  it('should place one jittered sample in each sub-pixel cell', () => {
+    expect(getJitterOffsets(1)).toEqual([{ x: 0, y: 0 }]);
+
+    const offsets = getJitterOffsets(4, () => 0.5);
+    expect(offsets).toHaveLength(16);
+    expect(offsets[0]).toEqual({ x: -0.375, y: -0.375 });
+    expect(offsets[15]).toEqual({ x: 0.375, y: 0.375 });
+  });
+
+  it('should clamp sizes and supersampling', () => {
+    expect(validateExportSettings({ width: 100000, height: 0.2, supersampling: 5 }))
+      .toEqual({ width: 32768, height: 1, supersampling: 1 });
+  });
+
+  it('should round-trip the parameters through the metadata', () => {
+    const exported = validateFractalParams({ fractalType: 'julia', juliaConstant: { real: -0.8, imag: 0.156 }, zoom: 3 });
+    expect(readExportMetadata(createExportMetadata(exported))).toEqual(exported);
+    expect(readExportMetadata({ FractalParams: 'not json' })).toBeNull();
+    expect(readExportMetadata({})).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  MAX_HISTORY_ENTRIES,
+  MERGE_WINDOW,
+  createHistory,
+  createPanEvent,
+  createParamUpdateEvent,
+  createPresetChangeEvent,
+  createZoomEvent,
+  describeEvent,
+  getCurrentParams,
+  pushHistory,
+  redo,
+  setThumbnail,
+  undo
+} from '@/lib/history/navigation-history';
+import { validateFractalParams } from '@/lib/fractal-presets-modular';
+import { FractalParams } from '@/types/fractal';
+
+const start = validateFractalParams({ center: { real: -0.5, imag: 0 }, zoom: 1 });
+
+const zoomed = (params: FractalParams, factor: number) => ({ ...params, zoom: params.zoom * factor });
+const panned = (params: FractalParams, real: number) => ({ ...params, center: { real: params.center.real + real, imag: 0 } });
+
+describe('Navigation history', () => {
+  it('should undo and redo views, dropping redo entries on a new step', () => {
+    let history = createHistory(start);
+    const first = zoomed(start, 2);
+    history = pushHistory(history, first, createZoomEvent(start, first, 0));
+    const second = panned(first, 0.1);
+    history = pushHistory(history, second, createPanEvent(first, second, 1000));
+
+    history = undo(history);
+    expect(getCurrentParams(history)).toBe(first);
+    history = undo(undo(history));
+    expect(getCurrentParams(history)).toBe(start);
+    history = redo(history);
+    expect(getCurrentParams(history)).toBe(first);
+
+    const other = panned(first, -0.2);
+    history = pushHistory(history, other, createPanEvent(first, other, 2000));
+    expect(history.entries.map(entry => entry.params)).toEqual([start, first, other]);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('should merge a continuous gesture into one entry', () => {
+    let history = createHistory(start);
+    let params = start;
+    for (let k = 0; k < 10; k++) {
+      const next = zoomed(params, 1.1);
+      history = pushHistory(history, next, createZoomEvent(params, next, k * 50));
+      params = next;
+    }
+
+    expect(history.entries).toHaveLength(2);
+    const event = history.entries[1].event!;
+    expect(event.type === 'ZOOM' && event.zoomFactor).toBeCloseTo(Math.pow(1.1, 10));
+    expect(describeEvent(event)).toBe('Zoom in ×2.6');
+
+    // A pause ends the gesture, and other kinds of event never merge
+    const later = zoomed(params, 2);
+    history = pushHistory(history, later, createZoomEvent(params, later, 450 + MERGE_WINDOW + 1));
+    const panStep = panned(later, 1);
+    history = pushHistory(history, panStep, createPanEvent(later, panStep, 2000));
+    expect(history.entries).toHaveLength(4);
+  });
+
+  it('should only merge updates of the same parameter', () => {
+    let history = createHistory(start);
+    const iterations = { ...start, maxIterations: 500 as const };
+    history = pushHistory(history, iterations, createParamUpdateEvent(start, iterations, 'maxIterations', 0));
+    const palette = { ...iterations, colorPalette: 'fire' };
+    history = pushHistory(history, palette, createParamUpdateEvent(iterations, palette, 'colorPalette', 10));
+    const preset = validateFractalParams({ fractalType: 'julia' });
+    history = pushHistory(history, preset, createPresetChangeEvent('Julia Set', 20));
+
+    expect(history.entries.map(entry => describeEvent(entry.event)))
+      .toEqual(['Start', 'Change maxIterations', 'Change colorPalette', 'Julia Set']);
+  });
+
+  it('should ignore steps that change nothing and cap its length', () => {
+    let history = createHistory(start);
+    expect(pushHistory(history, { ...start }, createPanEvent(start, start, 0))).toBe(history);
+
+    let params = start;
+    for (let k = 1; k <= MAX_HISTORY_ENTRIES + 10; k++) {
+      const next = panned(params, 1);
+      history = pushHistory(history, next, createPanEvent(params, next, k * 1000));
+      params = next;
+    }
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.index).toBe(MAX_HISTORY_ENTRIES - 1);
+    expect(getCurrentParams(history)).toBe(params);
+  });
+
+  it('should attach thumbnails by entry', () => {
+    const history = createHistory(start);
+    expect(setThumbnail(history, 0, 'data:image/jpeg;base64,').entries[0].thumbnail).toBe('data:image/jpeg;base64,');
+    expect(setThumbnail(history, 5, 'data:')).toBe(history);
+  });
+});
@@ -0,0 +1,50 @@
+import { DEFAULT_ORBIT_TRAP, validateOrbitTrap } from '@/lib/coloring/orbit-traps';
+import { OrbitTrapParams } from '@/types/fractal';
+
+describe('Orbit Traps', () => {
+  it('should fill in the defaults', () => {
+    expect(validateOrbitTrap({})).toEqual(DEFAULT_ORBIT_TRAP);
+  });
+
+  it('should keep valid traps', () => {
+    const trap: OrbitTrapParams = {
+      shape: 'cross',
+      output: 'angle',
+      center: { real: -0.5, imag: 0.25 },
+      angle: -1,
+      radius: 0.3,
+      falloff: 0.05
+    };
+    expect(validateOrbitTrap(trap)).toEqual(trap);
+  });
+
+  it('should reject unknown shapes and outputs', () => {
+    const trap = validateOrbitTrap({
+      shape: 'star' as OrbitTrapParams['shape'],
+      output: 'color' as OrbitTrapParams['output']
+    });
+    expect(trap.shape).toBe(DEFAULT_ORBIT_TRAP.shape);
+    expect(trap.output).toBe(DEFAULT_ORBIT_TRAP.output);
+  });
+
+  it('should replace non-finite and non-positive numbers', () => {
+    const trap = validateOrbitTrap({
+      center: { real: NaN, imag: 0 },
+      angle: Infinity,
+      radius: 0,
+      falloff: -1
+    });
+    expect(trap.center).toEqual(DEFAULT_ORBIT_TRAP.center);
+    expect(trap.angle).toBe(DEFAULT_ORBIT_TRAP.angle);
+    expect(trap.radius).toBe(DEFAULT_ORBIT_TRAP.radius);
+    expect(trap.falloff).toBe(DEFAULT_ORBIT_TRAP.falloff);
+    expect(validateOrbitTrap({ radius: Infinity }).radius).toBe(DEFAULT_ORBIT_TRAP.radius);
+  });
+
+  it('should only keep image data URLs', () => {
+    const image = 'data:image/png;base64,iVBORw0KGgo=';
+    expect(validateOrbitTrap({ shape: 'image', image }).image).toBe(image);
+    expect(validateOrbitTrap({ shape: 'image', image: 'https://example.com/trap.png' }).image).toBeUndefined();
+    expect(validateOrbitTrap({ shape: 'image', image: 'data:text/html,<script></script>' }).image).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { createCustomPalette } from '@/lib/color-palettes';
+import { exportPalette, getPaletteFormat, importPaletteFile } from '@/lib/palettes/palette-formats';
+
+describe('Palette formats', () => {
+  const sunset = createCustomPalette('Sunset', ['#000000', '#ff8000', '#ffffff'], 'linear', [0, 0.25, 1]);
+
+  it('should recognize palette files by extension', () => {
+    expect(getPaletteFormat('Fire.MAP')).toBe('map');
+    expect(getPaletteFormat('gradients/blues.cpt')).toBe('cpt');
+    expect(getPaletteFormat('view.png')).toBeNull();
+    expect(() => importPaletteFile('', 'view.png')).toThrow('not a .map, .ugr, .ggr or .cpt palette');
+  });
+
+  it('should read Fractint maps, leaving out colors interpolation recreates', () => {
+    const lines = Array.from({ length: 256 }, (_, i) => `${i} ${255 - i} 0 ; ramp`);
+    const [palette] = importPaletteFile(lines.join('\n'), 'ramp.map');
+
+    expect(palette.name).toBe('ramp');
+    expect(palette.colors).toEqual(['#00ff00', '#ff0000']);
+    expect(palette.stops).toEqual([0, 1]);
+  });
+
+  it('should read UltraFractal gradients as cyclic BGR colors', () => {
+    const ugr = `first {
+gradient:
+  title="Ember" smooth=no
+  index=0 color=255
+  index=200 color=16711680
+}
+second {
+gradient:
+  title="Sea" smooth=yes index=100 color=65280 index=300 color=16777215
+}`;
+    const palettes = importPaletteFile(ugr, 'library.ugr');
+
+    expect(palettes.map(palette => palette.name)).toEqual(['Ember', 'Sea']);
+    expect(palettes[0]).toMatchObject({ type: 'cyclic', colors: ['#ff0000', '#0000ff'], stops: [0, 0.5] });
+    expect(palettes[1].stops).toEqual([0.25, 0.75]);
+  });
+
+  it('should read GIMP segments with hard edges and HSV coloring', () => {
+    const ggr = `GIMP Gradient
+Name: Split
+2
+0.000000 0.250000 0.500000 1 0 0 1 1 1 0 1 0 1
+0.500000 0.750000 1.000000 0 0 1 1 1 1 1 1 0 0`;
+    const [palette] = importPaletteFile(ggr, 'split.ggr');
+
+    expect(palette).toMatchObject({
+      name: 'Split',
+      colors: ['#ff0000', '#ffff00', '#0000ff', '#ffffff'],
+      stops: [0, 0.5, 0.5, 1],
+      interpolation: 'hsl'
+    });
+  });
+
+  it('should read GMT tables in slice units and the HSV model', () => {
+    const cpt = `# COLOR_MODEL = HSV
+-10 0-1-1 0 120-1-1
+0 120-1-1 10 240 1 1
+B 0-0-0
+F 0-0-1`;
+    const [palette] = importPaletteFile(cpt, 'hues.cpt');
+
+    expect(palette).toMatchObject({
+      colors: ['#ff0000', '#00ff00', '#0000ff'],
+      stops: [0, 0.5, 1],
+      interpolation: 'hsl'
+    });
+  });
+
+  it.each(['ugr', 'ggr', 'cpt'] as const)('should read back its own %s files', format => {
+    const [palette] = importPaletteFile(exportPalette(sunset, format), `Sunset.${format}`);
+
+    expect(palette.colors).toEqual(sunset.colors);
+    expect(palette.stops).toEqual(format === 'ugr' ? [0, 0.25, 399 / 400] : sunset.stops);
+  });
+
+  it('should write 256 colors to Fractint maps', () => {
+    const map = exportPalette(sunset, 'map').trim().split('\n');
+
+    expect(map).toHaveLength(256);
+    expect(map[0]).toBe('0 0 0');
+    expect(map[255]).toBe('255 255 255');
+  });
+
+  it('should sample gradients in color spaces a format lacks', () => {
+    const oklab = { ...sunset, interpolation: 'oklab' as const };
+    const [palette] = importPaletteFile(exportPalette(oklab, 'ggr'), 'Sunset.ggr');
+
+    expect(palette.colors.length).toBeGreaterThan(3);
+    expect(palette.interpolation).toBeUndefined();
+  });
+});
@@ -0,0 +1,22 @@
+import { DEFAULT_PALETTE_TRANSFORM, transformPalettePosition } from '@/lib/coloring/palette-transform';
+
+describe('Palette Transform', () => {
+  it('should leave positions unchanged by default', () => {
+    [0, 0.3, 1].forEach(t => expect(transformPalettePosition(t, DEFAULT_PALETTE_TRANSFORM, 100)).toBeCloseTo(t));
+  });
+
+  it('should repeat, shift, reverse and cycle the palette', () => {
+    const transform = { ...DEFAULT_PALETTE_TRANSFORM, cycles: 4 };
+    expect(transformPalettePosition(0.3, transform, 100)).toBeCloseTo(0.2);
+    expect(transformPalettePosition(0.5, transform, 100)).toBe(1);
+    expect(transformPalettePosition(0.1, { ...transform, offset: 0.5 }, 100)).toBeCloseTo(0.9);
+    expect(transformPalettePosition(0.1, { ...transform, reverse: true }, 100)).toBeCloseTo(0.6);
+    expect(transformPalettePosition(0.1, { ...transform, speed: 0.25 }, 100, 2)).toBeCloseTo(0.9);
+  });
+
+  it('should spend more of the palette on low iteration counts with logarithmic density', () => {
+    const transform = { ...DEFAULT_PALETTE_TRANSFORM, density: 'logarithmic' as const };
+    expect(transformPalettePosition(0.1, transform, 1000)).toBeCloseTo(Math.log(101) / Math.log(1001));
+    expect(transformPalettePosition(1, transform, 1000)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,42 @@
+import { MAX_PERIODICITY_EPSILON, PeriodicityChecker, getPeriodicityEpsilon } from '@/lib/fractals/periodicity';
+import { Complex } from '@/types/fractal';
+
+// Iterations of z² + c until the checker finds a cycle or the orbit escapes
+function detect(checker: PeriodicityChecker, c: Complex, maxIterations = 1000): number {
+  checker.reset();
+  let z: Complex = { real: 0, imag: 0 };
+  for (let i = 0; i < maxIterations; i++) {
+    z = { real: z.real * z.real - z.imag * z.imag + c.real, imag: 2 * z.real * z.imag + c.imag };
+    if (z.real * z.real + z.imag * z.imag > 4) return i + 1;
+    if (checker.check(z)) return i + 1;
+  }
+  return maxIterations;
+}
+
+describe('Periodicity Checking', () => {
+  it('should find the period of attracting cycles', () => {
+    const checker = new PeriodicityChecker(1e-9);
+    expect(detect(checker, { real: 0, imag: 0 })).toBeLessThan(5);
+    expect(checker.period).toBe(1);
+
+    detect(checker, { real: -1, imag: 0 });
+    expect(checker.period).toBe(2);
+
+    // The main cardioid converges slowly towards its fixed point
+    expect(detect(checker, { real: 0.2, imag: 0.3 })).toBeLessThan(1000);
+    expect(checker.period).toBe(1);
+  });
+
+  it('should not stop orbits that escape', () => {
+    const checker = new PeriodicityChecker(1e-9);
+    detect(checker, { real: 0.3, imag: 0 });
+    expect(checker.period).toBe(0);
+    detect(checker, { real: -0.75, imag: 0.1 });
+    expect(checker.period).toBe(0);
+  });
+
+  it('should shrink the tolerance below a pixel as the view zooms in', () => {
+    expect(getPeriodicityEpsilon(1, 100)).toBe(MAX_PERIODICITY_EPSILON);
+    expect(getPeriodicityEpsilon(1e6, 1000)).toBeCloseTo(1e-11);
+  });
+});
@@ -0,0 +1,59 @@
+import { evaluatePolynomial, findRoots, polynomialFromRoots, trimCoefficients } from '@/lib/fractals/polynomial';
+import { DEFAULT_NEWTON_PARAMS } from '@/lib/fractals/newton';
+import { validateFractalParams } from '@/lib/fractal-presets-modular';
+import { Complex } from '@/types/fractal';
+
+const sortRoots = (roots: Complex[]) =>
+  [...roots].sort((a, b) => a.real - b.real || a.imag - b.imag);
+
+describe('Polynomials', () => {
+  it('should evaluate values and derivatives', () => {
+    // 2 + 3z + z^2 at z = i: 1 + 3i, derivative 3 + 2i
+    const coefficients = [{ real: 2, imag: 0 }, { real: 3, imag: 0 }, { real: 1, imag: 0 }];
+    expect(evaluatePolynomial(coefficients, { real: 0, imag: 1 })).toEqual({
+      value: { real: 1, imag: 3 },
+      derivative: { real: 3, imag: 2 }
+    });
+  });
+
+  it('should expand roots into coefficients', () => {
+    const coefficients = polynomialFromRoots([{ real: 1, imag: 0 }, { real: -2, imag: 0 }]);
+    expect(coefficients).toEqual([{ real: -2, imag: 0 }, { real: 1, imag: 0 }, { real: 1, imag: 0 }]);
+  });
+
+  it('should find the roots of unity with Durand–Kerner', () => {
+    const roots = sortRoots(findRoots(DEFAULT_NEWTON_PARAMS.coefficients));
+    expect(roots).toHaveLength(3);
+    expect(roots[0].real).toBeCloseTo(-0.5, 10);
+    expect(roots[0].imag).toBeCloseTo(-Math.sqrt(3) / 2, 10);
+    expect(roots[2].real).toBeCloseTo(1, 10);
+    expect(roots[2].imag).toBeCloseTo(0, 10);
+  });
+
+  it('should recover complex roots of a degree 8 polynomial', () => {
+    const expected = Array.from({ length: 8 }, (_, k) => ({ real: k - 3.5, imag: (k % 3) - 1 }));
+    const roots = sortRoots(findRoots(polynomialFromRoots(expected)));
+    sortRoots(expected).forEach((root, k) => {
+      expect(roots[k].real).toBeCloseTo(root.real, 6);
+      expect(roots[k].imag).toBeCloseTo(root.imag, 6);
+    });
+  });
+
+  it('should ignore zero leading coefficients', () => {
+    const coefficients = [{ real: -4, imag: 0 }, { real: 2, imag: 0 }, { real: 0, imag: 0 }];
+    expect(trimCoefficients(coefficients)).toHaveLength(2);
+    expect(findRoots(coefficients)[0].real).toBeCloseTo(2, 12);
+    expect(findRoots([{ real: 1, imag: 0 }])).toEqual([]);
+  });
+
+  it('should validate Newton parameters', () => {
+    const newton = { ...DEFAULT_NEWTON_PARAMS, relaxation: 5 };
+    expect(validateFractalParams({ fractalType: 'newton', newton }).newton?.relaxation).toBe(2);
+
+    const constant = { ...DEFAULT_NEWTON_PARAMS, coefficients: [{ real: 1, imag: 0 }, { real: 0, imag: 0 }] };
+    expect(validateFractalParams({ fractalType: 'newton', newton: constant }).newton).toBeUndefined();
+
+    const tooLong = { ...DEFAULT_NEWTON_PARAMS, coefficients: Array(10).fill({ real: 1, imag: 0 }) };
+    expect(validateFractalParams({ fractalType: 'newton', newton: tooLong }).newton).toBeUndefined();
+  });
+});
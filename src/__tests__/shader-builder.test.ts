@@ -0,0 +1,176 @@
+import {
+  buildColorizeShader,
+  buildFractalShader,
+  glslFloat,
+  supportsProgressiveIteration
+} from '@/lib/webgl/shader-builder';
+import { FractalDefinition } from '@/lib/fractals/base';
+import FractalLoader from '@/lib/fractals/loader';
+
+describe('Shader Builder', () => {
+  it('should build a shader for every registered fractal', () => {
+    FractalLoader.getAllDefinitions().forEach(definition => {
+      const source = buildFractalShader(definition);
+      expect(source.startsWith('#version 300 es')).toBe(true);
+      expect(source).toContain('void main()');
+      expect(source).toContain(definition.shader.evaluate ? 'float evaluate(vec2 coord)' : 'float iterate(vec2 coord)');
+    });
+  });
+
+  it('should place the definition snippets in the iteration loop', () => {
+    const source = buildFractalShader(FractalLoader.getDefinition('phoenix'));
+    expect(source).toContain('vec2 zPrev = vec2(0.0);');
+    expect(source).toContain('complexSquare(z) + c + u_p * zPrev');
+    expect(source).toContain('color.r *= 1.2;');
+  });
+
+  it('should declare uniforms for the parameter schema', () => {
+    expect(buildFractalShader(FractalLoader.getDefinition('phoenix'))).toContain('uniform float u_p;');
+    const lyapunov = buildFractalShader(FractalLoader.getDefinition('lyapunov'));
+    expect(lyapunov).toContain('uniform int u_sequence[32];');
+    expect(lyapunov).toContain('uniform int u_sequenceLength;');
+  });
+
+  it('should normalize smooth coloring by the degree', () => {
+    expect(buildFractalShader(FractalLoader.getDefinition('mandelbrot')))
+      .toContain('log2(log2(zMagnitudeSquared) * 0.5)');
+    expect(buildFractalShader(FractalLoader.getDefinition('multibrot')))
+      .toContain('log(log2(zMagnitudeSquared) * 0.5) / log(u_exponent)');
+  });
+
+  it('should build double-single shaders only where the definition provides them', () => {
+    const source = buildFractalShader(FractalLoader.getDefinition('mandelbrot'), { emulatedDouble: true });
+    expect(source).toContain('uniform float u_dsGuard;');
+    expect(source).toContain('float iterate(vec4 coord)');
+    expect(() => buildFractalShader(FractalLoader.getDefinition('newton'), { emulatedDouble: true }))
+      .toThrow('no emulated-double shader');
+  });
+
+  it('should track orbit traps in every escape-time loop', () => {
+    FractalLoader.getAllDefinitions().forEach(definition => {
+      const source = buildFractalShader(definition, { coloring: 'orbit-trap' });
+      const escapeTime = !definition.shader.evaluate;
+      expect(source.includes('updateTrap(z, i + 1);')).toBe(escapeTime);
+      expect(source.includes('float t = getTrapPosition();')).toBe(escapeTime);
+    });
+
+    const emulated = buildFractalShader(FractalLoader.getDefinition('mandelbrot'), { emulatedDouble: true, coloring: 'orbit-trap' });
+    expect(emulated).toContain('updateTrap(vec2(z.x, z.z), i + 1);');
+    expect(buildFractalShader(FractalLoader.getDefinition('mandelbrot'))).not.toContain('updateTrap');
+  });
+
+  it('should track the derivative only for distance estimation on fractals that define it', () => {
+    FractalLoader.getAllDefinitions().forEach(definition => {
+      const source = buildFractalShader(definition, { coloring: 'distance-estimation' });
+      const derivative = !!definition.shader.derivative;
+      expect(source.includes('vec2 w = z;')).toBe(derivative);
+      expect(source.includes('escapeDz = dz;')).toBe(derivative);
+      expect(source.includes('return shadeDistance(color);')).toBe(derivative);
+    });
+
+    const julia = buildFractalShader(FractalLoader.getDefinition('julia'), { coloring: 'distance-estimation' });
+    expect(julia).toContain('vec2 dz = vec2(1.0, 0.0);');
+    expect(julia).toContain('zMagnitudeSquared > 1000.0 * 1000.0');
+
+    const emulated = buildFractalShader(FractalLoader.getDefinition('mandelbrot'), { emulatedDouble: true, coloring: 'distance-estimation' });
+    expect(emulated).toContain('vec2 w = vec2(z.x, z.z);');
+    expect(emulated).toContain('escapeZ = vec2(z.x, z.z);');
+  });
+
+  it('should write iteration counts and orbit state for the colorize pass', () => {
+    const mandelbrot = FractalLoader.getDefinition('mandelbrot');
+    const state = buildFractalShader(mandelbrot, { output: 'state' });
+    expect(state).toContain('layout(location = 1) out vec4 fragState;');
+    expect(state).toContain('fragColor = vec4(iteration, vec3(interiorPosition, cyclePeriod > 0 ? 1.0 : 0.0, 0.0));');
+    expect(buildFractalShader(mandelbrot, { emulatedDouble: true, output: 'state', coloring: 'distance-estimation' }))
+      .toContain('fragState = vec4(escapeZ, escapeDz);');
+
+    // Evaluated fractals color in a single pass
+    expect(buildFractalShader(FractalLoader.getDefinition('newton'), { output: 'state' })).not.toContain('fragState');
+
+    const colorize = buildColorizeShader(mandelbrot);
+    expect(colorize).toContain('float t = getPalettePosition(iteration);');
+    expect(colorize).toContain(mandelbrot.shader.color);
+
+    const traps = buildColorizeShader(mandelbrot, 'orbit-trap');
+    expect(traps).toContain('trapHit = state1.w > 0.5;');
+    expect(traps).toContain('float t = getTrapPosition();');
+  });
+
+  it('should track the interior mode in the iteration loop', () => {
+    const phoenix = FractalLoader.getDefinition('phoenix');
+    const period = buildFractalShader(phoenix, { interior: 'period' });
+    expect(period).toContain('updateCycle(z);');
+    expect(period).toContain('interiorPosition = cyclePeriod > 0');
+    expect(period).toContain('return getInteriorColor();');
+
+    const average = buildFractalShader(phoenix, { emulatedDouble: true, interior: 'orbit-average' });
+    expect(average).toContain('orbitSum += length(vec2(z.x, z.z));');
+
+    // The distance estimate needs the derivative, and orbit traps color the interior
+    expect(buildFractalShader(phoenix, { interior: 'distance' })).not.toContain('interiorPosition = getInteriorDistance');
+    expect(buildFractalShader(FractalLoader.getDefinition('mandelbrot'), { interior: 'distance' }))
+      .toContain('interiorPosition = getInteriorDistance(dz);');
+    expect(buildFractalShader(phoenix, { interior: 'angle', coloring: 'orbit-trap' })).not.toContain('interiorPosition = atan');
+  });
+
+  it('should stop orbits caught in a cycle when periodicity checking is on', () => {
+    const mandelbrot = FractalLoader.getDefinition('mandelbrot');
+    const checked = buildFractalShader(mandelbrot, { periodicity: true });
+    expect(checked).toContain('updateCycle(z);');
+    expect(checked).toContain('if (cyclePeriod > 0) break;');
+    expect(buildFractalShader(mandelbrot)).not.toContain('if (cyclePeriod > 0) break;');
+
+    // The period mode feeds the detection once; modes reading the final orbit iterate to the end
+    const period = buildFractalShader(mandelbrot, { periodicity: true, interior: 'period' });
+    expect(period.match(/updateCycle\(z\);/g)).toHaveLength(1);
+    expect(buildFractalShader(mandelbrot, { periodicity: true, interior: 'magnitude' })).not.toContain('if (cyclePeriod > 0) break;');
+
+    // Phoenix carries its previous z, so a repeated z does not close a cycle
+    const phoenix = buildFractalShader(FractalLoader.getDefinition('phoenix'), { periodicity: true });
+    expect(phoenix).not.toContain('updateCycle(z);');
+    expect(phoenix).not.toContain('if (cyclePeriod > 0) break;');
+  });
+
+  it('should resume orbits from the previous pass when iterating progressively', () => {
+    const mandelbrot = FractalLoader.getDefinition('mandelbrot');
+    const single = buildFractalShader(mandelbrot, { output: 'state' });
+    expect(single).toContain('for (int i = 0; i < u_maxIterations; i++)');
+    expect(single).not.toContain('fragCarry0');
+
+    const progressive = buildFractalShader(mandelbrot, { output: 'state', progressive: true });
+    expect(progressive).toContain('for (int i = u_iterationStart; i < u_iterationEnd; i++)');
+    expect(progressive).toContain('fragCarry1');
+
+    // Phoenix carries its previous z, which only fits beside a float z
+    const phoenix = FractalLoader.getDefinition('phoenix');
+    expect(buildFractalShader(phoenix, { output: 'state', progressive: true })).toContain('zPrev = carry1.xy;');
+    expect(supportsProgressiveIteration(phoenix)).toBe(true);
+    expect(supportsProgressiveIteration(phoenix, true)).toBe(false);
+    expect(buildFractalShader(phoenix, { output: 'state', progressive: true, emulatedDouble: true }))
+      .not.toContain('u_iterationStart');
+    expect(supportsProgressiveIteration(FractalLoader.getDefinition('newton'))).toBe(false);
+  });
+
+  it('should look up every palette color through the palette transform', () => {
+    FractalLoader.getAllDefinitions().forEach(definition => {
+      const source = buildFractalShader(definition, { coloring: 'orbit-trap' });
+      expect(source).toContain('vec3 samplePalette(float t)');
+      expect(source).toContain('vec3 color = samplePalette(t);');
+      expect(source).not.toContain('texture(u_colorPalette, vec2(t, 0.5))');
+    });
+    expect(buildColorizeShader(FractalLoader.getDefinition('julia'))).toContain('color *= paletteWobble(');
+  });
+
+  it('should reject definitions without a step or evaluate snippet', () => {
+    const definition = { ...FractalLoader.getDefinition('mandelbrot'), shader: {} } as FractalDefinition;
+    expect(() => buildFractalShader(definition)).toThrow('needs either a step or an evaluate');
+  });
+
+  it('should format GLSL float literals', () => {
+    expect(glslFloat(2)).toBe('2.0');
+    expect(glslFloat(-0.5)).toBe('-0.5');
+    expect(glslFloat(1e-7)).toBe('1e-7');
+    expect(() => glslFloat(NaN)).toThrow();
+  });
+});
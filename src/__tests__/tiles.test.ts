@@ -0,0 +1,30 @@
+import { colorizeTile, createTiles, getPalettePosition } from '@/lib/cpu/tiles';
+
+describe('CPU tiles', () => {
+  it('should cover the viewport with tiles, center first', () => {
+    const tiles = createTiles(300, 200, 128);
+    expect(tiles).toHaveLength(6);
+    expect(tiles.reduce((area, tile) => area + tile.width * tile.height, 0)).toBe(300 * 200);
+    expect(tiles[0]).toEqual({ x: 128, y: 0, width: 128, height: 128 });
+    expect(tiles.find(tile => tile.x === 256 && tile.y === 0)).toEqual({ x: 256, y: 0, width: 44, height: 128 });
+  });
+
+  it('should map worker results to palette positions', () => {
+    const params = { fractalType: 'mandelbrot' as const, maxIterations: 100 as const };
+    expect(getPalettePosition(25, params)).toBe(0.25);
+    expect(getPalettePosition(100, params)).toBe(-1);
+    expect(getPalettePosition(0, { ...params, fractalType: 'lyapunov' })).toBe(0.5);
+  });
+
+  it('should fill coarse blocks with their sample', () => {
+    // Two-entry palette: red then blue
+    const palette = new Uint8Array([255, 0, 0, 255, 0, 0, 255, 255]);
+    const pixels = new Uint8ClampedArray(3 * 2 * 4);
+    const tile = { x: 0, y: 0, width: 3, height: 2 };
+    colorizeTile(new Float32Array([10, 80]), 2, tile, 2, { fractalType: 'mandelbrot', maxIterations: 100 }, palette, pixels);
+
+    const red = [255, 0, 0, 255];
+    const blue = [0, 0, 255, 255];
+    expect(Array.from(pixels)).toEqual([...red, ...red, ...blue, ...red, ...red, ...blue]);
+  });
+});
@@ -0,0 +1,133 @@
+import { VIEW_URL_VERSION, decodeViewUrl, encodeViewUrl } from '@/lib/view-url';
+import { validateFractalParams } from '@/lib/fractal-presets-modular';
+import { getCustomFormula, registerCustomFormula, unregisterCustomFormula } from '@/lib/formula/custom-fractal';
+
+describe('View URLs', () => {
+  it('should round-trip a view exactly', () => {
+    const params = validateFractalParams({
+      fractalType: 'julia',
+      center: { real: -0.7436438870371587, imag: 0.13182590420531198 },
+      zoom: 12345.678901234567,
+      maxIterations: 500,
+      escapeRadius: 4,
+      colorPalette: 'fire',
+      juliaConstant: { real: -0.8, imag: 0.156 }
+    });
+
+    expect(decodeViewUrl(encodeViewUrl(params))).toEqual(params);
+  });
+
+  it('should round-trip schema parameters and Newton polynomials', () => {
+    const lambda = validateFractalParams({
+      fractalType: 'lambda',
+      parameters: { plane: 'dynamic', lambda: { real: 2.5532, imag: -0.9593 } }
+    });
+    expect(decodeViewUrl(encodeViewUrl(lambda))).toEqual(lambda);
+
+    const lyapunov = validateFractalParams({ fractalType: 'lyapunov', parameters: { sequence: 'BBBBBBAAAAAA', warmup: 200 } });
+    expect(decodeViewUrl(encodeViewUrl(lyapunov))).toEqual(lyapunov);
+
+    const newton = validateFractalParams({
+      fractalType: 'newton',
+      newton: { coefficients: [{ real: -1, imag: 0 }, { real: 0, imag: 0 }, { real: 0, imag: 0 }, { real: 1, imag: 0 }], variant: 'nova', relaxation: 0.5 }
+    });
+    expect(decodeViewUrl(encodeViewUrl(newton))).toEqual(newton);
+  });
+
+  it('should round-trip orbit-trap coloring without the trap image', () => {
+    const orbitTrap = { shape: 'cross' as const, output: 'angle' as const, center: { real: 0.1, imag: -0.2 }, angle: 0.7, radius: 0.5, falloff: 0.05 };
+    const params = validateFractalParams({ coloring: 'orbit-trap', orbitTrap });
+    expect(decodeViewUrl(encodeViewUrl(params))).toEqual(params);
+
+    const withImage = validateFractalParams({ coloring: 'orbit-trap', orbitTrap: { ...orbitTrap, shape: 'image', image: 'data:image/png;base64,AA==' } });
+    expect(encodeViewUrl(withImage)).not.toContain('data');
+
+    const invalid = decodeViewUrl('v=1&type=mandelbrot&color=orbit-trap&trap=star&trapFalloff=-1');
+    expect(invalid?.orbitTrap).toEqual({ ...orbitTrap, shape: 'point', output: 'distance', center: { real: 0, imag: 0 }, angle: 0, falloff: 0.25 });
+  });
+
+  it('should round-trip distance-estimation coloring', () => {
+    const distanceEstimation = { boundary: 2.5, glow: 12, lighting: false, lightAngle: 2, lightHeight: 0.75 };
+    const params = validateFractalParams({ fractalType: 'julia', coloring: 'distance-estimation', distanceEstimation });
+    expect(decodeViewUrl(encodeViewUrl(params))).toEqual(params);
+
+    const clamped = decodeViewUrl('v=1&type=mandelbrot&color=distance-estimation&deLine=100&deGlow=x&deLight=1');
+    expect(clamped?.distanceEstimation).toMatchObject({ boundary: 8, glow: 0, lighting: true });
+  });
+
+  it('should round-trip interior coloring with a palette per mode', () => {
+    const interior = { mode: 'period' as const, color: '#102030', palettes: { period: 'fire', angle: 'ocean' } };
+    const params = validateFractalParams({ fractalType: 'phoenix', interior });
+    expect(decodeViewUrl(encodeViewUrl(params))).toEqual(params);
+
+    const invalid = decodeViewUrl('v=1&type=mandelbrot&inside=spiral&insideColor=red');
+    expect(invalid?.interior).toEqual({ mode: 'solid', color: '#000000', palettes: {} });
+  });
+
+  it('should keep periodicity checking off only when turned off', () => {
+    const params = validateFractalParams({ periodicityCheck: false });
+    expect(decodeViewUrl(encodeViewUrl(params))).toEqual(params);
+    expect(decodeViewUrl('v=1&type=mandelbrot')?.periodicityCheck).toBeUndefined();
+  });
+
+  it('should round-trip the palette transform', () => {
+    const paletteTransform = { offset: 0.25, cycles: 3.5, density: 'logarithmic' as const, reverse: true, speed: -0.2, wobble: false };
+    const params = validateFractalParams({ paletteTransform });
+    expect(decodeViewUrl(encodeViewUrl(params))).toEqual(params);
+
+    const clamped = decodeViewUrl('v=1&type=mandelbrot&pOffset=1.75&pCycles=0&pDensity=cubic&pSpeed=9');
+    expect(clamped?.paletteTransform).toEqual({ offset: 0.75, cycles: 1, density: 'linear', reverse: false, speed: 2, wobble: true });
+  });
+
+  it('should keep deep zoom centers as exact decimal strings', () => {
+    const params = validateFractalParams({
+      fractalType: 'mandelbrot',
+      deepZoom: true,
+      zoom: 1e40,
+      center: { real: -1.7497591451303665, imag: 0 },
+      preciseCenter: { real: '-1.74975914513036646175773532474767', imag: '0.00000000000000000000000000000000000000001' }
+    });
+
+    const decoded = decodeViewUrl(encodeViewUrl(params))!;
+    expect(decoded.preciseCenter).toEqual(params.preciseCenter);
+    expect(decoded.zoom).toBe(1e40);
+  });
+
+  it('should validate what it reads', () => {
+    const decoded = decodeViewUrl('v=1&type=lambda&re=0.5&im=x&iter=7&p.plane=sideways&p.unknown=3')!;
+    expect(decoded.fractalType).toBe('lambda');
+    expect(decoded.center).toEqual({ real: 0, imag: 0 });
+    expect(decoded.maxIterations).toBe(100);
+    expect(decoded.parameters!.plane).toBe('parameter');
+    expect(decoded.parameters).not.toHaveProperty('unknown');
+  });
+
+  it('should carry custom formulas and reject links without one', () => {
+    const source = { name: 'Linked Cubic', init: 'z = 0', iterate: 'z = z^3 + c', bailout: '|z| > 4' };
+    registerCustomFormula(source);
+    const params = validateFractalParams({ fractalType: 'custom-linked-cubic' });
+    const search = encodeViewUrl(params);
+    unregisterCustomFormula('custom-linked-cubic');
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect(decodeViewUrl('v=1&type=custom-linked-cubic')).toBeNull();
+      expect(decodeViewUrl('v=1&type=custom-linked-cubic&fName=Other&fIter=z%3Dz')).toBeNull();
+      expect(decodeViewUrl('v=1&type=custom-linked-cubic&fName=Linked+Cubic&fIter=z%3D')).toBeNull();
+      expect(warn).toHaveBeenCalledTimes(3);
+
+      expect(decodeViewUrl(search)).toEqual(params);
+      expect(getCustomFormula('custom-linked-cubic')).toEqual(source);
+    } finally {
+      warn.mockRestore();
+      unregisterCustomFormula('custom-linked-cubic');
+    }
+  });
+
+  it('should ignore links without a view or from a newer version', () => {
+    expect(decodeViewUrl('')).toBeNull();
+    expect(decodeViewUrl('?type=mandelbrot')).toBeNull();
+    expect(decodeViewUrl(`?v=${VIEW_URL_VERSION + 1}&type=mandelbrot`)).toBeNull();
+    expect(decodeViewUrl(`?v=${VIEW_URL_VERSION}&type=mandelbrot`)!.fractalType).toBe('mandelbrot');
+  });
+});
@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Animation, FractalParams, KeyFrame, MovieFormat, MovieSettings } from '@/types/fractal';
+import {
+  DEFAULT_MOVIE_SETTINGS,
+  EASINGS,
+  MAX_MOVIE_SIZE,
+  addKeyframe,
+  getAnimationFrame,
+  getFrameCount,
+  removeKeyframe,
+  updateKeyframe,
+  validateMovieSettings
+} from '@/lib/animation/keyframes';
+import { MovieRenderer } from '@/lib/animation/movie-renderer';
+
+interface AnimationTimelineProps {
+  animation: Animation;
+  params: FractalParams;
+  onChange: (animation: Animation) => void;
+  onPreview: (params: FractalParams) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+const buttonClassName = 'px-2 py-1 text-xs text-white bg-white bg-opacity-10 rounded disabled:opacity-40';
+
+export function AnimationTimeline({ animation, params, onChange, onPreview }: AnimationTimelineProps) {
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [movie, setMovie] = useState<MovieSettings>(DEFAULT_MOVIE_SETTINGS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const rendererRef = useRef<MovieRenderer | null>(null);
+
+  const hasMotion = animation.keyframes.length > 1;
+
+  // Play in real time from the scrub position
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame = 0;
+    const startedAt = performance.now() - time;
+    const step = () => {
+      const elapsed = performance.now() - startedAt;
+      if (!animation.loop && elapsed >= animation.duration) {
+        setTime(animation.duration);
+        onPreview(getAnimationFrame(animation, animation.duration)!);
+        setPlaying(false);
+        return;
+      }
+      const current = animation.loop ? elapsed % animation.duration : elapsed;
+      setTime(current);
+      onPreview(getAnimationFrame(animation, current)!);
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+    // Restarts only when playback is toggled or the animation is edited
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playing, animation]);
+
+  useEffect(() => () => rendererRef.current?.cancel(), []);
+
+  const scrub = (value: number) => {
+    setPlaying(false);
+    setTime(value);
+    const frame = getAnimationFrame(animation, value);
+    if (frame) onPreview(frame);
+  };
+
+  const handleRender = async () => {
+    const renderer = new MovieRenderer();
+    renderer.onProgress = (completed, total) => setProgress(completed / total);
+    rendererRef.current = renderer;
+    setPlaying(false);
+    setProgress(0);
+    setMessage(null);
+
+    try {
+      const blob = await renderer.render(animation, movie);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = movie.format === 'gif' ? 'fractal-animation.gif' : 'fractal-animation-frames.zip';
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      setMessage(`Saved ${getFrameCount(animation, movie.fps)} frames, ${(blob.size / 1e6).toFixed(1)} MB`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Rendering failed');
+    } finally {
+      rendererRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const updateMovie = (changes: Partial<MovieSettings>) => setMovie(prev => validateMovieSettings({ ...prev, ...changes }));
+  const rendering = progress !== null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <button onClick={() => onChange(addKeyframe(animation, params))} disabled={rendering} className={buttonClassName}>
+          + Keyframe
+        </button>
+        <button onClick={() => setPlaying(prev => !prev)} disabled={!hasMotion || rendering} className={buttonClassName}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <label className="flex items-center space-x-1 text-xs text-gray-300">
+          <input
+            type="checkbox"
+            checked={animation.loop}
+            onChange={(e) => onChange({ ...animation, loop: e.target.checked })}
+            className="rounded"
+          />
+          <span>Loop</span>
+        </label>
+      </div>
+
+      {hasMotion && (
+        <>
+          <input
+            type="range"
+            min={0}
+            max={animation.duration}
+            step={10}
+            value={Math.min(time, animation.duration)}
+            onChange={(e) => scrub(parseFloat(e.target.value))}
+            className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <div className="text-xs text-gray-400">
+            {(time / 1000).toFixed(2)} s of {(animation.duration / 1000).toFixed(2)} s
+          </div>
+        </>
+      )}
+
+      {animation.keyframes.map((keyframe, k) => (
+        <div key={k} className="flex items-center space-x-2">
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={keyframe.timestamp / 1000}
+            title="Time in seconds"
+            disabled={rendering}
+            onChange={(e) => onChange(updateKeyframe(animation, k, { timestamp: (parseFloat(e.target.value) || 0) * 1000 }))}
+            className={`${inputClassName} w-16`}
+          />
+          <select
+            value={keyframe.easing}
+            title="Easing into this keyframe"
+            disabled={rendering || k === 0}
+            onChange={(e) => onChange(updateKeyframe(animation, k, { easing: e.target.value as KeyFrame['easing'] }))}
+            className={inputClassName}
+          >
+            {Object.keys(EASINGS).map(easing => (
+              <option key={easing} style={{ backgroundColor: 'white', color: 'black' }} value={easing}>{easing}</option>
+            ))}
+          </select>
+          <button onClick={() => scrub(keyframe.timestamp)} title="Show this keyframe" className={buttonClassName}>
+            ◉
+          </button>
+          <button
+            onClick={() => onChange(removeKeyframe(animation, k))}
+            disabled={rendering}
+            title="Remove"
+            className={buttonClassName}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      {hasMotion && (
+        <>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min={16}
+              max={MAX_MOVIE_SIZE}
+              value={movie.width}
+              title="Width"
+              disabled={rendering}
+              onChange={(e) => updateMovie({ width: parseInt(e.target.value) })}
+              className={inputClassName}
+            />
+            <span className="text-xs text-gray-300">×</span>
+            <input
+              type="number"
+              min={16}
+              max={MAX_MOVIE_SIZE}
+              value={movie.height}
+              title="Height"
+              disabled={rendering}
+              onChange={(e) => updateMovie({ height: parseInt(e.target.value) })}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={1}
+              value={movie.fps}
+              title="Frames per second"
+              disabled={rendering}
+              onChange={(e) => updateMovie({ fps: parseInt(e.target.value) })}
+              className={`${inputClassName} w-14`}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={movie.format}
+              disabled={rendering}
+              onChange={(e) => updateMovie({ format: e.target.value as MovieFormat })}
+              className={inputClassName}
+            >
+              <option style={{ backgroundColor: 'white', color: 'black' }} value="png-sequence">PNG sequence (ZIP)</option>
+              <option style={{ backgroundColor: 'white', color: 'black' }} value="gif">Animated GIF</option>
+            </select>
+            <button
+              onClick={() => (rendering ? rendererRef.current?.cancel() : handleRender())}
+              className={buttonClassName}
+            >
+              {rendering ? 'Cancel' : 'Render'}
+            </button>
+          </div>
+          <div className="text-xs text-gray-400">
+            {getFrameCount(animation, movie.fps)} frames at {movie.fps} fps
+            {progress !== null && ` • ${Math.round(progress * 100)}%`}
+          </div>
+        </>
+      )}
+      {message && <div className="text-xs text-gray-300">{message}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Bookmark, FractalType } from '@/types/fractal';
+import {
+  BookmarkFilter,
+  exportBookmarkLibrary,
+  filterBookmarks,
+  importBookmarkLibrary,
+  parseTags
+} from '@/lib/bookmarks/bookmarks';
+import FractalLoader from '@/lib/fractals/loader';
+
+interface BookmarkLibraryProps {
+  bookmarks: Bookmark[];
+  onSave: (details: Pick<Bookmark, 'name' | 'tags' | 'notes'>) => void;
+  onSelect: (bookmark: Bookmark) => void;
+  onDelete: (id: string) => void;
+  onImport: (bookmarks: Bookmark[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+const buttonClassName = 'px-2 py-1 text-xs text-white bg-white bg-opacity-10 rounded disabled:opacity-40';
+
+export function BookmarkLibrary({ bookmarks, onSave, onSelect, onDelete, onImport }: BookmarkLibraryProps) {
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [notes, setNotes] = useState('');
+  const [filter, setFilter] = useState<BookmarkFilter>({ query: '', fractalType: 'all' });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const shown = useMemo(() => filterBookmarks(bookmarks, filter), [bookmarks, filter]);
+  const fractalTypes = useMemo(() => {
+    const types = new Set(bookmarks.map(bookmark => bookmark.params.fractalType));
+    return FractalLoader.getAllDefinitions().filter(definition => types.has(definition.id as FractalType));
+  }, [bookmarks]);
+
+  const handleSave = () => {
+    onSave({ name, tags: parseTags(tags), notes: notes.trim() });
+    setName('');
+    setTags('');
+    setNotes('');
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportBookmarkLibrary(bookmarks)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'fractal-bookmarks.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importBookmarkLibrary(await file.text());
+      onImport(imported);
+      setMessage(`Imported ${imported.length} bookmark${imported.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not read the library');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Name this view"
+          onChange={(e) => setName(e.target.value)}
+          className={inputClassName}
+        />
+        <input
+          type="text"
+          value={tags}
+          placeholder="Tags, comma separated"
+          onChange={(e) => setTags(e.target.value)}
+          className={inputClassName}
+        />
+        <textarea
+          value={notes}
+          placeholder="Notes"
+          rows={2}
+          onChange={(e) => setNotes(e.target.value)}
+          className={inputClassName}
+        />
+        <button onClick={handleSave} className={buttonClassName}>
+          Save Bookmark
+        </button>
+      </div>
+
+      {bookmarks.length > 0 && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="search"
+            value={filter.query}
+            placeholder="Search"
+            onChange={(e) => setFilter(prev => ({ ...prev, query: e.target.value }))}
+            className={inputClassName}
+          />
+          <select
+            value={filter.fractalType}
+            onChange={(e) => setFilter(prev => ({ ...prev, fractalType: e.target.value as BookmarkFilter['fractalType'] }))}
+            className={inputClassName}
+          >
+            <option style={{ backgroundColor: 'white', color: 'black' }} value="all">All fractals</option>
+            {fractalTypes.map(definition => (
+              <option key={definition.id} style={{ backgroundColor: 'white', color: 'black' }} value={definition.id}>
+                {definition.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {shown.map(bookmark => (
+          <div key={bookmark.id} className="flex items-start space-x-2">
+            <button onClick={() => onSelect(bookmark)} title={bookmark.notes || bookmark.name} className="flex-shrink-0">
+              {bookmark.thumbnail ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={bookmark.thumbnail} alt={bookmark.name} className="w-16 h-10 object-cover rounded" />
+              ) : (
+                <div className="w-16 h-10 rounded bg-white bg-opacity-10" />
+              )}
+            </button>
+            <div className="flex-1 min-w-0">
+              <button onClick={() => onSelect(bookmark)} className="block w-full text-left text-xs text-white truncate">
+                {bookmark.name}
+              </button>
+              {bookmark.tags.length > 0 && (
+                <div className="text-[10px] text-gray-400 truncate">{bookmark.tags.join(' • ')}</div>
+              )}
+            </div>
+            <button onClick={() => onDelete(bookmark.id)} title="Delete" className={buttonClassName}>
+              ✕
+            </button>
+          </div>
+        ))}
+        {bookmarks.length > 0 && shown.length === 0 && (
+          <div className="text-xs text-gray-400">No bookmarks match</div>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button onClick={handleExport} disabled={!bookmarks.length} className={buttonClassName}>
+          Export JSON
+        </button>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Import JSON…
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+        </label>
+      </div>
+      {message && <div className="text-xs text-gray-300">{message}</div>}
+    </div>
+  );
+}
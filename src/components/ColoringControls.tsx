@@ -0,0 +1,314 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  ColorMappingMode,
+  ColoringAlgorithm,
+  DistanceEstimationParams,
+  FractalParams,
+  OrbitTrapOutput,
+  OrbitTrapParams,
+  OrbitTrapShape
+} from '@/types/fractal';
+import { COLORING_ALGORITHMS, supportsColoring } from '@/lib/coloring/coloring';
+import { DEFAULT_ORBIT_TRAP, ORBIT_TRAP_OUTPUTS, ORBIT_TRAP_SHAPES, createTrapImage } from '@/lib/coloring/orbit-traps';
+import {
+  DEFAULT_DISTANCE_ESTIMATION,
+  MAX_BOUNDARY_WIDTH,
+  MAX_GLOW,
+  MAX_LIGHT_HEIGHT
+} from '@/lib/coloring/distance-estimation';
+import {
+  COLOR_MAPPING_MODES,
+  DEFAULT_COLOR_MAPPING,
+  MAX_CLIP_PERCENT,
+  supportsColorMapping
+} from '@/lib/coloring/color-mapping';
+import FractalLoader from '@/lib/fractals/loader';
+
+interface ColoringControlsProps {
+  params: FractalParams;
+  onParamsChange: (params: Partial<FractalParams>) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+const selectClassName = 'w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-sm';
+
+export function ColoringControls({ params, onParamsChange }: ColoringControlsProps) {
+  const [message, setMessage] = useState<string | null>(null);
+  const coloring = params.coloring ?? 'smooth';
+  const trap = params.orbitTrap ?? DEFAULT_ORBIT_TRAP;
+  const distance = params.distanceEstimation ?? DEFAULT_DISTANCE_ESTIMATION;
+  const mapping = params.colorMapping ?? DEFAULT_COLOR_MAPPING;
+  const definition = FractalLoader.getDefinition(params.fractalType);
+  const supported = supportsColoring(definition, coloring);
+
+  const updateTrap = (changes: Partial<OrbitTrapParams>) => onParamsChange({ orbitTrap: { ...trap, ...changes } });
+  const updateDistance = (changes: Partial<DistanceEstimationParams>) =>
+    onParamsChange({ distanceEstimation: { ...distance, ...changes } });
+
+  const handleImage = async (file: File) => {
+    try {
+      updateTrap({ shape: 'image', image: await createTrapImage(file) });
+      setMessage(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not load the image');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={coloring}
+        onChange={(e) => {
+          const algorithm = e.target.value as ColoringAlgorithm;
+          const changes: Partial<FractalParams> = { coloring: algorithm };
+          if (algorithm === 'orbit-trap' && !params.orbitTrap) changes.orbitTrap = DEFAULT_ORBIT_TRAP;
+          if (algorithm === 'distance-estimation' && !params.distanceEstimation) {
+            changes.distanceEstimation = DEFAULT_DISTANCE_ESTIMATION;
+          }
+          onParamsChange(changes);
+        }}
+        className={selectClassName}
+      >
+        {COLORING_ALGORITHMS.map(algorithm => (
+          <option key={algorithm.value} style={{ backgroundColor: 'white', color: 'black' }} value={algorithm.value}>
+            {algorithm.label}
+          </option>
+        ))}
+      </select>
+
+      {coloring === 'smooth' && supportsColorMapping(definition) && (
+        <>
+          <div className="flex items-center space-x-2">
+            <span className="w-16 text-xs text-gray-300">Mapping</span>
+            <select
+              value={mapping.mode}
+              title="How iteration counts spread over the palette"
+              onChange={(e) => onParamsChange({ colorMapping: { ...mapping, mode: e.target.value as ColorMappingMode } })}
+              className={inputClassName}
+            >
+              {COLOR_MAPPING_MODES.map(mode => (
+                <option key={mode.value} style={{ backgroundColor: 'white', color: 'black' }} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {mapping.mode === 'percentile' && (
+            <>
+              <label className="block text-white text-sm font-medium">
+                Clip: {mapping.clip.toFixed(1)}% at each end
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_CLIP_PERCENT}
+                step={0.5}
+                value={mapping.clip}
+                onChange={(e) => onParamsChange({ colorMapping: { ...mapping, clip: parseFloat(e.target.value) } })}
+                className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {coloring === 'orbit-trap' && !supported && (
+        <div className="text-xs text-gray-400">Orbit traps apply to escape-time fractals only</div>
+      )}
+
+      {coloring === 'distance-estimation' && !supported && (
+        <div className="text-xs text-gray-400">Distance estimation applies to Mandelbrot, Julia and Multibrot sets only</div>
+      )}
+
+      {coloring === 'distance-estimation' && supported && (
+        <>
+          <label className="block text-white text-sm font-medium">
+            Boundary width: {distance.boundary.toFixed(1)} px
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={MAX_BOUNDARY_WIDTH}
+            step={0.1}
+            value={distance.boundary}
+            onChange={(e) => updateDistance({ boundary: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+          />
+
+          <label className="block text-white text-sm font-medium">
+            Glow: {distance.glow.toFixed(0)} px
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={MAX_GLOW}
+            step={1}
+            value={distance.glow}
+            onChange={(e) => updateDistance({ glow: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+          />
+
+          <label className="flex items-center space-x-2 text-white text-sm">
+            <input
+              type="checkbox"
+              checked={distance.lighting}
+              onChange={(e) => updateDistance({ lighting: e.target.checked })}
+            />
+            <span>Relief lighting</span>
+          </label>
+
+          {distance.lighting && (
+            <>
+              <label className="block text-white text-sm font-medium">
+                Light angle: {Math.round(distance.lightAngle * 180 / Math.PI)}°
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={360}
+                step={1}
+                value={distance.lightAngle * 180 / Math.PI}
+                onChange={(e) => updateDistance({ lightAngle: parseFloat(e.target.value) * Math.PI / 180 })}
+                className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+              />
+
+              <label className="block text-white text-sm font-medium">
+                Light height: {distance.lightHeight.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={MAX_LIGHT_HEIGHT}
+                step={0.05}
+                value={distance.lightHeight}
+                onChange={(e) => updateDistance({ lightHeight: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {coloring === 'orbit-trap' && supported && (
+        <>
+          <div className="flex items-center space-x-2">
+            <select
+              value={trap.shape}
+              onChange={(e) => updateTrap({ shape: e.target.value as OrbitTrapShape })}
+              className={inputClassName}
+            >
+              {ORBIT_TRAP_SHAPES.map(shape => (
+                <option key={shape.value} style={{ backgroundColor: 'white', color: 'black' }} value={shape.value}>
+                  {shape.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={trap.output}
+              title="Orbit quantity mapped to the palette"
+              onChange={(e) => updateTrap({ output: e.target.value as OrbitTrapOutput })}
+              className={inputClassName}
+            >
+              {ORBIT_TRAP_OUTPUTS.map(output => (
+                <option key={output.value} style={{ backgroundColor: 'white', color: 'black' }} value={output.value}>
+                  {output.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <span className="w-16 text-xs text-gray-300">Center</span>
+            <input
+              type="number"
+              step={0.05}
+              value={trap.center.real}
+              title="Real part"
+              onChange={(e) => updateTrap({ center: { ...trap.center, real: parseFloat(e.target.value) || 0 } })}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              step={0.05}
+              value={trap.center.imag}
+              title="Imaginary part"
+              onChange={(e) => updateTrap({ center: { ...trap.center, imag: parseFloat(e.target.value) || 0 } })}
+              className={inputClassName}
+            />
+          </div>
+
+          {trap.shape !== 'point' && (
+            <>
+              <label className="block text-white text-sm font-medium">
+                Angle: {Math.round(trap.angle * 180 / Math.PI)}°
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={180}
+                step={1}
+                value={trap.angle * 180 / Math.PI}
+                onChange={(e) => updateTrap({ angle: parseFloat(e.target.value) * Math.PI / 180 })}
+                className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </>
+          )}
+
+          {(trap.shape === 'circle' || trap.shape === 'image') && (
+            <>
+              <label className="block text-white text-sm font-medium">
+                {trap.shape === 'circle' ? 'Radius' : 'Size'}: {trap.radius.toFixed(2)}
+              </label>
+              <input
+                type="range"
+                min={0.01}
+                max={2}
+                step={0.01}
+                value={trap.radius}
+                onChange={(e) => updateTrap({ radius: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </>
+          )}
+
+          {trap.output === 'distance' && (
+            <>
+              <label className="block text-white text-sm font-medium">
+                Falloff: {trap.falloff.toFixed(3)}
+              </label>
+              <input
+                type="range"
+                min={-3}
+                max={1}
+                step={0.01}
+                value={Math.log10(trap.falloff)}
+                onChange={(e) => updateTrap({ falloff: Math.pow(10, parseFloat(e.target.value)) })}
+                className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+              />
+            </>
+          )}
+
+          {trap.shape === 'image' && (
+            <label className="inline-block px-3 py-1 text-xs text-white bg-white bg-opacity-10 rounded cursor-pointer">
+              {trap.image ? 'Replace image…' : 'Upload image…'}
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImage(file);
+                }}
+              />
+            </label>
+          )}
+          {message && <div className="text-xs text-gray-300">{message}</div>}
+        </>
+      )}
+    </div>
+  );
+}
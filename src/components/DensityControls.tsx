@@ -0,0 +1,131 @@
+'use client';
+
+import React from 'react';
+import { DensityMode, DensitySettings } from '@/types/fractal';
+import {
+  DEFAULT_DENSITY_SETTINGS,
+  MAX_DENSITY_EXPOSURE,
+  MAX_DENSITY_GAMMA,
+  MAX_DENSITY_ITERATIONS,
+  MIN_DENSITY_EXPOSURE,
+  MIN_DENSITY_GAMMA
+} from '@/lib/buddhabrot/density';
+
+interface DensityControlsProps {
+  settings: DensitySettings | null;
+  samples: number;
+  onChange: (settings: DensitySettings | null) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+
+const CHANNELS = ['R', 'G', 'B'] as const;
+
+export function DensityControls({ settings, samples, onChange }: DensityControlsProps) {
+  const update = (changes: Partial<DensitySettings>) => onChange({ ...settings!, ...changes });
+
+  const parseIterations = (value: string) => Math.max(1, Math.min(MAX_DENSITY_ITERATIONS, parseInt(value) || 1));
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-white text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={!!settings}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_DENSITY_SETTINGS : null)}
+          className="rounded"
+        />
+        <span>Orbit Density (Buddhabrot)</span>
+      </label>
+
+      {settings && (
+        <>
+          <select
+            value={settings.mode}
+            onChange={(e) => update({ mode: e.target.value as DensityMode })}
+            className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-sm"
+          >
+            <option style={{ backgroundColor: 'white', color: 'black' }} value="buddhabrot">Buddhabrot</option>
+            <option style={{ backgroundColor: 'white', color: 'black' }} value="nebulabrot">Nebulabrot (RGB bands)</option>
+            <option style={{ backgroundColor: 'white', color: 'black' }} value="anti-buddhabrot">Anti-Buddhabrot</option>
+          </select>
+
+          {settings.mode === 'nebulabrot' ? (
+            <div className="flex items-center space-x-2">
+              {CHANNELS.map((channel, k) => (
+                <input
+                  key={channel}
+                  type="number"
+                  min={1}
+                  max={MAX_DENSITY_ITERATIONS}
+                  value={settings.bands[k]}
+                  title={`${channel} iteration limit`}
+                  onChange={(e) => {
+                    const bands: [number, number, number] = [...settings.bands];
+                    bands[k] = parseIterations(e.target.value);
+                    update({ bands });
+                  }}
+                  className={inputClassName}
+                />
+              ))}
+            </div>
+          ) : (
+            <input
+              type="number"
+              min={1}
+              max={MAX_DENSITY_ITERATIONS}
+              value={settings.maxIterations}
+              title="Iteration limit"
+              onChange={(e) => update({ maxIterations: parseIterations(e.target.value) })}
+              className={inputClassName}
+            />
+          )}
+
+          {settings.mode !== 'anti-buddhabrot' && (
+            <div className="flex items-center space-x-2">
+              <span className="w-28 text-xs text-gray-300">Min iterations</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_DENSITY_ITERATIONS}
+                value={settings.minIterations}
+                onChange={(e) => update({ minIterations: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <label className="block text-white text-sm font-medium">
+            Gamma
+          </label>
+          <input
+            type="range"
+            min={MIN_DENSITY_GAMMA}
+            max={MAX_DENSITY_GAMMA}
+            step={0.05}
+            value={settings.gamma}
+            onChange={(e) => update({ gamma: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+          />
+
+          <label className="block text-white text-sm font-medium">
+            Exposure
+          </label>
+          <input
+            type="range"
+            min={Math.log10(MIN_DENSITY_EXPOSURE)}
+            max={Math.log10(MAX_DENSITY_EXPOSURE)}
+            step={0.01}
+            value={Math.log10(settings.exposure)}
+            onChange={(e) => update({ exposure: Math.pow(10, parseFloat(e.target.value)) })}
+            className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+          />
+
+          <div className="text-xs text-gray-400">
+            γ {settings.gamma.toFixed(2)} • exposure {settings.exposure.toFixed(2)} • {(samples / 1e6).toFixed(1)}M samples of z² + c
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportSettings, FractalParams } from '@/types/fractal';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  EXPORT_SIZES,
+  MAX_EXPORT_SIZE,
+  SUPERSAMPLING_OPTIONS,
+  readExportMetadata,
+  validateExportSettings
+} from '@/lib/export/image-export';
+import { ImageExporter } from '@/lib/export/image-exporter';
+import { readPngText } from '@/lib/export/png';
+
+interface ExportDialogProps {
+  params: FractalParams;
+  aspectRatio: number;
+  onLoad: (params: Partial<FractalParams>) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+
+export function ExportDialog({ params, aspectRatio, onLoad, onClose }: ExportDialogProps) {
+  const [settings, setSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const exporterRef = useRef<ImageExporter | null>(null);
+
+  // Stop an export still running when the dialog closes
+  useEffect(() => () => exporterRef.current?.cancel(), []);
+
+  const update = (changes: Partial<ExportSettings>) => setSettings(prev => validateExportSettings({ ...prev, ...changes }));
+
+  const handleExport = async () => {
+    const exporter = new ImageExporter();
+    exporter.onProgress = (completed, total) => setProgress(completed / total);
+    exporterRef.current = exporter;
+    setProgress(0);
+    setMessage(null);
+
+    try {
+      const blob = await exporter.export(params, settings);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${params.fractalType}-${settings.width}x${settings.height}.png`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      setMessage(`Saved ${(blob.size / 1e6).toFixed(1)} MB`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      exporterRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  // Restore the parameters embedded in a previously exported image
+  const handleOpen = async (file: File) => {
+    try {
+      const text = readPngText(new Uint8Array(await file.arrayBuffer()));
+      const loaded = readExportMetadata(text);
+      if (!loaded) {
+        setMessage(`${file.name} has no fractal parameters`);
+        return;
+      }
+      onLoad(loaded);
+      onClose();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Could not read the image');
+    }
+  };
+
+  const exporting = progress !== null;
+  const megapixels = settings.width * settings.height / 1e6;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+      <div className="glass-panel p-6 w-96 max-w-[calc(100vw-2rem)] space-y-3">
+        <h2 className="text-white font-semibold text-sm uppercase tracking-wide opacity-90">
+          Export Image
+        </h2>
+
+        <select
+          value=""
+          disabled={exporting}
+          onChange={(e) => {
+            const size = EXPORT_SIZES[parseInt(e.target.value)];
+            if (size) update({ width: size.width, height: size.height });
+          }}
+          className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-sm"
+        >
+          <option style={{ backgroundColor: 'white', color: 'black' }} value="">Size preset…</option>
+          {EXPORT_SIZES.map((size, k) => (
+            <option key={size.label} style={{ backgroundColor: 'white', color: 'black' }} value={k}>
+              {size.label} ({size.width} × {size.height})
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min={1}
+            max={MAX_EXPORT_SIZE}
+            value={settings.width}
+            disabled={exporting}
+            title="Width"
+            onChange={(e) => update({ width: parseInt(e.target.value) })}
+            className={inputClassName}
+          />
+          <span className="text-xs text-gray-300">×</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_EXPORT_SIZE}
+            value={settings.height}
+            disabled={exporting}
+            title="Height"
+            onChange={(e) => update({ height: parseInt(e.target.value) })}
+            className={inputClassName}
+          />
+          <button
+            disabled={exporting}
+            onClick={() => update({ height: Math.round(settings.width / aspectRatio) })}
+            title="Match the height to the view's aspect ratio"
+            className="px-2 py-1 text-xs text-white bg-white bg-opacity-10 rounded whitespace-nowrap"
+          >
+            Fit view
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <span className="w-28 text-xs text-gray-300">Supersampling</span>
+          <select
+            value={settings.supersampling}
+            disabled={exporting}
+            onChange={(e) => update({ supersampling: parseInt(e.target.value) })}
+            className={inputClassName}
+          >
+            {SUPERSAMPLING_OPTIONS.map(n => (
+              <option key={n} style={{ backgroundColor: 'white', color: 'black' }} value={n}>
+                {n === 1 ? 'Off' : `Jittered ${n} × ${n}`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="text-xs text-gray-400">
+          {megapixels.toFixed(1)} MP • {settings.supersampling * settings.supersampling} samples per pixel
+          {progress !== null && ` • ${Math.round(progress * 100)}%`}
+        </div>
+        {message && <div className="text-xs text-gray-300">{message}</div>}
+
+        <div className="flex items-center justify-between pt-2">
+          <label className="px-3 py-1 text-xs text-white bg-white bg-opacity-10 rounded cursor-pointer">
+            Open PNG…
+            <input
+              type="file"
+              accept="image/png"
+              className="hidden"
+              disabled={exporting}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleOpen(file);
+              }}
+            />
+          </label>
+          <div className="space-x-2">
+            <button
+              onClick={() => (exporting ? exporterRef.current?.cancel() : onClose())}
+              className="px-3 py-1 text-xs text-white bg-white bg-opacity-10 rounded"
+            >
+              {exporting ? 'Cancel' : 'Close'}
+            </button>
+            <button
+              disabled={exporting}
+              onClick={handleExport}
+              className="px-3 py-1 text-xs text-white bg-blue-600 rounded disabled:opacity-50"
+            >
+              Export PNG
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
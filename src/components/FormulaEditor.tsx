@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useState } from 'react';
+import { FormulaField, FormulaSource } from '@/types/fractal';
+import { FormulaDiagnostic } from '@/lib/formula/ast';
+import { formatDiagnostic } from '@/lib/formula/compiler';
+
+interface FormulaEditorProps {
+  // Compiles and activates the formula; returns the errors, if any
+  onApply: (source: FormulaSource) => FormulaDiagnostic[];
+}
+
+const FIELDS: Array<{ field: FormulaField; label: string; rows: number; placeholder: string }> = [
+  { field: 'init', label: 'Init', rows: 2, placeholder: 'z = 0 (c starts as the pixel)' },
+  { field: 'iterate', label: 'Iterate', rows: 3, placeholder: 'z = z^2 + c' },
+  { field: 'bailout', label: 'Bailout', rows: 1, placeholder: '|z| > escapeRadius' }
+];
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-900 bg-opacity-80 border border-gray-600 rounded-lg text-white text-sm font-mono placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400';
+
+export function FormulaEditor({ onApply }: FormulaEditorProps) {
+  const [source, setSource] = useState<FormulaSource>({
+    name: 'Cubic Sine',
+    init: '',
+    iterate: 'z = z^3 + c*sin(z)',
+    bailout: '|z| > 4'
+  });
+  const [diagnostics, setDiagnostics] = useState<FormulaDiagnostic[]>([]);
+  const [applied, setApplied] = useState(false);
+
+  const handleChange = (key: keyof FormulaSource, value: string) => {
+    setSource(prev => ({ ...prev, [key]: value }));
+    setApplied(false);
+  };
+
+  const handleApply = () => {
+    const errors = onApply(source);
+    setDiagnostics(errors);
+    setApplied(errors.length === 0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <label className="block text-white text-sm font-medium">Name</label>
+        <input
+          type="text"
+          value={source.name}
+          onChange={(e) => handleChange('name', e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      {FIELDS.map(({ field, label, rows, placeholder }) => (
+        <div key={field} className="space-y-1">
+          <label className="block text-white text-sm font-medium">{label}</label>
+          <textarea
+            rows={rows}
+            value={source[field] || ''}
+            placeholder={placeholder}
+            spellCheck={false}
+            onChange={(e) => handleChange(field, e.target.value)}
+            className={`${inputClassName} ${diagnostics.some(d => d.field === field) ? 'border-red-400' : ''}`}
+          />
+        </div>
+      ))}
+
+      <button
+        onClick={handleApply}
+        className="w-full px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white text-sm font-medium transition-colors"
+      >
+        Compile &amp; Render
+      </button>
+
+      {diagnostics.length > 0 && (
+        <ul className="space-y-1 text-xs text-red-300 font-mono">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index}>{formatDiagnostic(diagnostic)}</li>
+          ))}
+        </ul>
+      )}
+      {applied && (
+        <p className="text-xs text-green-300">Compiled and added to the presets</p>
+      )}
+
+      <p className="text-xs text-gray-400">
+        Complex variables z, c and your own; constants i, pi, pixel, escapeRadius.
+        Functions: sin cos tan sinh cosh tanh exp log sqrt abs norm arg conj re im pow.
+        Comparisons use real parts.
+      </p>
+    </div>
+  );
+}
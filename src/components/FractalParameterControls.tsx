@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { Complex, FractalParameterValue } from '@/types/fractal';
+import { FractalParameter } from '@/lib/fractals/base';
+import { validateParameterValues } from '@/lib/fractals/parameters';
+
+interface FractalParameterControlsProps {
+  parameters: FractalParameter[];
+  values?: Record<string, FractalParameterValue>;
+  onChange: (values: Record<string, FractalParameterValue>) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+
+// Controls for the parameters a fractal declares in its schema
+export function FractalParameterControls({ parameters, values, onChange }: FractalParameterControlsProps) {
+  const current = validateParameterValues(parameters, values);
+
+  const setValue = (name: string, value: FractalParameterValue) => {
+    onChange(validateParameterValues(parameters, { ...current, [name]: value }));
+  };
+
+  const renderControl = (parameter: FractalParameter) => {
+    const value = current[parameter.name];
+
+    switch (parameter.type) {
+      case 'float':
+      case 'int':
+        return (
+          <>
+            <input
+              type="range"
+              min={parameter.min}
+              max={parameter.max}
+              step={parameter.type === 'int' ? 1 : parameter.step ?? 0.01}
+              value={value as number}
+              onChange={(e) => setValue(parameter.name, parseFloat(e.target.value))}
+              className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+            />
+            <div className="text-xs text-gray-400">{value as number}</div>
+          </>
+        );
+
+      case 'complex':
+        return (
+          <div className="flex space-x-2">
+            {(['real', 'imag'] as const).map((part) => (
+              <input
+                key={part}
+                type="number"
+                min={parameter.min}
+                max={parameter.max}
+                step={parameter.step ?? 0.01}
+                value={(value as Complex)[part]}
+                title={part === 'real' ? 'Real part' : 'Imaginary part'}
+                onChange={(e) => setValue(parameter.name, { ...(value as Complex), [part]: parseFloat(e.target.value) || 0 })}
+                className={inputClassName}
+              />
+            ))}
+          </div>
+        );
+
+      case 'choice':
+        return (
+          <select
+            value={value as string}
+            onChange={(e) => setValue(parameter.name, e.target.value)}
+            className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-sm"
+          >
+            {parameter.options.map((option) => (
+              <option style={{ backgroundColor: 'white', color: 'black' }} key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+
+      case 'sequence':
+        // Applied on blur or Enter so partial input is not replaced by the default
+        return (
+          <input
+            key={value as string}
+            type="text"
+            spellCheck={false}
+            maxLength={parameter.maxLength}
+            defaultValue={value as string}
+            onBlur={(e) => setValue(parameter.name, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') setValue(parameter.name, e.currentTarget.value);
+            }}
+            aria-label={parameter.label}
+            className={`${inputClassName} font-mono uppercase`}
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {parameters.map((parameter) => (
+        <div key={parameter.name} className="space-y-3">
+          <label className="block text-white text-sm font-medium">
+            {parameter.label}
+          </label>
+          {renderControl(parameter)}
+          {parameter.description && (
+            <div className="text-xs text-gray-400">{parameter.description}</div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+}
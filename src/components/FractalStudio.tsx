@@ -1,22 +1,107 @@
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { FractalRenderer } from '@/lib/fractal-renderer';
 import { ParameterControls } from './ParameterControls';
 import { PresetSelector } from './PresetSelector';
-import { getFractalPreset, getFractalPresetIds, fractalPresets } from '@/lib/fractal-presets-modular';
-import { colorPalettes } from '@/lib/color-palettes';
+import { FormulaEditor } from './FormulaEditor';
+import { DensityControls } from './DensityControls';
+import { ColoringControls } from './ColoringControls';
+import { InteriorControls } from './InteriorControls';
+import { ExportDialog } from './ExportDialog';
+import { HistoryBreadcrumbs } from './HistoryBreadcrumbs';
+import { AnimationTimeline } from './AnimationTimeline';
+import { BookmarkLibrary } from './BookmarkLibrary';
+import { PaletteEditor } from './PaletteEditor';
+import { PaletteFiles } from './PaletteFiles';
+import { PaletteTransformControls } from './PaletteTransformControls';
+import { PerformanceDisplay } from './PerformanceDisplay';
+import { DensityRenderer } from '@/lib/buddhabrot/density-renderer';
+import { TiledRenderer } from '@/lib/cpu/tiled-renderer';
+import {
+  getFractalPreset,
+  getFractalPresetByType,
+  getFractalPresetIds,
+  fractalPresets,
+  getAutoPrecision,
+  getMaxZoom,
+  validateFractalParams
+} from '@/lib/fractal-presets-modular';
+import { translateCenter } from '@/lib/deep-zoom/perturbation';
+import { performanceMonitor } from '@/lib/performance-monitor';
+import { decodeViewUrl, encodeViewUrl } from '@/lib/view-url';
+import { createAnimation } from '@/lib/animation/keyframes';
+import {
+  BOOKMARK_PRESET_PREFIX,
+  BOOKMARK_THUMBNAIL_SIZE,
+  bookmarkToPreset,
+  createBookmark,
+  mergeBookmarks
+} from '@/lib/bookmarks/bookmarks';
+import { BookmarkStore } from '@/lib/bookmarks/bookmark-store';
+import {
+  NavigationHistory,
+  canRedo,
+  canUndo,
+  createHistory,
+  createPanEvent,
+  createParamUpdateEvent,
+  createPresetChangeEvent,
+  createThumbnail,
+  createZoomEvent,
+  getCurrentParams,
+  jumpTo,
+  pushHistory,
+  redo,
+  replaceCurrent,
+  setThumbnail,
+  undo
+} from '@/lib/history/navigation-history';
+import FractalLoader from '@/lib/fractals/loader';
+import { buildFractalShader } from '@/lib/webgl/shader-builder';
+import { FormulaDiagnostic } from '@/lib/formula/ast';
+import { mapShaderErrors } from '@/lib/formula/glsl';
+import {
+  getCustomFormula,
+  getCustomFractalType,
+  registerCustomFormula,
+  unregisterCustomFormula
+} from '@/lib/formula/custom-fractal';
+import { colorPalettes, getColorPalette } from '@/lib/color-palettes';
+import { deleteCustomPalette, loadCustomPalettes, saveCustomPalette } from '@/lib/palettes/palette-store';
+import { getPaletteFormat, importPaletteFile } from '@/lib/palettes/palette-formats';
 import { 
+  Animation,
+  Bookmark,
+  ColorPalette,
+  DensitySettings,
+  FormulaSource,
   FractalParams, 
+  NavigationEvent,
+  PerformanceMetrics,
   ViewportState, 
   GestureState
 } from '@/types/fractal';
 
+// Milliseconds without view changes before the URL is rewritten
+const URL_UPDATE_DELAY = 300;
+
+// Milliseconds a view has to stay on screen before its breadcrumb thumbnail is taken
+const THUMBNAIL_DELAY = 400;
+
+// Milliseconds between refreshes of the performance monitor
+const METRICS_INTERVAL = 500;
+
 export function FractalStudio() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<FractalRenderer | null>(null);
+  const densityCanvasRef = useRef<HTMLCanvasElement>(null);
+  const densityRendererRef = useRef<DensityRenderer | null>(null);
+  const cpuCanvasRef = useRef<HTMLCanvasElement>(null);
+  const cpuRendererRef = useRef<TiledRenderer | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
-  const [currentParams, setCurrentParams] = useState<FractalParams>({
+  // Every view visited; the one on screen is the current parameter set
+  const [history, setHistory] = useState<NavigationHistory>(() => createHistory({
     fractalType: 'mandelbrot',
     escapeRadius: 2,
     maxIterations: 100,
@@ -24,7 +109,8 @@ export function FractalStudio() {
     zoom: 4.0,
     colorPalette: 'viridis',
     precision: 'highp'
-  });
+  }));
+  const currentParams = getCurrentParams(history);
   
   const [viewport, setViewport] = useState<ViewportState>({
     center: { real: -0.5, imag: 0.0 },
@@ -43,6 +129,28 @@ export function FractalStudio() {
 
   const [showControls, setShowControls] = useState(true);
   const [selectedPreset, setSelectedPreset] = useState<string>('Mandelbrot Set');
+  const [densitySettings, setDensitySettings] = useState<DensitySettings | null>(null);
+  const [densitySamples, setDensitySamples] = useState(0);
+  // The CPU renderer draws over the WebGL canvas on request, or replaces it without WebGL2
+  const [cpuReference, setCpuReference] = useState(false);
+  const [webglUnavailable, setWebglUnavailable] = useState(false);
+  const [cpuProgress, setCpuProgress] = useState(0);
+  // Long views iterate across frames; 1 once the view is complete
+  const [iterationProgress, setIterationProgress] = useState(1);
+  // Iterations actually drawn, fewer than asked when the shader cannot resume across frames
+  const [iterationLimit, setIterationLimit] = useState<number | null>(null);
+  const useCpuRenderer = cpuReference || webglUnavailable;
+  const [showExport, setShowExport] = useState(false);
+  const [animation, setAnimation] = useState<Animation>(createAnimation);
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const bookmarkStoreRef = useRef<BookmarkStore | null>(null);
+  const bookmarkPresets = useMemo(() => bookmarks.map(bookmarkToPreset), [bookmarks]);
+  const [customPalettes, setCustomPalettes] = useState<ColorPalette[]>([]);
+  const [editingPalette, setEditingPalette] = useState(false);
+  const [paletteMessage, setPaletteMessage] = useState<string | null>(null);
+  const [showPerformance, setShowPerformance] = useState(false);
+  const [metrics, setMetrics] = useState<PerformanceMetrics>(() => performanceMonitor.getMetrics());
+  const palettes = useMemo(() => [...colorPalettes, ...customPalettes], [customPalettes]);
 
   // Initialize WebGL renderer
   useEffect(() => {
@@ -52,6 +160,8 @@ export function FractalStudio() {
       try {
         const renderer = new FractalRenderer(canvasRef.current!);
         rendererRef.current = renderer;
+        renderer.onIterationProgress = (completed, total) => setIterationProgress(completed / total);
+        renderer.onIterationLimit = setIterationLimit;
         
         // Start the render loop
         renderer.startRenderLoop();
@@ -59,7 +169,9 @@ export function FractalStudio() {
         setIsInitialized(true);
         console.log('Fractal renderer initialized successfully');
       } catch (error) {
-        console.error('Failed to initialize fractal renderer:', error);
+        console.error('Failed to initialize fractal renderer, falling back to the CPU:', error);
+        setWebglUnavailable(true);
+        setIsInitialized(true);
       }
     };
 
@@ -68,7 +180,7 @@ export function FractalStudio() {
 
   // Handle window resize
   useEffect(() => {
-    if (!isInitialized || !rendererRef.current) return;
+    if (!isInitialized) return;
 
     const handleResize = () => {
       const canvas = canvasRef.current;
@@ -92,7 +204,7 @@ export function FractalStudio() {
           aspectRatio: newWidth / newHeight
         }));
 
-        rendererRef.current!.resize(newWidth, newHeight);
+        rendererRef.current?.resize(newWidth, newHeight);
       }
     };
 
@@ -105,39 +217,337 @@ export function FractalStudio() {
   useEffect(() => {
     if (!isInitialized || !rendererRef.current) return;
     
-    rendererRef.current.updateParams(currentParams);
+    // The renderer keeps fields left out, so a view without a coloring is set back to smooth
+    rendererRef.current.updateParams({ ...currentParams, coloring: currentParams.coloring ?? 'smooth' });
   }, [currentParams, isInitialized]);
 
+  // Accumulate orbit densities over the escape-time view while enabled
+  useEffect(() => {
+    if (!densitySettings) {
+      densityRendererRef.current?.stop();
+      return;
+    }
+    if (!densityCanvasRef.current) return;
+
+    if (!densityRendererRef.current) {
+      densityRendererRef.current = new DensityRenderer(densityCanvasRef.current);
+      densityRendererRef.current.onProgress = setDensitySamples;
+    }
+    densityRendererRef.current.update(viewport, densitySettings);
+  }, [densitySettings, viewport]);
+
+  useEffect(() => () => densityRendererRef.current?.destroy(), []);
+
+  // Tiled float64 rendering in the worker pool, restarted on every view change
+  useEffect(() => {
+    if (!useCpuRenderer || !isInitialized) {
+      cpuRendererRef.current?.stop();
+      return;
+    }
+    if (!cpuCanvasRef.current) return;
+
+    if (!cpuRendererRef.current) {
+      try {
+        cpuRendererRef.current = new TiledRenderer(cpuCanvasRef.current);
+        cpuRendererRef.current.onProgress = (completed, total) => setCpuProgress(completed / total);
+      } catch (error) {
+        console.error('Failed to start the CPU renderer:', error);
+        return;
+      }
+    }
+    setCpuProgress(0);
+    cpuRendererRef.current.render(currentParams, viewport);
+  }, [useCpuRenderer, isInitialized, currentParams, viewport]);
+
+  useEffect(() => () => cpuRendererRef.current?.destroy(), []);
+
+  // Poll the performance monitor while it is shown
+  useEffect(() => {
+    if (!showPerformance) return;
+    setMetrics(performanceMonitor.getMetrics());
+    const interval = setInterval(() => setMetrics(performanceMonitor.getMetrics()), METRICS_INTERVAL);
+    return () => clearInterval(interval);
+  }, [showPerformance]);
+
+  // Restore the view from a shared link
+  useEffect(() => {
+    const params = decodeViewUrl(window.location.search);
+    if (!params) return;
+
+    setHistory(createHistory(params));
+  }, []);
+
+  // Built-in presets by name, bookmarks by id
+  const findPreset = useCallback((value: string) => (
+    getFractalPreset(value) ?? bookmarkPresets.find(preset => preset.id === value)
+  ), [bookmarkPresets]);
+
+  // Keep the preset selector on the fractal shown, e.g. after undoing a preset change
+  useEffect(() => {
+    setSelectedPreset(prev => findPreset(prev)?.params.fractalType === currentParams.fractalType
+      ? prev
+      : getFractalPresetByType(currentParams.fractalType)?.name ?? prev);
+  }, [currentParams.fractalType, findPreset]);
+
+  // Load the bookmark library saved in this browser
+  useEffect(() => {
+    if (!BookmarkStore.isAvailable()) return;
+
+    const store = new BookmarkStore();
+    bookmarkStoreRef.current = store;
+    store.getAll()
+      .then(saved => setBookmarks(prev => mergeBookmarks(saved, prev)))
+      .catch(error => console.error('Failed to load bookmarks:', error));
+
+    return () => {
+      store.close();
+      bookmarkStoreRef.current = null;
+    };
+  }, []);
+
+  // Load the custom palettes saved in this browser
+  useEffect(() => {
+    setCustomPalettes(loadCustomPalettes());
+  }, []);
+
+  // Keep the URL in step with the view, at most once per pause in panning and zooming
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      window.history.replaceState(null, '', `${window.location.pathname}?${encodeViewUrl(currentParams)}`);
+    }, URL_UPDATE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [currentParams]);
+
+  // Keep the viewport in step with the view parameters
+  useEffect(() => {
+    setViewport(prev => ({ ...prev, center: currentParams.center, zoom: currentParams.zoom }));
+  }, [currentParams.center, currentParams.zoom]);
+
+  // Thumbnail of the view on screen
+  const captureView = useCallback((size?: number) => {
+    const renderer = rendererRef.current;
+    const source = useCpuRenderer || !renderer ? cpuCanvasRef.current : canvasRef.current;
+    if (!source) return null;
+
+    // The WebGL drawing buffer can only be read in the task that drew it
+    if (!useCpuRenderer) renderer?.render();
+    return createThumbnail(source, size);
+  }, [useCpuRenderer]);
+
+  // Thumbnail of each view for its breadcrumb, once it has settled
+  const currentEntryId = history.entries[history.index].id;
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const thumbnail = captureView();
+      if (thumbnail) setHistory(prev => setThumbnail(prev, currentEntryId, thumbnail));
+    }, THUMBNAIL_DELAY);
+    return () => clearTimeout(timeout);
+  }, [currentEntryId, currentParams, captureView]);
+
+  // Move to a new view, recorded in the history as the event it describes
+  const navigate = useCallback((
+    update: (prev: FractalParams) => FractalParams,
+    describe: (prev: FractalParams, next: FractalParams, timestamp: number) => NavigationEvent
+  ) => {
+    const timestamp = performance.now();
+    setHistory(history => {
+      const prev = getCurrentParams(history);
+      const next = update(prev);
+      return pushHistory(history, next, describe(prev, next, timestamp));
+    });
+  }, []);
+
   // Handle parameter changes
   const handleParameterChange = useCallback((newParams: Partial<FractalParams>) => {
-    setCurrentParams(prev => ({ ...prev, ...newParams }));
-  }, []);
+    const paramName = Object.keys(newParams)[0] as keyof FractalParams;
+    navigate(
+      prev => ({ ...prev, ...newParams }),
+      (prev, next, timestamp) => createParamUpdateEvent(prev, next, paramName, timestamp)
+    );
+  }, [navigate]);
 
   // Handle preset selection
   const handlePresetChange = useCallback((presetName: string) => {
-    const preset = getFractalPreset(presetName);
+    const preset = findPreset(presetName);
     
     if (preset) {
       setSelectedPreset(presetName);
       
-      // Create the new parameters including ALL preset defaults
-      const newParams = {
+      // Create the new parameters including ALL preset defaults; bookmarks restore the view as saved
+      const newParams = presetName.startsWith(BOOKMARK_PRESET_PREFIX) ? validateFractalParams(preset.params) : {
         ...preset.params,
-        // Only preserve color palette and precision from current params
+        // Only preserve coloring and precision from current params
         colorPalette: currentParams.colorPalette,
-        precision: currentParams.precision
+        precision: currentParams.precision,
+        coloring: currentParams.coloring,
+        orbitTrap: currentParams.orbitTrap,
+        distanceEstimation: currentParams.distanceEstimation,
+        colorMapping: currentParams.colorMapping,
+        interior: currentParams.interior,
+        paletteTransform: currentParams.paletteTransform,
+        periodicityCheck: currentParams.periodicityCheck
       };
       
-      setCurrentParams(newParams);
+      navigate(() => newParams, (prev, next, timestamp) => createPresetChangeEvent(preset.name, timestamp));
       // Let the renderer handle viewport updates through updateParams
     } else {
       console.error('Preset not found:', presetName);
     }
-  }, [currentParams]);
+  }, [currentParams, findPreset, navigate]);
+
+  // Save the view on screen to the bookmark library
+  const handleBookmarkSave = useCallback((details: Pick<Bookmark, 'name' | 'tags' | 'notes'>) => {
+    const bookmark = createBookmark(currentParams, {
+      ...details,
+      thumbnail: captureView(BOOKMARK_THUMBNAIL_SIZE) ?? undefined
+    });
+    setBookmarks(prev => [...prev, bookmark]);
+    bookmarkStoreRef.current?.put([bookmark]).catch(error => console.error('Failed to save bookmark:', error));
+  }, [currentParams, captureView]);
+
+  const handleBookmarkDelete = useCallback((id: string) => {
+    setBookmarks(prev => prev.filter(bookmark => bookmark.id !== id));
+    bookmarkStoreRef.current?.delete(id).catch(error => console.error('Failed to delete bookmark:', error));
+  }, []);
+
+  const handleBookmarkImport = useCallback((imported: Bookmark[]) => {
+    setBookmarks(prev => mergeBookmarks(prev, imported));
+    bookmarkStoreRef.current?.put(imported).catch(error => console.error('Failed to save bookmarks:', error));
+  }, []);
+
+  const handlePalettePreview = useCallback((palette: ColorPalette | null) => {
+    rendererRef.current?.previewPalette(palette);
+  }, []);
+
+  const handlePaletteSave = useCallback((palette: ColorPalette) => {
+    setCustomPalettes(saveCustomPalette(palette));
+    setEditingPalette(false);
+    handleParameterChange({ colorPalette: palette.id });
+  }, [handleParameterChange]);
+
+  const handlePaletteDelete = useCallback((id: string) => {
+    setCustomPalettes(deleteCustomPalette(id));
+    setEditingPalette(false);
+    if (currentParams.colorPalette === id) {
+      handleParameterChange({ colorPalette: colorPalettes[0].id });
+    }
+  }, [currentParams.colorPalette, handleParameterChange]);
+
+  // Save the palettes in palette files and show the first
+  const handlePaletteImport = useCallback(async (files: File[]) => {
+    const imported: ColorPalette[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        imported.push(...importPaletteFile(await file.text(), file.name));
+      } catch (error) {
+        failed.push(error instanceof Error ? error.message : file.name);
+      }
+    }
+
+    imported.forEach(palette => setCustomPalettes(saveCustomPalette(palette)));
+    if (imported.length > 0) {
+      setEditingPalette(false);
+      handleParameterChange({ colorPalette: imported[0].id });
+    }
+    setPaletteMessage([
+      imported.length > 0 ? `Imported ${imported.length} palette${imported.length === 1 ? '' : 's'}` : '',
+      ...failed
+    ].filter(Boolean).join('. '));
+  }, [handleParameterChange]);
+
+  // Palette files dropped anywhere on the studio
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes('Files')) event.preventDefault();
+  }, []);
+
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    const files = Array.from(event.dataTransfer.files).filter(file => getPaletteFormat(file.name));
+    event.preventDefault();
+    if (files.length > 0) {
+      handlePaletteImport(files);
+    } else {
+      setPaletteMessage('Drop .map, .ugr, .ggr or .cpt palette files');
+    }
+  }, [handlePaletteImport]);
+
+  // Restore the parameters embedded in an exported image
+  const handleLoadParams = useCallback((params: Partial<FractalParams>) => {
+    navigate(
+      () => validateFractalParams(params),
+      (prev, next, timestamp) => createPresetChangeEvent('Opened image', timestamp)
+    );
+  }, [navigate]);
+
+  // Register a custom formula and switch to it once its shader compiles
+  const handleFormulaApply = useCallback((source: FormulaSource): FormulaDiagnostic[] => {
+    // Redefining a formula replaces it, so keep the working version until the new one compiles
+    const previous = getCustomFormula(getCustomFractalType(source.name));
+    const registration = registerCustomFormula(source);
+    if (!registration.success || !registration.fractalType) {
+      return registration.errors;
+    }
+
+    const { fractalType } = registration;
+    const isCurrent = currentParams.fractalType === fractalType;
+    const shaderErrors = rendererRef.current?.validateShader(fractalType) || [];
+    if (shaderErrors.length > 0) {
+      const shader = buildFractalShader(FractalLoader.getDefinition(fractalType));
+      if (previous) {
+        registerCustomFormula(previous);
+      } else {
+        unregisterCustomFormula(fractalType);
+      }
+      return mapShaderErrors(shader, shaderErrors);
+    }
+
+    const preset = getFractalPresetByType(fractalType)!;
+    setSelectedPreset(preset.name);
+    if (isCurrent) {
+      rendererRef.current?.reloadShader();
+    } else {
+      navigate(
+        prev => ({
+          ...preset.params,
+          colorPalette: prev.colorPalette,
+          precision: prev.precision
+        }),
+        (prev, next, timestamp) => createPresetChangeEvent(preset.name, timestamp)
+      );
+    }
+    return [];
+  }, [currentParams.fractalType, navigate]);
+
+  // Pan by a fraction of the canvas size. The visible height is 1/zoom in the
+  // complex plane; deep zoom views move their precise center in fixed point.
+  const panBy = useCallback((fractionX: number, fractionY: number) => {
+    navigate(
+      prev => ({
+        ...prev,
+        ...translateCenter(
+          prev,
+          -fractionX * viewport.aspectRatio / prev.zoom,
+          fractionY / prev.zoom
+        )
+      }),
+      createPanEvent
+    );
+  }, [viewport.aspectRatio, navigate]);
+
+  // Scale the zoom, switching to emulated double once float32 runs out
+  const zoomBy = useCallback((factor: number) => {
+    navigate(prev => {
+      const zoom = Math.max(0.001, Math.min(getMaxZoom(prev), prev.zoom * factor));
+      return { ...prev, zoom, precision: getAutoPrecision({ ...prev, zoom }) };
+    }, createZoomEvent);
+  }, [navigate]);
+
+  const handleUndo = useCallback(() => setHistory(undo), []);
+  const handleRedo = useCallback(() => setHistory(redo), []);
 
   // Mouse event handlers
   const handleMouseDown = useCallback((event: React.MouseEvent) => {
-    if (!rendererRef.current) return;
+    if (!isInitialized) return;
     
     const rect = canvasRef.current!.getBoundingClientRect();
     const x = event.clientX - rect.left;
@@ -148,10 +558,10 @@ export function FractalStudio() {
       isPanning: true,
       lastPanPosition: { x, y }
     }));
-  }, []);
+  }, [isInitialized]);
 
   const handleMouseMove = useCallback((event: React.MouseEvent) => {
-    if (!gestureState.isPanning || !rendererRef.current) return;
+    if (!gestureState.isPanning || !isInitialized) return;
     
     const rect = canvasRef.current!.getBoundingClientRect();
     const x = event.clientX - rect.left;
@@ -160,42 +570,27 @@ export function FractalStudio() {
     const deltaX = x - gestureState.lastPanPosition!.x;
     const deltaY = y - gestureState.lastPanPosition!.y;
     
-    // Convert screen coordinates to complex plane coordinates
-    const zoomFactor = viewport.zoom;
-    const aspectRatio = viewport.aspectRatio;
-    
-    const complexDeltaX = (deltaX / rect.width) * zoomFactor * aspectRatio;
-    const complexDeltaY = (deltaY / rect.height) * zoomFactor;
-    
-    const newCenter = {
-      real: viewport.center.real - complexDeltaX,
-      imag: viewport.center.imag + complexDeltaY
-    };
-    
-    setViewport(prev => ({ ...prev, center: newCenter }));
-    setCurrentParams(prev => ({ ...prev, center: newCenter }));
+    panBy(deltaX / rect.width, deltaY / rect.height);
     
     setGestureState(prev => ({
       ...prev,
       lastPanPosition: { x, y }
     }));
-  }, [gestureState.isPanning, gestureState.lastPanPosition, viewport]);
+  }, [gestureState.isPanning, gestureState.lastPanPosition, isInitialized, panBy]);
 
   const handleMouseUp = useCallback(() => {
     setGestureState(prev => ({ ...prev, isPanning: false }));
   }, []);
 
   const handleWheel = useCallback((event: React.WheelEvent) => {
-    if (!rendererRef.current) return;
+    if (!isInitialized) return;
     
     event.preventDefault();
     
     const zoomFactor = event.deltaY > 0 ? 1.1 : 0.9;
-    const newZoom = Math.max(0.001, Math.min(1000, viewport.zoom * zoomFactor));
     
-    setViewport(prev => ({ ...prev, zoom: newZoom }));
-    setCurrentParams(prev => ({ ...prev, zoom: newZoom }));
-  }, [viewport.zoom]);
+    zoomBy(zoomFactor);
+  }, [isInitialized, zoomBy]);
 
   // Touch event handlers for mobile
   const handleTouchStart = useCallback((event: React.TouchEvent) => {
@@ -241,19 +636,7 @@ export function FractalStudio() {
       const deltaX = x - gestureState.lastPanPosition!.x;
       const deltaY = y - gestureState.lastPanPosition!.y;
       
-      const zoomFactor = viewport.zoom;
-      const aspectRatio = viewport.aspectRatio;
-      
-      const complexDeltaX = (deltaX / rect.width) * zoomFactor * aspectRatio;
-      const complexDeltaY = (deltaY / rect.height) * zoomFactor;
-      
-      const newCenter = {
-        real: viewport.center.real - complexDeltaX,
-        imag: viewport.center.imag + complexDeltaY
-      };
-      
-      setViewport(prev => ({ ...prev, center: newCenter }));
-      setCurrentParams(prev => ({ ...prev, center: newCenter }));
+      panBy(deltaX / rect.width, deltaY / rect.height);
       
       setGestureState(prev => ({
         ...prev,
@@ -266,17 +649,15 @@ export function FractalStudio() {
       );
       
       const zoomFactor = distance / gestureState.lastZoomDistance!;
-      const newZoom = Math.max(0.001, Math.min(1000, viewport.zoom / zoomFactor));
       
-      setViewport(prev => ({ ...prev, zoom: newZoom }));
-      setCurrentParams(prev => ({ ...prev, zoom: newZoom }));
+      zoomBy(1 / zoomFactor);
       
       setGestureState(prev => ({
         ...prev,
         lastZoomDistance: distance
       }));
     }
-  }, [gestureState, viewport]);
+  }, [gestureState, panBy, zoomBy]);
 
   const handleTouchEnd = useCallback(() => {
     setGestureState(prev => ({
@@ -289,7 +670,34 @@ export function FractalStudio() {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      switch (event.key.toLowerCase()) {
+      // Leave keys to the field being typed in
+      const target = event.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if ((event.ctrlKey || event.metaKey) && key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+        return;
+      }
+      if (event.altKey && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+        event.preventDefault();
+        if (event.key === 'ArrowLeft') {
+          handleUndo();
+        } else {
+          handleRedo();
+        }
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+      switch (key) {
         case 'h':
           setShowControls(prev => !prev);
           break;
@@ -312,10 +720,10 @@ export function FractalStudio() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedPreset, handlePresetChange]);
+  }, [selectedPreset, handlePresetChange, handleUndo, handleRedo]);
 
   return (
-    <div className="relative w-screen h-screen overflow-hidden bg-black">
+    <div className="relative w-screen h-screen overflow-hidden bg-black" onDragOver={handleDragOver} onDrop={handleDrop}>
       {/* Canvas for WebGL rendering */}
       <canvas
         ref={canvasRef}
@@ -330,6 +738,20 @@ export function FractalStudio() {
         onTouchEnd={handleTouchEnd}
       />
 
+      {/* CPU rendering; gestures pass through to the canvas below */}
+      <canvas
+        ref={cpuCanvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{ display: useCpuRenderer ? 'block' : 'none' }}
+      />
+
+      {/* Orbit density image; gestures pass through to the canvas below */}
+      <canvas
+        ref={densityCanvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{ display: densitySettings ? 'block' : 'none' }}
+      />
+
       {/* Parameter Controls */}
       {showControls && isInitialized && (
         <div className="absolute top-4 right-4 z-30 w-80 max-w-[calc(100vw-2rem)] lg:max-w-sm">
@@ -340,12 +762,148 @@ export function FractalStudio() {
             <ParameterControls
               params={currentParams}
               onParamsChange={handleParameterChange}
-              palettes={colorPalettes}
+              palettes={palettes}
+            />
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Palettes
+            </h2>
+            <div className="space-y-3">
+              <button
+                onClick={() => setEditingPalette(prev => !prev)}
+                className="w-full px-3 py-2 text-sm text-white bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg"
+              >
+                {editingPalette ? 'Close Editor' : 'Edit Palette…'}
+              </button>
+              {editingPalette && (
+                <PaletteEditor
+                  key={currentParams.colorPalette}
+                  palette={getColorPalette(currentParams.colorPalette) ?? colorPalettes[0]}
+                  onPreview={handlePalettePreview}
+                  onSave={handlePaletteSave}
+                  onDelete={handlePaletteDelete}
+                />
+              )}
+              <PaletteFiles
+                palette={getColorPalette(currentParams.colorPalette) ?? colorPalettes[0]}
+                message={paletteMessage}
+                onImport={handlePaletteImport}
+              />
+              <PaletteTransformControls params={currentParams} onParamsChange={handleParameterChange} />
+            </div>
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Coloring
+            </h2>
+            <ColoringControls params={currentParams} onParamsChange={handleParameterChange} />
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Interior
+            </h2>
+            <InteriorControls params={currentParams} onParamsChange={handleParameterChange} palettes={palettes} />
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Renderer
+            </h2>
+            <div className="space-y-3">
+              <label className="flex items-center space-x-2 text-white text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={useCpuRenderer}
+                  disabled={webglUnavailable}
+                  onChange={(e) => setCpuReference(e.target.checked)}
+                  className="rounded"
+                />
+                <span>CPU Reference (float64)</span>
+              </label>
+              <label
+                className="flex items-center space-x-2 text-white text-sm font-medium"
+                title="Stop iterating points whose orbit repeats; they never escape"
+              >
+                <input
+                  type="checkbox"
+                  checked={currentParams.periodicityCheck ?? true}
+                  onChange={(e) => handleParameterChange({ periodicityCheck: e.target.checked })}
+                  className="rounded"
+                />
+                <span>Periodicity checking</span>
+              </label>
+              <label className="flex items-center space-x-2 text-white text-sm font-medium">
+                <input
+                  type="checkbox"
+                  checked={showPerformance}
+                  onChange={(e) => setShowPerformance(e.target.checked)}
+                  className="rounded"
+                />
+                <span>Performance monitor</span>
+              </label>
+              {!useCpuRenderer && iterationProgress < 1 && (
+                <div className="text-xs text-gray-400">
+                  Iterating across frames • {Math.round(iterationProgress * 100)}%
+                </div>
+              )}
+              {!useCpuRenderer && iterationLimit !== null && iterationLimit < currentParams.maxIterations && (
+                <div className="text-xs text-yellow-200">
+                  Limited to {iterationLimit.toLocaleString()} iterations: this view draws in a single pass
+                </div>
+              )}
+              {useCpuRenderer && (
+                <div className="text-xs text-gray-400">
+                  {webglUnavailable ? 'WebGL2 is unavailable. ' : ''}
+                  Tiled rendering in a worker per core • {Math.round(cpuProgress * 100)}%
+                </div>
+              )}
+            </div>
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Density
+            </h2>
+            <DensityControls
+              settings={densitySettings}
+              samples={densitySamples}
+              onChange={setDensitySettings}
+            />
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Formula
+            </h2>
+            <FormulaEditor onApply={handleFormulaApply} />
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Export
+            </h2>
+            <button
+              disabled={webglUnavailable}
+              onClick={() => setShowExport(true)}
+              className="w-full px-3 py-2 text-sm text-white bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg disabled:opacity-50"
+            >
+              Export Image…
+            </button>
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Bookmarks
+            </h2>
+            <BookmarkLibrary
+              bookmarks={bookmarks}
+              onSave={handleBookmarkSave}
+              onSelect={(bookmark) => handlePresetChange(bookmarkToPreset(bookmark).id!)}
+              onDelete={handleBookmarkDelete}
+              onImport={handleBookmarkImport}
+            />
+            <h2 className="text-white font-semibold mt-6 mb-3 lg:mb-4 text-xs lg:text-sm uppercase tracking-wide opacity-90">
+              Animation
+            </h2>
+            <AnimationTimeline
+              animation={animation}
+              params={currentParams}
+              onChange={setAnimation}
+              onPreview={(params) => setHistory(history => replaceCurrent(history, params))}
             />
           </div>
         </div>
       )}
 
+      {showExport && (
+        <ExportDialog
+          params={currentParams}
+          aspectRatio={viewport.aspectRatio}
+          onLoad={handleLoadParams}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
       {/* Preset Selector - Top Bar */}
       {showControls && isInitialized && (
         <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-30 w-auto max-w-[calc(100vw-2rem)]">
@@ -356,6 +914,7 @@ export function FractalStudio() {
               </h2>
               <PresetSelector
                 presets={fractalPresets}
+                bookmarks={bookmarkPresets}
                 selectedPreset={selectedPreset}
                 onPresetChange={handlePresetChange}
               />
@@ -378,11 +937,47 @@ export function FractalStudio() {
         </div>
       )}
 
+      {/* Performance Monitor */}
+      {showControls && isInitialized && showPerformance && (
+        <div className="absolute top-28 left-4 z-30 w-64 h-[calc(100vh-16rem)] fade-in">
+          <PerformanceDisplay metrics={metrics} viewport={viewport} />
+        </div>
+      )}
+
+      {/* Breadcrumbs of the views visited */}
+      {showControls && isInitialized && history.entries.length > 1 && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-30 max-w-[calc(100vw-24rem)]">
+          <div className="glass-panel px-3 py-2 fade-in flex items-center space-x-2">
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo(history)}
+              title="Back (Ctrl+Z, Alt+←)"
+              className="px-2 text-white disabled:opacity-30"
+            >
+              ←
+            </button>
+            <HistoryBreadcrumbs
+              entries={history.entries}
+              index={history.index}
+              onSelect={(index) => setHistory(prev => jumpTo(prev, index))}
+            />
+            <button
+              onClick={handleRedo}
+              disabled={!canRedo(history)}
+              title="Forward (Ctrl+Shift+Z, Alt+→)"
+              className="px-2 text-white disabled:opacity-30"
+            >
+              →
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Help Overlay */}
       <div className="absolute bottom-4 left-4 z-40">
         <div className="glass-panel p-4 text-white opacity-75 hover:opacity-100 transition-opacity duration-300">
           <p className="font-medium text-sm mb-1">Controls</p>
-          <p className="text-xs opacity-80">H - Toggle UI • Mouse - Pan/Zoom • 1-5 - Presets</p>
+          <p className="text-xs opacity-80">H - Toggle UI • Mouse - Pan/Zoom • 1-5 - Presets • Ctrl+Z - Undo</p>
         </div>
       </div>
     </div>
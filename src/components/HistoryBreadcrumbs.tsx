@@ -0,0 +1,47 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { HistoryEntry, describeEvent } from '@/lib/history/navigation-history';
+
+interface HistoryBreadcrumbsProps {
+  entries: HistoryEntry[];
+  index: number;
+  onSelect: (index: number) => void;
+}
+
+export function HistoryBreadcrumbs({ entries, index, onSelect }: HistoryBreadcrumbsProps) {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current view in sight as the strip grows
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [index, entries.length]);
+
+  return (
+    <div className="flex items-end space-x-2 overflow-x-auto">
+      {entries.map((entry, k) => {
+        const label = describeEvent(entry.event);
+        return (
+          <button
+            key={entry.id}
+            ref={k === index ? currentRef : undefined}
+            onClick={() => onSelect(k)}
+            title={label}
+            className={`flex-shrink-0 w-16 rounded border-2 overflow-hidden ${
+              k === index ? 'border-white' : 'border-transparent'
+            } ${k > index ? 'opacity-40' : 'opacity-80 hover:opacity-100'}`}
+          >
+            {entry.thumbnail ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={entry.thumbnail} alt={label} className="w-16 h-10 object-cover" />
+            ) : (
+              <div className="w-16 h-10 flex items-center justify-center text-[10px] text-white bg-white bg-opacity-10">
+                {label}
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import { ColorPalette, FractalParams, InteriorColoringMode, InteriorColoringParams } from '@/types/fractal';
+import {
+  DEFAULT_INTERIOR_COLORING,
+  INTERIOR_COLORINGS,
+  getInteriorPalette,
+  getSupportedInterior
+} from '@/lib/coloring/interior-coloring';
+import FractalLoader from '@/lib/fractals/loader';
+
+interface InteriorControlsProps {
+  params: FractalParams;
+  onParamsChange: (params: Partial<FractalParams>) => void;
+  palettes: ColorPalette[];
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+
+export function InteriorControls({ params, onParamsChange, palettes }: InteriorControlsProps) {
+  const interior = params.interior ?? DEFAULT_INTERIOR_COLORING;
+  const definition = FractalLoader.getDefinition(params.fractalType);
+  const supported = getSupportedInterior(definition, params.coloring ?? 'smooth', interior.mode) === interior.mode;
+  const paletteId = getInteriorPalette(interior);
+
+  const update = (changes: Partial<InteriorColoringParams>) =>
+    onParamsChange({ interior: { ...interior, ...changes } });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <select
+          value={interior.mode}
+          title="How points that never escape are colored"
+          onChange={(e) => update({ mode: e.target.value as InteriorColoringMode })}
+          className={inputClassName}
+        >
+          {INTERIOR_COLORINGS.map(mode => (
+            <option key={mode.value} style={{ backgroundColor: 'white', color: 'black' }} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="color"
+          value={interior.color}
+          title={interior.mode === 'solid' ? 'Interior color' : 'Color of points the mode cannot place'}
+          onChange={(e) => update({ color: e.target.value })}
+          className="w-8 h-6 bg-transparent"
+        />
+      </div>
+
+      {paletteId && supported && (
+        <div className="flex items-center space-x-2">
+          <span className="w-16 text-xs text-gray-300">Palette</span>
+          <select
+            value={paletteId}
+            onChange={(e) => update({ palettes: { ...interior.palettes, [interior.mode]: e.target.value } })}
+            className={inputClassName}
+          >
+            {palettes.map(palette => (
+              <option key={palette.id} style={{ backgroundColor: 'white', color: 'black' }} value={palette.id}>
+                {palette.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!supported && (
+        <div className="text-xs text-gray-400">
+          {interior.mode === 'distance'
+            ? 'The interior distance estimate applies to Mandelbrot, Julia and Multibrot sets only'
+            : 'Interior modes apply to escape-time fractals without orbit traps only'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Complex, NewtonParams, NewtonVariant } from '@/types/fractal';
+import { DEFAULT_NEWTON_PARAMS, MAX_NEWTON_RELAXATION, MIN_NEWTON_RELAXATION } from '@/lib/fractals/newton';
+import { MAX_POLYNOMIAL_DEGREE, findRoots, polynomialFromRoots } from '@/lib/fractals/polynomial';
+
+interface NewtonControlsProps {
+  newton?: NewtonParams;
+  onChange: (newton: NewtonParams) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+
+// Round away Durand–Kerner noise such as 0.9999999999
+const roundRoot = (value: number) => Math.round(value * 1e9) / 1e9;
+
+const sameCoefficients = (a: Complex[], b: Complex[]) =>
+  a.length === b.length && a.every((value, k) => value.real === b[k].real && value.imag === b[k].imag);
+
+export function NewtonControls({ newton = DEFAULT_NEWTON_PARAMS, onChange }: NewtonControlsProps) {
+  const [mode, setMode] = useState<'coefficients' | 'roots'>('coefficients');
+  // Roots as the user entered them, with the coefficients derived from them
+  const [entered, setEntered] = useState<{ roots: Complex[]; coefficients: Complex[] } | null>(null);
+
+  // Solve for the roots only when the coefficients did not come from the entered ones
+  const roots = entered && sameCoefficients(entered.coefficients, newton.coefficients)
+    ? entered.roots
+    : findRoots(newton.coefficients).map(root => ({ real: roundRoot(root.real), imag: roundRoot(root.imag) }));
+  const values = mode === 'coefficients' ? newton.coefficients : roots;
+
+  const setValues = (next: Complex[]) => {
+    if (mode === 'coefficients') {
+      onChange({ ...newton, coefficients: next });
+      return;
+    }
+    const coefficients = polynomialFromRoots(next);
+    setEntered({ roots: next, coefficients });
+    onChange({ ...newton, coefficients });
+  };
+
+  const handleValueChange = (index: number, part: keyof Complex, value: number) => {
+    setValues(values.map((item, k) => (k === index ? { ...item, [part]: value } : item)));
+  };
+
+  // Removing the leading coefficient must leave a non-zero one in its place
+  const handleRemove = () => {
+    const next = values.slice(0, -1);
+    const leading = next[next.length - 1];
+    if (mode === 'coefficients' && leading.real === 0 && leading.imag === 0) {
+      next[next.length - 1] = { real: 1, imag: 0 };
+    }
+    setValues(next);
+  };
+
+  // Adding a coefficient raises the degree with a unit term; adding a root appends z = 0
+  const canAdd = values.length < (mode === 'coefficients' ? MAX_POLYNOMIAL_DEGREE + 1 : MAX_POLYNOMIAL_DEGREE);
+  const canRemove = values.length > (mode === 'coefficients' ? 2 : 1);
+
+  const label = (index: number) => {
+    if (mode === 'roots') return `r${index + 1}`;
+    return index === 0 ? 'a0' : `a${index} z${index > 1 ? `^${index}` : ''}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-white text-sm font-medium">
+        Polynomial (degree {newton.coefficients.length - 1})
+      </label>
+
+      <div className="flex space-x-2">
+        {(['coefficients', 'roots'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`flex-1 px-2 py-1 rounded text-xs text-white ${
+              mode === option ? 'bg-blue-600' : 'bg-white bg-opacity-10 hover:bg-opacity-20'
+            }`}
+          >
+            {option === 'coefficients' ? 'Coefficients' : 'Roots'}
+          </button>
+        ))}
+      </div>
+
+      {values.map((value, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <span className="w-14 text-xs text-gray-300 font-mono">{label(index)}</span>
+          {(['real', 'imag'] as const).map((part) => (
+            <input
+              key={part}
+              type="number"
+              step={0.1}
+              value={value[part]}
+              title={part === 'real' ? 'Real part' : 'Imaginary part'}
+              onChange={(e) => handleValueChange(index, part, parseFloat(e.target.value) || 0)}
+              className={inputClassName}
+            />
+          ))}
+        </div>
+      ))}
+
+      <div className="flex space-x-2">
+        <button
+          disabled={!canAdd}
+          onClick={() => setValues([...values, mode === 'coefficients' ? { real: 1, imag: 0 } : { real: 0, imag: 0 }])}
+          className="flex-1 px-2 py-1 rounded text-xs text-white bg-white bg-opacity-10 hover:bg-opacity-20 disabled:opacity-40"
+        >
+          Add {mode === 'coefficients' ? 'term' : 'root'}
+        </button>
+        <button
+          disabled={!canRemove}
+          onClick={handleRemove}
+          className="flex-1 px-2 py-1 rounded text-xs text-white bg-white bg-opacity-10 hover:bg-opacity-20 disabled:opacity-40"
+        >
+          Remove {mode === 'coefficients' ? 'term' : 'root'}
+        </button>
+      </div>
+
+      <label className="block text-white text-sm font-medium">
+        Variant
+      </label>
+      <select
+        value={newton.variant}
+        onChange={(e) => onChange({ ...newton, variant: e.target.value as NewtonVariant })}
+        className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-sm"
+      >
+        <option style={{ backgroundColor: 'white', color: 'black' }} value="newton">Newton (root basins)</option>
+        <option style={{ backgroundColor: 'white', color: 'black' }} value="nova">Nova (z₀ = 1, + c)</option>
+      </select>
+
+      <label className="block text-white text-sm font-medium">
+        Relaxation
+      </label>
+      <input
+        type="range"
+        min={MIN_NEWTON_RELAXATION}
+        max={MAX_NEWTON_RELAXATION}
+        step={0.01}
+        value={newton.relaxation}
+        onChange={(e) => onChange({ ...newton, relaxation: parseFloat(e.target.value) })}
+        className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+      />
+      <div className="text-xs text-gray-400">
+        z − {newton.relaxation.toFixed(2)}·f(z)/f′(z){newton.variant === 'nova' ? ' + c' : ''}
+        {newton.relaxation === 1 ? '' : ' (relaxed)'}
+      </div>
+    </div>
+  );
+}
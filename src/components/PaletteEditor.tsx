@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ColorPalette, PaletteInterpolation } from '@/types/fractal';
+import {
+  GradientStop,
+  PALETTE_INTERPOLATIONS,
+  createCustomPalette,
+  generateSmoothGradient,
+  getGradientStops
+} from '@/lib/color-palettes';
+
+interface PaletteEditorProps {
+  palette: ColorPalette; // Starting point of the edit
+  onPreview: (palette: ColorPalette | null) => void;
+  onSave: (palette: ColorPalette) => void;
+  onDelete?: (id: string) => void; // Offered for saved custom palettes
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+const buttonClassName = 'px-2 py-1 text-xs text-white bg-white bg-opacity-10 rounded disabled:opacity-40';
+
+// Samples of the gradient drawn behind the stops
+const PREVIEW_STEPS = 64;
+
+export function PaletteEditor({ palette, onPreview, onSave, onDelete }: PaletteEditorProps) {
+  const [name, setName] = useState(palette.id.startsWith('custom-') ? palette.name : `${palette.name} copy`);
+  const [type, setType] = useState(palette.type);
+  const [interpolation, setInterpolation] = useState<PaletteInterpolation>(palette.interpolation ?? 'rgb');
+  const [stops, setStops] = useState<GradientStop[]>(() =>
+    getGradientStops(palette.colors, palette.stops, palette.type === 'cyclic'));
+  const [selected, setSelected] = useState(0);
+  const barRef = useRef<HTMLDivElement>(null);
+  const dragging = useRef<number | null>(null);
+
+  const draft = useMemo(() => {
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    return createCustomPalette(
+      name.trim() || palette.name,
+      sorted.map(stop => stop.color),
+      type,
+      sorted.map(stop => stop.position),
+      interpolation
+    );
+  }, [stops, name, type, interpolation, palette.name]);
+
+  const gradient = useMemo(() => generateSmoothGradient(draft.colors, PREVIEW_STEPS, {
+    stops: draft.stops,
+    interpolation,
+    cyclic: type === 'cyclic'
+  }), [draft, interpolation, type]);
+
+  // Show the draft on the fractal while editing, and the saved palette after
+  useEffect(() => {
+    onPreview(draft);
+  }, [draft, onPreview]);
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const getPosition = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+  };
+
+  const updateStop = (index: number, changes: Partial<GradientStop>) =>
+    setStops(prev => prev.map((stop, i) => i === index ? { ...stop, ...changes } : stop));
+
+  // Clicking the bar adds a stop of the color already shown there
+  const handleBarClick = (event: React.MouseEvent) => {
+    if (event.target !== barRef.current) return;
+    const position = getPosition(event.clientX);
+    const color = gradient[Math.min(PREVIEW_STEPS - 1, Math.round(position * (PREVIEW_STEPS - 1)))];
+    setStops(prev => [...prev, { position, color }]);
+    setSelected(stops.length);
+  };
+
+  const handleRemove = () => {
+    setStops(prev => prev.filter((_, i) => i !== selected));
+    setSelected(0);
+  };
+
+  const current = stops[selected] ?? stops[0];
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={barRef}
+        onClick={handleBarClick}
+        className="relative h-6 rounded cursor-copy"
+        style={{ background: `linear-gradient(to right, ${gradient.join(', ')})` }}
+        title="Click to add a stop"
+      >
+        {stops.map((stop, index) => (
+          <div
+            key={index}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              dragging.current = index;
+              setSelected(index);
+            }}
+            onPointerMove={(e) => {
+              if (dragging.current === index) updateStop(index, { position: getPosition(e.clientX) });
+            }}
+            onPointerUp={() => {
+              dragging.current = null;
+            }}
+            className={`absolute top-0 w-3 h-6 -ml-1.5 rounded-sm border-2 cursor-ew-resize ${
+              index === selected ? 'border-white' : 'border-black border-opacity-60'
+            }`}
+            style={{ left: `${stop.position * 100}%`, backgroundColor: stop.color }}
+          />
+        ))}
+      </div>
+
+      {current && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="color"
+            value={current.color}
+            onChange={(e) => updateStop(selected, { color: e.target.value })}
+            className="w-8 h-6 bg-transparent"
+          />
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.1}
+            value={Math.round(current.position * 1000) / 10}
+            title="Position (%)"
+            onChange={(e) => updateStop(selected, { position: Math.max(0, Math.min(1, (parseFloat(e.target.value) || 0) / 100)) })}
+            className={inputClassName}
+          />
+          <button onClick={handleRemove} disabled={stops.length <= 2} className={buttonClassName}>
+            Remove
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={interpolation}
+          title="Color space blended in between stops"
+          onChange={(e) => setInterpolation(e.target.value as PaletteInterpolation)}
+          className={inputClassName}
+        >
+          {PALETTE_INTERPOLATIONS.map(option => (
+            <option key={option.value} style={{ backgroundColor: 'white', color: 'black' }} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={type}
+          title="Cyclic palettes blend the last color back into the first"
+          onChange={(e) => setType(e.target.value as ColorPalette['type'])}
+          className={inputClassName}
+        >
+          <option style={{ backgroundColor: 'white', color: 'black' }} value="linear">Linear</option>
+          <option style={{ backgroundColor: 'white', color: 'black' }} value="cyclic">Cyclic</option>
+        </select>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Palette name"
+          onChange={(e) => setName(e.target.value)}
+          className={inputClassName}
+        />
+        <button onClick={() => onSave(draft)} disabled={!name.trim()} className={buttonClassName}>
+          Save
+        </button>
+        {onDelete && palette.id.startsWith('custom-') && (
+          <button onClick={() => onDelete(palette.id)} className={buttonClassName}>
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
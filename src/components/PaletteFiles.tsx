@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ColorPalette } from '@/types/fractal';
+import { PALETTE_FORMATS, PaletteFormat, exportPalette } from '@/lib/palettes/palette-formats';
+
+interface PaletteFilesProps {
+  palette: ColorPalette;
+  message: string | null;
+  onImport: (files: File[]) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+const buttonClassName = 'px-2 py-1 text-xs text-white bg-white bg-opacity-10 rounded disabled:opacity-40';
+
+export function PaletteFiles({ palette, message, onImport }: PaletteFilesProps) {
+  const [format, setFormat] = useState<PaletteFormat>('map');
+
+  const handleExport = () => {
+    const blob = new Blob([exportPalette(palette, format)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${palette.name.replace(/[^\w-]+/g, '-')}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as PaletteFormat)}
+          className={inputClassName}
+        >
+          {PALETTE_FORMATS.map(option => (
+            <option key={option.value} style={{ backgroundColor: 'white', color: 'black' }} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleExport} className={buttonClassName}>
+          Export
+        </button>
+        <label className={`${buttonClassName} cursor-pointer whitespace-nowrap`}>
+          Import…
+          <input
+            type="file"
+            multiple
+            accept=".map,.ugr,.ggr,.cpt"
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              if (files.length > 0) onImport(files);
+            }}
+          />
+        </label>
+      </div>
+      <div className="text-xs text-gray-400">{message ?? 'Palette files can also be dropped onto the view'}</div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import { FractalParams, PaletteDensity, PaletteTransformParams } from '@/types/fractal';
+import {
+  DEFAULT_PALETTE_TRANSFORM,
+  MAX_PALETTE_CYCLES,
+  MAX_PALETTE_SPEED,
+  PALETTE_DENSITIES
+} from '@/lib/coloring/palette-transform';
+
+interface PaletteTransformControlsProps {
+  params: FractalParams;
+  onParamsChange: (params: Partial<FractalParams>) => void;
+}
+
+const inputClassName = 'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs';
+const sliderClassName = 'w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider';
+
+export function PaletteTransformControls({ params, onParamsChange }: PaletteTransformControlsProps) {
+  const transform = params.paletteTransform ?? DEFAULT_PALETTE_TRANSFORM;
+  const update = (changes: Partial<PaletteTransformParams>) =>
+    onParamsChange({ paletteTransform: { ...transform, ...changes } });
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-white text-sm font-medium">
+        Offset: {transform.offset.toFixed(2)}
+      </label>
+      <input
+        type="range"
+        min={0}
+        max={0.99}
+        step={0.01}
+        value={transform.offset}
+        onChange={(e) => update({ offset: parseFloat(e.target.value) })}
+        className={sliderClassName}
+      />
+
+      {/* Logarithmic steps so that few and many repeats are both reachable */}
+      <label className="block text-white text-sm font-medium">
+        Cycles: {transform.cycles.toFixed(transform.cycles < 10 ? 2 : 1)}
+      </label>
+      <input
+        type="range"
+        min={-2}
+        max={Math.log2(MAX_PALETTE_CYCLES)}
+        step={0.01}
+        value={Math.log2(transform.cycles)}
+        onChange={(e) => update({ cycles: Math.pow(2, parseFloat(e.target.value)) })}
+        className={sliderClassName}
+      />
+
+      <label className="block text-white text-sm font-medium">
+        Cycle speed: {transform.speed.toFixed(2)} / s
+      </label>
+      <input
+        type="range"
+        min={-MAX_PALETTE_SPEED}
+        max={MAX_PALETTE_SPEED}
+        step={0.01}
+        value={transform.speed}
+        onChange={(e) => update({ speed: parseFloat(e.target.value) })}
+        className={sliderClassName}
+      />
+
+      <div className="flex items-center space-x-2">
+        <span className="w-16 text-xs text-gray-300">Density</span>
+        <select
+          value={transform.density}
+          title="Logarithmic density spends more of the palette on low iteration counts"
+          onChange={(e) => update({ density: e.target.value as PaletteDensity })}
+          className={inputClassName}
+        >
+          {PALETTE_DENSITIES.map(density => (
+            <option key={density.value} style={{ backgroundColor: 'white', color: 'black' }} value={density.value}>
+              {density.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <label className="flex items-center space-x-2 text-white text-sm">
+          <input
+            type="checkbox"
+            checked={transform.reverse}
+            onChange={(e) => update({ reverse: e.target.checked })}
+          />
+          <span>Reverse</span>
+        </label>
+        <label className="flex items-center space-x-2 text-white text-sm">
+          <input
+            type="checkbox"
+            checked={transform.wobble}
+            onChange={(e) => update({ wobble: e.target.checked })}
+          />
+          <span>Wobble</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,19 @@
 'use client';
 
 import React from 'react';
-import { FractalParams, ColorPalette } from '@/types/fractal';
+import { FractalParams, ColorPalette, HighPrecisionComplex, ShaderPrecision } from '@/types/fractal';
+import { MAX_ITERATIONS, MIN_ITERATIONS, getAutoPrecision, getMaxZoom } from '@/lib/fractal-presets-modular';
+import { getPreciseCenter } from '@/lib/deep-zoom/perturbation';
+import { supportsPerturbation } from '@/lib/deep-zoom/reference-orbit';
+import { isDecimalString } from '@/lib/deep-zoom/fixed-point';
+import {
+  DEFAULT_MULTIBROT_EXPONENT,
+  MAX_MULTIBROT_EXPONENT,
+  MIN_MULTIBROT_EXPONENT
+} from '@/lib/fractals/multibrot';
+import FractalLoader from '@/lib/fractals/loader';
+import { NewtonControls } from './NewtonControls';
+import { FractalParameterControls } from './FractalParameterControls';
 
 interface ParameterControlsProps {
   params: FractalParams;
@@ -9,15 +21,76 @@ interface ParameterControlsProps {
   palettes: ColorPalette[];
 }
 
+// Two significant digits, so the logarithmic slider lands on round counts
+function roundIterations(iterations: number): number {
+  const unit = Math.pow(10, Math.max(0, Math.floor(Math.log10(iterations)) - 1));
+  return Math.round(iterations / unit) * unit;
+}
+
 export function ParameterControls({ params, onParamsChange, palettes = [] }: ParameterControlsProps) {
   const handleSliderChange = (key: keyof FractalParams, value: unknown) => {
     onParamsChange({ [key]: value });
   };
 
+  const handleZoomChange = (zoom: number) => {
+    onParamsChange({ zoom, precision: getAutoPrecision({ ...params, zoom }) });
+  };
+
+  const handlePrecisionChange = (precision: ShaderPrecision) => {
+    onParamsChange({
+      precision,
+      zoom: Math.min(params.zoom, getMaxZoom({ ...params, precision }))
+    });
+  };
+
+  const handleIterationsInput = (input: HTMLInputElement) => {
+    const iterations = parseInt(input.value, 10);
+    if (Number.isFinite(iterations)) {
+      onParamsChange({ maxIterations: Math.max(MIN_ITERATIONS, Math.min(MAX_ITERATIONS, iterations)) });
+    } else {
+      input.value = String(params.maxIterations);
+    }
+  };
+
   const formatComplexNumber = (num: number) => {
     return num.toFixed(6);
   };
 
+  const handleCenterChange = (part: keyof HighPrecisionComplex, value: number) => {
+    const center = { ...params.center, [part]: value };
+    if (params.deepZoom) {
+      onParamsChange({ center, preciseCenter: { ...getPreciseCenter(params), [part]: String(value) } });
+    } else {
+      onParamsChange({ center });
+    }
+  };
+
+  const handleDeepZoomChange = (enabled: boolean) => {
+    if (enabled) {
+      onParamsChange({ deepZoom: true, preciseCenter: getPreciseCenter(params) });
+    } else {
+      onParamsChange({
+        deepZoom: false,
+        preciseCenter: undefined,
+        zoom: Math.min(params.zoom, getMaxZoom({ ...params, deepZoom: false }))
+      });
+    }
+  };
+
+  const handlePreciseCenterChange = (part: keyof HighPrecisionComplex, value: string) => {
+    if (!isDecimalString(value)) return;
+
+    onParamsChange({
+      preciseCenter: { ...getPreciseCenter(params), [part]: value.trim() },
+      center: { ...params.center, [part]: parseFloat(value) }
+    });
+  };
+
+  const canDeepZoom = supportsPerturbation(params.fractalType);
+  const preciseCenter = getPreciseCenter(params);
+  const exponent = params.exponent ?? DEFAULT_MULTIBROT_EXPONENT;
+  const { parameters } = FractalLoader.getDefinition(params.fractalType);
+
   return (
     <div className="space-y-6">
       {/* Zoom and Center */}
@@ -28,10 +101,10 @@ export function ParameterControls({ params, onParamsChange, palettes = [] }: Par
           <input
             type="range"
             min={-10}
-            max={10}
+            max={Math.log10(getMaxZoom(params))}
             step={0.1}
             value={Math.log10(params.zoom)}
-            onChange={(e) => handleSliderChange('zoom', Math.pow(10, parseFloat(e.target.value)))}
+            onChange={(e) => handleZoomChange(Math.pow(10, parseFloat(e.target.value)))}
             className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
           />
           <div className="text-xs text-gray-400">
@@ -48,10 +121,7 @@ export function ParameterControls({ params, onParamsChange, palettes = [] }: Par
             type="number"
             step={0.000001}
             value={formatComplexNumber(params.center.real)}
-            onChange={(e) => handleSliderChange('center', {
-              ...params.center,
-              real: parseFloat(e.target.value) || 0
-            })}
+            onChange={(e) => handleCenterChange('real', parseFloat(e.target.value) || 0)}
             className="w-full px-3 py-2 bg-gray-900 bg-opacity-80 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
             style={{
               color: 'white',
@@ -69,10 +139,7 @@ export function ParameterControls({ params, onParamsChange, palettes = [] }: Par
             type="number"
             step={0.000001}
             value={formatComplexNumber(params.center.imag)}
-            onChange={(e) => handleSliderChange('center', {
-              ...params.center,
-              imag: parseFloat(e.target.value) || 0
-            })}
+            onChange={(e) => handleCenterChange('imag', parseFloat(e.target.value) || 0)}
             className="w-full px-3 py-2 bg-gray-900 bg-opacity-80 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400"
             style={{
               color: 'white',
@@ -81,21 +148,68 @@ export function ParameterControls({ params, onParamsChange, palettes = [] }: Par
           />
         </div>
 
-        {/* Max Iterations */}
+        {/* Deep Zoom */}
+        {canDeepZoom && (
+          <div className="space-y-3">
+            <label className="flex items-center space-x-2 text-white text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={!!params.deepZoom}
+                onChange={(e) => handleDeepZoomChange(e.target.checked)}
+                className="rounded"
+              />
+              <span>Deep Zoom (Perturbation)</span>
+            </label>
+            {params.deepZoom && (
+              <>
+                {(['real', 'imag'] as const).map((part) => (
+                  <input
+                    key={`${part}-${preciseCenter[part]}`}
+                    type="text"
+                    spellCheck={false}
+                    defaultValue={preciseCenter[part]}
+                    onBlur={(e) => handlePreciseCenterChange(part, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handlePreciseCenterChange(part, e.currentTarget.value);
+                    }}
+                    aria-label={part === 'real' ? 'Precise center (real)' : 'Precise center (imaginary)'}
+                    className="w-full px-3 py-2 bg-gray-900 bg-opacity-80 border border-gray-600 rounded-lg text-white text-xs font-mono"
+                  />
+                ))}
+                <div className="text-xs text-gray-400">
+                  Exact center for zooms beyond 1e6, computed with an arbitrary-precision reference orbit
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Max Iterations: logarithmic steps from tens to millions */}
         <div className="space-y-3">
           <label className="block text-white text-sm font-medium">
             Max Iterations
           </label>
-          <select
-            value={params.maxIterations}
-            onChange={(e) => handleSliderChange('maxIterations', parseInt(e.target.value) as 50 | 100 | 500 | 1000)}
-            className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-sm"
-          >
-            <option style={{ backgroundColor: 'white', color: 'black' }} value={50}>50</option>
-            <option style={{ backgroundColor: 'white', color: 'black' }} value={100}>100</option>
-            <option style={{ backgroundColor: 'white', color: 'black' }} value={500}>500</option>
-            <option style={{ backgroundColor: 'white', color: 'black' }} value={1000}>1000</option>
-          </select>
+          <input
+            type="range"
+            min={Math.log10(MIN_ITERATIONS)}
+            max={Math.log10(MAX_ITERATIONS)}
+            step={0.01}
+            value={Math.log10(params.maxIterations)}
+            onChange={(e) => handleSliderChange('maxIterations', roundIterations(Math.pow(10, parseFloat(e.target.value))))}
+            className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+          />
+          {/* Applied on Enter or when leaving the field, not on every keystroke */}
+          <input
+            key={params.maxIterations}
+            type="number"
+            min={MIN_ITERATIONS}
+            max={MAX_ITERATIONS}
+            step={1}
+            defaultValue={params.maxIterations}
+            onBlur={(e) => handleIterationsInput(e.currentTarget)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="w-full px-3 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-xs font-mono"
+          />
         </div>
 
         {/* Escape Radius */}
@@ -151,6 +265,44 @@ export function ParameterControls({ params, onParamsChange, palettes = [] }: Par
           </>
         )}
 
+        {/* Multibrot Exponent */}
+        {params.fractalType === 'multibrot' && (
+          <div className="space-y-3">
+            <label className="block text-white text-sm font-medium">
+              Exponent
+            </label>
+            <input
+              type="range"
+              min={MIN_MULTIBROT_EXPONENT}
+              max={MAX_MULTIBROT_EXPONENT}
+              step={0.01}
+              value={exponent}
+              onChange={(e) => handleSliderChange('exponent', parseFloat(e.target.value))}
+              className="w-full h-2 bg-white bg-opacity-20 rounded-lg appearance-none cursor-pointer slider"
+            />
+            <div className="text-xs text-gray-400">
+              z^{exponent.toFixed(2)} + c
+            </div>
+          </div>
+        )}
+
+        {/* Newton Polynomial */}
+        {params.fractalType === 'newton' && (
+          <NewtonControls
+            newton={params.newton}
+            onChange={(newton) => handleSliderChange('newton', newton)}
+          />
+        )}
+
+        {/* Fractal-specific parameters from the definition's schema */}
+        {parameters && (
+          <FractalParameterControls
+            parameters={parameters}
+            values={params.parameters}
+            onChange={(values) => handleSliderChange('parameters', values)}
+          />
+        )}
+
         {/* Color Palette */}
         <div className="space-y-3">
           <label className="block text-white text-sm font-medium">
@@ -187,15 +339,16 @@ export function ParameterControls({ params, onParamsChange, palettes = [] }: Par
           </label>
           <select
             value={params.precision}
-            onChange={(e) => handleSliderChange('precision', e.target.value as 'highp' | 'mediump' | 'lowp')}
+            onChange={(e) => handlePrecisionChange(e.target.value as ShaderPrecision)}
             className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white text-sm"
           >
             <option style={{ backgroundColor: 'white', color: 'black' }} value="highp">High Precision</option>
             <option style={{ backgroundColor: 'white', color: 'black' }} value="mediump">Medium Precision</option>
             <option style={{ backgroundColor: 'white', color: 'black' }} value="lowp">Low Precision</option>
+            <option style={{ backgroundColor: 'white', color: 'black' }} value="emulated-double">Emulated Double</option>
           </select>
           <div className="text-xs text-gray-400">
-            Higher precision = better quality, lower performance
+            Higher precision = better quality, lower performance. Emulated double reaches ~1e13 zoom and is selected automatically past 1e5.
           </div>
         </div>
       </div>
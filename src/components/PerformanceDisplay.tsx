@@ -100,6 +100,26 @@ export function PerformanceDisplay({ metrics, viewport }: PerformanceDisplayProp
           </div>
         </div>
 
+        {/* Periodicity Checking */}
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <span className="text-white text-sm" title="Pixels whose orbit was caught in a cycle before the last iteration">
+              Early Exits
+            </span>
+            <span className="text-gray-300 text-sm font-mono">
+              {metrics.earlyExitRatio === undefined ? 'n/a' : `${formatNumber(metrics.earlyExitRatio * 100, 1)}%`}
+            </span>
+          </div>
+          {metrics.earlyExitRatio !== undefined && (
+            <div className="w-full bg-white bg-opacity-10 rounded-full h-2">
+              <div
+                className="h-2 rounded-full transition-all duration-300 bg-blue-400"
+                style={{ width: `${metrics.earlyExitRatio * 100}%` }}
+              />
+            </div>
+          )}
+        </div>
+
         {/* Viewport Info */}
         <div className="border-t border-white border-opacity-10 pt-4 mt-4">
           <h4 className="text-white font-medium mb-3 text-xs uppercase tracking-wide">
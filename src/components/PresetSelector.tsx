@@ -5,11 +5,12 @@ import { FractalPreset } from '@/types/fractal';
 
 interface PresetSelectorProps {
   presets: FractalPreset[];
+  bookmarks?: FractalPreset[]; // Selected by id rather than name
   selectedPreset: string;
   onPresetChange: (presetId: string) => void;
 }
 
-export function PresetSelector({ presets, selectedPreset, onPresetChange }: PresetSelectorProps) {
+export function PresetSelector({ presets, bookmarks = [], selectedPreset, onPresetChange }: PresetSelectorProps) {
   return (
     <select
       value={selectedPreset}
@@ -28,6 +29,19 @@ export function PresetSelector({ presets, selectedPreset, onPresetChange }: Pres
           {preset.name}
         </option>
       ))}
+      {bookmarks.length > 0 && (
+        <optgroup label="My Locations">
+          {bookmarks.map((bookmark) => (
+            <option
+              key={bookmark.id}
+              value={bookmark.id}
+              style={{ backgroundColor: 'white', color: 'black' }}
+            >
+              {bookmark.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
     </select>
   );
 }
@@ -0,0 +1,250 @@
+// Keyframe animations of the view and their interpolation
+import { Animation, Complex, FractalParameterValue, FractalParams, KeyFrame, MovieSettings } from '@/types/fractal';
+import FractalLoader from '../fractals/loader';
+import { getAutoPrecision, validateFractalParams } from '../fractal-presets-modular';
+import { getPrecisionBits, getPreciseCenter } from '../deep-zoom/perturbation';
+import { FixedPoint } from '../deep-zoom/fixed-point';
+
+// Time in milliseconds between a new keyframe and the one before it
+export const DEFAULT_KEYFRAME_SPACING = 2000;
+
+export const EASINGS: Record<KeyFrame['easing'], (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+export function createAnimation(): Animation {
+  return { id: 'timeline', keyframes: [], duration: 0, loop: false, autoplay: false };
+}
+
+// Keyframes in time order; the animation lasts until the last one
+function withKeyframes(animation: Animation, keyframes: KeyFrame[]): Animation {
+  const sorted = [...keyframes].sort((a, b) => a.timestamp - b.timestamp);
+  return { ...animation, keyframes: sorted, duration: sorted.length ? sorted[sorted.length - 1].timestamp : 0 };
+}
+
+/**
+ * Add a keyframe, by default DEFAULT_KEYFRAME_SPACING after the last one
+ */
+export function addKeyframe(
+  animation: Animation,
+  params: FractalParams,
+  timestamp: number = animation.keyframes.length ? animation.duration + DEFAULT_KEYFRAME_SPACING : 0
+): Animation {
+  return withKeyframes(animation, [...animation.keyframes, { timestamp: Math.max(0, timestamp), params, easing: 'ease-in-out' }]);
+}
+
+export function updateKeyframe(animation: Animation, index: number, changes: Partial<KeyFrame>): Animation {
+  return withKeyframes(animation, animation.keyframes.map((keyframe, k) => (
+    k === index ? { ...keyframe, ...changes, timestamp: Math.max(0, changes.timestamp ?? keyframe.timestamp) } : keyframe
+  )));
+}
+
+export function removeKeyframe(animation: Animation, index: number): Animation {
+  return withKeyframes(animation, animation.keyframes.filter((_, k) => k !== index));
+}
+
+export const MAX_MOVIE_SIZE = 4096;
+export const MAX_MOVIE_FPS = 60;
+
+// GIF delays are whole centiseconds, and players slow down anything under 2
+export const MAX_GIF_FPS = 50;
+
+export const DEFAULT_MOVIE_SETTINGS: MovieSettings = {
+  width: 1280,
+  height: 720,
+  fps: 30,
+  format: 'png-sequence'
+};
+
+export function validateMovieSettings(settings: Partial<MovieSettings>): MovieSettings {
+  const size = (value: number | undefined, fallback: number) =>
+    Number.isFinite(value) ? Math.max(16, Math.min(MAX_MOVIE_SIZE, Math.round(value!))) : fallback;
+  const format = settings.format === 'gif' ? 'gif' : 'png-sequence';
+  const fps = Number.isFinite(settings.fps) ? Math.round(settings.fps!) : DEFAULT_MOVIE_SETTINGS.fps;
+
+  return {
+    width: size(settings.width, DEFAULT_MOVIE_SETTINGS.width),
+    height: size(settings.height, DEFAULT_MOVIE_SETTINGS.height),
+    fps: Math.max(1, Math.min(format === 'gif' ? MAX_GIF_FPS : MAX_MOVIE_FPS, fps)),
+    format
+  };
+}
+
+/**
+ * Frames of a movie at `fps`, including both the first and the last keyframe
+ */
+export function getFrameCount(animation: Animation, fps: number): number {
+  return Math.floor(animation.duration * fps / 1000 + 1e-9) + 1;
+}
+
+const lerp = (a: number, b: number, s: number) => a + (b - a) * s;
+
+const lerpComplex = (a: Complex, b: Complex, s: number): Complex => ({
+  real: lerp(a.real, b.real, s),
+  imag: lerp(a.imag, b.imag, s)
+});
+
+/**
+ * Weights of the two centers at progress `s` of a zoom from zoom0 to zoom1 on
+ * a log scale. The center moves in step with the view size, so the point the
+ * zoom closes in on stays still on screen. `toEnd` weights the end center; the
+ * start weight is returned separately to keep its precision near the end.
+ */
+export function getCenterWeights(zoom0: number, zoom1: number, s: number): { toEnd: number; toStart: number } {
+  // Ratio of the view sizes, end over start
+  const logRatio = Math.log(zoom0 / zoom1);
+  if (Math.abs(logRatio) < 1e-9) return { toEnd: s, toStart: 1 - s };
+
+  const denominator = Math.expm1(logRatio);
+  return {
+    toEnd: Math.expm1(s * logRatio) / denominator,
+    toStart: Math.exp(s * logRatio) * Math.expm1((1 - s) * logRatio) / denominator
+  };
+}
+
+// The center between two views, in fixed point when either is a deep zoom
+function interpolateCenter(a: FractalParams, b: FractalParams, zoom: number, s: number): Pick<FractalParams, 'center' | 'preciseCenter'> {
+  const { toEnd, toStart } = getCenterWeights(a.zoom, b.zoom, s);
+  // Measure from the end when zooming in, where the view is smallest
+  const fromEnd = b.zoom > a.zoom;
+
+  if (!a.deepZoom && !b.deepZoom) {
+    return {
+      center: fromEnd
+        ? lerpComplex(b.center, a.center, toStart)
+        : lerpComplex(a.center, b.center, toEnd)
+    };
+  }
+
+  const bits = getPrecisionBits(Math.max(a.zoom, b.zoom, zoom));
+  const start = getPreciseCenter(a);
+  const end = getPreciseCenter(b);
+  const part = (from: string, to: string, weight: number) => {
+    const origin = FixedPoint.fromString(from, bits);
+    return origin.add(FixedPoint.fromString(to, bits).sub(origin).mul(FixedPoint.fromNumber(weight, bits)));
+  };
+  const real = fromEnd ? part(end.real, start.real, toStart) : part(start.real, end.real, toEnd);
+  const imag = fromEnd ? part(end.imag, start.imag, toStart) : part(start.imag, end.imag, toEnd);
+
+  return {
+    center: { real: real.toNumber(), imag: imag.toNumber() },
+    preciseCenter: { real: real.toString(), imag: imag.toString() }
+  };
+}
+
+// Schema parameters between two views of the same fractal
+function interpolateParameters(a: FractalParams, b: FractalParams, s: number): FractalParams['parameters'] {
+  const { parameters } = FractalLoader.getDefinition(a.fractalType);
+  if (!parameters || !a.parameters || !b.parameters) return s < 0.5 ? a.parameters : b.parameters;
+
+  const values: Record<string, FractalParameterValue> = {};
+  for (const parameter of parameters) {
+    const from = a.parameters[parameter.name];
+    const to = b.parameters[parameter.name];
+    switch (parameter.type) {
+      case 'float':
+        values[parameter.name] = lerp(from as number, to as number, s);
+        break;
+      case 'int':
+        values[parameter.name] = Math.round(lerp(from as number, to as number, s));
+        break;
+      case 'complex':
+        values[parameter.name] = lerpComplex(from as Complex, to as Complex, s);
+        break;
+      default:
+        values[parameter.name] = s < 0.5 ? from : to;
+    }
+  }
+  return values;
+}
+
+/**
+ * The view `s` of the way from `a` to `b`. Zoom moves on a log scale and the
+ * center in step with it; settings that cannot blend switch halfway.
+ */
+export function interpolateParams(a: FractalParams, b: FractalParams, s: number): FractalParams {
+  if (s <= 0) return a;
+  if (s >= 1) return b;
+
+  const nearest = s < 0.5 ? a : b;
+  const zoom = Math.exp(lerp(Math.log(a.zoom), Math.log(b.zoom), s));
+  const params: FractalParams = {
+    ...nearest,
+    zoom,
+    ...interpolateCenter(a, b, zoom, s),
+    deepZoom: a.deepZoom || b.deepZoom
+  };
+
+  if (a.juliaConstant && b.juliaConstant) {
+    params.juliaConstant = lerpComplex(a.juliaConstant, b.juliaConstant, s);
+  }
+  if (a.exponent !== undefined && b.exponent !== undefined) {
+    params.exponent = lerp(a.exponent, b.exponent, s);
+  }
+  if (a.newton && b.newton && a.newton.variant === b.newton.variant &&
+      a.newton.coefficients.length === b.newton.coefficients.length) {
+    params.newton = {
+      ...b.newton,
+      coefficients: a.newton.coefficients.map((coefficient, k) => lerpComplex(coefficient, b.newton!.coefficients[k], s)),
+      relaxation: lerp(a.newton.relaxation, b.newton.relaxation, s)
+    };
+  }
+  if (a.fractalType === b.fractalType) {
+    params.parameters = interpolateParameters(a, b, s);
+  }
+  if (a.orbitTrap && b.orbitTrap && a.orbitTrap.shape === b.orbitTrap.shape) {
+    params.orbitTrap = {
+      ...nearest.orbitTrap!,
+      center: lerpComplex(a.orbitTrap.center, b.orbitTrap.center, s),
+      angle: lerp(a.orbitTrap.angle, b.orbitTrap.angle, s),
+      radius: lerp(a.orbitTrap.radius, b.orbitTrap.radius, s),
+      falloff: Math.exp(lerp(Math.log(a.orbitTrap.falloff), Math.log(b.orbitTrap.falloff), s))
+    };
+  }
+  if (a.distanceEstimation && b.distanceEstimation) {
+    params.distanceEstimation = {
+      ...nearest.distanceEstimation!,
+      boundary: lerp(a.distanceEstimation.boundary, b.distanceEstimation.boundary, s),
+      glow: lerp(a.distanceEstimation.glow, b.distanceEstimation.glow, s),
+      lightAngle: lerp(a.distanceEstimation.lightAngle, b.distanceEstimation.lightAngle, s),
+      lightHeight: lerp(a.distanceEstimation.lightHeight, b.distanceEstimation.lightHeight, s)
+    };
+  }
+  if (a.paletteTransform && b.paletteTransform) {
+    params.paletteTransform = {
+      ...nearest.paletteTransform!,
+      offset: lerp(a.paletteTransform.offset, b.paletteTransform.offset, s),
+      cycles: Math.exp(lerp(Math.log(a.paletteTransform.cycles), Math.log(b.paletteTransform.cycles), s)),
+      speed: lerp(a.paletteTransform.speed, b.paletteTransform.speed, s)
+    };
+  }
+
+  params.precision = getAutoPrecision(params);
+  return params;
+}
+
+/**
+ * The view at `time` milliseconds into the animation, or null without keyframes.
+ * Each keyframe's easing shapes the transition into it.
+ */
+export function getAnimationFrame(animation: Animation, time: number): FractalParams | null {
+  const { keyframes } = animation;
+  if (!keyframes.length) return null;
+
+  const t = animation.loop && animation.duration > 0 ? ((time % animation.duration) + animation.duration) % animation.duration : time;
+  const next = keyframes.findIndex(keyframe => keyframe.timestamp > t);
+  if (next === 0) return validateFractalParams(keyframes[0].params);
+  if (next < 0) return validateFractalParams(keyframes[keyframes.length - 1].params);
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const progress = (t - from.timestamp) / (to.timestamp - from.timestamp);
+  return interpolateParams(
+    validateFractalParams(from.params),
+    validateFractalParams(to.params),
+    EASINGS[to.easing](progress)
+  );
+}
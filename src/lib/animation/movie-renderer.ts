@@ -0,0 +1,97 @@
+// Deterministic offline rendering of keyframe animations, frame by frame
+import { Animation, FractalParams, MovieSettings } from '@/types/fractal';
+import { FractalRenderer } from '../fractal-renderer';
+import { createExportMetadata } from '../export/image-export';
+import { GifWriter } from '../export/gif';
+import { PngWriter } from '../export/png';
+import { ZipWriter } from '../export/zip';
+import { getAnimationFrame, getFrameCount, validateMovieSettings } from './keyframes';
+
+export class MovieRenderer {
+  private cancelled = false;
+
+  // Called after each frame with the number of frames finished
+  onProgress?: (completed: number, total: number) => void;
+
+  /**
+   * Render every frame of the animation in order, as a ZIP of numbered PNGs
+   * or an animated GIF. Frames are drawn offscreen and never skipped, however
+   * long each takes. Deep zoom frames are drawn by perturbation, each from
+   * a reference orbit at its own precise center.
+   */
+  async render(animation: Animation, settings: MovieSettings): Promise<Blob> {
+    const { width, height, fps, format } = validateMovieSettings(settings);
+    const timeline: Animation = { ...animation, loop: false };
+    if (!timeline.keyframes.length) throw new Error('The animation has no keyframes');
+    this.cancelled = false;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const renderer = new FractalRenderer(canvas, this.getFrameParams(timeline, 0));
+
+    try {
+      await renderer.whenReady();
+      if (Math.max(width, height) > renderer.getMaxRenderSize()) {
+        throw new Error(`Frames are limited to ${renderer.getMaxRenderSize()} pixels on this GPU`);
+      }
+
+      const total = getFrameCount(timeline, fps);
+      const zip = format === 'png-sequence' ? new ZipWriter() : null;
+      const gif = format === 'gif' ? new GifWriter(width, height, Math.round(100 / fps)) : null;
+      const samples = new Uint8Array(width * height * 4);
+      const frame = new Uint8Array(width * height * 4);
+      const digits = Math.max(5, String(total).length);
+
+      for (let index = 0; index < total; index++) {
+        const params = this.getFrameParams(timeline, index * 1000 / fps);
+        renderer.updateParams(params);
+        // A new trap image or reference orbit loads asynchronously
+        await renderer.whenReady();
+        renderer.renderView(
+          { center: params.center, preciseCenter: params.preciseCenter, zoom: params.zoom, width, height, aspectRatio: width / height },
+          samples,
+          // Palette cycling and wobble follow the movie's clock, not the render's
+          index / fps
+        );
+
+        // WebGL reads rows bottom up
+        const stride = width * 4;
+        for (let row = 0; row < height; row++) {
+          frame.set(samples.subarray((height - 1 - row) * stride, (height - row) * stride), row * stride);
+        }
+
+        if (zip) {
+          const png = new PngWriter(width, height, createExportMetadata(params));
+          await png.writeRows(frame, height);
+          const blob = await png.finish();
+          zip.addFile(`frame-${String(index + 1).padStart(digits, '0')}.png`, new Uint8Array(await blob.arrayBuffer()));
+        } else {
+          gif!.addFrame(frame);
+        }
+
+        this.onProgress?.(index + 1, total);
+        // Let the page update between frames
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (this.cancelled) throw new Error('Rendering cancelled');
+      }
+
+      return zip ? zip.finish() : gif!.finish();
+    } finally {
+      renderer.destroy();
+    }
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  private getFrameParams(animation: Animation, time: number): FractalParams {
+    const params = getAnimationFrame(animation, time)!;
+    return {
+      ...params,
+      // The renderer keeps the previous frame's coloring unless told otherwise
+      coloring: params.coloring ?? 'smooth'
+    };
+  }
+}
@@ -0,0 +1,70 @@
+// IndexedDB persistence of the bookmark library
+import { Bookmark } from '@/types/fractal';
+
+const DATABASE_NAME = 'fractal-studio';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'bookmarks';
+
+function whenDone<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function whenComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Bookmark transaction aborted'));
+  });
+}
+
+export class BookmarkStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getAll(): Promise<Bookmark[]> {
+    const database = await this.open();
+    return whenDone(database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll());
+  }
+
+  // Saves or replaces bookmarks by id, all or none
+  async put(bookmarks: Bookmark[]): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    for (const bookmark of bookmarks) {
+      store.put(bookmark);
+    }
+    return whenComplete(transaction);
+  }
+
+  async delete(id: string): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    return whenComplete(transaction);
+  }
+
+  close(): void {
+    this.database?.then(database => database.close()).catch(() => undefined);
+    this.database = null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      this.database = whenDone(request);
+    }
+    return this.database;
+  }
+}
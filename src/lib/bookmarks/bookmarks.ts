@@ -0,0 +1,113 @@
+// Bookmark library: saved views with tags and notes, and its JSON file format
+import { Bookmark, FractalParams, FractalPreset, FractalType } from '@/types/fractal';
+import { validateFractalParams } from '../fractal-presets-modular';
+
+export const BOOKMARK_LIBRARY_FORMAT = 'fractal-studio-bookmarks';
+export const BOOKMARK_LIBRARY_VERSION = 1;
+
+export const BOOKMARK_THUMBNAIL_SIZE = 160;
+
+// Preset selector values of bookmarks, apart from the built-in preset names
+export const BOOKMARK_PRESET_PREFIX = 'bookmark:';
+
+export interface BookmarkFilter {
+  query: string;
+  fractalType: FractalType | 'all';
+}
+
+function createBookmarkId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createBookmark(
+  params: FractalParams,
+  details: Pick<Bookmark, 'name' | 'tags' | 'notes' | 'thumbnail'>
+): Bookmark {
+  return {
+    id: createBookmarkId(),
+    name: details.name.trim() || 'Untitled',
+    params,
+    thumbnail: details.thumbnail,
+    tags: details.tags,
+    notes: details.notes,
+    createdAt: Date.now()
+  };
+}
+
+/**
+ * Tags from comma separated text, without blanks or repeats
+ */
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.filter((tag, k) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === k);
+}
+
+/**
+ * Bookmarks of the chosen fractal whose name, tags or notes contain every
+ * word of the query, newest first
+ */
+export function filterBookmarks(bookmarks: Bookmark[], filter: BookmarkFilter): Bookmark[] {
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return bookmarks
+    .filter(bookmark => {
+      if (filter.fractalType !== 'all' && bookmark.params.fractalType !== filter.fractalType) return false;
+      const text = [bookmark.name, bookmark.notes, ...bookmark.tags].join(' ').toLowerCase();
+      return words.every(word => text.includes(word));
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Add imported bookmarks to the library; ones already in it are replaced
+ */
+export function mergeBookmarks(library: Bookmark[], imported: Bookmark[]): Bookmark[] {
+  const ids = new Set(imported.map(bookmark => bookmark.id));
+  return [...library.filter(bookmark => !ids.has(bookmark.id)), ...imported];
+}
+
+export function bookmarkToPreset(bookmark: Bookmark): FractalPreset {
+  return {
+    name: bookmark.name,
+    id: BOOKMARK_PRESET_PREFIX + bookmark.id,
+    params: bookmark.params,
+    description: bookmark.notes || undefined
+  };
+}
+
+export function exportBookmarkLibrary(bookmarks: Bookmark[]): string {
+  return JSON.stringify({ format: BOOKMARK_LIBRARY_FORMAT, version: BOOKMARK_LIBRARY_VERSION, bookmarks }, null, 2);
+}
+
+/**
+ * Bookmarks of an exported library file. Views are validated against the
+ * fractals registered here; entries without a name or view are skipped.
+ */
+export function importBookmarkLibrary(json: string): Bookmark[] {
+  let library: { format?: unknown; version?: unknown; bookmarks?: unknown };
+  try {
+    library = JSON.parse(json);
+  } catch {
+    throw new Error('Not a bookmark library');
+  }
+  if (!library || library.format !== BOOKMARK_LIBRARY_FORMAT || !Array.isArray(library.bookmarks)) {
+    throw new Error('Not a bookmark library');
+  }
+  if (typeof library.version !== 'number' || library.version > BOOKMARK_LIBRARY_VERSION) {
+    throw new Error('The library was saved by a newer version');
+  }
+
+  const bookmarks: Bookmark[] = [];
+  for (const entry of library.bookmarks as Partial<Bookmark>[]) {
+    if (!entry || typeof entry.name !== 'string' || !entry.params || typeof entry.params !== 'object') continue;
+    bookmarks.push({
+      id: typeof entry.id === 'string' && entry.id ? entry.id : createBookmarkId(),
+      name: entry.name,
+      params: validateFractalParams(entry.params),
+      thumbnail: typeof entry.thumbnail === 'string' && entry.thumbnail.startsWith('data:image/') ? entry.thumbnail : undefined,
+      tags: Array.isArray(entry.tags) ? parseTags(entry.tags.filter(tag => typeof tag === 'string').join(',')) : [],
+      notes: typeof entry.notes === 'string' ? entry.notes : '',
+      createdAt: Number.isFinite(entry.createdAt) ? entry.createdAt! : Date.now()
+    });
+  }
+  return bookmarks;
+}
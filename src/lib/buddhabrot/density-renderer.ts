@@ -0,0 +1,179 @@
+// Progressive orbit density rendering with a pool of fractal workers
+import { ComputeDensityMessage, DensitySettings, ViewportState } from '@/types/fractal';
+import { accumulateOrbits, getChannelLimits, toneMap, validateDensitySettings } from './density';
+import { WorkerPool } from '../cpu/worker-pool';
+
+// Iterations one batch may run in the worst case, which keeps batches short
+const BATCH_ITERATIONS = 20000000;
+
+// Rendering stops after this many samples
+export const MAX_DENSITY_SAMPLES = 200000000;
+
+const MAX_WORKERS = 4;
+
+export class DensityRenderer {
+  private context: CanvasRenderingContext2D;
+  private pool: WorkerPool | null = null;
+  private poolFailed = false;
+  // Results of older requests are dropped when they arrive
+  private requestId = 0;
+  private view: ViewportState | null = null;
+  private settings: DensitySettings | null = null;
+  private histogram = new Float32Array(0);
+  private image: ImageData | null = null;
+  private samples = 0;
+  private drawPending = false;
+
+  // Called after each batch with the total number of samples so far
+  onProgress?: (samples: number) => void;
+
+  constructor(private canvas: HTMLCanvasElement) {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('2D canvas context unavailable');
+    }
+    this.context = context;
+  }
+
+  /**
+   * Render a view, restarting the accumulation unless only the tone mapping changed
+   */
+  update(view: ViewportState, settings: DensitySettings): void {
+    const validated = validateDensitySettings(settings);
+    if (this.view && this.settings && this.isSameAccumulation(view, validated)) {
+      this.settings = validated;
+      this.scheduleDraw();
+      return;
+    }
+
+    this.start(view, validated);
+  }
+
+  stop(): void {
+    this.requestId++;
+    this.view = null;
+    this.pool?.cancel();
+  }
+
+  destroy(): void {
+    this.stop();
+    this.pool?.terminate();
+    this.pool = null;
+  }
+
+  private isSameAccumulation(view: ViewportState, settings: DensitySettings): boolean {
+    const current = this.view!;
+    const limits = getChannelLimits(settings);
+    const currentLimits = getChannelLimits(this.settings!);
+
+    return view.width === current.width &&
+      view.height === current.height &&
+      view.zoom === current.zoom &&
+      view.center.real === current.center.real &&
+      view.center.imag === current.center.imag &&
+      settings.mode === this.settings!.mode &&
+      settings.minIterations === this.settings!.minIterations &&
+      limits.every((limit, k) => limit === currentLimits[k]);
+  }
+
+  private start(view: ViewportState, settings: DensitySettings): void {
+    const requestId = ++this.requestId;
+    this.pool?.cancel();
+    this.view = view;
+    this.settings = settings;
+    this.samples = 0;
+
+    this.canvas.width = view.width;
+    this.canvas.height = view.height;
+    this.histogram = new Float32Array(view.width * view.height * 3);
+    this.image = this.context.createImageData(view.width, view.height);
+    this.scheduleDraw();
+
+    const pool = this.getPool();
+    if (pool) {
+      // One chain of batches per worker
+      for (let k = 0; k < pool.size; k++) {
+        this.runBatch(pool, requestId, new Float32Array(this.histogram.length));
+      }
+    } else {
+      // No worker support: accumulate on the main thread between frames
+      setTimeout(() => this.computeLocally(requestId), 0);
+    }
+  }
+
+  private getBatchSamples(): number {
+    return Math.max(1000, Math.floor(BATCH_ITERATIONS / Math.max(...getChannelLimits(this.settings!))));
+  }
+
+  // Fill a zeroed histogram in a worker, add it into the shared histogram and
+  // hand the same buffer back for the next batch
+  private runBatch(pool: WorkerPool, requestId: number, histogram: Float32Array): void {
+    const message: ComputeDensityMessage = {
+      type: 'COMPUTE_DENSITY',
+      payload: {
+        requestId,
+        view: this.view!,
+        settings: this.settings!,
+        samples: this.getBatchSamples(),
+        histogram: histogram.buffer as ArrayBuffer
+      }
+    };
+
+    pool.run(message, [histogram.buffer]).then(result => {
+      if (!result || requestId !== this.requestId) return; // Superseded
+
+      const batch = new Float32Array(result.histogram as ArrayBuffer);
+      for (let i = 0; i < batch.length; i++) {
+        this.histogram[i] += batch[i];
+      }
+      this.addSamples(result.samples as number);
+
+      if (this.samples < MAX_DENSITY_SAMPLES) {
+        batch.fill(0);
+        this.runBatch(pool, requestId, batch);
+      }
+    }).catch(error => console.error('Density worker failed:', error));
+  }
+
+  private getPool(): WorkerPool | null {
+    if (this.pool || this.poolFailed) return this.pool;
+
+    try {
+      this.pool = new WorkerPool(Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1)));
+    } catch (error) {
+      console.warn('Web Workers unavailable, accumulating orbit densities on the main thread:', error);
+      this.poolFailed = true;
+    }
+
+    return this.pool;
+  }
+
+  private computeLocally(requestId: number): void {
+    if (requestId !== this.requestId || this.samples >= MAX_DENSITY_SAMPLES) return;
+
+    const samples = this.getBatchSamples();
+    accumulateOrbits(this.histogram, this.view!, this.settings!, samples);
+    this.addSamples(samples);
+    setTimeout(() => this.computeLocally(requestId), 0);
+  }
+
+  private addSamples(samples: number): void {
+    this.samples += samples;
+    this.onProgress?.(this.samples);
+    this.scheduleDraw();
+  }
+
+  // Tone-map at most once per frame however many batches arrive
+  private scheduleDraw(): void {
+    if (this.drawPending) return;
+
+    this.drawPending = true;
+    requestAnimationFrame(() => {
+      this.drawPending = false;
+      if (!this.image || !this.settings) return;
+
+      toneMap(this.histogram, this.settings, this.image.data);
+      this.context.putImageData(this.image, 0, 0);
+    });
+  }
+}
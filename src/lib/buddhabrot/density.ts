@@ -0,0 +1,136 @@
+// Buddhabrot, Nebulabrot and anti-Buddhabrot orbit densities of z² + c
+import { Complex, DensitySettings, ViewportState } from '@/types/fractal';
+
+export const DEFAULT_DENSITY_SETTINGS: DensitySettings = {
+  mode: 'buddhabrot',
+  maxIterations: 1000,
+  bands: [5000, 500, 50],
+  minIterations: 20,
+  gamma: 2,
+  exposure: 1
+};
+
+export const MAX_DENSITY_ITERATIONS = 20000;
+export const MIN_DENSITY_GAMMA = 0.2;
+export const MAX_DENSITY_GAMMA = 5;
+export const MIN_DENSITY_EXPOSURE = 0.1;
+export const MAX_DENSITY_EXPOSURE = 20;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const clampIterations = (value: number) => Math.round(clamp(value, 1, MAX_DENSITY_ITERATIONS));
+
+/**
+ * Settings with iteration limits, gamma and exposure in range
+ */
+export function validateDensitySettings(settings: DensitySettings): DensitySettings {
+  return {
+    mode: settings.mode,
+    maxIterations: clampIterations(settings.maxIterations),
+    bands: [
+      clampIterations(settings.bands[0]),
+      clampIterations(settings.bands[1]),
+      clampIterations(settings.bands[2])
+    ],
+    minIterations: Math.round(clamp(settings.minIterations, 0, MAX_DENSITY_ITERATIONS)),
+    gamma: clamp(settings.gamma, MIN_DENSITY_GAMMA, MAX_DENSITY_GAMMA),
+    exposure: clamp(settings.exposure, MIN_DENSITY_EXPOSURE, MAX_DENSITY_EXPOSURE)
+  };
+}
+
+/**
+ * Iteration limit of the R, G and B channels
+ */
+export function getChannelLimits(settings: DensitySettings): [number, number, number] {
+  return settings.mode === 'nebulabrot'
+    ? settings.bands
+    : [settings.maxIterations, settings.maxIterations, settings.maxIterations];
+}
+
+/**
+ * Whether c lies in the main cardioid or the period-2 bulb, where orbits never escape
+ */
+export function isInMainBulbs(c: Complex): boolean {
+  const imag2 = c.imag * c.imag;
+  const q = (c.real - 0.25) * (c.real - 0.25) + imag2;
+  if (q * (q + (c.real - 0.25)) <= 0.25 * imag2) return true;
+  return (c.real + 1) * (c.real + 1) + imag2 <= 0.0625;
+}
+
+/**
+ * Iterate `samples` random c in [-2, 2]² and add their orbits to an RGB
+ * histogram of the view (three floats per pixel, rows top to bottom). Pixels
+ * map like the shaders: the visible height is 1/zoom around the center.
+ */
+export function accumulateOrbits(
+  histogram: Float32Array,
+  view: ViewportState,
+  settings: DensitySettings,
+  samples: number,
+  random: () => number = Math.random
+): void {
+  const limits = getChannelLimits(settings);
+  const maxIterations = Math.max(...limits);
+  const anti = settings.mode === 'anti-buddhabrot';
+  const orbit = new Float64Array(maxIterations * 2);
+  const scale = view.zoom * view.height;
+  const { width, height } = view;
+
+  for (let sample = 0; sample < samples; sample++) {
+    const cr = random() * 4 - 2;
+    const ci = random() * 4 - 2;
+    if (!anti && isInMainBulbs({ real: cr, imag: ci })) continue;
+
+    let zr = 0;
+    let zi = 0;
+    let length = 0;
+    while (length < maxIterations && zr * zr + zi * zi <= 4) {
+      const nextReal = zr * zr - zi * zi + cr;
+      zi = 2 * zr * zi + ci;
+      zr = nextReal;
+      orbit[length * 2] = zr;
+      orbit[length * 2 + 1] = zi;
+      length++;
+    }
+
+    const escaped = zr * zr + zi * zi > 4;
+    if (anti ? escaped : !escaped || length < settings.minIterations) continue;
+
+    // Channels whose limit the orbit fits in; anti-Buddhabrot orbits fill all three
+    const red = length <= limits[0];
+    const green = length <= limits[1];
+    const blue = length <= limits[2];
+
+    for (let k = 0; k < length; k++) {
+      const column = Math.floor(width / 2 + (orbit[k * 2] - view.center.real) * scale);
+      const row = Math.floor(height / 2 - (orbit[k * 2 + 1] - view.center.imag) * scale);
+      if (column < 0 || column >= width || row < 0 || row >= height) continue;
+
+      const index = (row * width + column) * 3;
+      if (red) histogram[index]++;
+      if (green) histogram[index + 1]++;
+      if (blue) histogram[index + 2]++;
+    }
+  }
+}
+
+/**
+ * Tone-map an RGB histogram into RGBA pixels: each channel is normalized by
+ * its brightest pixel, scaled by the exposure and raised to 1/gamma
+ */
+export function toneMap(histogram: Float32Array, settings: DensitySettings, pixels: Uint8ClampedArray): void {
+  const max = [0, 0, 0];
+  for (let i = 0; i < histogram.length; i++) {
+    if (histogram[i] > max[i % 3]) max[i % 3] = histogram[i];
+  }
+
+  const exponent = 1 / settings.gamma;
+  const pixelCount = histogram.length / 3;
+  for (let i = 0; i < pixelCount; i++) {
+    for (let k = 0; k < 3; k++) {
+      const density = max[k] > 0 ? histogram[i * 3 + k] / max[k] : 0;
+      pixels[i * 4 + k] = Math.min(1, Math.pow(density * settings.exposure, exponent)) * 255;
+    }
+    pixels[i * 4 + 3] = 255;
+  }
+}
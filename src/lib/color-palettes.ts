@@ -1,5 +1,35 @@
 // Advanced color palette system for fractal visualization
-import { ColorPalette } from '@/types/fractal';
+import { ColorPalette, PaletteInterpolation } from '@/types/fractal';
+
+export const PALETTE_INTERPOLATIONS: Array<{ value: PaletteInterpolation; label: string }> = [
+  { value: 'rgb', label: 'RGB' },
+  { value: 'hsl', label: 'HSL' },
+  { value: 'lab', label: 'CIELAB' },
+  { value: 'oklab', label: 'OKLab' }
+];
+
+// A palette color at its position along the gradient
+export interface GradientStop {
+  position: number;
+  color: string;
+}
+
+export interface GradientOptions {
+  stops?: number[];
+  interpolation?: PaletteInterpolation;
+  cyclic?: boolean; // The last color blends back into the first
+}
+
+// sRGB byte to linear light, and back with clamping
+function toLinear(c: number): number {
+  c /= 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function toByte(c: number): number {
+  c = c > 0.0031308 ? 1.055 * Math.pow(c, 1 / 2.4) - 0.055 : 12.92 * c;
+  return Math.max(0, Math.min(255, Math.round(c * 255)));
+}
 
 // Color space conversion utilities
 export class ColorUtils {
@@ -70,6 +100,93 @@ export class ColorUtils {
     ];
   }
 
+  // Convert RGB to hue in degrees, saturation and lightness
+  static rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+    r /= 255;
+    g /= 255;
+    b /= 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    if (max === min) return [0, 0, l];
+
+    const d = max - min;
+    const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    let h: number;
+    if (max === r) {
+      h = (g - b) / d + (g < b ? 6 : 0);
+    } else if (max === g) {
+      h = (b - r) / d + 2;
+    } else {
+      h = (r - g) / d + 4;
+    }
+    return [h * 60, s, l];
+  }
+
+  // Convert RGB to CIE LAB (D65), the inverse of labToRgb
+  static rgbToLab(r: number, g: number, b: number): [number, number, number] {
+    const [lr, lg, lb] = [r, g, b].map(toLinear);
+    const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+    const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+    const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+
+    const delta = 6 / 29;
+    const f = (t: number) => t > delta * delta * delta ? Math.cbrt(t) : t / (3 * delta * delta) + 4 / 29;
+    return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+  }
+
+  // Convert RGB to OKLab, a perceptual space with more even hues than LAB
+  static rgbToOklab(r: number, g: number, b: number): [number, number, number] {
+    const [lr, lg, lb] = [r, g, b].map(toLinear);
+    const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+    return [
+      0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+      1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+      0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+    ];
+  }
+
+  static oklabToRgb(lightness: number, a: number, b: number): [number, number, number] {
+    const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(lightness - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+    return [
+      toByte(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+      toByte(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+      toByte(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s)
+    ];
+  }
+
+  // Interpolate between two colors in the given color space
+  static interpolate(
+    color1: [number, number, number],
+    color2: [number, number, number],
+    t: number,
+    space: PaletteInterpolation = 'rgb'
+  ): [number, number, number] {
+    const mix = (a: number[], b: number[]) => a.map((value, i) => value + (b[i] - value) * t) as [number, number, number];
+
+    switch (space) {
+      case 'hsl': {
+        const [h1, s1, l1] = ColorUtils.rgbToHsl(...color1);
+        const [h2, s2, l2] = ColorUtils.rgbToHsl(...color2);
+        // The short way around the hue circle
+        const hue = h1 + ((h2 - h1 + 540) % 360 - 180) * t;
+        return ColorUtils.hslToRgb((hue + 360) % 360, s1 + (s2 - s1) * t, l1 + (l2 - l1) * t);
+      }
+      case 'lab':
+        return ColorUtils.labToRgb(...mix(ColorUtils.rgbToLab(...color1), ColorUtils.rgbToLab(...color2)));
+      case 'oklab':
+        return ColorUtils.oklabToRgb(...mix(ColorUtils.rgbToOklab(...color1), ColorUtils.rgbToOklab(...color2)));
+      default:
+        return ColorUtils.interpolateRgb(color1, color2, t);
+    }
+  }
+
   // Interpolate between two colors in RGB space
   static interpolateRgb(
     color1: [number, number, number],
@@ -180,37 +297,70 @@ export const colorPalettes: ColorPalette[] = [
   }
 ];
 
+/**
+ * The colors at their stop positions, sorted. Colors without a valid stop
+ * are spaced evenly: a cyclic gradient leaves room to blend from the last
+ * color back into the first.
+ */
+export function getGradientStops(colors: string[], stops?: number[], cyclic = false): GradientStop[] {
+  const valid = stops?.length === colors.length && stops.every(Number.isFinite);
+  const spacing = cyclic ? colors.length : Math.max(1, colors.length - 1);
+
+  return colors
+    .map((color, i) => ({
+      color,
+      position: valid ? Math.max(0, Math.min(1, stops[i])) : i / spacing
+    }))
+    .sort((a, b) => a.position - b.position);
+}
+
 // Generate smooth gradient between colors
 export function generateSmoothGradient(
   colors: string[],
-  steps: number = 256
+  steps: number = 256,
+  options: GradientOptions = {}
 ): string[] {
   if (colors.length < 2) return colors;
 
+  const { interpolation = 'rgb', cyclic = false } = options;
+  const stops = getGradientStops(colors, options.stops, cyclic)
+    .map(stop => ({ position: stop.position, rgb: hexToRgb(stop.color) }))
+    .filter((stop): stop is { position: number; rgb: [number, number, number] } => stop.rgb !== null);
+  if (stops.length === 0) return [];
+
+  const first = stops[0];
+  const last = stops[stops.length - 1];
   const gradient: string[] = [];
-  const segmentSize = steps / (colors.length - 1);
 
   for (let i = 0; i < steps; i++) {
-    const segmentIndex = Math.floor(i / segmentSize);
-    const segmentT = (i % segmentSize) / segmentSize;
-
-    const color1Index = Math.min(segmentIndex, colors.length - 2);
-    const color2Index = color1Index + 1;
-
-    const color1 = hexToRgb(colors[color1Index]);
-    const color2 = hexToRgb(colors[color2Index]);
-
-    if (color1 && color2) {
-      const interpolated = ColorUtils.interpolateRgb(color1, color2, segmentT);
-      gradient.push(ColorUtils.rgbToHex(...interpolated));
+    // Cyclic gradients repeat, so their last sample stops short of the first
+    const position = cyclic ? i / steps : i / Math.max(1, steps - 1);
+    let rgb: [number, number, number];
+
+    if (position < first.position || position >= last.position) {
+      if (cyclic) {
+        // Between the last stop and the first one a cycle later
+        const width = first.position + 1 - last.position;
+        const offset = (position - last.position + 1) % 1;
+        rgb = width > 0 ? ColorUtils.interpolate(last.rgb, first.rgb, offset / width, interpolation) : first.rgb;
+      } else {
+        rgb = position < first.position ? first.rgb : last.rgb;
+      }
+    } else {
+      let k = 0;
+      while (stops[k + 1].position <= position) k++;
+      const width = stops[k + 1].position - stops[k].position;
+      rgb = ColorUtils.interpolate(stops[k].rgb, stops[k + 1].rgb, (position - stops[k].position) / width, interpolation);
     }
+
+    gradient.push(ColorUtils.rgbToHex(...rgb));
   }
 
   return gradient;
 }
 
 // Convert hex color to RGB tuple
-function hexToRgb(hex: string): [number, number, number] | null {
+export function hexToRgb(hex: string): [number, number, number] | null {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
   return result ? [
     parseInt(result[1], 16),
@@ -219,17 +369,14 @@ function hexToRgb(hex: string): [number, number, number] | null {
   ] : null;
 }
 
-// Create WebGL texture from color palette
-export function createPaletteTexture(
-  gl: WebGL2RenderingContext,
-  palette: ColorPalette,
-  resolution: number = 256
-): WebGLTexture | null {
-  const texture = gl.createTexture();
-  if (!texture) return null;
-
+// RGBA bytes of a palette's smooth gradient, as uploaded to the palette texture
+export function createPaletteData(palette: ColorPalette, resolution: number = 256): Uint8Array {
   // Generate smooth gradient
-  const gradientColors = generateSmoothGradient(palette.colors, resolution);
+  const gradientColors = generateSmoothGradient(palette.colors, resolution, {
+    stops: palette.stops,
+    interpolation: palette.interpolation,
+    cyclic: palette.type === 'cyclic'
+  });
   
   // Convert to RGBA data
   const data = new Uint8Array(resolution * 4);
@@ -245,6 +392,20 @@ export function createPaletteTexture(
     }
   }
 
+  return data;
+}
+
+// Create WebGL texture from color palette
+export function createPaletteTexture(
+  gl: WebGL2RenderingContext,
+  palette: ColorPalette,
+  resolution: number = 256
+): WebGLTexture | null {
+  const texture = gl.createTexture();
+  if (!texture) return null;
+
+  const data = createPaletteData(palette, resolution);
+
   gl.bindTexture(gl.TEXTURE_2D, texture);
   gl.texImage2D(
     gl.TEXTURE_2D,
@@ -268,14 +429,32 @@ export function createPaletteTexture(
   return texture;
 }
 
+// Palettes made in the palette editor, by id
+const customPalettes = new Map<string, ColorPalette>();
+
+/**
+ * Make a custom palette available by id, replacing one with the same id
+ */
+export function registerCustomPalette(palette: ColorPalette): void {
+  customPalettes.set(palette.id, palette);
+}
+
+export function unregisterCustomPalette(id: string): void {
+  customPalettes.delete(id);
+}
+
+export function getCustomPalettes(): ColorPalette[] {
+  return Array.from(customPalettes.values());
+}
+
 // Get palette by ID
 export function getColorPalette(id: string): ColorPalette | null {
-  return colorPalettes.find(palette => palette.id === id) || null;
+  return colorPalettes.find(palette => palette.id === id) || customPalettes.get(id) || null;
 }
 
 // Get all available palette IDs
 export function getColorPaletteIds(): string[] {
-  return colorPalettes.map(palette => palette.id);
+  return [...colorPalettes.map(palette => palette.id), ...customPalettes.keys()];
 }
 
 // Generate procedural palette based on HSL parameters
@@ -302,18 +481,30 @@ export function generateProceduralPalette(
   return colors;
 }
 
-// Create custom palette from user input
+// Create custom palette from user input. Stops are kept when there is one
+// for each valid color.
 export function createCustomPalette(
   name: string,
   colors: string[],
-  type: 'linear' | 'cyclic' = 'linear'
+  type: 'linear' | 'cyclic' = 'linear',
+  stops?: number[],
+  interpolation: PaletteInterpolation = 'rgb'
 ): ColorPalette {
-  return {
+  const valid = colors.map(color => /^#[0-9a-fA-F]{6}$/.test(color));
+  const palette: ColorPalette = {
     id: `custom-${name.toLowerCase().replace(/[^a-z0-9]/g, '-')}`,
     name,
     type,
-    colors: colors.filter(color => /^#[0-9a-fA-F]{6}$/.test(color))
+    colors: colors.filter((_, i) => valid[i])
   };
+
+  if (stops?.length === colors.length) {
+    palette.stops = stops.filter((_, i) => valid[i]);
+  }
+  if (interpolation !== 'rgb') {
+    palette.interpolation = interpolation;
+  }
+  return palette;
 }
 
 // Analyze palette for contrast and accessibility
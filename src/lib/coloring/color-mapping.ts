@@ -0,0 +1,125 @@
+// Statistical color mapping: fitting the palette to the iteration counts of the whole frame
+import { ColorMappingMode, ColorMappingParams } from '@/types/fractal';
+import { FractalDefinition } from '../fractals/base';
+
+export const COLOR_MAPPING_MODES: Array<{ value: ColorMappingMode; label: string }> = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'histogram', label: 'Histogram equalization' },
+  { value: 'percentile', label: 'Percentile clipping' },
+  { value: 'auto-range', label: 'Auto range' }
+];
+
+export const DEFAULT_COLOR_MAPPING: ColorMappingParams = {
+  mode: 'linear',
+  clip: 2
+};
+
+export const MAX_CLIP_PERCENT = 25;
+
+// Bins of the iteration histogram across [0, maxIterations]
+export const HISTOGRAM_BINS = 4096;
+
+/**
+ * Draws one point per pixel of the iteration texture into the histogram bin of
+ * its iteration count; additive blending counts them. Interior pixels fall
+ * outside the clip space and are not counted.
+ */
+export const HISTOGRAM_VERTEX_SHADER = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_iterations;
+uniform int u_maxIterations;
+uniform int u_bins;
+
+void main() {
+    int width = textureSize(u_iterations, 0).x;
+    float iteration = texelFetch(u_iterations, ivec2(gl_VertexID % width, gl_VertexID / width), 0).r;
+    gl_PointSize = 1.0;
+
+    if (iteration >= float(u_maxIterations)) {
+        gl_Position = vec4(2.0, 2.0, 0.0, 1.0);
+        return;
+    }
+
+    float bin = clamp(floor(iteration / float(u_maxIterations) * float(u_bins)), 0.0, float(u_bins - 1));
+    gl_Position = vec4((bin + 0.5) / float(u_bins) * 2.0 - 1.0, 0.0, 0.0, 1.0);
+}`;
+
+export const HISTOGRAM_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+out vec4 fragColor;
+
+void main() {
+    fragColor = vec4(1.0);
+}`;
+
+/**
+ * Only the iteration counts of escape-time fractals can be mapped
+ */
+export function supportsColorMapping(definition: FractalDefinition): boolean {
+  return !!definition.shader.step && !definition.shader.evaluate;
+}
+
+/**
+ * Whether the mapping needs the statistics of the frame
+ */
+export function usesFrameStatistics(mapping: ColorMappingParams | undefined): boolean {
+  return !!mapping && mapping.mode !== 'linear';
+}
+
+export function validateColorMapping(mapping: Partial<ColorMappingParams>): ColorMappingParams {
+  return {
+    mode: COLOR_MAPPING_MODES.some(mode => mode.value === mapping.mode) ? mapping.mode! : DEFAULT_COLOR_MAPPING.mode,
+    clip: typeof mapping.clip === 'number' && Number.isFinite(mapping.clip)
+      ? Math.max(0, Math.min(MAX_CLIP_PERCENT, mapping.clip))
+      : DEFAULT_COLOR_MAPPING.clip
+  };
+}
+
+// Fractional bin edge below which `count` of the histogram's pixels lie
+function findQuantile(histogram: Float32Array, count: number): number {
+  let below = 0;
+  for (let bin = 0; bin < histogram.length; bin++) {
+    if (histogram[bin] > 0 && below + histogram[bin] >= count) {
+      return bin + Math.max(0, count - below) / histogram[bin];
+    }
+    below += histogram[bin];
+  }
+  return histogram.length;
+}
+
+/**
+ * Palette positions at the histogram's bin edges, so that an iteration count
+ * of n maps to the position interpolated at edge n / maxIterations * bins.
+ * An empty histogram maps linearly.
+ */
+export function buildColorMap(histogram: Float32Array, mapping: ColorMappingParams): Float32Array {
+  const bins = histogram.length;
+  const map = new Float32Array(bins + 1);
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+
+  if (mapping.mode === 'linear' || total === 0) {
+    for (let edge = 0; edge <= bins; edge++) map[edge] = edge / bins;
+    return map;
+  }
+
+  if (mapping.mode === 'histogram') {
+    let below = 0;
+    for (let edge = 0; edge <= bins; edge++) {
+      map[edge] = below / total;
+      below += histogram[edge] ?? 0;
+    }
+    return map;
+  }
+
+  // Stretch the range between the quantiles over the whole palette
+  const clip = mapping.mode === 'percentile' ? mapping.clip / 100 : 0;
+  const low = findQuantile(histogram, total * clip);
+  const high = findQuantile(histogram, total * (1 - clip));
+  const range = Math.max(high - low, 1e-6);
+  for (let edge = 0; edge <= bins; edge++) {
+    map[edge] = Math.max(0, Math.min(1, (edge - low) / range));
+  }
+  return map;
+}
@@ -0,0 +1,30 @@
+// Coloring algorithms for escape-time fractals
+import { ColoringAlgorithm } from '@/types/fractal';
+import { FractalDefinition } from '../fractals/base';
+import { supportsOrbitTraps } from './orbit-traps';
+import { supportsDistanceEstimation } from './distance-estimation';
+
+export const COLORING_ALGORITHMS: Array<{ value: ColoringAlgorithm; label: string }> = [
+  { value: 'smooth', label: 'Smooth iteration count' },
+  { value: 'orbit-trap', label: 'Orbit trap' },
+  { value: 'distance-estimation', label: 'Distance estimation' }
+];
+
+export function supportsColoring(definition: FractalDefinition, coloring: ColoringAlgorithm): boolean {
+  switch (coloring) {
+    case 'orbit-trap':
+      return supportsOrbitTraps(definition);
+    case 'distance-estimation':
+      return supportsDistanceEstimation(definition);
+    default:
+      return true;
+  }
+}
+
+/**
+ * The coloring a fractal is drawn with: the one chosen when the fractal
+ * supports it, smooth iteration count otherwise
+ */
+export function getSupportedColoring(definition: FractalDefinition, coloring: ColoringAlgorithm = 'smooth'): ColoringAlgorithm {
+  return supportsColoring(definition, coloring) ? coloring : 'smooth';
+}
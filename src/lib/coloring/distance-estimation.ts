@@ -0,0 +1,90 @@
+// Distance-estimation coloring: boundary lines, glow and relief lighting
+import { DistanceEstimationParams } from '@/types/fractal';
+import { FractalDefinition } from '../fractals/base';
+
+export const DEFAULT_DISTANCE_ESTIMATION: DistanceEstimationParams = {
+  boundary: 1,
+  glow: 0,
+  lighting: true,
+  lightAngle: Math.PI / 4,
+  lightHeight: 1.5
+};
+
+export const MAX_BOUNDARY_WIDTH = 8;
+export const MAX_GLOW = 64;
+export const MAX_LIGHT_HEIGHT = 4;
+
+// The estimate is only accurate well away from the set, so orbits run on past
+// the user's escape radius
+export const DISTANCE_ESCAPE_RADIUS = 1000;
+
+export const DISTANCE_ESTIMATION_UNIFORMS = [
+  'u_deBoundary',
+  'u_deGlow',
+  'u_deLighting',
+  'u_deLight',
+  'u_deLightHeight'
+];
+
+/**
+ * State and shading for the shader builder. The escape test stores z and its
+ * derivative in escapeZ and escapeDz, and getColor passes the palette color
+ * through shadeDistance.
+ */
+export const DISTANCE_ESTIMATION_FUNCTIONS = `
+uniform float u_deBoundary;
+uniform float u_deGlow;
+uniform int u_deLighting;
+uniform vec2 u_deLight;
+uniform float u_deLightHeight;
+
+vec2 escapeZ = vec2(0.0);
+vec2 escapeDz = vec2(1.0, 0.0);
+
+// Distance from the pixel to the boundary of the set, in pixels
+float getBoundaryDistance() {
+    float r = length(escapeZ);
+    float distance = 0.5 * r * log(r) / max(length(escapeDz), 1e-30);
+    return distance * u_zoom * u_resolution.y;
+}
+
+vec3 shadeDistance(vec3 color) {
+    if (u_deLighting == 1) {
+        // z / dz points along the gradient of the potential, normal to its level lines
+        vec2 normal = complexDiv(escapeZ, escapeDz);
+        normal /= max(length(normal), 1e-30);
+        float light = (dot(normal, u_deLight) + u_deLightHeight) / (1.0 + u_deLightHeight);
+        color *= max(light, 0.0);
+    }
+
+    float distance = getBoundaryDistance();
+    if (u_deGlow > 0.0) {
+        color = mix(color, vec3(1.0), 0.8 * exp(-distance / u_deGlow));
+    }
+    if (u_deBoundary > 0.0) {
+        color *= smoothstep(0.0, u_deBoundary, distance);
+    }
+    return color;
+}`;
+
+/**
+ * Distance estimation needs the derivative of the iteration
+ */
+export function supportsDistanceEstimation(definition: FractalDefinition): boolean {
+  return !!definition.shader.step && !!definition.shader.derivative;
+}
+
+export function validateDistanceEstimation(params: Partial<DistanceEstimationParams>): DistanceEstimationParams {
+  const clamp = (value: number | undefined, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(max, value)) : fallback;
+
+  return {
+    boundary: clamp(params.boundary, MAX_BOUNDARY_WIDTH, DEFAULT_DISTANCE_ESTIMATION.boundary),
+    glow: clamp(params.glow, MAX_GLOW, DEFAULT_DISTANCE_ESTIMATION.glow),
+    lighting: typeof params.lighting === 'boolean' ? params.lighting : DEFAULT_DISTANCE_ESTIMATION.lighting,
+    lightAngle: typeof params.lightAngle === 'number' && Number.isFinite(params.lightAngle)
+      ? params.lightAngle
+      : DEFAULT_DISTANCE_ESTIMATION.lightAngle,
+    lightHeight: clamp(params.lightHeight, MAX_LIGHT_HEIGHT, DEFAULT_DISTANCE_ESTIMATION.lightHeight)
+  };
+}
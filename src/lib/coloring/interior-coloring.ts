@@ -0,0 +1,134 @@
+// Interior coloring: what the orbits of points that never escape reveal
+import { ColoringAlgorithm, InteriorColoringMode, InteriorColoringParams } from '@/types/fractal';
+import { FractalDefinition } from '../fractals/base';
+
+export const INTERIOR_COLORINGS: Array<{ value: InteriorColoringMode; label: string }> = [
+  { value: 'solid', label: 'Solid color' },
+  { value: 'magnitude', label: 'Final |z|' },
+  { value: 'angle', label: 'Final angle of z' },
+  { value: 'period', label: 'Cycle period' },
+  { value: 'orbit-average', label: 'Average orbit distance' },
+  { value: 'distance', label: 'Interior distance estimate' }
+];
+
+// The palette of each mode until one is picked for it
+export const DEFAULT_INTERIOR_PALETTES: Record<Exclude<InteriorColoringMode, 'solid'>, string> = {
+  magnitude: 'ocean',
+  angle: 'twilight',
+  period: 'rainbow',
+  'orbit-average': 'magma',
+  distance: 'cividis'
+};
+
+export const DEFAULT_INTERIOR_COLORING: InteriorColoringParams = {
+  mode: 'solid',
+  color: '#000000',
+  palettes: {}
+};
+
+export const INTERIOR_COLORING_UNIFORMS = ['u_interiorColor', 'u_interiorPalette'];
+
+/**
+ * Interior state and functions for the shader builder. The iteration loop
+ * feeds each orbit point to the mode's update, and after the last iteration
+ * stores the mode's palette position in interiorPosition, which getColor reads
+ * through getInteriorColor. The period mode reads the cycle detection of
+ * PERIODICITY_FUNCTIONS.
+ */
+export const INTERIOR_COLORING_FUNCTIONS = `
+uniform vec3 u_interiorColor;
+uniform sampler2D u_interiorPalette;
+
+// Palette position of a point that never escaped, or -1 for the solid color
+float interiorPosition = -1.0;
+
+float orbitSum = 0.0;
+float orbitCount = 0.0;
+
+// Near the boundary the attracting cycle weakens and the derivative of the
+// orbit grows without bound, so its reciprocal stands in for the distance
+float getInteriorDistance(vec2 dz) {
+    float pixels = u_zoom * u_resolution.y / max(length(dz), 1e-30);
+    return 1.0 - exp(-pixels / 64.0);
+}
+
+vec3 getInteriorColor() {
+    if (interiorPosition < 0.0) {
+        return u_interiorColor;
+    }
+    return texture(u_interiorPalette, vec2(clamp(interiorPosition, 0.0, 1.0), 0.5)).rgb;
+}
+`;
+
+/**
+ * Statements each mode runs on every orbit point, and its palette position
+ * after the last iteration, for the vec2 expression of z. The distance mode
+ * reads the derivative dz.
+ */
+export const INTERIOR_TRACKING: Record<
+  InteriorColoringMode,
+  { update?: (orbit: string) => string; position?: (orbit: string) => string }
+> = {
+  solid: {},
+  magnitude: {
+    position: orbit => `length(${orbit}) / u_escapeRadius`
+  },
+  angle: {
+    position: orbit => `atan(${orbit}.y, ${orbit}.x) / 6.28318530718 + 0.5`
+  },
+  period: {
+    update: orbit => `updateCycle(${orbit});`,
+    // The golden ratio keeps neighboring periods far apart on the palette
+    position: () => 'cyclePeriod > 0 ? fract(float(cyclePeriod) * 0.6180339887) : -1.0'
+  },
+  'orbit-average': {
+    update: orbit => `orbitSum += length(${orbit});\n        orbitCount += 1.0;`,
+    position: () => 'orbitSum / max(orbitCount, 1.0) / u_escapeRadius'
+  },
+  distance: {
+    position: () => 'getInteriorDistance(dz)'
+  }
+};
+
+/**
+ * The interior mode a fractal is drawn with. Only escape-time fractals have an
+ * interior, orbit traps color it themselves, and the distance estimate needs
+ * the derivative of the iteration; the rest are solid.
+ */
+export function getSupportedInterior(
+  definition: FractalDefinition,
+  coloring: ColoringAlgorithm,
+  mode: InteriorColoringMode = 'solid'
+): InteriorColoringMode {
+  if (!definition.shader.step || definition.shader.evaluate || coloring === 'orbit-trap') {
+    return 'solid';
+  }
+  if (mode === 'distance' && !definition.shader.derivative) {
+    return 'solid';
+  }
+  return mode;
+}
+
+/**
+ * Palette id of the interior's current mode, or null for the solid color
+ */
+export function getInteriorPalette(interior: InteriorColoringParams): string | null {
+  if (interior.mode === 'solid') return null;
+  return interior.palettes[interior.mode] ?? DEFAULT_INTERIOR_PALETTES[interior.mode];
+}
+
+export function validateInteriorColoring(interior: Partial<InteriorColoringParams>): InteriorColoringParams {
+  const palettes: Partial<Record<InteriorColoringMode, string>> = {};
+  for (const value of Object.keys(DEFAULT_INTERIOR_PALETTES) as InteriorColoringMode[]) {
+    const palette = interior.palettes?.[value];
+    if (typeof palette === 'string' && palette) palettes[value] = palette;
+  }
+
+  return {
+    mode: INTERIOR_COLORINGS.some(mode => mode.value === interior.mode) ? interior.mode! : DEFAULT_INTERIOR_COLORING.mode,
+    color: typeof interior.color === 'string' && /^#[0-9a-f]{6}$/i.test(interior.color)
+      ? interior.color.toLowerCase()
+      : DEFAULT_INTERIOR_COLORING.color,
+    palettes
+  };
+}
@@ -0,0 +1,171 @@
+// Orbit-trap coloring: the closest approach of each orbit to a shape
+import { Complex, OrbitTrapOutput, OrbitTrapParams, OrbitTrapShape } from '@/types/fractal';
+import { FractalDefinition } from '../fractals/base';
+
+// In the order of the u_trapShape and u_trapOutput indices
+export const ORBIT_TRAP_SHAPES: Array<{ value: OrbitTrapShape; label: string }> = [
+  { value: 'point', label: 'Point' },
+  { value: 'line', label: 'Line' },
+  { value: 'cross', label: 'Cross' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'image', label: 'Image' }
+];
+
+export const ORBIT_TRAP_OUTPUTS: Array<{ value: OrbitTrapOutput; label: string }> = [
+  { value: 'distance', label: 'Minimum distance' },
+  { value: 'iteration', label: 'Iteration of closest approach' },
+  { value: 'angle', label: 'Angle at closest approach' }
+];
+
+export const DEFAULT_ORBIT_TRAP: OrbitTrapParams = {
+  shape: 'point',
+  output: 'distance',
+  center: { real: 0, imag: 0 },
+  angle: 0,
+  radius: 0.5,
+  falloff: 0.25
+};
+
+// Uploaded trap images are scaled down to fit a square of this many pixels
+export const MAX_TRAP_IMAGE_SIZE = 256;
+
+export const ORBIT_TRAP_UNIFORMS = [
+  'u_trapShape',
+  'u_trapOutput',
+  'u_trapCenter',
+  'u_trapAngle',
+  'u_trapRadius',
+  'u_trapFalloff',
+  'u_trapImage'
+];
+
+/**
+ * Trap state and functions for the shader builder. The iteration loop calls
+ * updateTrap with every orbit point, and getColor reads getTrapPosition.
+ */
+export const ORBIT_TRAP_FUNCTIONS = `
+uniform int u_trapShape;
+uniform int u_trapOutput;
+uniform vec2 u_trapCenter;
+uniform float u_trapAngle;
+uniform float u_trapRadius;
+uniform float u_trapFalloff;
+uniform sampler2D u_trapImage;
+
+// Closest approach of the orbit to the trap so far
+float trapDistance = 1e20;
+float trapIteration = 0.0;
+float trapAngle = 0.0;
+// First orbit point on an opaque pixel of an image trap
+bool trapHit = false;
+vec3 trapColor = vec3(0.0);
+
+void updateTrap(vec2 w, int i) {
+    // The orbit point in the trap's rotated frame
+    vec2 p = w - u_trapCenter;
+    float sine = sin(u_trapAngle);
+    float cosine = cos(u_trapAngle);
+    vec2 q = vec2(cosine * p.x + sine * p.y, cosine * p.y - sine * p.x);
+
+    float d;
+    if (u_trapShape == 0) {
+        d = length(q);
+    } else if (u_trapShape == 1) {
+        d = abs(q.y);
+    } else if (u_trapShape == 2) {
+        d = min(abs(q.x), abs(q.y));
+    } else if (u_trapShape == 3) {
+        d = abs(length(q) - u_trapRadius);
+    } else {
+        // Distance outside the image's square
+        d = max(max(abs(q.x), abs(q.y)) - u_trapRadius, 0.0);
+        if (d == 0.0 && !trapHit) {
+            vec4 texel = textureLod(u_trapImage, q / (2.0 * u_trapRadius) + 0.5, 0.0);
+            if (texel.a > 0.5) {
+                trapHit = true;
+                trapColor = texel.rgb;
+            }
+        }
+    }
+
+    if (d < trapDistance) {
+        trapDistance = d;
+        trapIteration = float(i);
+        trapAngle = atan(q.y, q.x);
+    }
+}
+
+// Palette position of the closest approach
+float getTrapPosition() {
+    if (u_trapOutput == 1) {
+        return trapIteration / float(u_maxIterations);
+    }
+    if (u_trapOutput == 2) {
+        return trapAngle / 6.28318530718 + 0.5;
+    }
+    return 1.0 - exp(-trapDistance / u_trapFalloff);
+}`;
+
+/**
+ * Orbit traps need an orbit: escape-time fractals only
+ */
+export function supportsOrbitTraps(definition: FractalDefinition): boolean {
+  return !!definition.shader.step && !definition.shader.evaluate;
+}
+
+const isFiniteComplex = (value: Complex | undefined): value is Complex =>
+  !!value && Number.isFinite(value.real) && Number.isFinite(value.imag);
+
+export function validateOrbitTrap(trap: Partial<OrbitTrapParams>): OrbitTrapParams {
+  const positive = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && value > 0 && Number.isFinite(value) ? value : fallback;
+
+  const validated: OrbitTrapParams = {
+    shape: ORBIT_TRAP_SHAPES.some(shape => shape.value === trap.shape) ? trap.shape! : DEFAULT_ORBIT_TRAP.shape,
+    output: ORBIT_TRAP_OUTPUTS.some(output => output.value === trap.output) ? trap.output! : DEFAULT_ORBIT_TRAP.output,
+    center: isFiniteComplex(trap.center) ? trap.center : DEFAULT_ORBIT_TRAP.center,
+    angle: typeof trap.angle === 'number' && Number.isFinite(trap.angle) ? trap.angle : DEFAULT_ORBIT_TRAP.angle,
+    radius: positive(trap.radius, DEFAULT_ORBIT_TRAP.radius),
+    falloff: positive(trap.falloff, DEFAULT_ORBIT_TRAP.falloff)
+  };
+
+  if (typeof trap.image === 'string' && trap.image.startsWith('data:image/')) {
+    validated.image = trap.image;
+  }
+  return validated;
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the image'));
+    image.src = url;
+  });
+}
+
+/**
+ * PNG data URL of an image file centered on a transparent square of at most
+ * MAX_TRAP_IMAGE_SIZE pixels, small enough to keep in the view parameters
+ */
+export async function createTrapImage(file: Blob): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const size = Math.min(MAX_TRAP_IMAGE_SIZE, Math.max(image.width, image.height));
+    const scale = size / Math.max(image.width, image.height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not load the image');
+
+    const width = image.width * scale;
+    const height = image.height * scale;
+    context.drawImage(image, (size - width) / 2, (size - height) / 2, width, height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
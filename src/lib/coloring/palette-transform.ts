@@ -0,0 +1,102 @@
+// Palette transforms: offset, repeats, density, direction and cycling of the palette lookup
+import { PaletteDensity, PaletteTransformParams } from '@/types/fractal';
+
+export const PALETTE_DENSITIES: Array<{ value: PaletteDensity; label: string }> = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'logarithmic', label: 'Logarithmic' }
+];
+
+export const DEFAULT_PALETTE_TRANSFORM: PaletteTransformParams = {
+  offset: 0,
+  cycles: 1,
+  density: 'linear',
+  reverse: false,
+  speed: 0,
+  wobble: true
+};
+
+export const MAX_PALETTE_CYCLES = 64;
+export const MAX_PALETTE_SPEED = 2;
+
+export const PALETTE_TRANSFORM_UNIFORMS = [
+  'u_paletteOffset',
+  'u_paletteCycles',
+  'u_paletteDensity',
+  'u_paletteReverse',
+  'u_paletteSpeed',
+  'u_wobble'
+];
+
+/**
+ * The shared color mapping of every shader. samplePalette looks up the palette
+ * at a position in [0, 1] of the iteration range, and paletteWobble scales the
+ * fractals' animated brightness waves down to nothing when the wobble is off.
+ * Needs u_colorPalette, u_maxIterations and u_time declared before it.
+ */
+export const PALETTE_TRANSFORM_FUNCTIONS = `
+uniform float u_paletteOffset;
+uniform float u_paletteCycles;
+uniform int u_paletteDensity; // 0: linear, 1: logarithmic
+uniform int u_paletteReverse;
+uniform float u_paletteSpeed;
+uniform float u_wobble;
+
+float transformPalette(float t) {
+    if (u_paletteDensity == 1) {
+        // Spend more of the palette on the low iteration counts
+        float range = float(u_maxIterations);
+        t = log(1.0 + max(t, 0.0) * range) / log(1.0 + range);
+    }
+
+    float position = t * u_paletteCycles + u_paletteOffset + u_time * u_paletteSpeed;
+    // The end of a whole number of cycles keeps the last color
+    position = position > 0.0 && fract(position) == 0.0 ? 1.0 : fract(position);
+    return u_paletteReverse == 1 ? 1.0 - position : position;
+}
+
+vec3 samplePalette(float t) {
+    return texture(u_colorPalette, vec2(transformPalette(t), 0.5)).rgb;
+}
+
+float paletteWobble(float wave) {
+    return mix(1.0, wave, u_wobble);
+}
+`;
+
+/**
+ * Palette position of `t` as the shaders compute it, without the wobble
+ */
+export function transformPalettePosition(
+  t: number,
+  transform: PaletteTransformParams,
+  maxIterations: number,
+  time: number = 0
+): number {
+  if (transform.density === 'logarithmic') {
+    t = Math.log1p(Math.max(t, 0) * maxIterations) / Math.log1p(maxIterations);
+  }
+
+  const position = t * transform.cycles + transform.offset + time * transform.speed;
+  const wrapped = position - Math.floor(position);
+  const cycled = position > 0 && wrapped === 0 ? 1 : wrapped;
+  return transform.reverse ? 1 - cycled : cycled;
+}
+
+export function validatePaletteTransform(transform: Partial<PaletteTransformParams>): PaletteTransformParams {
+  const finite = (value: number | undefined): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  return {
+    offset: finite(transform.offset) ? transform.offset - Math.floor(transform.offset) : DEFAULT_PALETTE_TRANSFORM.offset,
+    cycles: finite(transform.cycles) && transform.cycles > 0
+      ? Math.min(MAX_PALETTE_CYCLES, transform.cycles)
+      : DEFAULT_PALETTE_TRANSFORM.cycles,
+    density: PALETTE_DENSITIES.some(density => density.value === transform.density)
+      ? transform.density!
+      : DEFAULT_PALETTE_TRANSFORM.density,
+    reverse: typeof transform.reverse === 'boolean' ? transform.reverse : DEFAULT_PALETTE_TRANSFORM.reverse,
+    speed: finite(transform.speed)
+      ? Math.max(-MAX_PALETTE_SPEED, Math.min(MAX_PALETTE_SPEED, transform.speed))
+      : DEFAULT_PALETTE_TRANSFORM.speed,
+    wobble: typeof transform.wobble === 'boolean' ? transform.wobble : DEFAULT_PALETTE_TRANSFORM.wobble
+  };
+}
@@ -0,0 +1,42 @@
+// Escape-time iteration of a fractal definition's JavaScript formula
+import { Complex, FractalParameterValue } from '@/types/fractal';
+import { FractalDefinition } from '../fractals/base';
+import { PeriodicityChecker } from '../fractals/periodicity';
+
+/**
+ * Smooth iteration count of the orbit from z0, or maxIterations for the interior.
+ * The formula receives the previous iterate for Phoenix-style recurrences and
+ * the schema parameter values, and the orbit stops as interior once the
+ * optional periodicity checker finds it in a cycle.
+ */
+export function escapeTime(
+  formula: FractalDefinition['formula'],
+  z0: Complex,
+  c: Complex,
+  maxIterations: number,
+  escapeRadius: number,
+  checker: PeriodicityChecker | null = null,
+  parameters: Record<string, FractalParameterValue> = {}
+): number {
+  checker?.reset();
+  let z = z0;
+  let prev: Complex = { real: 0, imag: 0 };
+  let iteration = 0;
+  const escapeRadiusSquared = escapeRadius * escapeRadius;
+
+  while (iteration < maxIterations) {
+    const zMagSquared = z.real * z.real + z.imag * z.imag;
+
+    if (zMagSquared > escapeRadiusSquared) {
+      return iteration + 1 - Math.log2(Math.log2(zMagSquared) * 0.5);
+    }
+
+    const next = formula(z, c, prev, parameters);
+    prev = z;
+    z = next;
+    iteration++;
+    if (checker?.check(z)) break;
+  }
+
+  return maxIterations;
+}
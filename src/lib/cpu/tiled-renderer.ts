@@ -0,0 +1,106 @@
+// Progressive CPU rendering in float64: tiles computed by a pool of fractal
+// workers, coarse passes first
+import { ComputeFractalMessage, FractalParams, RenderTile, ViewportState } from '@/types/fractal';
+import { colorPalettes, createPaletteData, getColorPalette } from '../color-palettes';
+import { getCustomFormula } from '../formula/custom-fractal';
+import { performanceMonitor } from '../performance-monitor';
+import { REFINEMENT_STEPS, colorizeTile, createTiles } from './tiles';
+import { WorkerPool } from './worker-pool';
+
+export class TiledRenderer {
+  private context: CanvasRenderingContext2D;
+  private pool: WorkerPool;
+  // Results of older renders are dropped when they arrive
+  private generation = 0;
+
+  // Called as tiles arrive with the passes completed over all tiles
+  onProgress?: (completed: number, total: number) => void;
+
+  constructor(private canvas: HTMLCanvasElement, workerCount?: number) {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('2D canvas context unavailable');
+    }
+    this.context = context;
+    this.pool = new WorkerPool(workerCount);
+  }
+
+  /**
+   * Render a view, cancelling any render still in progress
+   */
+  render(params: FractalParams, viewport: ViewportState): void {
+    this.stop();
+    const generation = this.generation;
+
+    if (this.canvas.width !== viewport.width || this.canvas.height !== viewport.height) {
+      this.canvas.width = viewport.width;
+      this.canvas.height = viewport.height;
+    }
+
+    const palette = createPaletteData(getColorPalette(params.colorPalette) || colorPalettes[0]);
+    const formula = getCustomFormula(params.fractalType);
+    const tiles = createTiles(viewport.width, viewport.height);
+    const total = tiles.length * REFINEMENT_STEPS.length;
+    let completed = 0;
+
+    // Finest step drawn per tile, so a slow coarse pass never covers a finer one
+    const drawnSteps = new Map<number, number>();
+    // Samples of the full resolution pass that periodicity checking stopped early
+    let earlyExits = 0;
+    let samples = 0;
+
+    for (const step of REFINEMENT_STEPS) {
+      tiles.forEach((tile, index) => {
+        const message: ComputeFractalMessage = {
+          type: 'COMPUTE_FRACTAL',
+          payload: {
+            preset: { name: params.fractalType, params },
+            params,
+            viewport,
+            formula,
+            tile,
+            step
+          }
+        };
+
+        this.pool.run(message).then(result => {
+          if (!result || generation !== this.generation) return;
+
+          if (step < (drawnSteps.get(index) ?? Infinity)) {
+            drawnSteps.set(index, step);
+            this.drawTile(result, tile, step, params, palette);
+          }
+          if (step === 1) {
+            earlyExits += result.earlyExits as number;
+            samples += result.samples as number;
+            performanceMonitor.updateEarlyExits(earlyExits / samples);
+          }
+          this.onProgress?.(++completed, total);
+        }).catch(error => console.error('CPU tile failed:', error));
+      });
+    }
+  }
+
+  stop(): void {
+    this.generation++;
+    this.pool.cancel();
+  }
+
+  destroy(): void {
+    this.stop();
+    this.pool.terminate();
+  }
+
+  private drawTile(
+    result: Record<string, unknown>,
+    tile: RenderTile,
+    step: number,
+    params: FractalParams,
+    palette: Uint8Array
+  ): void {
+    const values = new Float32Array(result.data as ArrayBuffer);
+    const image = this.context.createImageData(tile.width, tile.height);
+    colorizeTile(values, result.width as number, tile, step, params, palette, image.data);
+    this.context.putImageData(image, tile.x, tile.y);
+  }
+}
@@ -0,0 +1,73 @@
+// Tiling and coloring for the CPU renderer
+import { FractalParams, RenderTile } from '@/types/fractal';
+import { transformPalettePosition } from '../coloring/palette-transform';
+import { hexToRgb } from '../color-palettes';
+
+export const TILE_SIZE = 128;
+
+// Pixel strides of the refinement passes, coarse to fine
+export const REFINEMENT_STEPS = [8, 4, 2, 1];
+
+/**
+ * Split the viewport into tiles of at most `tileSize` pixels, nearest the
+ * center first so the middle of the view sharpens before the edges
+ */
+export function createTiles(width: number, height: number, tileSize: number = TILE_SIZE): RenderTile[] {
+  const tiles: RenderTile[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      tiles.push({ x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) });
+    }
+  }
+
+  const distance = (tile: RenderTile) =>
+    Math.hypot(tile.x + tile.width / 2 - width / 2, tile.y + tile.height / 2 - height / 2);
+  return tiles.sort((a, b) => distance(a) - distance(b));
+}
+
+/**
+ * Palette position in [0, 1] of a worker result, or -1 for the interior.
+ * Escape-time fractals return iteration counts; Lyapunov returns its exponent.
+ */
+export function getPalettePosition(value: number, params: Pick<FractalParams, 'fractalType' | 'maxIterations'>): number {
+  if (params.fractalType === 'lyapunov') {
+    return Math.max(0, Math.min(1, (value + 2) / 4));
+  }
+  return value >= params.maxIterations ? -1 : Math.max(0, value / params.maxIterations);
+}
+
+/**
+ * Color a tile's samples into RGBA pixels. A coarse pass fills each
+ * step × step block with its one sample. The palette transform is applied
+ * still, without its animation, and the interior is solid.
+ */
+export function colorizeTile(
+  values: Float32Array,
+  valuesWidth: number,
+  tile: RenderTile,
+  step: number,
+  params: Pick<FractalParams, 'fractalType' | 'maxIterations' | 'paletteTransform' | 'interior'>,
+  palette: Uint8Array,
+  pixels: Uint8ClampedArray
+): void {
+  const paletteSize = palette.length / 4;
+  const interior = [...(hexToRgb(params.interior?.color ?? '#000000') ?? [0, 0, 0]), 255];
+
+  for (let y = 0; y < tile.height; y++) {
+    for (let x = 0; x < tile.width; x++) {
+      const value = values[Math.floor(y / step) * valuesWidth + Math.floor(x / step)];
+      const t = getPalettePosition(value, params);
+      const index = (y * tile.width + x) * 4;
+
+      if (t < 0) {
+        pixels.set(interior, index);
+      } else {
+        const position = params.paletteTransform
+          ? transformPalettePosition(t, params.paletteTransform, params.maxIterations)
+          : t;
+        const entry = Math.min(paletteSize - 1, Math.floor(position * paletteSize)) * 4;
+        pixels.set([palette[entry], palette[entry + 1], palette[entry + 2], 255], index);
+      }
+    }
+  }
+}
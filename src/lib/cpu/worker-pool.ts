@@ -0,0 +1,88 @@
+// Pool of fractal workers that run queued messages one at a time each
+import { WorkerMessage } from '@/types/fractal';
+
+interface Job {
+  message: WorkerMessage;
+  transfer: Transferable[];
+  resolve: (payload: Record<string, unknown> | null) => void;
+  reject: (error: Error) => void;
+}
+
+export class WorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: Job[] = [];
+  private running = new Map<Worker, Job>();
+
+  /**
+   * Start `size` workers, one per core by default. Throws when workers are unavailable.
+   */
+  constructor(size: number = navigator.hardwareConcurrency || 4) {
+    for (let k = 0; k < size; k++) {
+      const worker = new Worker(new URL('../../workers/fractal-worker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent) => this.handleMessage(worker, event.data);
+      worker.onerror = (event: ErrorEvent) => this.handleMessage(worker, {
+        type: 'ERROR',
+        payload: { message: event.message }
+      });
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Queue a message for the next free worker. Resolves with the payload of its
+   * reply, or null when the job was cancelled before it started.
+   */
+  run(message: WorkerMessage, transfer: Transferable[] = []): Promise<Record<string, unknown> | null> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ message, transfer, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Drop every job that has not started; running jobs finish and resolve normally
+   */
+  cancel(): void {
+    this.queue.forEach(job => job.resolve(null));
+    this.queue = [];
+  }
+
+  terminate(): void {
+    this.cancel();
+    this.running.forEach(job => job.resolve(null));
+    this.running.clear();
+    this.workers.forEach(worker => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.running.set(worker, job);
+      worker.postMessage(job.message, job.transfer);
+    }
+  }
+
+  private handleMessage(worker: Worker, message: { type: string; payload: Record<string, unknown> }): void {
+    const job = this.running.get(worker);
+    if (!job) return;
+
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (message.type === 'ERROR') {
+      job.reject(new Error((message.payload.message as string) || 'Worker error'));
+    } else {
+      job.resolve(message.payload);
+    }
+    this.dispatch();
+  }
+}
@@ -0,0 +1,190 @@
+// Arbitrary-precision fixed-point arithmetic for deep-zoom reference orbits
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TEN = BigInt(10);
+
+const DECIMAL_PATTERN = /^\s*([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?\s*$/;
+
+// Bit length of a non-negative BigInt
+function bitLength(value: bigint): number {
+  return value === ZERO ? 0 : value.toString(2).length;
+}
+
+// Shift right with round-half-up, preserving sign
+function roundShiftRight(value: bigint, shift: number): bigint {
+  if (shift <= 0) return value << BigInt(-shift);
+  const negative = value < ZERO;
+  const magnitude = negative ? -value : value;
+  const rounded = (magnitude + (ONE << BigInt(shift - 1))) >> BigInt(shift);
+  return negative ? -rounded : rounded;
+}
+
+// x * 2^exponent without intermediate overflow or underflow
+function ldexp(x: number, exponent: number): number {
+  while (exponent > 1000) {
+    x *= Math.pow(2, 1000);
+    exponent -= 1000;
+  }
+  while (exponent < -1000) {
+    x *= Math.pow(2, -1000);
+    exponent += 1000;
+  }
+  return x * Math.pow(2, exponent);
+}
+
+/**
+ * Signed fixed-point number: value = mantissa / 2^bits.
+ * Operands of binary operations are converted to the precision of the left-hand side.
+ */
+export class FixedPoint {
+  constructor(readonly mantissa: bigint, readonly bits: number) {}
+
+  static zero(bits: number): FixedPoint {
+    return new FixedPoint(ZERO, bits);
+  }
+
+  /**
+   * Parse a decimal string such as "-0.7436438870371587047521915" or "1.5e-40"
+   */
+  static fromString(value: string, bits: number): FixedPoint {
+    const match = DECIMAL_PATTERN.exec(value);
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid decimal number: ${value}`);
+    }
+
+    const negative = match[1] === '-';
+    const fraction = match[3] || '';
+    const digits = BigInt((match[2] || '') + fraction || '0');
+    const exponent = parseInt(match[4] || '0', 10) - fraction.length;
+
+    let mantissa: bigint;
+    if (exponent >= 0) {
+      mantissa = (digits * TEN ** BigInt(exponent)) << BigInt(bits);
+    } else {
+      const divisor = TEN ** BigInt(-exponent);
+      mantissa = ((digits << BigInt(bits)) + divisor / BigInt(2)) / divisor;
+    }
+
+    return new FixedPoint(negative ? -mantissa : mantissa, bits);
+  }
+
+  /**
+   * Exact conversion from an IEEE 754 double
+   */
+  static fromNumber(value: number, bits: number): FixedPoint {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot convert ${value} to fixed point`);
+    }
+    if (value === 0) return FixedPoint.zero(bits);
+
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, Math.abs(value));
+    const high = view.getUint32(0);
+    const low = view.getUint32(4);
+    const biasedExponent = (high >>> 20) & 0x7ff;
+
+    let significand = (BigInt(high & 0xfffff) << BigInt(32)) | BigInt(low);
+    let exponent = -1074; // Subnormal
+    if (biasedExponent !== 0) {
+      significand |= ONE << BigInt(52);
+      exponent = biasedExponent - 1075;
+    }
+
+    const mantissa = roundShiftRight(significand, -(exponent + bits));
+    return new FixedPoint(value < 0 ? -mantissa : mantissa, bits);
+  }
+
+  withPrecision(bits: number): FixedPoint {
+    if (bits === this.bits) return this;
+    return new FixedPoint(roundShiftRight(this.mantissa, this.bits - bits), bits);
+  }
+
+  add(other: FixedPoint): FixedPoint {
+    return new FixedPoint(this.mantissa + other.withPrecision(this.bits).mantissa, this.bits);
+  }
+
+  sub(other: FixedPoint): FixedPoint {
+    return new FixedPoint(this.mantissa - other.withPrecision(this.bits).mantissa, this.bits);
+  }
+
+  mul(other: FixedPoint): FixedPoint {
+    const product = this.mantissa * other.withPrecision(this.bits).mantissa;
+    return new FixedPoint(product >> BigInt(this.bits), this.bits);
+  }
+
+  square(): FixedPoint {
+    return new FixedPoint((this.mantissa * this.mantissa) >> BigInt(this.bits), this.bits);
+  }
+
+  double(): FixedPoint {
+    return new FixedPoint(this.mantissa << ONE, this.bits);
+  }
+
+  neg(): FixedPoint {
+    return new FixedPoint(-this.mantissa, this.bits);
+  }
+
+  abs(): FixedPoint {
+    return this.mantissa < ZERO ? this.neg() : this;
+  }
+
+  sign(): -1 | 0 | 1 {
+    if (this.mantissa === ZERO) return 0;
+    return this.mantissa < ZERO ? -1 : 1;
+  }
+
+  /**
+   * Nearest double to value * 2^scaleExponent. The scale lets callers read
+   * differences far below the double range (e.g. in units of the pixel size).
+   */
+  toNumber(scaleExponent: number = 0): number {
+    if (this.mantissa === ZERO) return 0;
+
+    const negative = this.mantissa < ZERO;
+    let magnitude = negative ? -this.mantissa : this.mantissa;
+    const drop = Math.max(0, bitLength(magnitude) - 64);
+    if (drop > 0) magnitude >>= BigInt(drop);
+
+    const result = ldexp(Number(magnitude), drop - this.bits + scaleExponent);
+    return negative ? -result : result;
+  }
+
+  /**
+   * Decimal representation. Without a digit count, the shortest decimal that
+   * parses back to exactly this value at the same precision.
+   */
+  toString(digits?: number): string {
+    if (digits !== undefined) return this.toFixedDigits(digits);
+
+    const maxDigits = Math.ceil(this.bits * Math.LOG10E * Math.LN2) + 1;
+    for (let candidate = 0; candidate < maxDigits; candidate++) {
+      const text = this.toFixedDigits(candidate);
+      if (FixedPoint.fromString(text, this.bits).mantissa === this.mantissa) {
+        return text;
+      }
+    }
+    return this.toFixedDigits(maxDigits);
+  }
+
+  private toFixedDigits(digits: number): string {
+    const negative = this.mantissa < ZERO;
+    const magnitude = negative ? -this.mantissa : this.mantissa;
+    const scaled = roundShiftRight(magnitude * TEN ** BigInt(digits), this.bits);
+
+    const text = scaled.toString().padStart(digits + 1, '0');
+    const integerPart = text.slice(0, text.length - digits);
+    const fractionPart = text.slice(text.length - digits).replace(/0+$/, '');
+
+    return `${negative && scaled !== ZERO ? '-' : ''}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+  }
+}
+
+/**
+ * Check that a string is a decimal number accepted by FixedPoint.fromString
+ */
+export function isDecimalString(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const match = DECIMAL_PATTERN.exec(value);
+  return !!match && !!(match[2] || match[3]);
+}
@@ -0,0 +1,83 @@
+// View math for perturbation (deep zoom) rendering
+import { Complex, FractalParams, HighPrecisionComplex } from '@/types/fractal';
+import { FixedPoint } from './fixed-point';
+
+// Zoom is kept as a double, so its exponent range is the practical limit
+export const MAX_DEEP_ZOOM = 1e300;
+
+// Extra bits beyond the zoom depth to cover pixel resolution and rounding
+const PRECISION_GUARD_BITS = 64;
+
+/**
+ * Fixed-point precision needed to resolve individual pixels at a zoom level
+ */
+export function getPrecisionBits(zoom: number): number {
+  return Math.max(64, Math.ceil(Math.log2(Math.max(1, zoom))) + PRECISION_GUARD_BITS);
+}
+
+/**
+ * Split the pixel scale 1/zoom into mantissa * 2^exponent so that the shader
+ * can work with deltas far below the float32 range.
+ */
+export function splitPixelScale(zoom: number): { mantissa: number; exponent: number } {
+  const scale = 1 / zoom;
+  const exponent = Math.floor(Math.log2(scale));
+  return { mantissa: scale / Math.pow(2, exponent), exponent };
+}
+
+/**
+ * The authoritative center of a view as decimal strings
+ */
+export function getPreciseCenter(params: Pick<FractalParams, 'center' | 'preciseCenter'>): HighPrecisionComplex {
+  return params.preciseCenter || {
+    real: String(params.center.real),
+    imag: String(params.center.imag)
+  };
+}
+
+/**
+ * Move the view center by a complex delta. In deep zoom mode the delta is
+ * added in fixed point so that pans stay exact below double precision.
+ */
+export function translateCenter(
+  params: Pick<FractalParams, 'center' | 'preciseCenter' | 'zoom' | 'deepZoom'>,
+  deltaReal: number,
+  deltaImag: number
+): Pick<FractalParams, 'center' | 'preciseCenter'> {
+  if (!params.deepZoom) {
+    return {
+      center: {
+        real: params.center.real + deltaReal,
+        imag: params.center.imag + deltaImag
+      }
+    };
+  }
+
+  const bits = getPrecisionBits(params.zoom);
+  const current = getPreciseCenter(params);
+  const real = FixedPoint.fromString(current.real, bits).add(FixedPoint.fromNumber(deltaReal, bits));
+  const imag = FixedPoint.fromString(current.imag, bits).add(FixedPoint.fromNumber(deltaImag, bits));
+
+  return {
+    center: { real: real.toNumber(), imag: imag.toNumber() },
+    preciseCenter: { real: real.toString(), imag: imag.toString() }
+  };
+}
+
+/**
+ * Offset of the view center from the reference point in units of 2^scaleExponent
+ */
+export function getReferenceOffset(
+  viewCenter: HighPrecisionComplex,
+  referenceCenter: HighPrecisionComplex,
+  scaleExponent: number,
+  bits: number
+): Complex {
+  const real = FixedPoint.fromString(viewCenter.real, bits).sub(FixedPoint.fromString(referenceCenter.real, bits));
+  const imag = FixedPoint.fromString(viewCenter.imag, bits).sub(FixedPoint.fromString(referenceCenter.imag, bits));
+
+  return {
+    real: real.toNumber(-scaleExponent),
+    imag: imag.toNumber(-scaleExponent)
+  };
+}
@@ -0,0 +1,112 @@
+// Main-thread client that computes reference orbits in the fractal worker
+import { ComputeReferenceOrbitMessage, HighPrecisionComplex } from '@/types/fractal';
+import { computeReferenceOrbit, PerturbationFractalType, ReferenceOrbit } from './reference-orbit';
+
+export interface ReferenceOrbitRequest {
+  fractalType: PerturbationFractalType;
+  center: HighPrecisionComplex;
+  maxIterations: number;
+  escapeRadius: number;
+  precisionBits: number;
+}
+
+interface PendingRequest {
+  request: ReferenceOrbitRequest;
+  resolve: (orbit: ReferenceOrbit | null) => void;
+  reject: (error: Error) => void;
+}
+
+export class ReferenceOrbitClient {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+
+  /**
+   * Compute a reference orbit off the main thread. Resolves with null when a
+   * newer request superseded this one before it finished.
+   */
+  request(request: ReferenceOrbitRequest): Promise<ReferenceOrbit | null> {
+    const requestId = this.nextRequestId++;
+
+    // Only the newest view matters: drop anything still waiting
+    this.pending.forEach(entry => entry.resolve(null));
+    this.pending.clear();
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { request, resolve, reject });
+
+      const worker = this.getWorker();
+      if (worker) {
+        const message: ComputeReferenceOrbitMessage = {
+          type: 'COMPUTE_REFERENCE_ORBIT',
+          payload: { requestId, ...request }
+        };
+        worker.postMessage(message);
+      } else {
+        // No worker support: compute on the main thread after yielding
+        setTimeout(() => this.computeLocally(requestId), 0);
+      }
+    });
+  }
+
+  destroy(): void {
+    this.pending.forEach(entry => entry.resolve(null));
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      this.worker = new Worker(new URL('../../workers/fractal-worker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) => {
+        console.error('Reference orbit worker failed:', event.message);
+        this.pending.forEach(entry => entry.reject(new Error(event.message)));
+        this.pending.clear();
+      };
+    } catch (error) {
+      console.warn('Web Workers unavailable, computing reference orbits on the main thread:', error);
+      this.workerFailed = true;
+    }
+
+    return this.worker;
+  }
+
+  private handleMessage(message: { type: string; payload: Record<string, unknown> }): void {
+    const { type, payload } = message;
+
+    if (type === 'REFERENCE_ORBIT_COMPUTED') {
+      const entry = this.pending.get(payload.requestId as number);
+      if (!entry) return; // Superseded
+
+      this.pending.delete(payload.requestId as number);
+      entry.resolve({
+        ...entry.request,
+        points: new Float32Array(payload.points as ArrayBuffer),
+        length: payload.length as number,
+        escaped: payload.escaped as boolean
+      });
+    } else if (type === 'ERROR') {
+      const error = new Error((payload.message as string) || 'Worker error');
+      this.pending.forEach(entry => entry.reject(error));
+      this.pending.clear();
+    }
+  }
+
+  private computeLocally(requestId: number): void {
+    const entry = this.pending.get(requestId);
+    if (!entry) return;
+
+    this.pending.delete(requestId);
+    try {
+      const { fractalType, center, maxIterations, escapeRadius, precisionBits } = entry.request;
+      entry.resolve(computeReferenceOrbit(fractalType, center, maxIterations, escapeRadius, precisionBits));
+    } catch (error) {
+      entry.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
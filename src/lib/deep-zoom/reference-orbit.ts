@@ -0,0 +1,99 @@
+// High-precision reference orbits for perturbation rendering
+import { FractalType, HighPrecisionComplex } from '@/types/fractal';
+import { FixedPoint } from './fixed-point';
+
+export type PerturbationFractalType = 'mandelbrot' | 'burning-ship' | 'tricorn' | 'celtic';
+
+// Index passed to the perturbation shader as u_fractalType
+export const PERTURBATION_FRACTAL_TYPES: PerturbationFractalType[] = [
+  'mandelbrot',
+  'burning-ship',
+  'tricorn',
+  'celtic'
+];
+
+export function supportsPerturbation(type: FractalType): type is PerturbationFractalType {
+  return (PERTURBATION_FRACTAL_TYPES as FractalType[]).includes(type);
+}
+
+export interface ReferenceOrbit {
+  fractalType: PerturbationFractalType;
+  center: HighPrecisionComplex;
+  maxIterations: number;
+  precisionBits: number;
+  // Z_n as interleaved (real, imag) float32 pairs, starting with Z_0 = 0
+  points: Float32Array;
+  length: number;
+  escaped: boolean;
+}
+
+/**
+ * Iterate the reference point at the view center in fixed-point arithmetic.
+ * Only the low-precision orbit is kept: pixels iterate their offset from it.
+ */
+export function computeReferenceOrbit(
+  fractalType: PerturbationFractalType,
+  center: HighPrecisionComplex,
+  maxIterations: number,
+  escapeRadius: number,
+  precisionBits: number
+): ReferenceOrbit {
+  const cReal = FixedPoint.fromString(center.real, precisionBits);
+  let cImag = FixedPoint.fromString(center.imag, precisionBits);
+  if (fractalType === 'burning-ship') {
+    cImag = cImag.neg(); // Burning Ship is viewed with a flipped y-axis
+  }
+
+  const points = new Float32Array((maxIterations + 1) * 2);
+  const escapeRadiusSquared = escapeRadius * escapeRadius;
+  let x = FixedPoint.zero(precisionBits);
+  let y = FixedPoint.zero(precisionBits);
+  let length = 0;
+  let escaped = false;
+
+  for (let n = 0; n <= maxIterations; n++) {
+    const real = x.toNumber();
+    const imag = y.toNumber();
+    points[n * 2] = real;
+    points[n * 2 + 1] = imag;
+    length++;
+
+    if (real * real + imag * imag > escapeRadiusSquared) {
+      escaped = true;
+      break;
+    }
+
+    const x2 = x.square();
+    const y2 = y.square();
+    const xy2 = x.mul(y).double();
+
+    switch (fractalType) {
+      case 'mandelbrot':
+        y = xy2.add(cImag);
+        x = x2.sub(y2).add(cReal);
+        break;
+      case 'burning-ship':
+        y = xy2.abs().add(cImag);
+        x = x2.sub(y2).add(cReal);
+        break;
+      case 'tricorn':
+        y = xy2.neg().add(cImag);
+        x = x2.sub(y2).add(cReal);
+        break;
+      case 'celtic':
+        y = xy2.add(cImag);
+        x = x2.sub(y2).abs().add(cReal);
+        break;
+    }
+  }
+
+  return {
+    fractalType,
+    center,
+    maxIterations,
+    precisionBits,
+    points,
+    length,
+    escaped
+  };
+}
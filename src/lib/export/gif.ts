@@ -0,0 +1,202 @@
+// Animated GIF encoder with a median-cut palette per frame
+const MAX_CODE_SIZE = 12;
+
+/**
+ * Reduce RGBA pixels to at most `maxColors` colors by median cut over a
+ * 15-bit color histogram. Returns the RGB palette and an index per pixel.
+ */
+export function quantize(pixels: Uint8Array | Uint8ClampedArray, maxColors: number = 256): { palette: Uint8Array; indices: Uint8Array } {
+  const pixelCount = pixels.length / 4;
+  const bins = new Uint16Array(pixelCount);
+  const counts = new Uint32Array(32768);
+  for (let i = 0; i < pixelCount; i++) {
+    const bin = ((pixels[i * 4] >> 3) << 10) | ((pixels[i * 4 + 1] >> 3) << 5) | (pixels[i * 4 + 2] >> 3);
+    bins[i] = bin;
+    counts[bin]++;
+  }
+
+  const used: number[] = [];
+  counts.forEach((count, bin) => {
+    if (count > 0) used.push(bin);
+  });
+
+  const channel = (bin: number, c: number) => (bin >> (10 - c * 5)) & 31;
+  const boxes: number[][] = [used];
+
+  // Split the most populated box along its widest channel until there are enough
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, k) => {
+      const population = box.reduce((total, bin) => total + counts[bin], 0);
+      if (box.length > 1 && population > best) {
+        best = population;
+        target = k;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const ranges = [0, 1, 2].map(c => {
+      let min = 31;
+      let max = 0;
+      for (const bin of box) {
+        min = Math.min(min, channel(bin, c));
+        max = Math.max(max, channel(bin, c));
+      }
+      return max - min;
+    });
+    const c = ranges.indexOf(Math.max(...ranges));
+    box.sort((a, b) => channel(a, c) - channel(b, c));
+
+    // Weighted median, keeping at least one bin on each side
+    let half = 0;
+    let split = 1;
+    for (; split < box.length - 1; split++) {
+      half += counts[box[split - 1]];
+      if (half * 2 >= best) break;
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette = new Uint8Array(maxColors * 3);
+  const binIndex = new Uint8Array(32768);
+  boxes.forEach((box, k) => {
+    const sums = [0, 0, 0];
+    let total = 0;
+    for (const bin of box) {
+      binIndex[bin] = k;
+      total += counts[bin];
+      for (let c = 0; c < 3; c++) sums[c] += ((channel(bin, c) << 3) | 4) * counts[bin];
+    }
+    for (let c = 0; c < 3; c++) palette[k * 3 + c] = Math.round(sums[c] / total);
+  });
+
+  const indices = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    indices[i] = binIndex[bins[i]];
+  }
+  return { palette, indices };
+}
+
+/**
+ * GIF variant of LZW: variable code sizes packed least significant bit first
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number = 8): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bufferBits > 0) output.push(buffer & 0xff);
+    return new Uint8Array(output);
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      // The decoder widens its codes one code later than the encoder adds them
+      if (nextCode === 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    } else {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = indices[i];
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) output.push(buffer & 0xff);
+  return new Uint8Array(output);
+}
+
+/**
+ * Writes a looping animated GIF a frame at a time
+ */
+export class GifWriter {
+  private parts: Uint8Array[] = [];
+
+  /**
+   * @param delay Centiseconds each frame is shown
+   */
+  constructor(private width: number, private height: number, private delay: number) {
+    const header = new Uint8Array(13);
+    header.set([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+    this.setShort(header, 6, width);
+    this.setShort(header, 8, height);
+    // No global color table; each frame carries its own
+    this.parts.push(header);
+
+    // NETSCAPE2.0 extension: loop forever
+    this.parts.push(new Uint8Array([
+      0x21, 0xff, 0x0b, 0x4e, 0x45, 0x54, 0x53, 0x43, 0x41, 0x50, 0x45, 0x32, 0x2e, 0x30,
+      0x03, 0x01, 0x00, 0x00, 0x00
+    ]));
+  }
+
+  addFrame(pixels: Uint8Array | Uint8ClampedArray): void {
+    const { palette, indices } = quantize(pixels);
+
+    const control = new Uint8Array([0x21, 0xf9, 0x04, 0x00, 0, 0, 0x00, 0x00]);
+    this.setShort(control, 4, this.delay);
+
+    const descriptor = new Uint8Array(10);
+    descriptor[0] = 0x2c;
+    this.setShort(descriptor, 5, this.width);
+    this.setShort(descriptor, 7, this.height);
+    descriptor[9] = 0x87; // Local color table of 256 entries
+
+    this.parts.push(control, descriptor, palette, new Uint8Array([8]), this.toSubBlocks(lzwEncode(indices)));
+  }
+
+  finish(): Blob {
+    return new Blob([...this.parts, new Uint8Array([0x3b])] as BlobPart[], { type: 'image/gif' });
+  }
+
+  private setShort(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = value & 0xff;
+    bytes[offset + 1] = (value >> 8) & 0xff;
+  }
+
+  // Data sub-blocks of up to 255 bytes, ended by an empty block
+  private toSubBlocks(data: Uint8Array): Uint8Array {
+    const blocks = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+    let offset = 0;
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      blocks[offset++] = block.length;
+      blocks.set(block, offset);
+      offset += block.length;
+    }
+    blocks[offset] = 0;
+    return blocks;
+  }
+}
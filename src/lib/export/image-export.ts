@@ -0,0 +1,111 @@
+// Sizes, tiling and metadata for image exports
+import { ExportSettings, FractalParams, RenderTile, ViewportState } from '@/types/fractal';
+import { translateCenter } from '../deep-zoom/perturbation';
+
+// PNG keyword of the JSON parameter set embedded in exported images
+export const PARAMS_KEYWORD = 'FractalParams';
+
+export const MAX_EXPORT_SIZE = 32768;
+
+// Tiles stay well under MAX_TEXTURE_SIZE so one draw never stalls the GPU for long
+export const MAX_EXPORT_TILE_SIZE = 1024;
+
+export const SUPERSAMPLING_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+export const EXPORT_SIZES: { label: string; width: number; height: number }[] = [
+  { label: 'Full HD', width: 1920, height: 1080 },
+  { label: '4K UHD', width: 3840, height: 2160 },
+  { label: '8K UHD', width: 7680, height: 4320 },
+  { label: '16K', width: 15360, height: 8640 },
+  { label: 'A2 poster, 300 dpi', width: 4961, height: 7016 },
+  { label: 'A1 poster, 300 dpi', width: 7016, height: 9933 },
+  { label: '24 × 36 in poster, 300 dpi', width: 7200, height: 10800 }
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  width: 3840,
+  height: 2160,
+  supersampling: 2
+};
+
+export function validateExportSettings(settings: Partial<ExportSettings>): ExportSettings {
+  const size = (value: number | undefined, fallback: number) =>
+    Number.isFinite(value) ? Math.max(1, Math.min(MAX_EXPORT_SIZE, Math.round(value!))) : fallback;
+  const supersampling = settings.supersampling ?? DEFAULT_EXPORT_SETTINGS.supersampling;
+
+  return {
+    width: size(settings.width, DEFAULT_EXPORT_SETTINGS.width),
+    height: size(settings.height, DEFAULT_EXPORT_SETTINGS.height),
+    supersampling: SUPERSAMPLING_OPTIONS.includes(supersampling) ? supersampling : 1
+  };
+}
+
+/**
+ * Stratified jitter: one random sub-pixel offset inside each cell of an
+ * n × n grid, in pixels relative to the pixel center
+ */
+export function getJitterOffsets(n: number, random: () => number = Math.random): { x: number; y: number }[] {
+  if (n <= 1) return [{ x: 0, y: 0 }];
+
+  const offsets: { x: number; y: number }[] = [];
+  for (let j = 0; j < n; j++) {
+    for (let i = 0; i < n; i++) {
+      offsets.push({ x: (i + random()) / n - 0.5, y: (j + random()) / n - 0.5 });
+    }
+  }
+  return offsets;
+}
+
+/**
+ * The view that draws one tile of an image of the parameters' view, shifted by
+ * `jitter` pixels. The visible height of the whole image is 1/zoom, as on screen.
+ * Deep zoom tiles are placed in fixed point from the precise center.
+ */
+export function getTileView(
+  params: Pick<FractalParams, 'center' | 'preciseCenter' | 'zoom' | 'deepZoom'>,
+  imageWidth: number,
+  imageHeight: number,
+  tile: RenderTile,
+  jitter: { x: number; y: number } = { x: 0, y: 0 }
+): ViewportState {
+  const pixelSize = 1 / (params.zoom * imageHeight);
+  const x = tile.x + tile.width / 2 + jitter.x - imageWidth / 2;
+  const y = tile.y + tile.height / 2 + jitter.y - imageHeight / 2;
+
+  const { center, preciseCenter } = translateCenter(params, x * pixelSize, -y * pixelSize);
+
+  return {
+    center,
+    ...(preciseCenter ? { preciseCenter } : {}),
+    zoom: params.zoom * imageHeight / tile.height,
+    width: tile.width,
+    height: tile.height,
+    aspectRatio: tile.width / tile.height
+  };
+}
+
+/**
+ * Text chunks for an exported PNG
+ */
+export function createExportMetadata(params: FractalParams): Record<string, string> {
+  return {
+    Software: 'Fractal Studio',
+    [PARAMS_KEYWORD]: JSON.stringify(params)
+  };
+}
+
+/**
+ * The parameters embedded in a PNG's text chunks, or null when there are none.
+ * The result still has to go through validateFractalParams.
+ */
+export function readExportMetadata(text: Record<string, string>): Partial<FractalParams> | null {
+  const json = text[PARAMS_KEYWORD];
+  if (!json) return null;
+
+  try {
+    const params = JSON.parse(json);
+    return params && typeof params === 'object' && !Array.isArray(params) ? params : null;
+  } catch {
+    return null;
+  }
+}
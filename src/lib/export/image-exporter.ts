@@ -0,0 +1,111 @@
+// Offscreen tiled rendering of a view at any size into a PNG
+import { ExportSettings, FractalParams, RenderTile } from '@/types/fractal';
+import { FractalRenderer } from '../fractal-renderer';
+import {
+  MAX_EXPORT_TILE_SIZE,
+  createExportMetadata,
+  getJitterOffsets,
+  getTileView,
+  validateExportSettings
+} from './image-export';
+import { PngWriter } from './png';
+import { usesFrameStatistics } from '../coloring/color-mapping';
+
+export class ImageExporter {
+  private cancelled = false;
+
+  // Called after each tile with the number of tiles finished
+  onProgress?: (completed: number, total: number) => void;
+
+  /**
+   * Render the parameters at the requested size, a band of tiles at a time,
+   * and encode them with the parameters embedded. Deep zoom views are drawn
+   * by perturbation from one reference orbit at the view's center, each tile
+   * offset from it in fixed point.
+   */
+  async export(params: FractalParams, settings: ExportSettings): Promise<Blob> {
+    const { width, height, supersampling } = validateExportSettings(settings);
+    this.cancelled = false;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const renderer = new FractalRenderer(canvas, params);
+    const png = new PngWriter(width, height, createExportMetadata(params));
+
+    try {
+      await renderer.whenReady();
+
+      // Every tile and sample shares one moment of palette cycling and wobble
+      const time = renderer.getTime();
+      const tileSize = Math.min(MAX_EXPORT_TILE_SIZE, renderer.getMaxRenderSize());
+      const offsets = getJitterOffsets(supersampling);
+      const total = Math.ceil(width / tileSize) * Math.ceil(height / tileSize);
+      const band = new Uint8Array(width * tileSize * 4);
+      const samples = new Uint8Array(tileSize * tileSize * 4);
+      const sums = new Uint32Array(tileSize * tileSize * 4);
+      let completed = 0;
+
+      // Statistical color maps come from a preview of the whole image, not from each tile
+      if (usesFrameStatistics(params.colorMapping)) {
+        const scale = Math.min(1, tileSize / Math.max(width, height));
+        const previewWidth = Math.max(1, Math.round(width * scale));
+        const previewHeight = Math.max(1, Math.round(height * scale));
+        renderer.renderView(
+          getTileView(params, previewWidth, previewHeight, { x: 0, y: 0, width: previewWidth, height: previewHeight }),
+          samples,
+          time
+        );
+        renderer.lockColorMap(true);
+      }
+
+      for (let y = 0; y < height; y += tileSize) {
+        const bandHeight = Math.min(tileSize, height - y);
+
+        for (let x = 0; x < width; x += tileSize) {
+          const tile: RenderTile = { x, y, width: Math.min(tileSize, width - x), height: bandHeight };
+          const pixelCount = tile.width * tile.height * 4;
+
+          sums.fill(0, 0, pixelCount);
+          for (const offset of offsets) {
+            renderer.renderView(getTileView(params, width, height, tile, offset), samples, time);
+            for (let i = 0; i < pixelCount; i++) {
+              sums[i] += samples[i];
+            }
+          }
+          this.copyToBand(sums, offsets.length, tile, band, width);
+
+          this.onProgress?.(++completed, total);
+          // Let the page update between tiles
+          await new Promise(resolve => setTimeout(resolve, 0));
+          if (this.cancelled) throw new Error('Export cancelled');
+        }
+
+        await png.writeRows(band, bandHeight);
+      }
+
+      return await png.finish();
+    } catch (error) {
+      png.abort();
+      throw error;
+    } finally {
+      renderer.destroy();
+    }
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  // Average the samples of a tile into its place in the band, flipping the
+  // bottom-up rows read back from WebGL
+  private copyToBand(sums: Uint32Array, count: number, tile: RenderTile, band: Uint8Array, bandWidth: number): void {
+    for (let row = 0; row < tile.height; row++) {
+      const source = (tile.height - 1 - row) * tile.width * 4;
+      const target = (row * bandWidth + tile.x) * 4;
+      for (let i = 0; i < tile.width * 4; i++) {
+        band[target + i] = Math.round(sums[source + i] / count);
+      }
+    }
+  }
+}
@@ -0,0 +1,181 @@
+// Streaming PNG encoder with text metadata chunks
+const SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// PNG row filter 1: each byte minus the byte one pixel to its left
+const FILTER_SUB = 1;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array, crc: number = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+/**
+ * A chunk with its length, type and CRC
+ */
+export function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let k = 0; k < 4; k++) {
+    chunk[4 + k] = type.charCodeAt(k);
+  }
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+/**
+ * An uncompressed iTXt chunk, which holds UTF-8 text under a Latin-1 keyword
+ */
+export function createTextChunk(keyword: string, text: string): Uint8Array {
+  const encoder = new TextEncoder();
+  const key = encoder.encode(keyword);
+  const value = encoder.encode(text);
+  // keyword, NUL, compression flag and method, empty language tag and translated keyword
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key);
+  data.set(value, key.length + 5);
+  return createChunk('iTXt', data);
+}
+
+/**
+ * The text of every tEXt and uncompressed iTXt chunk in a PNG, by keyword
+ */
+export function readPngText(png: Uint8Array): Record<string, string> {
+  if (png.length < SIGNATURE.length || SIGNATURE.some((byte, k) => png[k] !== byte)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const latin1 = new TextDecoder('latin1');
+  const utf8 = new TextDecoder();
+  const text: Record<string, string> = {};
+
+  for (let offset = SIGNATURE.length; offset + 8 <= png.length;) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IEND') break;
+    if (type !== 'tEXt' && type !== 'iTXt') continue;
+
+    const keyEnd = data.indexOf(0);
+    if (keyEnd < 0) continue;
+    const keyword = latin1.decode(data.subarray(0, keyEnd));
+
+    if (type === 'tEXt') {
+      text[keyword] = latin1.decode(data.subarray(keyEnd + 1));
+    } else if (data[keyEnd + 1] === 0) {
+      // Skip the compression bytes, language tag and translated keyword
+      const languageEnd = data.indexOf(0, keyEnd + 3);
+      const translatedEnd = data.indexOf(0, languageEnd + 1);
+      if (languageEnd >= 0 && translatedEnd >= 0) {
+        text[keyword] = utf8.decode(data.subarray(translatedEnd + 1));
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Sub-filter RGBA rows into `output`, which holds a filter byte before each row
+ */
+export function filterRows(pixels: Uint8Array, width: number, rows: number, output: Uint8Array): void {
+  const stride = width * 4;
+  for (let y = 0; y < rows; y++) {
+    const source = y * stride;
+    const target = y * (stride + 1);
+    output[target] = FILTER_SUB;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? pixels[source + x - 4] : 0;
+      output[target + 1 + x] = (pixels[source + x] - left) & 0xff;
+    }
+  }
+}
+
+/**
+ * Writes an 8-bit RGBA PNG from top to bottom a band of rows at a time, so the
+ * whole image never has to be held uncompressed
+ */
+export class PngWriter {
+  private writer: WritableStreamDefaultWriter<BufferSource>;
+  private compressed: Promise<Uint8Array[]>;
+  private rowsWritten = 0;
+
+  constructor(private width: number, private height: number, private text: Record<string, string> = {}) {
+    const stream = new CompressionStream('deflate');
+    this.writer = stream.writable.getWriter();
+    this.compressed = this.collect(stream.readable.getReader());
+  }
+
+  /**
+   * Append `rows` rows of RGBA pixels
+   */
+  async writeRows(pixels: Uint8Array, rows: number): Promise<void> {
+    if (this.rowsWritten + rows > this.height) {
+      throw new Error(`PNG has ${this.height} rows, cannot write ${this.rowsWritten + rows}`);
+    }
+
+    const filtered = new Uint8Array(rows * (this.width * 4 + 1));
+    filterRows(pixels, this.width, rows, filtered);
+    await this.writer.ready;
+    await this.writer.write(filtered);
+    this.rowsWritten += rows;
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.rowsWritten !== this.height) {
+      throw new Error(`PNG has ${this.height} rows, only ${this.rowsWritten} were written`);
+    }
+    await this.writer.close();
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, this.width);
+    view.setUint32(4, this.height);
+    header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, deflate, adaptive filtering, no interlace
+
+    const parts: Uint8Array[] = [SIGNATURE, createChunk('IHDR', header)];
+    for (const [keyword, value] of Object.entries(this.text)) {
+      parts.push(createTextChunk(keyword, value));
+    }
+    // Consecutive IDAT chunks concatenate into one zlib stream
+    for (const data of await this.compressed) {
+      parts.push(createChunk('IDAT', data));
+    }
+    parts.push(createChunk('IEND', new Uint8Array(0)));
+
+    return new Blob(parts as BlobPart[], { type: 'image/png' });
+  }
+
+  abort(): void {
+    this.writer.abort().catch(() => undefined);
+    this.compressed.catch(() => undefined);
+  }
+
+  private async collect(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<Uint8Array[]> {
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return chunks;
+      chunks.push(value);
+    }
+  }
+}
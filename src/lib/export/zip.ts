@@ -0,0 +1,81 @@
+// Uncompressed ZIP archives, for sequences of already compressed images
+import { crc32 } from './png';
+
+// 1980-01-01 00:00 in MS-DOS format, so the same files always give the same archive
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export class ZipWriter {
+  private parts: Uint8Array[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+
+  addFile(name: string, data: Uint8Array): void {
+    const entry: ZipEntry = { name: new TextEncoder().encode(name), crc: crc32(data), size: data.length, offset: this.offset };
+    if (this.offset + data.length + 30 + entry.name.length > 0xffffffff) {
+      throw new Error('ZIP archives are limited to 4 GB');
+    }
+
+    const header = new Uint8Array(30 + entry.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true); // Version needed
+    view.setUint16(6, 0x0800, true); // UTF-8 names
+    view.setUint16(8, 0, true); // Stored
+    this.setEntryFields(view, 10, entry);
+    view.setUint16(26, entry.name.length, true);
+    header.set(entry.name, 30);
+
+    this.parts.push(header, data);
+    this.entries.push(entry);
+    this.offset += header.length + data.length;
+  }
+
+  finish(): Blob {
+    const directoryOffset = this.offset;
+    let directorySize = 0;
+
+    for (const entry of this.entries) {
+      const record = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true); // Version made by
+      view.setUint16(6, 20, true); // Version needed
+      view.setUint16(8, 0x0800, true);
+      view.setUint16(10, 0, true);
+      this.setEntryFields(view, 12, entry);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint32(42, entry.offset, true);
+      record.set(entry.name, 46);
+
+      this.parts.push(record);
+      directorySize += record.length;
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, this.entries.length, true);
+    view.setUint16(10, this.entries.length, true);
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, directoryOffset, true);
+
+    return new Blob([...this.parts, end] as BlobPart[], { type: 'application/zip' });
+  }
+
+  // Time, date, CRC and sizes, laid out alike in local and central headers
+  private setEntryFields(view: DataView, offset: number, entry: ZipEntry): void {
+    view.setUint16(offset, DOS_TIME, true);
+    view.setUint16(offset + 2, DOS_DATE, true);
+    view.setUint32(offset + 4, entry.crc, true);
+    view.setUint32(offset + 8, entry.size, true);
+    view.setUint32(offset + 12, entry.size, true);
+  }
+}
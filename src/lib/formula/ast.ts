@@ -0,0 +1,88 @@
+// Syntax tree and diagnostics for user-defined fractal formulas
+import { FormulaField } from '@/types/fractal';
+
+export interface SourceLocation {
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
+export interface FormulaDiagnostic {
+  message: string;
+  field?: FormulaField;
+  location?: SourceLocation;
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+export type ComparisonOperator = '<' | '>' | '<=' | '>=' | '==' | '!=';
+export type LogicalOperator = '&&' | '||';
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number; location: SourceLocation }
+  | { kind: 'variable'; name: string; location: SourceLocation }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; location: SourceLocation }
+  | { kind: 'unary'; operator: '-' | '!'; operand: ExpressionNode; location: SourceLocation }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; location: SourceLocation }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: ExpressionNode; right: ExpressionNode; location: SourceLocation }
+  | { kind: 'logical'; operator: LogicalOperator; left: ExpressionNode; right: ExpressionNode; location: SourceLocation };
+
+export interface AssignmentNode {
+  target: string;
+  value: ExpressionNode;
+  location: SourceLocation;
+}
+
+export interface FormulaProgram {
+  init: AssignmentNode[];
+  iterate: AssignmentNode[];
+  bailout: ExpressionNode | null; // null: |z| > escapeRadius with smooth coloring
+  variables: string[];            // Every variable the program assigns
+}
+
+// Complex-valued functions available in formulas and their arity
+export const FORMULA_FUNCTIONS: Record<string, number> = {
+  sin: 1,
+  cos: 1,
+  tan: 1,
+  sinh: 1,
+  cosh: 1,
+  tanh: 1,
+  exp: 1,
+  log: 1,
+  sqrt: 1,
+  abs: 1,  // Modulus |z| as a real number
+  norm: 1, // Squared modulus
+  arg: 1,
+  conj: 1,
+  re: 1,
+  im: 1,
+  pow: 2
+};
+
+// Names with a fixed meaning that formulas cannot assign
+export const FORMULA_CONSTANTS = ['i', 'pi', 'pixel', 'escapeRadius'];
+
+// Largest literal integer exponent expanded into repeated multiplication
+export const MAX_INTEGER_EXPONENT = 64;
+
+/**
+ * The exponent as an integer when it is a small integer literal such as 3 or -2;
+ * both compilers expand those into multiplications so the GPU and CPU agree
+ */
+export function getIntegerExponent(node: ExpressionNode): number | null {
+  const negated = node.kind === 'unary' && node.operator === '-';
+  const literal = negated ? node.operand : node;
+  if (literal.kind !== 'number' || !Number.isInteger(literal.value) || literal.value > MAX_INTEGER_EXPONENT) {
+    return null;
+  }
+  return negated ? -literal.value : literal.value;
+}
+
+/**
+ * Thrown by the parser and compilers; collected into FormulaDiagnostics
+ */
+export class FormulaSyntaxError extends Error {
+  constructor(message: string, readonly location: SourceLocation) {
+    super(message);
+    this.name = 'FormulaSyntaxError';
+  }
+}
@@ -0,0 +1,43 @@
+// Formula source → shader snippets and CPU iteration
+import { FormulaSource } from '@/types/fractal';
+import { FractalShader } from '../fractals/base';
+import { FormulaDiagnostic } from './ast';
+import { compileFormulaToGLSL } from './glsl';
+import { CompiledFormula, compileFormulaToJS } from './javascript';
+import { parseFormula } from './parser';
+
+export interface FormulaCompilationResult {
+  success: boolean;
+  shader: FractalShader | null;
+  javascript: CompiledFormula | null;
+  errors: FormulaDiagnostic[];
+}
+
+/**
+ * Parse a formula and compile it for both the GPU and the CPU path
+ */
+export function compileFormula(source: FormulaSource): FormulaCompilationResult {
+  const { program, diagnostics } = parseFormula(source);
+  if (!program) {
+    return { success: false, shader: null, javascript: null, errors: diagnostics };
+  }
+
+  return {
+    success: true,
+    shader: compileFormulaToGLSL(program),
+    javascript: compileFormulaToJS(program),
+    errors: []
+  };
+}
+
+/**
+ * Format a diagnostic as "field:line:column: message"
+ */
+export function formatDiagnostic(diagnostic: FormulaDiagnostic): string {
+  const position = [
+    diagnostic.field,
+    diagnostic.location && `${diagnostic.location.line}:${diagnostic.location.column}`
+  ].filter(Boolean).join(':');
+
+  return position ? `${position}: ${diagnostic.message}` : diagnostic.message;
+}
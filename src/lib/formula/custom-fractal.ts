@@ -0,0 +1,85 @@
+// User-defined formulas registered as fractal types
+import { FormulaSource, FractalType } from '@/types/fractal';
+import { BaseFractal, FractalDefinition } from '../fractals/base';
+import FractalLoader from '../fractals/loader';
+import { refreshFractalPresets } from '../fractal-presets-modular';
+import { FormulaDiagnostic } from './ast';
+import { compileFormula } from './compiler';
+
+export interface CustomFormulaRegistration {
+  success: boolean;
+  fractalType: FractalType | null;
+  errors: FormulaDiagnostic[];
+}
+
+const customFormulas = new Map<FractalType, FormulaSource>();
+
+export class CustomFormulaFractal extends BaseFractal {
+  constructor(readonly definition: FractalDefinition) {
+    super();
+  }
+}
+
+/**
+ * Fractal type for a formula name, e.g. "My Cubic" → "custom-my-cubic"
+ */
+export function getCustomFractalType(name: string): FractalType {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `custom-${slug}`;
+}
+
+/**
+ * Compile a formula and register it with the FractalLoader so it shows up
+ * in presets like a built-in fractal. Re-registering a name replaces it.
+ */
+export function registerCustomFormula(source: FormulaSource): CustomFormulaRegistration {
+  const fractalType = getCustomFractalType(source.name);
+  if (fractalType === 'custom-') {
+    return { success: false, fractalType: null, errors: [{ message: 'The formula needs a name' }] };
+  }
+
+  const compiled = compileFormula(source);
+  if (!compiled.success) {
+    return { success: false, fractalType: null, errors: compiled.errors };
+  }
+
+  const definition: FractalDefinition = {
+    id: fractalType,
+    name: source.name.trim(),
+    description: `Custom formula: ${source.iterate.trim().replace(/\s*\n\s*/g, '; ')}`,
+    formula: compiled.javascript!.formula,
+    shader: compiled.shader!,
+    defaultParams: {
+      fractalType,
+      escapeRadius: 2,
+      maxIterations: 100,
+      center: { real: 0, imag: 0 },
+      zoom: 0.5,
+      colorPalette: 'viridis',
+      precision: 'highp'
+    }
+  };
+
+  FractalLoader.register(fractalType, () => new CustomFormulaFractal(definition));
+  customFormulas.set(fractalType, { ...source });
+  refreshFractalPresets();
+
+  return { success: true, fractalType, errors: [] };
+}
+
+/**
+ * Remove a registered custom formula
+ */
+export function unregisterCustomFormula(fractalType: FractalType): void {
+  if (!customFormulas.delete(fractalType)) return;
+
+  FractalLoader.unregister(fractalType);
+  refreshFractalPresets();
+}
+
+/**
+ * Source of a registered custom formula, e.g. to send it to the CPU worker
+ */
+export function getCustomFormula(fractalType: FractalType): FormulaSource | undefined {
+  return customFormulas.get(fractalType);
+}
@@ -0,0 +1,161 @@
+// Formula program → GLSL shader snippets
+import { FormulaField } from '@/types/fractal';
+import { FractalShader } from '../fractals/base';
+import { glslFloat } from '../webgl/shader-builder';
+import {
+  AssignmentNode,
+  ExpressionNode,
+  FormulaDiagnostic,
+  FormulaProgram,
+  SourceLocation,
+  getIntegerExponent
+} from './ast';
+
+const CONSTANTS: Record<string, string> = {
+  i: 'vec2(0.0, 1.0)',
+  pi: 'vec2(3.14159265, 0.0)',
+  pixel: 'coord',
+  escapeRadius: 'vec2(u_escapeRadius, 0.0)'
+};
+
+const FUNCTIONS: Record<string, (args: string[]) => string> = {
+  sin: ([a]) => `complexSin(${a})`,
+  cos: ([a]) => `complexCos(${a})`,
+  tan: ([a]) => `complexTan(${a})`,
+  sinh: ([a]) => `complexSinh(${a})`,
+  cosh: ([a]) => `complexCosh(${a})`,
+  tanh: ([a]) => `complexTanh(${a})`,
+  exp: ([a]) => `complexExp(${a})`,
+  log: ([a]) => `complexLog(${a})`,
+  sqrt: ([a]) => `complexSqrt(${a})`,
+  abs: ([a]) => `vec2(length(${a}), 0.0)`,
+  norm: ([a]) => `vec2(dot(${a}, ${a}), 0.0)`,
+  arg: ([a]) => `vec2(atan((${a}).y, (${a}).x), 0.0)`,
+  conj: ([a]) => `vec2((${a}).x, -(${a}).y)`,
+  re: ([a]) => `vec2((${a}).x, 0.0)`,
+  im: ([a]) => `vec2((${a}).y, 0.0)`,
+  pow: ([a, b]) => `complexPowComplex(${a}, ${b})`
+};
+
+// Keeps formula variables clear of GLSL keywords and the builder's own names
+function variableName(name: string): string {
+  return name === 'z' || name === 'c' ? name : `f_${name}`;
+}
+
+function compilePower(base: ExpressionNode, exponent: ExpressionNode): string {
+  const left = compileExpression(base);
+  const integer = getIntegerExponent(exponent);
+  if (integer !== null) {
+    const n = Math.abs(integer);
+    const power = n === 2 ? `complexSquare(${left})` : `complexPow(${left}, ${n})`;
+    return integer < 0 ? `complexDiv(vec2(1.0, 0.0), ${power})` : power;
+  }
+  return `complexPowComplex(${left}, ${compileExpression(exponent)})`;
+}
+
+function compileExpression(node: ExpressionNode): string {
+  switch (node.kind) {
+    case 'number':
+      return `vec2(${glslFloat(node.value)}, 0.0)`;
+
+    case 'variable':
+      return CONSTANTS[node.name] || variableName(node.name);
+
+    case 'call':
+      if (node.name === 'pow') {
+        return compilePower(node.args[0], node.args[1]);
+      }
+      return FUNCTIONS[node.name](node.args.map(compileExpression));
+
+    case 'unary':
+      return `(${node.operator}${compileExpression(node.operand)})`;
+
+    case 'binary': {
+      if (node.operator === '^') {
+        return compilePower(node.left, node.right);
+      }
+      const left = compileExpression(node.left);
+      const right = compileExpression(node.right);
+      if (node.operator === '*') return `complexMul(${left}, ${right})`;
+      if (node.operator === '/') return `complexDiv(${left}, ${right})`;
+      return `(${left} ${node.operator} ${right})`;
+    }
+
+    case 'comparison': {
+      const left = compileExpression(node.left);
+      const right = compileExpression(node.right);
+      // Equality compares both parts; ordering compares real parts
+      if (node.operator === '==' || node.operator === '!=') {
+        return `(${left} ${node.operator} ${right})`;
+      }
+      return `((${left}).x ${node.operator} (${right}).x)`;
+    }
+
+    case 'logical':
+      return `(${compileExpression(node.left)} ${node.operator} ${compileExpression(node.right)})`;
+  }
+}
+
+// Tags generated code with its origin so compile errors can be mapped back
+function marker(field: FormulaField, location: SourceLocation): string {
+  return `/* formula:${field}:${location.line}:${location.column} */`;
+}
+
+function compileStatements(field: FormulaField, statements: AssignmentNode[]): string[] {
+  return statements.map(statement =>
+    `${variableName(statement.target)} = ${compileExpression(statement.value)}; ${marker(field, statement.location)}`
+  );
+}
+
+/**
+ * Compile a checked formula program into shader snippets for the shader builder
+ */
+export function compileFormulaToGLSL(program: FormulaProgram): FractalShader {
+  const variables = program.variables.filter(name => name !== 'z' && name !== 'c');
+  const declarations = variables.map(name => `vec2 ${variableName(name)} = vec2(0.0);`);
+
+  return {
+    init: [
+      'vec2 z = vec2(0.0);',
+      'vec2 c = coord;',
+      ...declarations,
+      ...compileStatements('init', program.init)
+    ].join('\n'),
+    carry: variables.map(variableName),
+    step: compileStatements('iterate', program.iterate).join('\n'),
+    bailout: program.bailout
+      ? `${compileExpression(program.bailout)} ${marker('bailout', program.bailout.location)}`
+      : undefined
+  };
+}
+
+/**
+ * Map shader info log errors ("ERROR: 0:LINE: message") back to the formula
+ * statements on those lines. Errors outside formula code keep no location.
+ */
+export function mapShaderErrors(shaderSource: string, errors: string[]): FormulaDiagnostic[] {
+  const lines = shaderSource.split('\n');
+
+  return errors
+    .flatMap(error => error.split('\n'))
+    .map(line => line.trim())
+    .filter(line => line && !/^Failed to/.test(line))
+    .map(line => {
+      const match = /^ERROR:\s*\d+:(\d+):\s*(.*)$/.exec(line);
+      if (!match) {
+        return { message: line };
+      }
+
+      const message = match[2];
+      const tag = /\/\* formula:(\w+):(\d+):(\d+) \*\//.exec(lines[parseInt(match[1], 10) - 1] || '');
+      if (!tag) {
+        return { message };
+      }
+
+      return {
+        message,
+        field: tag[1] as FormulaField,
+        location: { line: parseInt(tag[2], 10), column: parseInt(tag[3], 10) }
+      };
+    });
+}
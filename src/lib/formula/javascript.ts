@@ -0,0 +1,277 @@
+// Formula program → JavaScript iteration for the CPU path
+import { Complex } from '@/types/fractal';
+import { AssignmentNode, ExpressionNode, FormulaProgram, getIntegerExponent } from './ast';
+
+interface Scope {
+  values: Complex[]; // Indexed like program.variables
+  pixel: Complex;
+  escapeRadius: number;
+}
+
+type ComplexFn = (scope: Scope) => Complex;
+type BooleanFn = (scope: Scope) => boolean;
+
+export interface CompiledFormula {
+  // One iteration from z with parameter c, after running init for pixel c
+  formula: (z: Complex, c?: Complex) => Complex;
+  // Escape-time iteration matching the generated shader
+  iterate: (pixel: Complex, maxIterations: number, escapeRadius: number) => number;
+}
+
+const real = (value: number): Complex => ({ real: value, imag: 0 });
+
+const mul = (a: Complex, b: Complex): Complex => ({
+  real: a.real * b.real - a.imag * b.imag,
+  imag: a.real * b.imag + a.imag * b.real
+});
+
+const div = (a: Complex, b: Complex): Complex => {
+  const denom = b.real * b.real + b.imag * b.imag;
+  return {
+    real: (a.real * b.real + a.imag * b.imag) / denom,
+    imag: (a.imag * b.real - a.real * b.imag) / denom
+  };
+};
+
+const exp = (z: Complex): Complex => {
+  const scale = Math.exp(z.real);
+  return { real: scale * Math.cos(z.imag), imag: scale * Math.sin(z.imag) };
+};
+
+const log = (z: Complex): Complex => ({
+  real: Math.log(Math.hypot(z.real, z.imag)),
+  imag: Math.atan2(z.imag, z.real)
+});
+
+const sin = (z: Complex): Complex => ({
+  real: Math.sin(z.real) * Math.cosh(z.imag),
+  imag: Math.cos(z.real) * Math.sinh(z.imag)
+});
+
+const cos = (z: Complex): Complex => ({
+  real: Math.cos(z.real) * Math.cosh(z.imag),
+  imag: -Math.sin(z.real) * Math.sinh(z.imag)
+});
+
+const sinh = (z: Complex): Complex => ({
+  real: Math.sinh(z.real) * Math.cos(z.imag),
+  imag: Math.cosh(z.real) * Math.sin(z.imag)
+});
+
+const cosh = (z: Complex): Complex => ({
+  real: Math.cosh(z.real) * Math.cos(z.imag),
+  imag: Math.sinh(z.real) * Math.sin(z.imag)
+});
+
+const sqrt = (z: Complex): Complex => {
+  const r = Math.hypot(z.real, z.imag);
+  const im = Math.sqrt(Math.max(0.5 * (r - z.real), 0));
+  return { real: Math.sqrt(Math.max(0.5 * (r + z.real), 0)), imag: z.imag < 0 ? -im : im };
+};
+
+const powInt = (z: Complex, n: number): Complex => {
+  let result = real(1);
+  for (let i = 0; i < Math.abs(n); i++) {
+    result = mul(result, z);
+  }
+  return n < 0 ? div(real(1), result) : result;
+};
+
+const powComplex = (z: Complex, w: Complex): Complex =>
+  z.real === 0 && z.imag === 0 ? real(0) : exp(mul(w, log(z)));
+
+const FUNCTIONS: Record<string, (...args: Complex[]) => Complex> = {
+  sin,
+  cos,
+  tan: z => div(sin(z), cos(z)),
+  sinh,
+  cosh,
+  tanh: z => div(sinh(z), cosh(z)),
+  exp,
+  log,
+  sqrt,
+  abs: z => real(Math.hypot(z.real, z.imag)),
+  norm: z => real(z.real * z.real + z.imag * z.imag),
+  arg: z => real(Math.atan2(z.imag, z.real)),
+  conj: z => ({ real: z.real, imag: -z.imag }),
+  re: z => real(z.real),
+  im: z => real(z.imag),
+  pow: powComplex
+};
+
+function compileComplex(node: ExpressionNode, slots: Map<string, number>): ComplexFn {
+  switch (node.kind) {
+    case 'number': {
+      const value = real(node.value);
+      return () => value;
+    }
+
+    case 'variable': {
+      switch (node.name) {
+        case 'i':
+          return () => ({ real: 0, imag: 1 });
+        case 'pi':
+          return () => real(Math.PI);
+        case 'pixel':
+          return scope => scope.pixel;
+        case 'escapeRadius':
+          return scope => real(scope.escapeRadius);
+      }
+      const slot = slots.get(node.name)!;
+      return scope => scope.values[slot];
+    }
+
+    case 'call': {
+      if (node.name === 'pow') {
+        return compilePower(node.args[0], node.args[1], slots);
+      }
+      const fn = FUNCTIONS[node.name];
+      const args = node.args.map(arg => compileComplex(arg, slots));
+      return scope => fn(...args.map(arg => arg(scope)));
+    }
+
+    case 'unary': {
+      const operand = compileComplex(node.operand, slots);
+      return scope => {
+        const value = operand(scope);
+        return { real: -value.real, imag: -value.imag };
+      };
+    }
+
+    case 'binary': {
+      if (node.operator === '^') {
+        return compilePower(node.left, node.right, slots);
+      }
+      const left = compileComplex(node.left, slots);
+      const right = compileComplex(node.right, slots);
+      switch (node.operator) {
+        case '+':
+          return scope => {
+            const a = left(scope);
+            const b = right(scope);
+            return { real: a.real + b.real, imag: a.imag + b.imag };
+          };
+        case '-':
+          return scope => {
+            const a = left(scope);
+            const b = right(scope);
+            return { real: a.real - b.real, imag: a.imag - b.imag };
+          };
+        case '*':
+          return scope => mul(left(scope), right(scope));
+        case '/':
+          return scope => div(left(scope), right(scope));
+      }
+    }
+  }
+
+  throw new Error(`Expected a complex expression, got ${node.kind}`);
+}
+
+function compilePower(base: ExpressionNode, exponent: ExpressionNode, slots: Map<string, number>): ComplexFn {
+  const left = compileComplex(base, slots);
+  const integer = getIntegerExponent(exponent);
+  if (integer !== null) {
+    return scope => powInt(left(scope), integer);
+  }
+  const right = compileComplex(exponent, slots);
+  return scope => powComplex(left(scope), right(scope));
+}
+
+function compileBoolean(node: ExpressionNode, slots: Map<string, number>): BooleanFn {
+  switch (node.kind) {
+    case 'unary': {
+      const operand = compileBoolean(node.operand, slots);
+      return scope => !operand(scope);
+    }
+
+    case 'logical': {
+      const left = compileBoolean(node.left, slots);
+      const right = compileBoolean(node.right, slots);
+      return node.operator === '&&'
+        ? scope => left(scope) && right(scope)
+        : scope => left(scope) || right(scope);
+    }
+
+    case 'comparison': {
+      const left = compileComplex(node.left, slots);
+      const right = compileComplex(node.right, slots);
+      const compare = {
+        '<': (a: Complex, b: Complex) => a.real < b.real,
+        '>': (a: Complex, b: Complex) => a.real > b.real,
+        '<=': (a: Complex, b: Complex) => a.real <= b.real,
+        '>=': (a: Complex, b: Complex) => a.real >= b.real,
+        '==': (a: Complex, b: Complex) => a.real === b.real && a.imag === b.imag,
+        '!=': (a: Complex, b: Complex) => a.real !== b.real || a.imag !== b.imag
+      }[node.operator];
+      return scope => compare(left(scope), right(scope));
+    }
+  }
+
+  throw new Error(`Expected a condition, got ${node.kind}`);
+}
+
+function compileStatements(statements: AssignmentNode[], slots: Map<string, number>): (scope: Scope) => void {
+  const compiled = statements.map(statement => ({
+    slot: slots.get(statement.target)!,
+    value: compileComplex(statement.value, slots)
+  }));
+
+  return scope => {
+    for (const { slot, value } of compiled) {
+      scope.values[slot] = value(scope);
+    }
+  };
+}
+
+/**
+ * Compile a checked formula program into closures (no eval, so it is safe in
+ * workers and under a strict content security policy)
+ */
+export function compileFormulaToJS(program: FormulaProgram): CompiledFormula {
+  const slots = new Map(program.variables.map((name, index) => [name, index] as [string, number]));
+  const zSlot = slots.get('z')!;
+  const cSlot = slots.get('c')!;
+
+  const init = compileStatements(program.init, slots);
+  const step = compileStatements(program.iterate, slots);
+  const bailout = program.bailout ? compileBoolean(program.bailout, slots) : null;
+
+  const start = (pixel: Complex, escapeRadius: number): Scope => {
+    const scope: Scope = { values: program.variables.map(() => real(0)), pixel, escapeRadius };
+    scope.values[cSlot] = pixel;
+    init(scope);
+    return scope;
+  };
+
+  return {
+    formula: (z, c = real(0)) => {
+      const scope = start(c, 2);
+      scope.values[zSlot] = z;
+      scope.values[cSlot] = c;
+      step(scope);
+      return scope.values[zSlot];
+    },
+
+    iterate: (pixel, maxIterations, escapeRadius) => {
+      const scope = start(pixel, escapeRadius);
+
+      for (let i = 0; i < maxIterations; i++) {
+        if (bailout) {
+          if (bailout(scope)) return i;
+        } else {
+          const z = scope.values[zSlot];
+          const magnitudeSquared = z.real * z.real + z.imag * z.imag;
+          if (magnitudeSquared > escapeRadius * escapeRadius) {
+            // Smooth iteration count, as in the shader
+            return i + 1 - Math.log2(Math.log2(magnitudeSquared) * 0.5);
+          }
+        }
+
+        step(scope);
+      }
+
+      return maxIterations;
+    }
+  };
+}
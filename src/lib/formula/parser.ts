@@ -0,0 +1,397 @@
+// Parser and checker for the formula language
+import { FormulaField, FormulaSource } from '@/types/fractal';
+import {
+  AssignmentNode,
+  ComparisonOperator,
+  ExpressionNode,
+  FORMULA_CONSTANTS,
+  FORMULA_FUNCTIONS,
+  FormulaDiagnostic,
+  FormulaProgram,
+  FormulaSyntaxError,
+  SourceLocation
+} from './ast';
+
+type TokenType = 'number' | 'identifier' | 'operator' | 'separator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  location: SourceLocation;
+}
+
+// Longest operators first so that "<=" wins over "<"
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '^', '(', ')', ',', '|', '<', '>', '=', '!'];
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['<', '>', '<=', '>=', '==', '!='];
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    const location = { line, column: index - lineStart + 1 };
+
+    if (char === '\n' || char === ';') {
+      tokens.push({ type: 'separator', value: char, location });
+      if (char === '\n') {
+        line++;
+        lineStart = index + 1;
+      }
+      index++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // Comments run to the end of the line
+    if (text.startsWith('//', index)) {
+      while (index < text.length && text[index] !== '\n') index++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], location });
+      index += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_]\w*/.exec(text.slice(index));
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0], location });
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => text.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, location });
+      index += operator.length;
+      continue;
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character '${char}'`, location);
+  }
+
+  tokens.push({ type: 'end', value: '', location: { line, column: index - lineStart + 1 } });
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseStatements(): AssignmentNode[] {
+    const statements: AssignmentNode[] = [];
+
+    while (!this.atEnd()) {
+      if (this.peek().type === 'separator') {
+        this.position++;
+        continue;
+      }
+
+      const target = this.expect('identifier', 'Expected a variable to assign');
+      this.expect('operator', "Expected '='", '=');
+      const value = this.parseExpression();
+      statements.push({ target: target.value, value, location: target.location });
+
+      if (!this.atEnd()) {
+        this.expect('separator', 'Expected a new line or ; after the statement');
+      }
+    }
+
+    return statements;
+  }
+
+  parseCondition(): ExpressionNode {
+    this.skipSeparators();
+    const condition = this.parseExpression();
+    this.skipSeparators();
+    if (!this.atEnd()) {
+      this.fail(`Unexpected '${this.peek().value}' after the condition`);
+    }
+    return condition;
+  }
+
+  private parseExpression(): ExpressionNode {
+    return this.parseOr();
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      const location = this.previous().location;
+      left = { kind: 'logical', operator: '||', left, right: this.parseAnd(), location };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseComparison();
+    while (this.matchOperator('&&')) {
+      const location = this.previous().location;
+      left = { kind: 'logical', operator: '&&', left, right: this.parseComparison(), location };
+    }
+    return left;
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const operator = COMPARISON_OPERATORS.find(op => this.matchOperator(op));
+    if (!operator) return left;
+
+    const location = this.previous().location;
+    return { kind: 'comparison', operator, left, right: this.parseAdditive(), location };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.matchOperator('+') || this.matchOperator('-')) {
+      const { value, location } = this.previous();
+      left = { kind: 'binary', operator: value as '+' | '-', left, right: this.parseMultiplicative(), location };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.matchOperator('*') || this.matchOperator('/')) {
+      const { value, location } = this.previous();
+      left = { kind: 'binary', operator: value as '*' | '/', left, right: this.parseUnary(), location };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-') || this.matchOperator('!')) {
+      const { value, location } = this.previous();
+      return { kind: 'unary', operator: value as '-' | '!', operand: this.parseUnary(), location };
+    }
+    if (this.matchOperator('+')) {
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  // Right-associative and binds tighter than unary minus: -z^2 = -(z^2)
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (!this.matchOperator('^')) return base;
+
+    const location = this.previous().location;
+    return { kind: 'binary', operator: '^', left: base, right: this.parseUnary(), location };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.position++;
+      return { kind: 'number', value: parseFloat(token.value), location: token.location };
+    }
+
+    if (token.type === 'identifier') {
+      this.position++;
+      if (!this.matchOperator('(')) {
+        return { kind: 'variable', name: token.value, location: token.location };
+      }
+
+      const args: ExpressionNode[] = [];
+      if (!this.matchOperator(')')) {
+        do {
+          args.push(this.parseExpression());
+        } while (this.matchOperator(','));
+        this.expect('operator', "Expected ')' after the arguments", ')');
+      }
+      return { kind: 'call', name: token.value, args, location: token.location };
+    }
+
+    if (this.matchOperator('(')) {
+      const expression = this.parseExpression();
+      this.expect('operator', "Expected ')'", ')');
+      return expression;
+    }
+
+    // |x| is the modulus
+    if (this.matchOperator('|')) {
+      const argument = this.parseExpression();
+      this.expect('operator', "Expected a closing '|'", '|');
+      return { kind: 'call', name: 'abs', args: [argument], location: token.location };
+    }
+
+    return this.fail(token.type === 'end' ? 'Unexpected end of formula' : `Unexpected '${token.value}'`);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.position - 1];
+  }
+
+  private atEnd(): boolean {
+    return this.peek().type === 'end';
+  }
+
+  private skipSeparators(): void {
+    while (this.peek().type === 'separator') this.position++;
+  }
+
+  private matchOperator(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: TokenType, message: string, value?: string): Token {
+    const token = this.peek();
+    if (token.type !== type || (value !== undefined && token.value !== value)) {
+      this.fail(message);
+    }
+    this.position++;
+    return token;
+  }
+
+  private fail(message: string): never {
+    throw new FormulaSyntaxError(message, this.peek().location);
+  }
+}
+
+type ValueType = 'complex' | 'boolean';
+
+// Check variable use, function arity and value types
+function checkExpression(node: ExpressionNode, variables: Set<string>): ValueType {
+  switch (node.kind) {
+    case 'number':
+      return 'complex';
+
+    case 'variable':
+      if (!variables.has(node.name) && !FORMULA_CONSTANTS.includes(node.name)) {
+        throw new FormulaSyntaxError(`Unknown variable '${node.name}'`, node.location);
+      }
+      return 'complex';
+
+    case 'call': {
+      const arity = FORMULA_FUNCTIONS[node.name];
+      if (arity === undefined) {
+        throw new FormulaSyntaxError(`Unknown function '${node.name}'`, node.location);
+      }
+      if (node.args.length !== arity) {
+        throw new FormulaSyntaxError(
+          `${node.name}() takes ${arity} argument${arity === 1 ? '' : 's'}, got ${node.args.length}`,
+          node.location
+        );
+      }
+      node.args.forEach(arg => expectType(arg, 'complex', variables));
+      return 'complex';
+    }
+
+    case 'unary':
+      expectType(node.operand, node.operator === '!' ? 'boolean' : 'complex', variables);
+      return node.operator === '!' ? 'boolean' : 'complex';
+
+    case 'binary':
+      expectType(node.left, 'complex', variables);
+      expectType(node.right, 'complex', variables);
+      return 'complex';
+
+    case 'comparison':
+      expectType(node.left, 'complex', variables);
+      expectType(node.right, 'complex', variables);
+      return 'boolean';
+
+    case 'logical':
+      expectType(node.left, 'boolean', variables);
+      expectType(node.right, 'boolean', variables);
+      return 'boolean';
+  }
+}
+
+function expectType(node: ExpressionNode, expected: ValueType, variables: Set<string>): void {
+  const actual = checkExpression(node, variables);
+  if (actual !== expected) {
+    throw new FormulaSyntaxError(
+      expected === 'boolean' ? 'Expected a condition' : 'Expected a number, not a condition',
+      node.location
+    );
+  }
+}
+
+function parseField<T>(field: FormulaField, parse: () => T, diagnostics: FormulaDiagnostic[]): T | null {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      diagnostics.push({ message: error.message, field, location: error.location });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse and check a formula. Either the program or at least one diagnostic is returned.
+ */
+export function parseFormula(source: FormulaSource): { program: FormulaProgram | null; diagnostics: FormulaDiagnostic[] } {
+  const diagnostics: FormulaDiagnostic[] = [];
+
+  const init = parseField('init', () => new Parser(tokenize(source.init || '')).parseStatements(), diagnostics);
+  const iterate = parseField('iterate', () => new Parser(tokenize(source.iterate)).parseStatements(), diagnostics);
+  const bailout = source.bailout && source.bailout.trim()
+    ? parseField('bailout', () => new Parser(tokenize(source.bailout!)).parseCondition(), diagnostics)
+    : null;
+
+  if (!init || !iterate || diagnostics.length > 0) {
+    return { program: null, diagnostics };
+  }
+
+  if (iterate.length === 0) {
+    diagnostics.push({ message: 'The iteration needs at least one statement', field: 'iterate' });
+    return { program: null, diagnostics };
+  }
+
+  // Every assigned variable exists from the start (initialized to 0)
+  const variables = new Set(['z', 'c']);
+  const check = (field: FormulaField, statements: AssignmentNode[]) => {
+    statements.forEach(statement => {
+      parseField(field, () => {
+        if (FORMULA_CONSTANTS.includes(statement.target)) {
+          throw new FormulaSyntaxError(`'${statement.target}' cannot be assigned`, statement.location);
+        }
+        if (FORMULA_FUNCTIONS[statement.target] !== undefined) {
+          throw new FormulaSyntaxError(`'${statement.target}' is a function name`, statement.location);
+        }
+        variables.add(statement.target);
+      }, diagnostics);
+    });
+  };
+  check('init', init);
+  check('iterate', iterate);
+
+  init.forEach(statement => parseField('init', () => expectType(statement.value, 'complex', variables), diagnostics));
+  iterate.forEach(statement => parseField('iterate', () => expectType(statement.value, 'complex', variables), diagnostics));
+  if (bailout) {
+    parseField('bailout', () => expectType(bailout, 'boolean', variables), diagnostics);
+  }
+
+  if (diagnostics.length > 0) {
+    return { program: null, diagnostics };
+  }
+
+  return {
+    program: { init, iterate, bailout, variables: Array.from(variables) },
+    diagnostics
+  };
+}
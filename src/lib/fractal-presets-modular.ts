@@ -1,6 +1,38 @@
 // Modern fractal presets using the modular fractal system
-import { FractalParams, FractalType } from '@/types/fractal';
+import {
+  FractalParams,
+  FractalType,
+  NewtonParams,
+  ShaderPrecision,
+  isShaderPrecision,
+  isValidComplex
+} from '@/types/fractal';
 import FractalLoader from './fractals/loader';
+import { isDecimalString } from './deep-zoom/fixed-point';
+import { MAX_DEEP_ZOOM } from './deep-zoom/perturbation';
+import { supportsPerturbation } from './deep-zoom/reference-orbit';
+import { MAX_EMULATED_DOUBLE_ZOOM, supportsEmulatedDouble } from './webgl/emulated-double';
+import { MAX_MULTIBROT_EXPONENT, MIN_MULTIBROT_EXPONENT } from './fractals/multibrot';
+import { MAX_NEWTON_RELAXATION, MIN_NEWTON_RELAXATION } from './fractals/newton';
+import { MAX_POLYNOMIAL_DEGREE, trimCoefficients } from './fractals/polynomial';
+import { validateParameterValues } from './fractals/parameters';
+import { COLORING_ALGORITHMS } from './coloring/coloring';
+import { validateOrbitTrap } from './coloring/orbit-traps';
+import { validateDistanceEstimation } from './coloring/distance-estimation';
+import { validateColorMapping } from './coloring/color-mapping';
+import { validatePaletteTransform } from './coloring/palette-transform';
+import { validateInteriorColoring } from './coloring/interior-coloring';
+
+// Beyond this zoom single-precision shaders break down into blocks
+export const MAX_ZOOM = 1000000;
+
+// Iteration counts the shaders run; long iterations take several frames on the
+// GPU, and float32 textures keep iteration counts exact well past the maximum
+export const MIN_ITERATIONS = 10;
+export const MAX_ITERATIONS = 10000000;
+
+// Zoom past which the emulated-double tier is picked automatically
+export const EMULATED_DOUBLE_ZOOM_THRESHOLD = 100000;
 
 export interface FractalPreset {
   name: string;
@@ -19,11 +51,16 @@ export function generateFractalPresets(): FractalPreset[] {
   const definitions = FractalLoader.getAllDefinitions();
   
   for (const definition of definitions) {
+    // Presets carry every schema parameter so switching between them resets the rest
+    const withParameters = (params: FractalParams): FractalParams => definition.parameters
+      ? { ...params, parameters: validateParameterValues(definition.parameters, params.parameters) }
+      : params;
+
     // Add main preset for each fractal type
     presets.push({
       name: definition.name,
       id: definition.id,
-      params: {
+      params: withParameters({
         fractalType: definition.id as FractalType,
         escapeRadius: 2,
         maxIterations: 100,
@@ -32,7 +69,7 @@ export function generateFractalPresets(): FractalPreset[] {
         colorPalette: 'viridis',
         precision: 'highp',
         ...definition.defaultParams
-      },
+      }),
       description: definition.description
     });
 
@@ -42,7 +79,7 @@ export function generateFractalPresets(): FractalPreset[] {
         presets.push({
           name: `${definition.name} - ${location.name}`,
           id: `${definition.id}-${location.name.toLowerCase().replace(/\s+/g, '-')}`,
-          params: {
+          params: withParameters({
             fractalType: definition.id as FractalType,
             escapeRadius: 2,
             maxIterations: 100,
@@ -52,7 +89,7 @@ export function generateFractalPresets(): FractalPreset[] {
             precision: 'highp',
             ...definition.defaultParams,
             ...(location.params || {}) // Location-specific parameters override defaults
-          },
+          }),
           description: location.description || `${location.name} view of ${definition.name}`
         });
       }
@@ -65,6 +102,13 @@ export function generateFractalPresets(): FractalPreset[] {
 // Generate and export presets
 export const fractalPresets = generateFractalPresets();
 
+/**
+ * Regenerate presets in place after fractals are registered or removed at runtime
+ */
+export function refreshFractalPresets(): void {
+  fractalPresets.splice(0, fractalPresets.length, ...generateFractalPresets());
+}
+
 /**
  * Get a fractal preset by name
  */
@@ -86,6 +130,36 @@ export function getFractalPresetIds(): string[] {
   return fractalPresets.map(preset => preset.name);
 }
 
+/**
+ * Largest zoom the given parameters can render
+ */
+export function getMaxZoom(params: Pick<FractalParams, 'fractalType' | 'deepZoom' | 'precision'>): number {
+  if (params.deepZoom && supportsPerturbation(params.fractalType)) return MAX_DEEP_ZOOM;
+  if (params.precision === 'emulated-double' && supportsEmulatedDouble(params.fractalType)) {
+    return MAX_EMULATED_DOUBLE_ZOOM;
+  }
+  return MAX_ZOOM;
+}
+
+// A polynomial of degree 1 to 8 with finite coefficients, or undefined
+function validateNewtonParams(newton: NewtonParams): NewtonParams | undefined {
+  if (!Array.isArray(newton.coefficients) || !newton.coefficients.every(isValidComplex)) {
+    return undefined;
+  }
+
+  const coefficients = trimCoefficients(newton.coefficients);
+  const degree = coefficients.length - 1;
+  if (degree < 1 || degree > MAX_POLYNOMIAL_DEGREE) return undefined;
+
+  return {
+    coefficients,
+    variant: newton.variant === 'nova' ? 'nova' : 'newton',
+    relaxation: typeof newton.relaxation === 'number' && isFinite(newton.relaxation)
+      ? Math.max(MIN_NEWTON_RELAXATION, Math.min(MAX_NEWTON_RELAXATION, newton.relaxation))
+      : 1
+  };
+}
+
 /**
  * Validate fractal parameters
  */
@@ -111,8 +185,10 @@ export function validateFractalParams(params: Partial<FractalParams>): FractalPa
     escapeRadius: [2, 4, 8].includes(params.escapeRadius as number) 
       ? params.escapeRadius as 2 | 4 | 8 
       : defaults.escapeRadius,
-    maxIterations: [50, 100, 500, 1000].includes(params.maxIterations as number)
-      ? params.maxIterations as 50 | 100 | 500 | 1000
+    maxIterations: Number.isInteger(params.maxIterations) &&
+      params.maxIterations! >= MIN_ITERATIONS &&
+      params.maxIterations! <= MAX_ITERATIONS
+      ? params.maxIterations!
       : defaults.maxIterations,
     center: params.center && 
       typeof params.center.real === 'number' && 
@@ -124,11 +200,11 @@ export function validateFractalParams(params: Partial<FractalParams>): FractalPa
     zoom: typeof params.zoom === 'number' && 
       params.zoom > 0 && 
       !isNaN(params.zoom)
-      ? Math.max(0.1, Math.min(1000000, params.zoom))
+      ? Math.max(0.1, Math.min(MAX_DEEP_ZOOM, params.zoom))
       : defaults.zoom,
     colorPalette: params.colorPalette || defaults.colorPalette,
-    precision: ['lowp', 'mediump', 'highp'].includes(params.precision as string)
-      ? params.precision as 'lowp' | 'mediump' | 'highp'
+    precision: typeof params.precision === 'string' && isShaderPrecision(params.precision)
+      ? params.precision
       : defaults.precision
   };
 
@@ -141,13 +217,62 @@ export function validateFractalParams(params: Partial<FractalParams>): FractalPa
     validated.juliaConstant = params.juliaConstant;
   }
 
+  if (typeof params.exponent === 'number' && isFinite(params.exponent)) {
+    validated.exponent = Math.max(MIN_MULTIBROT_EXPONENT, Math.min(MAX_MULTIBROT_EXPONENT, params.exponent));
+  }
+
+  if (params.newton) {
+    const newton = validateNewtonParams(params.newton);
+    if (newton) validated.newton = newton;
+  }
+
+  if (COLORING_ALGORITHMS.some(algorithm => algorithm.value === params.coloring)) {
+    validated.coloring = params.coloring;
+  }
+  if (params.orbitTrap) {
+    validated.orbitTrap = validateOrbitTrap(params.orbitTrap);
+  }
+  if (params.distanceEstimation) {
+    validated.distanceEstimation = validateDistanceEstimation(params.distanceEstimation);
+  }
+  if (params.colorMapping) {
+    validated.colorMapping = validateColorMapping(params.colorMapping);
+  }
+  if (params.interior) {
+    validated.interior = validateInteriorColoring(params.interior);
+  }
+  if (params.paletteTransform) {
+    validated.paletteTransform = validatePaletteTransform(params.paletteTransform);
+  }
+
+  // Every parameter in the fractal's schema gets a value
+  const { parameters } = FractalLoader.getDefinition(validated.fractalType);
+  if (parameters?.length) {
+    validated.parameters = validateParameterValues(parameters, params.parameters);
+  }
+
+  if (typeof params.deepZoom === 'boolean') {
+    validated.deepZoom = params.deepZoom;
+  }
+  if (typeof params.periodicityCheck === 'boolean') {
+    validated.periodicityCheck = params.periodicityCheck;
+  }
+  validated.zoom = Math.min(validated.zoom, getMaxZoom(validated));
+
+  if (validated.deepZoom &&
+      params.preciseCenter &&
+      isDecimalString(params.preciseCenter.real) &&
+      isDecimalString(params.preciseCenter.imag)) {
+    validated.preciseCenter = params.preciseCenter;
+  }
+
   return validated;
 }
 
 /**
  * Get recommended iteration count based on zoom level
  */
-export function getRecommendedIterations(zoom: number): 50 | 100 | 500 | 1000 {
+export function getRecommendedIterations(zoom: number): number {
   if (zoom > 1000) return 1000;
   if (zoom > 100) return 500;
   if (zoom > 10) return 100;
@@ -157,9 +282,20 @@ export function getRecommendedIterations(zoom: number): 50 | 100 | 500 | 1000 {
 /**
  * Get recommended precision based on zoom level and device capabilities
  */
-export function getRecommendedPrecision(zoom: number, deviceTier: 'high' | 'medium' | 'low'): 'highp' | 'mediump' | 'lowp' {
+export function getRecommendedPrecision(zoom: number, deviceTier: 'high' | 'medium' | 'low'): ShaderPrecision {
   if (deviceTier === 'low') return 'lowp';
-  if (zoom > 1e6 && deviceTier === 'high') return 'highp';
+  if (zoom > EMULATED_DOUBLE_ZOOM_THRESHOLD) return 'emulated-double';
   if (zoom > 1000) return 'mediump';
   return 'highp';
 }
+
+/**
+ * Precision to use after a zoom change: highp views move up to emulated
+ * double once float32 runs out. Other explicit choices are kept.
+ */
+export function getAutoPrecision(params: Pick<FractalParams, 'fractalType' | 'zoom' | 'precision'>): ShaderPrecision {
+  if (params.precision !== 'highp' || !supportsEmulatedDouble(params.fractalType)) {
+    return params.precision;
+  }
+  return params.zoom > EMULATED_DOUBLE_ZOOM_THRESHOLD ? 'emulated-double' : 'highp';
+}
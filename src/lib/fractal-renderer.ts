@@ -1,10 +1,65 @@
 // High-performance WebGL fractal renderer with triple buffering
 import { WebGLContextManager } from './webgl/context-manager';
 import { shaderSources } from './webgl/shaders';
+import {
+  PROGRESSIVE_SAMPLERS,
+  ShaderBuildOptions,
+  buildColorizeShader,
+  buildFractalShader,
+  supportsColorizePass,
+  supportsProgressiveIteration
+} from './webgl/shader-builder';
+import { splitDouble, supportsEmulatedDouble } from './webgl/emulated-double';
+import FractalLoader from './fractals/loader';
+import { FractalDefinition } from './fractals/base';
+import { DEFAULT_JULIA_CONSTANT } from './fractals/julia';
+import { DEFAULT_MULTIBROT_EXPONENT } from './fractals/multibrot';
+import { DEFAULT_NEWTON_PARAMS } from './fractals/newton';
+import { MAX_POLYNOMIAL_DEGREE, findRoots } from './fractals/polynomial';
+import {
+  encodeSequence,
+  getParameterUniform,
+  getParameterUniformNames,
+  validateParameterValues
+} from './fractals/parameters';
 import { performanceMonitor } from './performance-monitor';
-import { createPaletteTexture, getColorPalette } from './color-palettes';
+import { colorPalettes, createPaletteTexture, getColorPalette, hexToRgb } from './color-palettes';
+import { ORBIT_TRAP_OUTPUTS, ORBIT_TRAP_SHAPES, ORBIT_TRAP_UNIFORMS, loadImage } from './coloring/orbit-traps';
+import { DEFAULT_DISTANCE_ESTIMATION, DISTANCE_ESTIMATION_UNIFORMS } from './coloring/distance-estimation';
+import { getSupportedColoring } from './coloring/coloring';
+import {
+  DEFAULT_COLOR_MAPPING,
+  HISTOGRAM_BINS,
+  HISTOGRAM_FRAGMENT_SHADER,
+  HISTOGRAM_VERTEX_SHADER,
+  buildColorMap,
+  usesFrameStatistics
+} from './coloring/color-mapping';
+import { DEFAULT_PALETTE_TRANSFORM, PALETTE_TRANSFORM_UNIFORMS } from './coloring/palette-transform';
+import {
+  DEFAULT_INTERIOR_COLORING,
+  INTERIOR_COLORING_UNIFORMS,
+  getInteriorPalette,
+  getSupportedInterior
+} from './coloring/interior-coloring';
+import { EARLY_EXIT_VERTEX_SHADER, getPeriodicityEpsilon } from './fractals/periodicity';
 import { getFractalPresetByType, validateFractalParams } from './fractal-presets-modular';
+import { ReferenceOrbitClient } from './deep-zoom/reference-orbit-client';
+import {
+  PERTURBATION_FRACTAL_TYPES,
+  ReferenceOrbit,
+  supportsPerturbation
+} from './deep-zoom/reference-orbit';
 import {
+  getPrecisionBits,
+  getPreciseCenter,
+  getReferenceOffset,
+  splitPixelScale
+} from './deep-zoom/perturbation';
+import {
+  ColorPalette,
+  ColoringAlgorithm,
+  Complex,
   FractalParams,
   ViewportState,
   FractalError,
@@ -12,6 +67,41 @@ import {
   GestureState
 } from '@/types/fractal';
 
+// Width of the RG32F texture holding the reference orbit (one texel per
+// iteration), wide enough for MAX_ITERATIONS in common texture size limits
+const ORBIT_TEXTURE_WIDTH = 4096;
+
+// Least time between two counts of the pixels that stopped early, in milliseconds
+const EARLY_EXIT_INTERVAL = 500;
+
+// Pixel iterations one iteration pass may run; longer iterations go on in the
+// following frames, so that no draw runs long enough for the GPU watchdog
+const ITERATIONS_PER_PASS = 2e9;
+const MIN_PASS_ITERATIONS = 100;
+
+// Float textures with a framebuffer drawing into them, one per color attachment
+interface RenderTarget {
+  framebuffer: WebGLFramebuffer | null;
+  textures: Array<WebGLTexture | null>;
+  width: number;
+  height: number;
+}
+
+// The parameters the iteration pass depends on; the palette, its mapping and
+// transform, the interior's colors and the shading of the orbit state only
+// change the colorize pass
+function getIterationState(params: FractalParams): string {
+  return JSON.stringify({
+    ...params,
+    colorPalette: undefined,
+    colorMapping: undefined,
+    paletteTransform: undefined,
+    interior: params.interior?.mode,
+    distanceEstimation: undefined,
+    orbitTrap: params.orbitTrap && { ...params.orbitTrap, output: undefined, falloff: undefined }
+  });
+}
+
 export class FractalRenderer {
   private canvas: HTMLCanvasElement;
   private contextManager: WebGLContextManager;
@@ -21,6 +111,68 @@ export class FractalRenderer {
   private vertexArray: WebGLVertexArrayObject | null = null;
   private paletteTexture: WebGLTexture | null = null;
   private uniformLocations: Record<string, WebGLUniformLocation | null> = {};
+  private standardUniformLocations: Record<string, WebGLUniformLocation | null> = {};
+  private emulatedDouble = false; // shaderProgram runs in double-single arithmetic
+  private coloring: ColoringAlgorithm = 'smooth'; // Coloring compiled into shaderProgram
+  private interiorPaletteTexture: WebGLTexture | null = null;
+  private interiorPaletteId: string | null = null; // Palette in interiorPaletteTexture
+  private trapTexture: WebGLTexture | null = null;
+  private trapImage: string | undefined; // Data URL of the image in trapTexture
+  private trapImageLoading: Promise<void> = Promise.resolve();
+  private newtonRoots: { key: string; roots: Complex[] } | null = null; // Roots of currentParams.newton
+
+  // Two-pass rendering of escape-time fractals: shaderProgram writes iteration
+  // counts and orbit state into iterationTarget once per view, and
+  // colorizeProgram colors them every frame through the palette positions in
+  // colorMapTexture, which statistical mappings set from their histogram
+  private colorizeProgram: WebGLProgram | null = null;
+  private colorizeUniformLocations: Record<string, WebGLUniformLocation | null> = {};
+  private histogramProgram: WebGLProgram | null = null;
+  private histogramUniformLocations: Record<string, WebGLUniformLocation | null> = {};
+  private iterationTarget: RenderTarget | null = null;
+  private histogramTarget: RenderTarget | null = null;
+  private colorMapTexture: WebGLTexture | null = null;
+  private histogram: Float32Array | null = null;
+  private iterationKey: string | null = null; // View whose iterations are in iterationTarget
+  private colorMapStale = true;
+  private colorMapLocked = false;
+
+  // Progressive iteration: iterations longer than a pass continue from frame
+  // to frame, each pass reading the orbits of resumeTarget and writing
+  // iterationTarget before the two swap
+  private progressive = false; // shaderProgram can iterate in passes
+  private resumeTarget: RenderTarget | null = null;
+  private iterationsDone = 0; // Iterations of the iterationKey view in iterationTarget
+  private progressPending = false; // The last progress reported was incomplete
+  // Iterations the drawn program runs: all of them when it can resume, or
+  // else one pass's worth, so that no single draw trips the GPU watchdog
+  private iterationLimit = 0;
+
+  // Called after each pass of a progressive iteration with the iterations done
+  onIterationProgress?: (completed: number, total: number) => void;
+  // Called when the iterations drawn change, e.g. below maxIterations for shaders that cannot resume
+  onIterationLimit?: (limit: number) => void;
+
+  // Periodicity statistics: earlyExitProgram counts the pixels of iterationTarget
+  // flagged as stopped in a cycle, at most every EARLY_EXIT_INTERVAL
+  private earlyExitProgram: WebGLProgram | null = null;
+  private earlyExitUniformLocations: Record<string, WebGLUniformLocation | null> = {};
+  private earlyExitTarget: RenderTarget | null = null;
+  private earlyExitsStale = false;
+  private earlyExitTime = 0;
+
+  // Deep zoom (perturbation) state
+  private perturbationProgram: WebGLProgram | null = null;
+  private perturbationUniformLocations: Record<string, WebGLUniformLocation | null> = {};
+  private orbitTexture: WebGLTexture | null = null;
+  private referenceOrbit: ReferenceOrbit | null = null;
+  private referenceOffset: Complex = { real: 0, imag: 0 };
+  private referenceOrbitLoading: Promise<void> = Promise.resolve(); // The first reference orbit
+  private orbitClient = new ReferenceOrbitClient();
+  private requestReferenceOrbit = performanceMonitor.createDebouncedUpdater<FractalParams>(
+    (params) => this.computeReferenceOrbit(params),
+    100
+  );
   
   private currentParams: FractalParams;
   private viewport: ViewportState;
@@ -31,8 +183,10 @@ export class FractalRenderer {
   
   private animationId: number | null = null;
   private startTime = performance.now();
+  private fixedTime: number | null = null; // Seconds a renderView draws at in place of the clock
   private isInitialized = false;
   private hotReloadEnabled = true;
+  private ready: Promise<void>;
 
   constructor(canvas: HTMLCanvasElement, initialParams: Partial<FractalParams> = {}) {
     this.canvas = canvas;
@@ -74,7 +228,7 @@ export class FractalRenderer {
     this.gl = gl;
 
     this.setupContextLossHandlers();
-    this.initializeRenderer();
+    this.ready = this.initializeRenderer();
   }
 
   private setupContextLossHandlers(): void {
@@ -110,12 +264,39 @@ export class FractalRenderer {
 
       // Create geometry
       this.createGeometry();
+      this.colorizeProgram = null;
+      this.histogramProgram = null;
+      this.earlyExitProgram = null;
       
       // Compile initial shader
       await this.loadShader(this.currentParams.colorPalette);
       
       // Create color palette texture
       await this.updateColorPalette(this.currentParams.colorPalette);
+
+      // Two-pass rendering targets are recreated on demand
+      this.iterationTarget = null;
+      this.resumeTarget = null;
+      this.histogramTarget = null;
+      this.earlyExitTarget = null;
+      this.colorMapTexture = null;
+      this.iterationKey = null;
+
+      this.interiorPaletteTexture = null;
+      this.interiorPaletteId = null;
+
+      // Image traps stay transparent until their image loads
+      this.trapTexture = null;
+      this.trapImage = undefined;
+      this.updateTrapImage(this.currentParams.orbitTrap?.image);
+
+      // Reference orbit for deep zoom views
+      this.referenceOrbit = null;
+      this.orbitTexture = null;
+      this.perturbationProgram = null;
+      if (this.isDeepZoomRequested()) {
+        this.referenceOrbitLoading = this.computeReferenceOrbit(this.currentParams);
+      }
       
       this.isInitialized = true;
       console.log('Fractal renderer initialized successfully');
@@ -165,7 +346,29 @@ export class FractalRenderer {
       throw this.createError('SHADER_COMPILATION_FAILED', `Unknown fractal preset: ${this.currentParams.fractalType}`, true);
     }
 
-    const fragmentShader = this.getFragmentShaderForPreset(this.currentParams.fractalType);
+    const { fractalType, precision } = this.currentParams;
+    const emulatedDouble = precision === 'emulated-double' && supportsEmulatedDouble(fractalType);
+    const definition = FractalLoader.getDefinition(fractalType);
+    // The perturbation shader of deep zoom views only counts iterations
+    const coloring = this.isDeepZoomRequested() ? 'smooth' : getSupportedColoring(definition, this.currentParams.coloring);
+    const interior = this.isDeepZoomRequested()
+      ? 'solid'
+      : getSupportedInterior(definition, coloring, this.currentParams.interior?.mode);
+    // Escape-time fractals iterate into float textures and color in a second pass
+    let twoPass = supportsColorizePass(definition);
+    if (twoPass && !this.contextManager.supportsFloatRenderTargets()) {
+      console.warn('Float render targets are not available; coloring in the iteration pass');
+      twoPass = false;
+    }
+    const progressive = twoPass && supportsProgressiveIteration(definition, emulatedDouble);
+    const fragmentShader = this.getFragmentShaderForPreset(fractalType, {
+      emulatedDouble,
+      coloring,
+      interior,
+      periodicity: this.currentParams.periodicityCheck ?? true,
+      output: twoPass ? 'state' : 'color',
+      progressive
+    });
     
     const result = this.contextManager.compileShader({
       vertex: shaderSources.vertex,
@@ -188,63 +391,257 @@ export class FractalRenderer {
     }
 
     this.shaderProgram = result.program;
+    this.emulatedDouble = emulatedDouble;
+    this.coloring = coloring;
+    this.progressive = progressive;
+    this.loadColorizeShader(twoPass ? definition : null, coloring);
+    this.iterationKey = null;
+    this.colorMapStale = true;
     this.gl.useProgram(this.shaderProgram);
 
     // Get uniform locations
-    this.cacheUniformLocations();
+    this.standardUniformLocations = this.cacheUniformLocations(this.shaderProgram, this.getStandardUniformNames(definition));
     
-    console.log(`Shader compiled successfully with ${result.precision} precision`);
-  }
-
-  private getFragmentShaderForPreset(fractalType: FractalType): string {
-    switch (fractalType) {
-      case 'mandelbrot':
-        return shaderSources.mandelbrot;
-      case 'julia':
-        return shaderSources.julia;
-      case 'burning-ship':
-        return shaderSources.burningShip;
-      case 'lyapunov':
-        return shaderSources.lyapunov;
-      case 'tricorn':
-        return shaderSources.tricorn;
-      case 'celtic':
-        return shaderSources.celtic;
-      case 'newton':
-        return shaderSources.newton;
-      case 'phoenix':
-        return shaderSources.phoenix;
-      case 'lambda':
-        return shaderSources.lambda;
-      case 'perpendicular':
-        return shaderSources.perpendicular;
-      case 'heart':
-        return shaderSources.heart;
-        
-      default:
-        console.warn(`No shader for fractal type: ${fractalType}, using mandelbrot`);
-        return shaderSources.mandelbrot;
-    }
+    console.log(`Shader compiled successfully with ${emulatedDouble ? 'emulated double' : result.precision} precision`);
   }
 
-  private cacheUniformLocations(): void {
-    if (!this.shaderProgram) return;
-
-    const uniformNames = [
+  private getStandardUniformNames(definition: FractalDefinition): string[] {
+    return [
       'u_resolution',
       'u_center',
       'u_zoom',
       'u_maxIterations',
       'u_escapeRadius',
       'u_juliaConstant',
+      'u_exponent',
+      'u_coefficients',
+      'u_degree',
+      'u_roots',
+      'u_relaxation',
+      'u_newtonVariant',
       'u_colorPalette',
-      'u_time'
+      'u_time',
+      'u_centerHi',
+      'u_centerLo',
+      'u_dsGuard',
+      'u_cycleEpsilon',
+      'u_iterationStart',
+      'u_iterationEnd',
+      ...PROGRESSIVE_SAMPLERS,
+      ...ORBIT_TRAP_UNIFORMS,
+      ...DISTANCE_ESTIMATION_UNIFORMS,
+      ...PALETTE_TRANSFORM_UNIFORMS,
+      ...INTERIOR_COLORING_UNIFORMS,
+      ...getParameterUniformNames(definition.parameters || [])
     ];
+  }
+
+  private getFragmentShaderForPreset(fractalType: FractalType, options: ShaderBuildOptions = {}): string {
+    return buildFractalShader(FractalLoader.getDefinition(fractalType), options);
+  }
+
+  // Compile the colorize pass of a two-pass fractal, or drop it for null
+  private loadColorizeShader(definition: FractalDefinition | null, coloring: ColoringAlgorithm): void {
+    if (this.colorizeProgram) {
+      this.gl.deleteProgram(this.colorizeProgram);
+      this.colorizeProgram = null;
+    }
+    if (!definition) return;
+
+    this.colorizeProgram = this.compileProgram(shaderSources.vertex, buildColorizeShader(definition, coloring), 'Colorize');
+    this.colorizeUniformLocations = this.cacheUniformLocations(this.colorizeProgram, [
+      ...this.getStandardUniformNames(definition),
+      'u_iterationState',
+      'u_orbitState',
+      'u_colorMap'
+    ]);
+
+    // Statistical color mapping counts iteration counts with float blending
+    if (!this.histogramProgram && this.contextManager.supportsFloatBlending()) {
+      this.histogramProgram = this.compileProgram(HISTOGRAM_VERTEX_SHADER, HISTOGRAM_FRAGMENT_SHADER, 'Histogram');
+      this.histogramUniformLocations = this.cacheUniformLocations(this.histogramProgram, [
+        'u_iterations',
+        'u_maxIterations',
+        'u_bins'
+      ]);
+    }
+    if (!this.earlyExitProgram && this.contextManager.supportsFloatBlending()) {
+      this.earlyExitProgram = this.compileProgram(EARLY_EXIT_VERTEX_SHADER, HISTOGRAM_FRAGMENT_SHADER, 'Early exit');
+      this.earlyExitUniformLocations = this.cacheUniformLocations(this.earlyExitProgram, ['u_iterations']);
+    }
+  }
+
+  private compileProgram(vertex: string, fragment: string, name: string): WebGLProgram {
+    const result = this.contextManager.compileShader({ vertex, fragment, uniforms: {} });
+    if (!result.success || !result.program) {
+      throw this.createError(
+        'SHADER_COMPILATION_FAILED',
+        `${name} shader compilation failed: ${result.errors.join(', ')}`,
+        true,
+        { errors: result.errors }
+      );
+    }
+    return result.program;
+  }
 
-    this.uniformLocations = {};
+  private cacheUniformLocations(
+    program: WebGLProgram,
+    uniformNames: string[]
+  ): Record<string, WebGLUniformLocation | null> {
+    const locations: Record<string, WebGLUniformLocation | null> = {};
     for (const name of uniformNames) {
-      this.uniformLocations[name] = this.gl.getUniformLocation(this.shaderProgram, name);
+      locations[name] = this.gl.getUniformLocation(program, name);
     }
+    return locations;
+  }
+
+  private loadPerturbationShader(): void {
+    if (this.perturbationProgram) return;
+
+    const result = this.contextManager.compileShader({
+      vertex: shaderSources.vertex,
+      fragment: shaderSources.perturbation,
+      uniforms: {}
+    });
+
+    if (!result.success || !result.program) {
+      throw this.createError(
+        'SHADER_COMPILATION_FAILED',
+        `Perturbation shader compilation failed: ${result.errors.join(', ')}`,
+        true,
+        { errors: result.errors }
+      );
+    }
+
+    this.perturbationProgram = result.program;
+    this.perturbationUniformLocations = this.cacheUniformLocations(this.perturbationProgram, [
+      'u_resolution',
+      'u_maxIterations',
+      'u_escapeRadius',
+      'u_fractalType',
+      'u_colorPalette',
+      'u_time',
+      ...PALETTE_TRANSFORM_UNIFORMS,
+      'u_interiorColor',
+      'u_referenceOrbit',
+      'u_referenceLength',
+      'u_orbitTextureWidth',
+      'u_scaleMantissa',
+      'u_scaleExponent',
+      'u_referenceOffset',
+      'u_outputIteration',
+      'u_iterationStart',
+      'u_iterationEnd',
+      ...PROGRESSIVE_SAMPLERS
+    ]);
+  }
+
+  private isDeepZoomRequested(): boolean {
+    return !!this.currentParams.deepZoom && supportsPerturbation(this.currentParams.fractalType);
+  }
+
+  private isPerturbationActive(): boolean {
+    return this.isDeepZoomRequested() &&
+      this.perturbationProgram !== null &&
+      this.referenceOrbit !== null &&
+      this.referenceOrbit.fractalType === this.currentParams.fractalType;
+  }
+
+  // Whether the loaded reference orbit was computed for the current parameters
+  private isReferenceOrbitCurrent(): boolean {
+    const orbit = this.referenceOrbit;
+    const center = getPreciseCenter(this.currentParams);
+    return this.isPerturbationActive() && !!orbit &&
+      orbit.center.real === center.real &&
+      orbit.center.imag === center.imag &&
+      orbit.maxIterations === this.currentParams.maxIterations &&
+      orbit.precisionBits >= getPrecisionBits(this.currentParams.zoom);
+  }
+
+  private async computeReferenceOrbit(params: FractalParams): Promise<void> {
+    if (!params.deepZoom || !supportsPerturbation(params.fractalType)) return;
+
+    try {
+      const orbit = await this.orbitClient.request({
+        fractalType: params.fractalType,
+        center: getPreciseCenter(params),
+        maxIterations: params.maxIterations,
+        escapeRadius: params.escapeRadius,
+        precisionBits: getPrecisionBits(params.zoom)
+      });
+
+      // Superseded by a newer view, or the renderer was torn down meanwhile
+      if (!orbit || !this.isInitialized) return;
+
+      this.loadPerturbationShader();
+      this.uploadReferenceOrbit(orbit);
+      this.referenceOrbit = orbit;
+      this.updateReferenceOffset();
+      this.iterationKey = null;
+      this.render();
+    } catch (error) {
+      console.error('Failed to compute reference orbit:', error);
+    }
+  }
+
+  private uploadReferenceOrbit(orbit: ReferenceOrbit): void {
+    const width = Math.min(ORBIT_TEXTURE_WIDTH, orbit.length);
+    const height = Math.ceil(orbit.length / width);
+    const data = new Float32Array(width * height * 2);
+    data.set(orbit.points.subarray(0, orbit.length * 2));
+
+    if (!this.orbitTexture) {
+      this.orbitTexture = this.gl.createTexture();
+      if (!this.orbitTexture) {
+        throw this.createError('WEBGL_CONTEXT_LOST', 'Failed to create reference orbit texture', true);
+      }
+    }
+
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.orbitTexture);
+    this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RG32F, width, height, 0, this.gl.RG, this.gl.FLOAT, data);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.NEAREST);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.NEAREST);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, null);
+  }
+
+  // The reference stays usable while the view drifts away from it during a pan
+  private updateReferenceOffset(): void {
+    if (!this.referenceOrbit) return;
+
+    const { exponent } = splitPixelScale(this.viewport.zoom);
+    this.referenceOffset = getReferenceOffset(
+      this.viewport.preciseCenter ?? getPreciseCenter(this.currentParams),
+      this.referenceOrbit.center,
+      exponent,
+      Math.max(this.referenceOrbit.precisionBits, getPrecisionBits(this.viewport.zoom))
+    );
+  }
+
+  private updatePerturbationUniforms(): void {
+    if (!this.referenceOrbit || !this.orbitTexture) return;
+
+    const { mantissa, exponent } = splitPixelScale(this.viewport.zoom);
+    this.setUniform1i('u_fractalType', PERTURBATION_FRACTAL_TYPES.indexOf(this.referenceOrbit.fractalType));
+    this.setUniform1i('u_referenceLength', this.referenceOrbit.length);
+    this.setUniform1i('u_orbitTextureWidth', Math.min(ORBIT_TEXTURE_WIDTH, this.referenceOrbit.length));
+    this.setUniform1f('u_scaleMantissa', mantissa);
+    this.setUniform1i('u_scaleExponent', exponent);
+    this.setUniform2f('u_referenceOffset', this.referenceOffset.real, this.referenceOffset.imag);
+    this.setUniform1i('u_outputIteration', this.colorizeProgram ? 1 : 0);
+
+    this.gl.activeTexture(this.gl.TEXTURE1);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.orbitTexture);
+    this.setUniform1i('u_referenceOrbit', 1);
+  }
+
+  private updateEmulatedDoubleUniforms(): void {
+    const [realHi, realLo] = splitDouble(this.viewport.center.real);
+    const [imagHi, imagLo] = splitDouble(this.viewport.center.imag);
+    this.setUniform2f('u_centerHi', realHi, imagHi);
+    this.setUniform2f('u_centerLo', realLo, imagLo);
+    this.setUniform1f('u_dsGuard', 1.0);
   }
 
   private async updateColorPalette(paletteId: string): Promise<void> {
@@ -254,6 +651,10 @@ export class FractalRenderer {
       return;
     }
 
+    this.uploadPalette(palette);
+  }
+
+  private uploadPalette(palette: ColorPalette): void {
     // Clean up old texture
     if (this.paletteTexture) {
       this.gl.deleteTexture(this.paletteTexture);
@@ -268,19 +669,20 @@ export class FractalRenderer {
   private updateUniforms(): void {
     if (!this.shaderProgram) return;
 
-    const time = (performance.now() - this.startTime) / 1000;
+    const time = this.getTime();
 
     // Update shader uniforms
     this.setUniform2f('u_resolution', this.viewport.width, this.viewport.height);
     this.setUniform2f('u_center', this.viewport.center.real, this.viewport.center.imag);
     this.setUniform1f('u_zoom', this.viewport.zoom);
-    this.setUniform1i('u_maxIterations', this.currentParams.maxIterations);
+    this.setUniform1i('u_maxIterations', this.iterationLimit);
     this.setUniform1f('u_escapeRadius', this.currentParams.escapeRadius);
     this.setUniform1f('u_time', time);
+    this.setUniform1f('u_cycleEpsilon', getPeriodicityEpsilon(this.viewport.zoom, this.viewport.height));
 
     // Julia constant (always set a value for Julia fractals)
     if (this.currentParams.fractalType === 'julia') {
-      const juliaConstant = this.currentParams.juliaConstant || { real: -0.7269, imag: 0.1889 };
+      const juliaConstant = this.currentParams.juliaConstant || DEFAULT_JULIA_CONSTANT;
       this.setUniform2f('u_juliaConstant', juliaConstant.real, juliaConstant.imag);
     } else if (this.currentParams.juliaConstant) {
       this.setUniform2f('u_juliaConstant', 
@@ -292,6 +694,22 @@ export class FractalRenderer {
       this.setUniform2f('u_juliaConstant', 0.0, 0.0);
     }
 
+    this.setUniform1f('u_exponent', this.currentParams.exponent ?? DEFAULT_MULTIBROT_EXPONENT);
+
+    if (this.currentParams.fractalType === 'newton') {
+      this.updateNewtonUniforms();
+    }
+
+    this.updateParameterUniforms();
+
+    if (this.coloring === 'orbit-trap') {
+      this.updateOrbitTrapUniforms();
+    } else if (this.coloring === 'distance-estimation') {
+      this.updateDistanceEstimationUniforms();
+    }
+    this.updatePaletteTransformUniforms();
+    this.updateInteriorUniforms();
+
     // Bind palette texture
     if (this.paletteTexture) {
       this.gl.activeTexture(this.gl.TEXTURE0);
@@ -300,6 +718,167 @@ export class FractalRenderer {
     }
   }
 
+  // Seconds since the renderer started, for animated coloring
+  public getTime(): number {
+    return this.fixedTime ?? (performance.now() - this.startTime) / 1000;
+  }
+
+  // Polynomial coefficients and roots for the Newton shader. The roots are
+  // found on the CPU once per polynomial.
+  private updateNewtonUniforms(): void {
+    const newton = this.currentParams.newton || DEFAULT_NEWTON_PARAMS;
+    const key = JSON.stringify(newton.coefficients);
+    if (this.newtonRoots?.key !== key) {
+      this.newtonRoots = { key, roots: findRoots(newton.coefficients) };
+    }
+
+    const coefficients = new Float32Array((MAX_POLYNOMIAL_DEGREE + 1) * 2);
+    newton.coefficients.forEach((coefficient, k) => coefficients.set([coefficient.real, coefficient.imag], k * 2));
+    const roots = new Float32Array(MAX_POLYNOMIAL_DEGREE * 2);
+    this.newtonRoots.roots.forEach((root, k) => roots.set([root.real, root.imag], k * 2));
+
+    this.setUniform2fv('u_coefficients', coefficients);
+    this.setUniform1i('u_degree', newton.coefficients.length - 1);
+    this.setUniform2fv('u_roots', roots);
+    this.setUniform1f('u_relaxation', newton.relaxation);
+    this.setUniform1i('u_newtonVariant', newton.variant === 'nova' ? 1 : 0);
+  }
+
+  private updateOrbitTrapUniforms(): void {
+    const trap = this.currentParams.orbitTrap;
+    if (!trap || !this.trapTexture) return;
+
+    this.setUniform1i('u_trapShape', ORBIT_TRAP_SHAPES.findIndex(shape => shape.value === trap.shape));
+    this.setUniform1i('u_trapOutput', ORBIT_TRAP_OUTPUTS.findIndex(output => output.value === trap.output));
+    this.setUniform2f('u_trapCenter', trap.center.real, trap.center.imag);
+    this.setUniform1f('u_trapAngle', trap.angle);
+    this.setUniform1f('u_trapRadius', trap.radius);
+    this.setUniform1f('u_trapFalloff', trap.falloff);
+
+    this.gl.activeTexture(this.gl.TEXTURE2);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.trapTexture);
+    this.setUniform1i('u_trapImage', 2);
+  }
+
+  private updateDistanceEstimationUniforms(): void {
+    const settings = this.currentParams.distanceEstimation ?? DEFAULT_DISTANCE_ESTIMATION;
+    this.setUniform1f('u_deBoundary', settings.boundary);
+    this.setUniform1f('u_deGlow', settings.glow);
+    this.setUniform1i('u_deLighting', settings.lighting ? 1 : 0);
+    this.setUniform2f('u_deLight', Math.cos(settings.lightAngle), Math.sin(settings.lightAngle));
+    this.setUniform1f('u_deLightHeight', settings.lightHeight);
+  }
+
+  private updatePaletteTransformUniforms(): void {
+    const transform = this.currentParams.paletteTransform ?? DEFAULT_PALETTE_TRANSFORM;
+    this.setUniform1f('u_paletteOffset', transform.offset);
+    this.setUniform1f('u_paletteCycles', transform.cycles);
+    this.setUniform1i('u_paletteDensity', transform.density === 'logarithmic' ? 1 : 0);
+    this.setUniform1i('u_paletteReverse', transform.reverse ? 1 : 0);
+    this.setUniform1f('u_paletteSpeed', transform.speed);
+    this.setUniform1f('u_wobble', transform.wobble ? 1 : 0);
+  }
+
+  // The solid color, and the palette of the interior's mode on texture unit 6
+  private updateInteriorUniforms(): void {
+    const interior = this.currentParams.interior ?? DEFAULT_INTERIOR_COLORING;
+    const [r, g, b] = hexToRgb(interior.color) ?? [0, 0, 0];
+    this.setUniform3f('u_interiorColor', r / 255, g / 255, b / 255);
+
+    const paletteId = getInteriorPalette(interior);
+    if (!paletteId) return;
+    if (paletteId !== this.interiorPaletteId) {
+      if (this.interiorPaletteTexture) {
+        this.gl.deleteTexture(this.interiorPaletteTexture);
+      }
+      this.interiorPaletteTexture = createPaletteTexture(this.gl, getColorPalette(paletteId) ?? colorPalettes[0], 256);
+      this.interiorPaletteId = paletteId;
+    }
+
+    this.gl.activeTexture(this.gl.TEXTURE6);
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this.interiorPaletteTexture);
+    this.setUniform1i('u_interiorPalette', 6);
+  }
+
+  // Upload the image of an image trap once it loads; a transparent pixel stands in until then
+  private updateTrapImage(url: string | undefined): void {
+    if (!this.trapTexture) {
+      this.trapTexture = this.gl.createTexture();
+      this.uploadTrapTexture(new Uint8Array(4));
+    }
+    if (url === this.trapImage) return;
+
+    this.trapImage = url;
+    if (!url) {
+      this.uploadTrapTexture(new Uint8Array(4));
+      return;
+    }
+
+    this.trapImageLoading = loadImage(url)
+      .then(image => {
+        if (this.trapImage !== url) return;
+        this.uploadTrapTexture(image);
+        this.iterationKey = null;
+        this.render();
+      })
+      .catch(error => console.error('Failed to load trap image:', error));
+  }
+
+  private uploadTrapTexture(source: HTMLImageElement | Uint8Array): void {
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.trapTexture);
+    // Image rows run top down; the trap's imaginary axis points up
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    if (source instanceof Uint8Array) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    } else {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    }
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  // Uniforms for the parameters declared in the fractal's schema
+  private updateParameterUniforms(): void {
+    const { parameters } = FractalLoader.getDefinition(this.currentParams.fractalType);
+    if (!parameters) return;
+
+    const values = validateParameterValues(parameters, this.currentParams.parameters);
+    for (const parameter of parameters) {
+      const uniform = getParameterUniform(parameter);
+      const value = values[parameter.name];
+
+      switch (parameter.type) {
+        case 'float':
+          this.setUniform1f(uniform, value as number);
+          break;
+        case 'int':
+          this.setUniform1i(uniform, value as number);
+          break;
+        case 'complex': {
+          const { real, imag } = value as Complex;
+          this.setUniform2f(uniform, real, imag);
+          break;
+        }
+        case 'choice':
+          this.setUniform1i(uniform, parameter.options.findIndex(option => option.value === value));
+          break;
+        case 'sequence': {
+          const letters = encodeSequence(parameter, value as string);
+          const padded = new Int32Array(parameter.maxLength);
+          padded.set(letters);
+          this.setUniform1iv(uniform, padded);
+          this.setUniform1i(`${uniform}Length`, letters.length);
+          break;
+        }
+      }
+    }
+  }
+
   private setUniform1f(name: string, value: number): void {
     const location = this.uniformLocations[name];
     if (location !== null && location !== undefined) {
@@ -314,6 +893,20 @@ export class FractalRenderer {
     }
   }
 
+  private setUniform1iv(name: string, values: Int32Array): void {
+    const location = this.uniformLocations[name];
+    if (location !== null && location !== undefined) {
+      this.gl.uniform1iv(location, values);
+    }
+  }
+
+  private setUniform2fv(name: string, values: Float32Array): void {
+    const location = this.uniformLocations[name];
+    if (location !== null && location !== undefined) {
+      this.gl.uniform2fv(location, values);
+    }
+  }
+
   private setUniform2f(name: string, x: number, y: number): void {
     const location = this.uniformLocations[name];
     if (location !== null && location !== undefined) {
@@ -321,6 +914,13 @@ export class FractalRenderer {
     }
   }
 
+  private setUniform3f(name: string, x: number, y: number, z: number): void {
+    const location = this.uniformLocations[name];
+    if (location !== null && location !== undefined) {
+      this.gl.uniform3f(location, x, y, z);
+    }
+  }
+
   public render(): void {
     if (!this.isInitialized || !this.shaderProgram || !this.vertexArray) {
       return;
@@ -339,15 +939,15 @@ export class FractalRenderer {
       // Clear
       this.gl.clear(this.gl.COLOR_BUFFER_BIT);
 
-      // Use shader program
-      this.gl.useProgram(this.shaderProgram);
-
-      // Update uniforms
-      this.updateUniforms();
-
-      // Draw full-screen quad
-      this.gl.bindVertexArray(this.vertexArray);
-      this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+      // Use the perturbation program once a reference orbit for this view is ready
+      const usePerturbation = this.isPerturbationActive();
+      this.updateIterationLimit(usePerturbation);
+      if (this.colorizeProgram) {
+        this.renderTwoPass(framebuffer, usePerturbation);
+      } else {
+        this.drawFractal(usePerturbation);
+        performanceMonitor.updateEarlyExits(undefined);
+      }
 
       // Present to screen (copy from framebuffer to canvas)
       this.gl.bindFramebuffer(this.gl.DRAW_FRAMEBUFFER, null);
@@ -377,6 +977,359 @@ export class FractalRenderer {
     }
   }
 
+  // Iterations start to end, resuming the orbits of previous unless it is null
+  private drawFractal(
+    usePerturbation: boolean,
+    start = 0,
+    end = this.iterationLimit,
+    previous: RenderTarget | null = null
+  ): void {
+    this.gl.useProgram(usePerturbation ? this.perturbationProgram : this.shaderProgram);
+    this.uniformLocations = usePerturbation
+      ? this.perturbationUniformLocations
+      : this.standardUniformLocations;
+
+    // Update uniforms
+    this.updateUniforms();
+    if (usePerturbation) {
+      this.updatePerturbationUniforms();
+    } else if (this.emulatedDouble) {
+      this.updateEmulatedDoubleUniforms();
+    }
+    this.setUniform1i('u_iterationStart', start);
+    this.setUniform1i('u_iterationEnd', end);
+    this.bindPreviousPass(previous);
+
+    // Draw full-screen quad
+    this.gl.bindVertexArray(this.vertexArray);
+    this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  // The previous pass's state textures on units 7 to 10, none for a first pass
+  private bindPreviousPass(previous: RenderTarget | null): void {
+    PROGRESSIVE_SAMPLERS.forEach((name, index) => {
+      this.gl.activeTexture(this.gl.TEXTURE7 + index);
+      this.gl.bindTexture(this.gl.TEXTURE_2D, previous?.textures[index] ?? null);
+      this.setUniform1i(name, 7 + index);
+    });
+  }
+
+  // Iterate only while the view's iteration is incomplete; palette, mapping
+  // and shading changes just recolor
+  private renderTwoPass(framebuffer: WebGLFramebuffer | null, usePerturbation: boolean): void {
+    const gl = this.gl;
+    const { center, zoom, width, height } = this.viewport;
+    const key = [usePerturbation, center.real, center.imag, zoom, width, height].join();
+    const colorMapped = this.isColorMapped();
+
+    if (key !== this.iterationKey) {
+      this.iterationKey = key;
+      this.iterationsDone = 0;
+    }
+    if (this.iterationsDone < this.iterationLimit) {
+      this.iteratePass(usePerturbation);
+      if (!this.colorMapLocked) {
+        this.histogram = null;
+      }
+      this.earlyExitsStale = true;
+    }
+    if (this.earlyExitsStale && performance.now() - this.earlyExitTime >= EARLY_EXIT_INTERVAL) {
+      this.updateEarlyExits(usePerturbation);
+    }
+
+    if (colorMapped && !this.histogram) {
+      this.histogram = this.computeHistogram(this.iterationTarget!);
+      this.colorMapStale = true;
+    }
+    if (this.colorMapStale) {
+      this.updateColorMap(colorMapped);
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(this.colorizeProgram);
+    this.uniformLocations = this.colorizeUniformLocations;
+    this.updateUniforms();
+
+    const [iterationState, orbitState] = this.iterationTarget!.textures;
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, this.colorMapTexture);
+    this.setUniform1i('u_colorMap', 3);
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, iterationState);
+    this.setUniform1i('u_iterationState', 4);
+    gl.activeTexture(gl.TEXTURE5);
+    gl.bindTexture(gl.TEXTURE_2D, orbitState);
+    this.setUniform1i('u_orbitState', 5);
+
+    gl.bindVertexArray(this.vertexArray);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  // Iterations one pass may run over the whole view
+  private getPassIterations(): number {
+    return Math.max(MIN_PASS_ITERATIONS, Math.floor(ITERATIONS_PER_PASS / (this.viewport.width * this.viewport.height)));
+  }
+
+  // Only two-pass programs that resume their orbits run past one pass: the
+  // others, and every program without float render targets, are cut to it
+  private updateIterationLimit(usePerturbation: boolean): void {
+    const { maxIterations } = this.currentParams;
+    const resumable = this.colorizeProgram !== null && (usePerturbation || this.progressive);
+    const limit = resumable ? maxIterations : Math.min(maxIterations, this.getPassIterations());
+
+    if (limit !== this.iterationLimit) {
+      this.iterationLimit = limit;
+      this.onIterationLimit?.(limit);
+    }
+  }
+
+  // Run the view's next iterations into iterationTarget: all of them at once,
+  // or a pass's worth when they take longer and the shader can resume
+  private iteratePass(usePerturbation: boolean): void {
+    const gl = this.gl;
+    const { width, height } = this.viewport;
+    const maxIterations = this.iterationLimit;
+    const passIterations = this.getPassIterations();
+    const progressive = (usePerturbation || this.progressive) && maxIterations > passIterations;
+    const attachments = progressive ? 4 : 2;
+
+    if (this.iterationTarget?.width !== width || this.iterationTarget.height !== height ||
+        this.iterationTarget.textures.length !== attachments) {
+      this.deleteRenderTarget(this.iterationTarget);
+      this.deleteRenderTarget(this.resumeTarget);
+      this.iterationTarget = this.createRenderTarget(width, height, gl.RGBA32F, gl.RGBA, attachments);
+      this.resumeTarget = progressive ? this.createRenderTarget(width, height, gl.RGBA32F, gl.RGBA, attachments) : null;
+    }
+
+    const start = this.iterationsDone;
+    const end = progressive ? Math.min(maxIterations, start + passIterations) : maxIterations;
+    if (progressive) {
+      [this.iterationTarget, this.resumeTarget] = [this.resumeTarget!, this.iterationTarget];
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.iterationTarget.framebuffer);
+    this.drawFractal(usePerturbation, start, end, progressive ? this.resumeTarget : null);
+    this.iterationsDone = end;
+
+    if (progressive || this.progressPending) {
+      this.progressPending = end < maxIterations;
+      this.onIterationProgress?.(end, maxIterations);
+    }
+  }
+
+  // Statistical mappings spread the smooth iteration counts over the palette
+  private isColorMapped(): boolean {
+    return this.histogramProgram !== null &&
+      this.coloring === 'smooth' &&
+      usesFrameStatistics(this.currentParams.colorMapping);
+  }
+
+  // Count the iteration counts into HISTOGRAM_BINS bins on the GPU and read them back
+  private computeHistogram(source: RenderTarget): Float32Array {
+    const gl = this.gl;
+    if (!this.histogramTarget) {
+      this.histogramTarget = this.createRenderTarget(HISTOGRAM_BINS, 1, gl.R32F, gl.RED);
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.histogramTarget.framebuffer);
+    gl.viewport(0, 0, HISTOGRAM_BINS, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.useProgram(this.histogramProgram);
+    this.uniformLocations = this.histogramUniformLocations;
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, source.textures[0]);
+    this.setUniform1i('u_iterations', 4);
+    this.setUniform1i('u_maxIterations', this.iterationLimit);
+    this.setUniform1i('u_bins', HISTOGRAM_BINS);
+
+    // One point per pixel, positioned by its vertex id alone
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+    gl.bindVertexArray(null);
+    gl.drawArrays(gl.POINTS, 0, source.width * source.height);
+    gl.disable(gl.BLEND);
+
+    const pixels = new Float32Array(HISTOGRAM_BINS * 4);
+    gl.readPixels(0, 0, HISTOGRAM_BINS, 1, gl.RGBA, gl.FLOAT, pixels);
+    const histogram = new Float32Array(HISTOGRAM_BINS);
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      histogram[bin] = pixels[bin * 4];
+    }
+    return histogram;
+  }
+
+  // Only the smooth and distance estimation states flag the orbits stopped in a cycle
+  private updateEarlyExits(usePerturbation: boolean): void {
+    this.earlyExitsStale = false;
+    this.earlyExitTime = performance.now();
+    const measurable = this.earlyExitProgram !== null && !usePerturbation && this.coloring !== 'orbit-trap';
+    performanceMonitor.updateEarlyExits(
+      measurable ? this.countEarlyExits(this.iterationTarget!) / (this.viewport.width * this.viewport.height) : undefined
+    );
+  }
+
+  // Count the flagged pixels into a single texel on the GPU and read it back
+  private countEarlyExits(source: RenderTarget): number {
+    const gl = this.gl;
+    if (!this.earlyExitTarget) {
+      this.earlyExitTarget = this.createRenderTarget(1, 1, gl.R32F, gl.RED);
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.earlyExitTarget.framebuffer);
+    gl.viewport(0, 0, 1, 1);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.useProgram(this.earlyExitProgram);
+    this.uniformLocations = this.earlyExitUniformLocations;
+    gl.activeTexture(gl.TEXTURE4);
+    gl.bindTexture(gl.TEXTURE_2D, source.textures[0]);
+    this.setUniform1i('u_iterations', 4);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE);
+    gl.bindVertexArray(null);
+    gl.drawArrays(gl.POINTS, 0, source.width * source.height);
+    gl.disable(gl.BLEND);
+
+    const pixels = new Float32Array(4);
+    gl.readPixels(0, 0, 1, 1, gl.RGBA, gl.FLOAT, pixels);
+    return pixels[0];
+  }
+
+  // Linear unless a statistical mapping applies
+  private updateColorMap(colorMapped: boolean): void {
+    const gl = this.gl;
+    const map = buildColorMap(
+      this.histogram ?? new Float32Array(HISTOGRAM_BINS),
+      colorMapped ? this.currentParams.colorMapping ?? DEFAULT_COLOR_MAPPING : DEFAULT_COLOR_MAPPING
+    );
+
+    if (!this.colorMapTexture) {
+      this.colorMapTexture = gl.createTexture();
+    }
+    gl.bindTexture(gl.TEXTURE_2D, this.colorMapTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, map.length, 1, 0, gl.RED, gl.FLOAT, map);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    this.colorMapStale = false;
+  }
+
+  private createRenderTarget(
+    width: number,
+    height: number,
+    internalFormat: number,
+    format: number,
+    attachments = 1
+  ): RenderTarget {
+    const gl = this.gl;
+    const framebuffer = gl.createFramebuffer();
+    const textures: Array<WebGLTexture | null> = [];
+    const drawBuffers: number[] = [];
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+
+    for (let i = 0; i < attachments; i++) {
+      const texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, width, height, 0, format, gl.FLOAT, null);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0 + i, gl.TEXTURE_2D, texture, 0);
+      textures.push(texture);
+      drawBuffers.push(gl.COLOR_ATTACHMENT0 + i);
+    }
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.drawBuffers(drawBuffers);
+    return { framebuffer, textures, width, height };
+  }
+
+  private deleteRenderTarget(target: RenderTarget | null): void {
+    if (!target) return;
+    this.gl.deleteFramebuffer(target.framebuffer);
+    target.textures.forEach(texture => this.gl.deleteTexture(texture));
+  }
+
+  /**
+   * Keep the color map of the current frame for the views drawn while locked,
+   * so that the tiles of an export share the statistics of the whole image
+   */
+  public lockColorMap(locked: boolean): void {
+    this.colorMapLocked = locked;
+  }
+
+  /**
+   * Draw a view of the current parameters and read back its RGBA pixels,
+   * bottom row first. The canvas is resized to the view, which must fit
+   * within getMaxRenderSize(); tiled exports render their tiles this way.
+   * Animated coloring is drawn at `time` seconds when given, so that offline
+   * renders do not depend on how long they take.
+   */
+  public renderView(view: ViewportState, pixels: Uint8Array, time?: number): void {
+    if (this.canvas.width !== view.width || this.canvas.height !== view.height) {
+      this.resize(view.width, view.height);
+    }
+    this.viewport.center = view.center;
+    this.viewport.preciseCenter = view.preciseCenter;
+    this.viewport.zoom = view.zoom;
+    if (this.isDeepZoomRequested()) {
+      this.updateReferenceOffset();
+    }
+
+    // Run every pass of a progressive iteration
+    const passes = Math.ceil(this.currentParams.maxIterations / this.getPassIterations());
+    this.fixedTime = time ?? null;
+    try {
+      this.render();
+      for (let pass = 1; pass < passes && this.colorizeProgram && this.iterationsDone < this.iterationLimit; pass++) {
+        this.gl.flush();
+        this.render();
+      }
+      this.gl.readPixels(0, 0, view.width, view.height, this.gl.RGBA, this.gl.UNSIGNED_BYTE, pixels);
+    } finally {
+      this.fixedTime = null;
+    }
+  }
+
+  /**
+   * Draw with a palette that is not in the parameters, e.g. while it is being
+   * edited; null goes back to the parameters' palette
+   */
+  public previewPalette(palette: ColorPalette | null): void {
+    const shown = palette ?? getColorPalette(this.currentParams.colorPalette);
+    if (!this.isInitialized || !shown) return;
+
+    this.uploadPalette(shown);
+    this.render();
+  }
+
+  /**
+   * Resolves once the shaders, palette, any trap image and, for deep zoom
+   * views, the reference orbit of the current parameters are loaded. Rejects
+   * when a deep zoom view cannot be drawn by perturbation, rather than drawing
+   * it shallower.
+   */
+  public async whenReady(): Promise<void> {
+    await this.ready;
+    await this.trapImageLoading;
+    await this.referenceOrbitLoading;
+
+    // Offline renders cannot wait for the debounced request after a parameter
+    // change; a second attempt covers that request superseding the first
+    for (let attempt = 0; attempt < 2 && this.isDeepZoomRequested() && !this.isReferenceOrbitCurrent(); attempt++) {
+      await this.computeReferenceOrbit(this.currentParams);
+    }
+    if (this.isDeepZoomRequested() && !this.isReferenceOrbitCurrent()) {
+      throw this.createError('PRECISION_LOSS', 'The reference orbit for the deep zoom view could not be computed', false);
+    }
+  }
+
+  public getMaxRenderSize(): number {
+    return this.contextManager.getMaxRenderSize();
+  }
+
   public startRenderLoop(): void {
     if (this.animationId) return;
 
@@ -399,28 +1352,69 @@ export class FractalRenderer {
     const oldParams = { ...this.currentParams };
     this.currentParams = validateFractalParams({ ...this.currentParams, ...newParams });
 
+    if (getIterationState(oldParams) !== getIterationState(this.currentParams)) {
+      this.iterationKey = null;
+    }
+    if (JSON.stringify(oldParams.colorMapping) !== JSON.stringify(this.currentParams.colorMapping)) {
+      this.colorMapStale = true;
+    }
+
     // Update viewport if center or zoom changed
     if (newParams.center) {
       this.viewport.center = this.currentParams.center;
+      this.viewport.preciseCenter = undefined;
     }
     if (newParams.zoom) {
       this.viewport.zoom = this.currentParams.zoom;
     }
 
+    // Deep zoom: keep the current reference usable and request one for the new view
+    if (this.isDeepZoomRequested()) {
+      this.updateReferenceOffset();
+      if (this.needsNewReferenceOrbit(oldParams)) {
+        this.requestReferenceOrbit(this.currentParams);
+      }
+    }
+
     // Reload shader if fractal type changed
     if (newParams.fractalType && newParams.fractalType !== oldParams.fractalType) {
       console.log('Fractal type changed from', oldParams.fractalType, 'to', newParams.fractalType);
       this.loadShader(this.currentParams.colorPalette).catch(console.error);
     }
 
-    // Reload shader if color palette changed
-    if (newParams.colorPalette && newParams.colorPalette !== oldParams.colorPalette) {
+    // Switch between the float32 and emulated-double shaders
+    if (newParams.precision && newParams.precision !== oldParams.precision) {
+      this.loadShader(this.currentParams.colorPalette).catch(console.error);
+    }
+
+    // Switch between coloring algorithms and interior modes
+    if (newParams.coloring && newParams.coloring !== oldParams.coloring) {
       this.loadShader(this.currentParams.colorPalette).catch(console.error);
+    } else if (newParams.interior && newParams.interior.mode !== oldParams.interior?.mode) {
+      this.loadShader(this.currentParams.colorPalette).catch(console.error);
+    }
+
+    // Compile periodicity checking in or out of the iteration loop
+    if (newParams.periodicityCheck !== undefined && newParams.periodicityCheck !== oldParams.periodicityCheck) {
+      this.loadShader(this.currentParams.colorPalette).catch(console.error);
+    }
+    this.updateTrapImage(this.currentParams.orbitTrap?.image);
+
+    // Deep zoom views color in the perturbation shader's smooth coloring
+    if (newParams.deepZoom !== undefined && !!newParams.deepZoom !== !!oldParams.deepZoom) {
+      this.loadShader(this.currentParams.colorPalette).catch(console.error);
+    }
+
+    // The palette is a texture; the shaders do not depend on it
+    if (newParams.colorPalette && newParams.colorPalette !== oldParams.colorPalette) {
       this.updateColorPalette(this.currentParams.colorPalette).catch(console.error);
     }
 
     // Force immediate render when important parameters change
-    if (newParams.center || newParams.zoom || newParams.fractalType || newParams.maxIterations) {
+    if (newParams.center || newParams.zoom || newParams.fractalType || newParams.maxIterations ||
+        newParams.exponent || newParams.newton || newParams.parameters || newParams.coloring || newParams.orbitTrap ||
+        newParams.distanceEstimation || newParams.colorMapping || newParams.paletteTransform ||
+        newParams.interior || newParams.periodicityCheck !== undefined) {
       // Stop the render loop temporarily to avoid conflicts
       const wasRunning = this.animationId !== null;
       if (wasRunning) {
@@ -437,6 +1431,21 @@ export class FractalRenderer {
     }
   }
 
+  private needsNewReferenceOrbit(oldParams: FractalParams): boolean {
+    const orbit = this.referenceOrbit;
+    if (!orbit || !oldParams.deepZoom) return true;
+
+    const oldCenter = getPreciseCenter(oldParams);
+    const newCenter = getPreciseCenter(this.currentParams);
+
+    return orbit.fractalType !== this.currentParams.fractalType ||
+      oldParams.maxIterations !== this.currentParams.maxIterations ||
+      oldParams.escapeRadius !== this.currentParams.escapeRadius ||
+      oldParams.zoom !== this.currentParams.zoom ||
+      oldCenter.real !== newCenter.real ||
+      oldCenter.imag !== newCenter.imag;
+  }
+
   public resize(width: number, height: number): void {
     this.canvas.width = width;
     this.canvas.height = height;
@@ -492,6 +1501,33 @@ export class FractalRenderer {
     this.currentParams.center = this.viewport.center;
   }
 
+  /**
+   * Compile a fractal's shader without switching to it. Returns the compiler
+   * errors, or an empty array when the shader is valid.
+   */
+  public validateShader(fractalType: FractalType): string[] {
+    const result = this.contextManager.compileShader({
+      vertex: shaderSources.vertex,
+      fragment: this.getFragmentShaderForPreset(fractalType),
+      uniforms: {}
+    });
+
+    if (result.program) this.gl.deleteProgram(result.program);
+    if (result.vertexShader) this.gl.deleteShader(result.vertexShader);
+    if (result.fragmentShader) this.gl.deleteShader(result.fragmentShader);
+
+    return result.success ? [] : result.errors;
+  }
+
+  /**
+   * Rebuild the current shader, e.g. after a custom formula was redefined
+   */
+  public reloadShader(): void {
+    this.loadShader(this.currentParams.colorPalette)
+      .then(() => this.render())
+      .catch(console.error);
+  }
+
   public getParams(): FractalParams {
     return { ...this.currentParams };
   }
@@ -508,6 +1544,20 @@ export class FractalRenderer {
     if (this.vertexArray) this.gl.deleteVertexArray(this.vertexArray);
     if (this.paletteTexture) this.gl.deleteTexture(this.paletteTexture);
     if (this.shaderProgram) this.gl.deleteProgram(this.shaderProgram);
+    if (this.orbitTexture) this.gl.deleteTexture(this.orbitTexture);
+    if (this.trapTexture) this.gl.deleteTexture(this.trapTexture);
+    if (this.interiorPaletteTexture) this.gl.deleteTexture(this.interiorPaletteTexture);
+    if (this.colorizeProgram) this.gl.deleteProgram(this.colorizeProgram);
+    if (this.histogramProgram) this.gl.deleteProgram(this.histogramProgram);
+    if (this.earlyExitProgram) this.gl.deleteProgram(this.earlyExitProgram);
+    if (this.colorMapTexture) this.gl.deleteTexture(this.colorMapTexture);
+    this.deleteRenderTarget(this.iterationTarget);
+    this.deleteRenderTarget(this.resumeTarget);
+    this.deleteRenderTarget(this.histogramTarget);
+    this.deleteRenderTarget(this.earlyExitTarget);
+    if (this.perturbationProgram) this.gl.deleteProgram(this.perturbationProgram);
+    this.orbitClient.destroy();
+    this.isInitialized = false;
     
     this.contextManager.destroy();
   }
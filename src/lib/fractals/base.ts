@@ -1,11 +1,113 @@
 // Base fractal interface and types
-import { Complex, FractalParams } from '@/types/fractal';
+import { Complex, FractalParameterValue, FractalParams } from '@/types/fractal';
+
+/**
+ * GLSL snippets assembled into a fragment shader by the shader builder.
+ * Escape-time fractals provide `step` (and optionally `init`); anything else
+ * provides `evaluate` instead.
+ */
+export interface FractalShader {
+  // Helper functions and extra uniforms, placed before the iteration code
+  functions?: string;
+  // Declares `vec2 z` and `vec2 c` (and any extra state) from the pixel's `vec2 coord`.
+  // Defaults to z = 0, c = coord.
+  init?: string;
+  // Variables of init besides z whose values carry from step to step, such as
+  // a previous z. Progressive iteration keeps one vec2 between passes; fractals
+  // carrying more, or any at emulated double precision, iterate in one pass.
+  carry?: string[];
+  // One iteration updating `z`; the escape test runs before every step
+  step?: string;
+  // GLSL float expression for the degree of the iteration, which sets the log
+  // base of smooth coloring. Defaults to 2.
+  degree?: string;
+  // GLSL bool expression replacing the |z| > escapeRadius test; colors by the
+  // plain iteration count since smoothing assumes a modulus bailout
+  bailout?: string;
+  // Body of `float evaluate(vec2 coord)` returning a palette position in [0, 1]
+  evaluate?: string;
+  // Adjusts `vec3 color`, sampled from the palette at position `t`
+  color?: string;
+  // Derivative of z for distance estimation, by c for Mandelbrot-type sets and
+  // by the starting z for Julia-type sets. `init` declares `vec2 dz` (defaults
+  // to zero) and `step` updates it from `vec2 w`, the value of z before each step.
+  derivative?: {
+    init?: string;
+    step: string;
+  };
+  // Double-single versions of init and step on vec4 (re.hi, re.lo, im.hi, im.lo).
+  // Providing them enables the emulated-double precision tier.
+  emulated?: {
+    init?: string;
+    step: string;
+  };
+}
+
+interface FractalParameterBase {
+  // Key in FractalParams.parameters; the shader reads it as the uniform u_<name>
+  name: string;
+  label: string;
+  description?: string;
+}
+
+// uniform float
+export interface FloatParameter extends FractalParameterBase {
+  type: 'float';
+  min: number;
+  max: number;
+  step?: number;
+  default: number;
+}
+
+// uniform int
+export interface IntParameter extends FractalParameterBase {
+  type: 'int';
+  min: number;
+  max: number;
+  default: number;
+}
+
+// uniform vec2; both parts share the range
+export interface ComplexParameter extends FractalParameterBase {
+  type: 'complex';
+  min: number;
+  max: number;
+  step?: number;
+  default: Complex;
+}
+
+// uniform int holding the index of the selected option
+export interface ChoiceParameter extends FractalParameterBase {
+  type: 'choice';
+  options: Array<{ value: string; label: string }>;
+  default: string;
+}
+
+// uniform int u_<name>[maxLength] of indices into the (upper case) alphabet,
+// with the number of letters in uniform int u_<name>Length
+export interface SequenceParameter extends FractalParameterBase {
+  type: 'sequence';
+  alphabet: string;
+  maxLength: number;
+  default: string;
+}
+
+export type FractalParameter =
+  | FloatParameter
+  | IntParameter
+  | ComplexParameter
+  | ChoiceParameter
+  | SequenceParameter;
 
 export interface FractalDefinition {
   id: string;
   name: string;
   description: string;
-  formula: (z: Complex, c?: Complex, prev?: Complex) => Complex;
+  // CPU iteration; receives the previous iterate and the schema parameter values
+  formula: (z: Complex, c?: Complex, prev?: Complex, parameters?: Record<string, FractalParameterValue>) => Complex;
+  shader: FractalShader;
+  // Extra parameters shown in the controls and uploaded as uniforms
+  parameters?: FractalParameter[];
   defaultParams: Partial<FractalParams>;
   interestingLocations?: Array<{
     name: string;
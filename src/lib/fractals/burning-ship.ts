@@ -21,6 +21,26 @@ export class BurningShipFractal extends BaseFractal {
         imag: squareImag + (c?.imag || 0)
       };
     },
+    shader: {
+      // Burning ship is typically viewed with flipped y-axis
+      init: `
+        vec2 z = vec2(0.0);
+        vec2 c = vec2(coord.x, -coord.y);
+      `,
+      step: 'z = complexSquare(abs(z)) + c;',
+      color: `
+        // Fire-like animation
+        float flame = sin(u_time * 3.0 + t * 15.0) * 0.2 + 0.8;
+        color.r *= paletteWobble(flame) * 1.2;
+      `,
+      emulated: {
+        init: `
+          vec4 z = vec4(0.0);
+          vec4 c = vec4(coord.xy, -coord.zw);
+        `,
+        step: 'z = dcAdd(dcSquare(vec4(dsAbs(z.xy), dsAbs(z.zw))), c);'
+      }
+    },
     defaultParams: {
       fractalType: 'burning-ship',
       escapeRadius: 2,
@@ -16,6 +16,18 @@ export class CelticFractal extends BaseFractal {
         imag: z2Imag + (c?.imag || 0)
       };
     },
+    shader: {
+      step: `
+        vec2 z2 = complexSquare(z);
+        z = vec2(abs(z2.x), z2.y) + c;
+      `,
+      emulated: {
+        step: `
+          vec4 z2 = dcSquare(z);
+          z = dcAdd(vec4(dsAbs(z2.xy), z2.zw), c);
+        `
+      }
+    },
     defaultParams: {
       fractalType: 'celtic',
       escapeRadius: 2,
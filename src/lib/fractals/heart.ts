@@ -6,18 +6,25 @@ export class HeartFractal extends BaseFractal {
   readonly definition: FractalDefinition = {
     id: 'heart',
     name: 'Heart Fractal',
-    description: 'Heart-shaped fractal: z_{n+1} = z_n² * |z_n| + c',
+    description: 'Heart-shaped fractal: z_{n+1} = (Re(z_n) + i(√|Re(z_n)| - Im(z_n)))² + c',
     formula: (z: Complex, c?: Complex): Complex => {
-      // Heart fractal: z_{n+1} = z_n² * |z_n| + c
-      const magnitude = Math.sqrt(z.real * z.real + z.imag * z.imag);
-      const z2Real = z.real * z.real - z.imag * z.imag;
-      const z2Imag = 2 * z.real * z.imag;
+      // Heart curve transformation x' = x, y' = sqrt(|x|) - y, then square and add c
+      const x = z.real;
+      const y = Math.sqrt(Math.abs(z.real)) - z.imag;
       
       return {
-        real: z2Real * magnitude + (c?.real || 0),
-        imag: z2Imag * magnitude + (c?.imag || 0)
+        real: x * x - y * y + (c?.real || 0),
+        imag: 2 * x * y + (c?.imag || 0)
       };
     },
+    shader: {
+      step: 'z = complexSquare(vec2(z.x, sqrt(abs(z.x)) - z.y)) + c;',
+      color: `
+        // Heart gets a romantic red tint
+        color.r *= 1.3;
+        color.g *= 0.9;
+      `
+    },
     defaultParams: {
       fractalType: 'heart',
       escapeRadius: 4,
@@ -2,6 +2,9 @@
 import { Complex } from '@/types/fractal';
 import { BaseFractal, FractalDefinition } from './base';
 
+// Constant used when the parameters carry none
+export const DEFAULT_JULIA_CONSTANT: Complex = { real: -0.7269, imag: 0.1889 };
+
 export class JuliaFractal extends BaseFractal {
   readonly definition: FractalDefinition = {
     id: 'julia',
@@ -9,18 +12,37 @@ export class JuliaFractal extends BaseFractal {
     description: 'Julia set: z² + c (where c is constant)',
     formula: (z: Complex, c?: Complex): Complex => {
       // z² + constant (Julia set uses a fixed constant)
-      const constant = c || { real: -0.7269, imag: 0.1889 }; // Default beautiful Julia constant
+      const constant = c || DEFAULT_JULIA_CONSTANT;
       const newReal = z.real * z.real - z.imag * z.imag + constant.real;
       const newImag = 2 * z.real * z.imag + constant.imag;
       return { real: newReal, imag: newImag };
     },
+    shader: {
+      init: `
+        vec2 z = coord;
+        vec2 c = u_juliaConstant;
+      `,
+      step: 'z = complexSquare(z) + c;',
+      color: 'color *= paletteWobble(cos(u_time * 1.5 + t * 8.0) * 0.15 + 0.85);',
+      derivative: {
+        init: 'vec2 dz = vec2(1.0, 0.0);',
+        step: 'dz = 2.0 * complexMul(w, dz);'
+      },
+      emulated: {
+        init: `
+          vec4 z = coord;
+          vec4 c = vec4(u_juliaConstant.x, 0.0, u_juliaConstant.y, 0.0);
+        `,
+        step: 'z = dcAdd(dcSquare(z), c);'
+      }
+    },
     defaultParams: {
       fractalType: 'julia',
       escapeRadius: 2,
       maxIterations: 100,
       center: { real: 0.0, imag: 0.0 },
       zoom: 4.0,
-      juliaConstant: { real: -0.7269, imag: 0.1889 },
+      juliaConstant: DEFAULT_JULIA_CONSTANT,
       colorPalette: 'plasma',
       precision: 'highp'
     },
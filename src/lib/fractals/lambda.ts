@@ -2,6 +2,9 @@
 import { Complex } from '@/types/fractal';
 import { BaseFractal, FractalDefinition } from './base';
 
+// λ whose dynamic plane shows the Douady rabbit
+export const DEFAULT_LAMBDA: Complex = { real: 2.5532, imag: -0.9593 };
+
 export class LambdaFractal extends BaseFractal {
   readonly definition: FractalDefinition = {
     id: 'lambda',
@@ -28,6 +31,46 @@ export class LambdaFractal extends BaseFractal {
         imag: lambda.real * temp.imag + lambda.imag * temp.real
       };
     },
+    shader: {
+      // The parameter plane varies λ from the critical point z = 0.5; the
+      // dynamic plane fixes λ and varies the starting point
+      init: `
+        bool dynamicPlane = u_plane == 1;
+        vec2 z = dynamicPlane ? coord : vec2(0.5, 0.0);
+        vec2 c = dynamicPlane ? u_lambda : coord; // λ
+      `,
+      step: 'z = complexMul(c, complexMul(z, vec2(1.0 - z.x, -z.y)));',
+      emulated: {
+        init: `
+          bool dynamicPlane = u_plane == 1;
+          vec4 z = dynamicPlane ? coord : vec4(0.5, 0.0, 0.0, 0.0);
+          vec4 c = dynamicPlane ? vec4(u_lambda.x, 0.0, u_lambda.y, 0.0) : coord;
+        `,
+        step: 'z = dcMul(c, dcMul(z, vec4(dsAdd(vec2(1.0, 0.0), -z.xy), -z.zw)));'
+      }
+    },
+    parameters: [
+      {
+        type: 'choice',
+        name: 'plane',
+        label: 'Plane',
+        options: [
+          { value: 'parameter', label: 'Parameter plane (pixel = λ)' },
+          { value: 'dynamic', label: 'Dynamic plane (pixel = z₀)' }
+        ],
+        default: 'parameter'
+      },
+      {
+        type: 'complex',
+        name: 'lambda',
+        label: 'λ',
+        description: 'Used in the dynamic plane',
+        min: -4,
+        max: 4,
+        step: 0.001,
+        default: DEFAULT_LAMBDA
+      }
+    ],
     defaultParams: {
       fractalType: 'lambda',
       escapeRadius: 2,
@@ -49,6 +92,15 @@ export class LambdaFractal extends BaseFractal {
         center: { real: 1.0, imag: 0.0 },
         zoom: 10.0,
         description: 'Critical bifurcation region'
+      },
+      {
+        name: 'Douady Rabbit',
+        center: { real: 0.5, imag: 0.0 },
+        zoom: 0.6,
+        description: 'Dynamic plane of a λ conjugate to the rabbit Julia set',
+        params: {
+          parameters: { plane: 'dynamic', lambda: DEFAULT_LAMBDA }
+        }
       }
     ]
   };
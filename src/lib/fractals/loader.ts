@@ -14,6 +14,7 @@ import { PhoenixFractal } from './phoenix';
 import { LambdaFractal } from './lambda';
 import { PerpendicularFractal } from './perpendicular';
 import { HeartFractal } from './heart';
+import { MultibrotFractal } from './multibrot';
 
 // Registry of all available fractals
 const fractalRegistry = new Map<FractalType, () => BaseFractal>([
@@ -28,6 +29,7 @@ const fractalRegistry = new Map<FractalType, () => BaseFractal>([
   ['lambda', () => new LambdaFractal()],
   ['perpendicular', () => new PerpendicularFractal()],
   ['heart', () => new HeartFractal()],
+  ['multibrot', () => new MultibrotFractal()],
 ]);
 
 export class FractalLoader {
@@ -53,6 +55,22 @@ export class FractalLoader {
     return instance;
   }
 
+  /**
+   * Add a fractal type at runtime, replacing any fractal with the same type
+   */
+  static register(type: FractalType, factory: () => BaseFractal) {
+    fractalRegistry.set(type, factory);
+    this.instances.delete(type);
+  }
+
+  /**
+   * Remove a fractal type added with register()
+   */
+  static unregister(type: FractalType) {
+    fractalRegistry.delete(type);
+    this.instances.delete(type);
+  }
+
   /**
    * Get all available fractal types
    */
@@ -2,22 +2,184 @@
 import { Complex } from '@/types/fractal';
 import { BaseFractal, FractalDefinition } from './base';
 
+// Order in which the rate r takes the A (x), B (y) and C coordinates
+export const DEFAULT_LYAPUNOV_SEQUENCE = 'AB';
+export const MAX_LYAPUNOV_SEQUENCE_LENGTH = 32;
+export const DEFAULT_LYAPUNOV_WARMUP = 50;
+export const MAX_LYAPUNOV_WARMUP = 1000;
+
+// Rate for C in the plane view
+export const DEFAULT_LYAPUNOV_C = 3.4;
+
+// Exponent of orbits whose rate or x leaves the logistic map's range, as lyapunovExponent returns
+export const LYAPUNOV_DIVERGENCE = -1e4;
+
+// Samples along each ray through the volume, and the iterations per sample
+const VOLUME_STEPS = 64;
+const VOLUME_ITERATIONS = 100;
+
+const LYAPUNOV_FUNCTIONS = `
+// Darkens the color with the depth of the volume hit; 1.0 in the plane view
+float lyapunovShade = 1.0;
+
+// Lyapunov exponent of the logistic map with the rate taken from abc in the
+// order of the sequence, after u_warmup steps that settle x on its attractor
+float lyapunovExponent(vec3 abc, int iterations) {
+    float x = 0.5;
+
+    for (int i = 0; i < ${MAX_LYAPUNOV_WARMUP}; i++) {
+        if (i >= u_warmup) break;
+        x = abc[u_sequence[i % u_sequenceLength]] * x * (1.0 - x);
+    }
+
+    float lyapunov = 0.0;
+    for (int i = 0; i < iterations; i++) {
+        float r = abc[u_sequence[(u_warmup + i) % u_sequenceLength]];
+        if (r <= 0.0 || r >= 4.0 || x <= 0.0 || x >= 1.0) {
+            return -1e4; // Divergent
+        }
+
+        lyapunov += log(abs(r * (1.0 - 2.0 * x)));
+        x = r * x * (1.0 - x);
+    }
+
+    return lyapunov / float(iterations);
+}
+
+// March a ray through the cube [0, 4]^3 from a camera orbiting its center and
+// stop at the first stable point, where the exponent is negative
+float lyapunovVolume(vec2 coord) {
+    // Offset on the screen plane; zooming in narrows the field of view
+    vec2 screen = coord - u_center;
+    float yaw = radians(u_yaw);
+    float pitch = radians(u_pitch);
+
+    vec3 forward = -vec3(cos(pitch) * sin(yaw), sin(pitch), cos(pitch) * cos(yaw));
+    vec3 right = normalize(cross(forward, vec3(0.0, 1.0, 0.0)));
+    vec3 up = cross(right, forward);
+    vec3 eye = vec3(2.0) - forward * 8.0;
+    vec3 dir = normalize(forward + screen.x * right + screen.y * up);
+    dir = mix(dir, vec3(1e-6), vec3(equal(dir, vec3(0.0))));
+
+    // Slab intersection with the cube
+    vec3 t0 = (vec3(0.0) - eye) / dir;
+    vec3 t1 = (vec3(4.0) - eye) / dir;
+    vec3 tNear = min(t0, t1);
+    vec3 tFar = max(t0, t1);
+    float near = max(max(tNear.x, tNear.y), tNear.z);
+    float far = min(min(tFar.x, tFar.y), tFar.z);
+
+    lyapunovShade = 0.0;
+    if (near > far || far < 0.0) return 0.0;
+
+    float stepSize = (far - near) / ${VOLUME_STEPS}.0;
+    int iterations = min(u_maxIterations, ${VOLUME_ITERATIONS});
+    for (int s = 0; s < ${VOLUME_STEPS}; s++) {
+        vec3 abc = eye + dir * (near + (float(s) + 0.5) * stepSize);
+        float lyapunov = lyapunovExponent(abc, iterations);
+        if (lyapunov < 0.0 && lyapunov > -1e4) {
+            lyapunovShade = 1.0 - 0.8 * float(s) / ${VOLUME_STEPS}.0;
+            return clamp((lyapunov + 2.0) / 4.0, 0.0, 1.0);
+        }
+    }
+
+    return 0.0;
+}
+`;
+
 export class LyapunovFractal extends BaseFractal {
   readonly definition: FractalDefinition = {
     id: 'lyapunov',
     name: 'Lyapunov Fractal',
     description: 'Lyapunov fractal using logistic map with chaos dynamics',
-    formula: (z: Complex): Complex => {
-      // Lyapunov fractal is based on the logistic map
-      // This is more complex and handled in the shader
-      return z; // Placeholder - actual computation in shader
+    formula: (z: Complex, c?: Complex): Complex => {
+      // One step of the logistic map x_{n+1} = r * x_n * (1 - x_n) on z.real,
+      // with the rate r in c.real. The shader takes r from the coordinates
+      // (a, b) of the pixel following the sequence and averages log|r(1 - 2x)|.
+      const r = c?.real || 0;
+      return { real: r * z.real * (1 - z.real), imag: 0 };
     },
+    shader: {
+      functions: LYAPUNOV_FUNCTIONS,
+      evaluate: `
+        if (u_view == 1) return lyapunovVolume(coord);
+
+        // The pixel is (a, b) in parameter space
+        float lyapunov = lyapunovExponent(vec3(coord, u_cRate), u_maxIterations);
+
+        // Normalize the exponent to [0, 1] for the palette
+        return clamp((lyapunov + 2.0) / 4.0, 0.0, 1.0);
+      `,
+      color: `
+        // Subtle oscillation
+        color *= paletteWobble(sin(u_time + t * 6.28) * 0.1 + 0.9);
+        color *= lyapunovShade;
+      `
+    },
+    parameters: [
+      {
+        type: 'sequence',
+        name: 'sequence',
+        label: 'Sequence',
+        description: 'Each letter takes the rate from a (real axis), b (imaginary axis) or C',
+        alphabet: 'ABC',
+        maxLength: MAX_LYAPUNOV_SEQUENCE_LENGTH,
+        default: DEFAULT_LYAPUNOV_SEQUENCE
+      },
+      {
+        type: 'int',
+        name: 'warmup',
+        label: 'Warm-up Iterations',
+        description: 'Steps skipped before the exponent is averaged',
+        min: 0,
+        max: MAX_LYAPUNOV_WARMUP,
+        default: DEFAULT_LYAPUNOV_WARMUP
+      },
+      {
+        type: 'choice',
+        name: 'view',
+        label: 'View',
+        options: [
+          { value: 'plane', label: 'Plane (a, b)' },
+          { value: 'volume', label: 'Volume (a, b, c)' }
+        ],
+        default: 'plane'
+      },
+      {
+        type: 'float',
+        name: 'cRate',
+        label: 'C Rate',
+        description: 'Rate used for C in the plane view',
+        min: 0,
+        max: 4,
+        step: 0.001,
+        default: DEFAULT_LYAPUNOV_C
+      },
+      {
+        type: 'float',
+        name: 'yaw',
+        label: 'Volume Yaw',
+        min: -180,
+        max: 180,
+        step: 1,
+        default: 35
+      },
+      {
+        type: 'float',
+        name: 'pitch',
+        label: 'Volume Pitch',
+        min: -89,
+        max: 89,
+        step: 1,
+        default: 25
+      }
+    ],
     defaultParams: {
       fractalType: 'lyapunov',
       escapeRadius: 4.0,
       maxIterations: 500,
       center: { real: 2.0, imag: 2.0 }, // Center in parameter space [0,4] x [0,4]
-      zoom: 1.0,
+      zoom: 0.25,
       colorPalette: 'magma',
       precision: 'highp'
     },
@@ -25,7 +187,7 @@ export class LyapunovFractal extends BaseFractal {
       {
         name: 'Classic View',
         center: { real: 2.0, imag: 2.0 },
-        zoom: 1.0,
+        zoom: 0.25,
         description: 'Full view of Lyapunov parameter space'
       },
       {
@@ -45,6 +207,34 @@ export class LyapunovFractal extends BaseFractal {
         center: { real: 3.83, imag: 3.83 },
         zoom: 20.0,
         description: 'Period-3 window in chaos'
+      },
+      {
+        name: 'Zircon Zity',
+        center: { real: 2.95, imag: 3.7 },
+        zoom: 1.6,
+        description: 'The BBBBBBAAAAAA sequence',
+        params: {
+          parameters: { sequence: 'BBBBBBAAAAAA' }
+        }
+      },
+      {
+        name: 'Swallow',
+        center: { real: 3.0, imag: 3.0 },
+        zoom: 0.5,
+        description: 'The AABAB sequence',
+        params: {
+          parameters: { sequence: 'AABAB' }
+        }
+      },
+      {
+        name: 'Volume',
+        center: { real: 2.0, imag: 2.0 },
+        zoom: 1.0,
+        description: 'Stable regions of the ABC sequence in the cube [0, 4]³',
+        params: {
+          maxIterations: 100,
+          parameters: { sequence: 'ABC', view: 'volume' }
+        }
       }
     ]
   };
@@ -13,6 +13,16 @@ export class MandelbrotFractal extends BaseFractal {
       const newImag = 2 * z.real * z.imag + (c?.imag || 0);
       return { real: newReal, imag: newImag };
     },
+    shader: {
+      step: 'z = complexSquare(z) + c;',
+      color: 'color *= paletteWobble(sin(u_time * 2.0 + t * 10.0) * 0.1 + 0.9);',
+      derivative: {
+        step: 'dz = 2.0 * complexMul(w, dz) + vec2(1.0, 0.0);'
+      },
+      emulated: {
+        step: 'z = dcAdd(dcSquare(z), c);'
+      }
+    },
     defaultParams: {
       fractalType: 'mandelbrot',
       escapeRadius: 2,
@@ -0,0 +1,85 @@
+// Multibrot Family
+import { Complex } from '@/types/fractal';
+import { BaseFractal, FractalDefinition } from './base';
+
+export const DEFAULT_MULTIBROT_EXPONENT = 3;
+export const MIN_MULTIBROT_EXPONENT = 1.1;
+export const MAX_MULTIBROT_EXPONENT = 16;
+
+/**
+ * z^d for a real exponent d, in polar form (principal branch)
+ */
+export function complexPowReal(z: Complex, exponent: number): Complex {
+  if (z.real === 0 && z.imag === 0) return { real: 0, imag: 0 };
+
+  const magnitude = Math.pow(z.real * z.real + z.imag * z.imag, exponent / 2);
+  const angle = Math.atan2(z.imag, z.real) * exponent;
+  return { real: magnitude * Math.cos(angle), imag: magnitude * Math.sin(angle) };
+}
+
+export class MultibrotFractal extends BaseFractal {
+  readonly definition: FractalDefinition = {
+    id: 'multibrot',
+    name: 'Multibrot Set',
+    description: 'Multibrot set: z^d + c for a real exponent d',
+    formula: (z: Complex, c?: Complex): Complex => {
+      // z^d + c with the default exponent; the renderers read params.exponent
+      const power = complexPowReal(z, DEFAULT_MULTIBROT_EXPONENT);
+      return { real: power.real + (c?.real || 0), imag: power.imag + (c?.imag || 0) };
+    },
+    shader: {
+      step: 'z = complexPowReal(z, u_exponent) + c;',
+      degree: 'u_exponent',
+      derivative: {
+        step: 'dz = u_exponent * complexMul(complexPowReal(w, u_exponent - 1.0), dz) + vec2(1.0, 0.0);'
+      }
+    },
+    defaultParams: {
+      fractalType: 'multibrot',
+      escapeRadius: 2,
+      maxIterations: 100,
+      center: { real: 0.0, imag: 0.0 },
+      zoom: 0.35,
+      exponent: DEFAULT_MULTIBROT_EXPONENT,
+      colorPalette: 'plasma',
+      precision: 'highp'
+    },
+    interestingLocations: [
+      {
+        name: 'Power 3',
+        center: { real: 0.0, imag: 0.0 },
+        zoom: 0.35,
+        description: 'Cubic Multibrot with two-fold symmetry',
+        params: { exponent: 3 }
+      },
+      {
+        name: 'Power 4',
+        center: { real: 0.0, imag: 0.0 },
+        zoom: 0.35,
+        description: 'Quartic Multibrot with three-fold symmetry',
+        params: { exponent: 4 }
+      },
+      {
+        name: 'Power 8',
+        center: { real: 0.0, imag: 0.0 },
+        zoom: 0.4,
+        description: 'Seven-fold symmetry approaching a disk',
+        params: { exponent: 8 }
+      },
+      {
+        name: 'Fractional Power 2.5',
+        center: { real: -0.2, imag: 0.0 },
+        zoom: 0.35,
+        description: 'Non-integer exponent with a cut along the negative real axis',
+        params: { exponent: 2.5 }
+      },
+      {
+        name: 'Cubic Spiral',
+        center: { real: -0.2, imag: 1.05 },
+        zoom: 20.0,
+        description: 'Spiral detail on the cubic Multibrot boundary',
+        params: { exponent: 3, maxIterations: 500 }
+      }
+    ]
+  };
+}
@@ -1,44 +1,164 @@
 // Newton Fractal
-import { Complex } from '@/types/fractal';
+import { Complex, NewtonParams } from '@/types/fractal';
 import { BaseFractal, FractalDefinition } from './base';
+import { MAX_POLYNOMIAL_DEGREE, evaluatePolynomial } from './polynomial';
+
+// z³ - 1
+export const DEFAULT_NEWTON_PARAMS: NewtonParams = {
+  coefficients: [
+    { real: -1, imag: 0 },
+    { real: 0, imag: 0 },
+    { real: 0, imag: 0 },
+    { real: 1, imag: 0 }
+  ],
+  variant: 'newton',
+  relaxation: 1
+};
+
+export const MIN_NEWTON_RELAXATION = 0.1;
+export const MAX_NEWTON_RELAXATION = 2;
+
+/**
+ * The evaluate snippet on the CPU: (basin + speed) / degree for Newton and
+ * speed for Nova, or 1 when the point does not converge. `roots` are the
+ * polynomial's roots in the order of the basins.
+ */
+export function iterateNewton(coord: Complex, newton: NewtonParams, roots: Complex[], maxIterations: number): number {
+  const nova = newton.variant === 'nova';
+  const degree = newton.coefficients.length - 1;
+  let z: Complex = nova ? { real: 1, imag: 0 } : coord;
+  const c: Complex = nova ? coord : { real: 0, imag: 0 };
+
+  for (let i = 0; i < maxIterations; i++) {
+    const { value, derivative } = evaluatePolynomial(newton.coefficients, z);
+    const denomMagnitude = derivative.real * derivative.real + derivative.imag * derivative.imag;
+    if (denomMagnitude < 1e-12) break;
+
+    // c - relaxation * p(z) / p'(z)
+    const stepReal = c.real - newton.relaxation *
+      (value.real * derivative.real + value.imag * derivative.imag) / denomMagnitude;
+    const stepImag = c.imag - newton.relaxation *
+      (value.imag * derivative.real - value.real * derivative.imag) / denomMagnitude;
+    z = { real: z.real + stepReal, imag: z.imag + stepImag };
+
+    if (Math.hypot(stepReal, stepImag) < 0.0001) {
+      const speed = Math.min(i / maxIterations, 0.999);
+      if (nova) return speed;
+
+      let basin = 0;
+      let nearest = Infinity;
+      roots.forEach((root, k) => {
+        const dist = Math.hypot(z.real - root.real, z.imag - root.imag);
+        if (dist < nearest) {
+          nearest = dist;
+          basin = k;
+        }
+      });
+      return (basin + speed) / degree;
+    }
+  }
+
+  return 1;
+}
+
+const NEWTON_UNIFORMS = `
+uniform vec2 u_coefficients[${MAX_POLYNOMIAL_DEGREE + 1}]; // Lowest degree first
+uniform int u_degree;
+uniform vec2 u_roots[${MAX_POLYNOMIAL_DEGREE}];
+uniform float u_relaxation;
+uniform int u_newtonVariant; // 0: Newton, 1: Nova
+
+// p(z), with p'(z) in derivative, by Horner's scheme
+vec2 evaluatePolynomial(vec2 z, out vec2 derivative) {
+    vec2 value = u_coefficients[u_degree];
+    derivative = vec2(0.0);
+    for (int k = ${MAX_POLYNOMIAL_DEGREE - 1}; k >= 0; k--) {
+        if (k >= u_degree) continue;
+        derivative = complexMul(derivative, z) + value;
+        value = complexMul(value, z) + u_coefficients[k];
+    }
+    return value;
+}
+
+vec3 hsv2rgb(vec3 c) {
+    vec3 p = abs(fract(c.xxx + vec3(1.0, 2.0 / 3.0, 1.0 / 3.0)) * 6.0 - 3.0);
+    return c.z * mix(vec3(1.0), clamp(p - 1.0, 0.0, 1.0), c.y);
+}
+`;
 
 export class NewtonFractal extends BaseFractal {
   readonly definition: FractalDefinition = {
     id: 'newton',
     name: 'Newton Fractal',
-    description: 'Newton fractal for z³ - 1 = 0',
+    description: 'Newton\'s method on a polynomial, colored by the root each point converges to',
     formula: (z: Complex): Complex => {
-      // Newton fractal for z³ - 1 = 0
-      // z_{n+1} = z_n - (z_n³ - 1) / (3z_n²)
-      const z3Real = z.real * z.real * z.real - 3 * z.real * z.imag * z.imag;
-      const z3Imag = 3 * z.real * z.real * z.imag - z.imag * z.imag * z.imag;
-      
-      const numeratorReal = z3Real - 1;
-      const numeratorImag = z3Imag;
-      
-      const z2Real = z.real * z.real - z.imag * z.imag;
-      const z2Imag = 2 * z.real * z.imag;
-      const denominatorReal = 3 * z2Real;
-      const denominatorImag = 3 * z2Imag;
-      
-      // Complex division: (a + bi) / (c + di) = ((ac + bd) + (bc - ad)i) / (c² + d²)
-      const denomMagnitude = denominatorReal * denominatorReal + denominatorImag * denominatorImag;
+      // z - p(z) / p'(z) for the default polynomial z³ - 1
+      const { value, derivative } = evaluatePolynomial(DEFAULT_NEWTON_PARAMS.coefficients, z);
+      const denomMagnitude = derivative.real * derivative.real + derivative.imag * derivative.imag;
       if (denomMagnitude < 1e-10) return z; // Avoid division by zero
-      
-      const divisionReal = (numeratorReal * denominatorReal + numeratorImag * denominatorImag) / denomMagnitude;
-      const divisionImag = (numeratorImag * denominatorReal - numeratorReal * denominatorImag) / denomMagnitude;
-      
+
       return {
-        real: z.real - divisionReal,
-        imag: z.imag - divisionImag
+        real: z.real - (value.real * derivative.real + value.imag * derivative.imag) / denomMagnitude,
+        imag: z.imag - (value.imag * derivative.real - value.real * derivative.imag) / denomMagnitude
       };
     },
+    shader: {
+      functions: NEWTON_UNIFORMS,
+      // Returns (basin + speed) / degree for Newton and speed for Nova, or 1.0
+      // when the point does not converge
+      evaluate: `
+        bool nova = u_newtonVariant == 1;
+        vec2 z = nova ? vec2(1.0, 0.0) : coord;
+        vec2 c = nova ? coord : vec2(0.0);
+
+        for (int i = 0; i < u_maxIterations; i++) {
+            vec2 fp;
+            vec2 f = evaluatePolynomial(z, fp);
+            if (dot(fp, fp) < 1e-12) break;
+
+            vec2 step = c - u_relaxation * complexDiv(f, fp);
+            z += step;
+
+            if (length(step) < 0.0001) {
+                float speed = min(float(i) / float(u_maxIterations), 0.999);
+                if (nova) return speed;
+
+                // Basin of the nearest root
+                int basin = 0;
+                float nearest = 1e20;
+                for (int k = 0; k < ${MAX_POLYNOMIAL_DEGREE}; k++) {
+                    if (k >= u_degree) break;
+                    float dist = length(z - u_roots[k]);
+                    if (dist < nearest) {
+                        nearest = dist;
+                        basin = k;
+                    }
+                }
+                return (float(basin) + speed) / float(u_degree);
+            }
+        }
+
+        return 1.0;
+      `,
+      // A hue per basin, darkening with the iterations needed to converge
+      color: `
+        if (t >= 1.0) {
+            color = vec3(0.0);
+        } else if (u_newtonVariant == 0) {
+            float scaled = t * float(u_degree);
+            float basin = floor(scaled);
+            float speed = scaled - basin;
+            color = hsv2rgb(vec3(basin / float(u_degree), 0.7, 1.0 - 0.85 * sqrt(speed)));
+        }
+      `
+    },
     defaultParams: {
       fractalType: 'newton',
       escapeRadius: 2,
       maxIterations: 50,
       center: { real: 0.0, imag: 0.0 },
       zoom: 3.0,
+      newton: DEFAULT_NEWTON_PARAMS,
       colorPalette: 'turbo',
       precision: 'highp'
     },
@@ -54,6 +174,42 @@ export class NewtonFractal extends BaseFractal {
         center: { real: 0.0, imag: 0.0 },
         zoom: 10.0,
         description: 'Intricate Julia-like boundaries'
+      },
+      {
+        name: 'Octic Star',
+        center: { real: 0.0, imag: 0.0 },
+        zoom: 0.5,
+        description: 'Eight basins of z⁸ - 1 = 0',
+        params: {
+          newton: {
+            ...DEFAULT_NEWTON_PARAMS,
+            coefficients: [
+              { real: -1, imag: 0 },
+              ...Array.from({ length: 7 }, () => ({ real: 0, imag: 0 })),
+              { real: 1, imag: 0 }
+            ]
+          }
+        }
+      },
+      {
+        name: 'Relaxed Cubic',
+        center: { real: 0.0, imag: 0.0 },
+        zoom: 0.5,
+        description: 'Relaxation 0.5 damps each Newton step and smooths the basins',
+        params: {
+          maxIterations: 100,
+          newton: { ...DEFAULT_NEWTON_PARAMS, relaxation: 0.5 }
+        }
+      },
+      {
+        name: 'Nova',
+        center: { real: -0.45, imag: 0.0 },
+        zoom: 1.0,
+        description: 'Nova fractal: z - f(z)/f\'(z) + c starting from z = 1',
+        params: {
+          maxIterations: 100,
+          newton: { ...DEFAULT_NEWTON_PARAMS, variant: 'nova' }
+        }
       }
     ]
   };
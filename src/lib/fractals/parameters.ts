@@ -0,0 +1,100 @@
+// Fractal-specific parameters declared in a FractalDefinition's schema
+import { FractalParameterValue, isValidComplex } from '@/types/fractal';
+import { FractalParameter, SequenceParameter } from './base';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Name of the uniform holding a parameter's value
+ */
+export function getParameterUniform(parameter: FractalParameter): string {
+  return `u_${parameter.name}`;
+}
+
+/**
+ * A valid value for the parameter, clamped to its range, or its default
+ */
+export function validateParameterValue(parameter: FractalParameter, value: unknown): FractalParameterValue {
+  switch (parameter.type) {
+    case 'float':
+      return typeof value === 'number' && isFinite(value)
+        ? clamp(value, parameter.min, parameter.max)
+        : parameter.default;
+
+    case 'int':
+      return typeof value === 'number' && isFinite(value)
+        ? clamp(Math.round(value), parameter.min, parameter.max)
+        : parameter.default;
+
+    case 'complex':
+      return isValidComplex(value) && isFinite(value.real) && isFinite(value.imag)
+        ? { real: clamp(value.real, parameter.min, parameter.max), imag: clamp(value.imag, parameter.min, parameter.max) }
+        : parameter.default;
+
+    case 'choice':
+      return parameter.options.some(option => option.value === value) ? value as string : parameter.default;
+
+    case 'sequence': {
+      if (typeof value !== 'string') return parameter.default;
+      const letters = value
+        .toUpperCase()
+        .split('')
+        .filter(letter => parameter.alphabet.includes(letter))
+        .slice(0, parameter.maxLength)
+        .join('');
+      return letters || parameter.default;
+    }
+  }
+}
+
+/**
+ * Values for every parameter of the schema, keyed by name. Missing or invalid
+ * values take the default and names outside the schema are dropped.
+ */
+export function validateParameterValues(
+  schema: FractalParameter[],
+  values: Record<string, unknown> = {}
+): Record<string, FractalParameterValue> {
+  const validated: Record<string, FractalParameterValue> = {};
+  for (const parameter of schema) {
+    validated[parameter.name] = validateParameterValue(parameter, values[parameter.name]);
+  }
+  return validated;
+}
+
+/**
+ * Letters of a sequence as indices into the parameter's alphabet
+ */
+export function encodeSequence(parameter: SequenceParameter, sequence: string): number[] {
+  return sequence.split('').map(letter => parameter.alphabet.indexOf(letter));
+}
+
+/**
+ * GLSL uniform declarations for a schema
+ */
+export function getParameterUniformDeclarations(schema: FractalParameter[]): string {
+  return schema.map(parameter => {
+    const uniform = getParameterUniform(parameter);
+    switch (parameter.type) {
+      case 'float':
+        return `uniform float ${uniform};`;
+      case 'complex':
+        return `uniform vec2 ${uniform};`;
+      case 'int':
+      case 'choice':
+        return `uniform int ${uniform};`;
+      case 'sequence':
+        return `uniform int ${uniform}[${parameter.maxLength}];\nuniform int ${uniform}Length;`;
+    }
+  }).join('\n');
+}
+
+/**
+ * Names of the uniforms declared for a schema
+ */
+export function getParameterUniformNames(schema: FractalParameter[]): string[] {
+  return schema.flatMap(parameter => {
+    const uniform = getParameterUniform(parameter);
+    return parameter.type === 'sequence' ? [uniform, `${uniform}Length`] : [uniform];
+  });
+}
@@ -0,0 +1,92 @@
+// Periodicity checking: an orbit that comes back to a point it passed is caught
+// in a cycle and never escapes, so interior points can stop iterating early
+import { Complex } from '@/types/fractal';
+
+// Largest tolerance of the comparison, in the units of z
+export const MAX_PERIODICITY_EPSILON = 1e-5;
+
+/**
+ * Tolerance for a view: a hundredth of a pixel at most, so that orbits
+ * slowly leaving the boundary are not mistaken for cycles
+ */
+export function getPeriodicityEpsilon(zoom: number, height: number): number {
+  return Math.min(MAX_PERIODICITY_EPSILON, 0.01 / (zoom * Math.max(height, 1)));
+}
+
+/**
+ * Brent's cycle detection for the shader builder: updateCycle compares each
+ * orbit point with one saved at doubling intervals and sets cyclePeriod once
+ * the orbit returns to it.
+ */
+export const PERIODICITY_FUNCTIONS = `
+uniform float u_cycleEpsilon;
+
+vec2 cycleSaved = vec2(1e20);
+int cyclePower = 1;
+int cycleSteps = 0;
+int cyclePeriod = 0;
+
+void updateCycle(vec2 w) {
+    if (cyclePeriod > 0) return;
+    cycleSteps++;
+    if (distance(w, cycleSaved) < u_cycleEpsilon) {
+        cyclePeriod = cycleSteps;
+    } else if (cycleSteps == cyclePower) {
+        cycleSaved = w;
+        cyclePower *= 2;
+        cycleSteps = 0;
+    }
+}
+`;
+
+/**
+ * Draws one point per pixel of the iteration state into a single texel for
+ * each orbit stopped in a cycle; additive blending counts them
+ */
+export const EARLY_EXIT_VERTEX_SHADER = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_iterations;
+
+void main() {
+    int width = textureSize(u_iterations, 0).x;
+    vec4 state = texelFetch(u_iterations, ivec2(gl_VertexID % width, gl_VertexID / width), 0);
+    gl_PointSize = 1.0;
+    gl_Position = state.b > 0.5 ? vec4(0.0, 0.0, 0.0, 1.0) : vec4(2.0, 2.0, 0.0, 1.0);
+}`;
+
+/**
+ * The same detection for the CPU iteration, reset before each orbit
+ */
+export class PeriodicityChecker {
+  period = 0; // Length of the detected cycle, 0 until one is found
+  private saved: Complex = { real: Infinity, imag: Infinity };
+  private power = 1;
+  private steps = 0;
+
+  constructor(private epsilon: number) {}
+
+  reset(): void {
+    this.period = 0;
+    this.saved = { real: Infinity, imag: Infinity };
+    this.power = 1;
+    this.steps = 0;
+  }
+
+  // Whether the orbit has come back to the saved point with z
+  check(z: Complex): boolean {
+    this.steps++;
+    const dx = z.real - this.saved.real;
+    const dy = z.imag - this.saved.imag;
+    if (dx * dx + dy * dy < this.epsilon * this.epsilon) {
+      this.period = this.steps;
+      return true;
+    }
+    if (this.steps === this.power) {
+      this.saved = z;
+      this.power *= 2;
+      this.steps = 0;
+    }
+    return false;
+  }
+}
@@ -6,14 +6,21 @@ export class PerpendicularFractal extends BaseFractal {
   readonly definition: FractalDefinition = {
     id: 'perpendicular',
     name: 'Perpendicular Mandelbrot',
-    description: 'Perpendicular Mandelbrot: z_{n+1} = |Re(z_n)| + i|Im(z_n)| + c',
+    description: 'Perpendicular Mandelbrot: z_{n+1} = (|Re(z_n)| - i·Im(z_n))² + c',
     formula: (z: Complex, c?: Complex): Complex => {
-      // Perpendicular Mandelbrot: z_{n+1} = |Re(z_n)| + i|Im(z_n)| + c
+      // Perpendicular Mandelbrot: z_{n+1} = (|Re(z_n)| - i·Im(z_n))² + c
+      const absReal = Math.abs(z.real);
       return {
-        real: Math.abs(z.real) + (c?.real || 0),
-        imag: Math.abs(z.imag) + (c?.imag || 0)
+        real: absReal * absReal - z.imag * z.imag + (c?.real || 0),
+        imag: -2 * absReal * z.imag + (c?.imag || 0)
       };
     },
+    shader: {
+      step: 'z = complexSquare(vec2(abs(z.x), -z.y)) + c;',
+      emulated: {
+        step: 'z = dcAdd(dcSquare(vec4(dsAbs(z.xy), -z.zw)), c);'
+      }
+    },
     defaultParams: {
       fractalType: 'perpendicular',
       escapeRadius: 4,
@@ -1,16 +1,18 @@
 // Phoenix Fractal
-import { Complex } from '@/types/fractal';
+import { Complex, FractalParameterValue } from '@/types/fractal';
 import { BaseFractal, FractalDefinition } from './base';
 
+// Coupling with the previous iterate; 0.5667 gives the classic pattern
+export const DEFAULT_PHOENIX_P = 0.5667;
+
 export class PhoenixFractal extends BaseFractal {
   readonly definition: FractalDefinition = {
     id: 'phoenix',
     name: 'Phoenix Fractal',
     description: 'Phoenix fractal with coupling parameter',
-    formula: (z: Complex, c?: Complex, prev?: Complex): Complex => {
+    formula: (z: Complex, c?: Complex, prev?: Complex, parameters?: Record<string, FractalParameterValue>): Complex => {
       // Phoenix fractal: z_{n+1} = z_n² + c + p * z_{n-1}
-      // Using phoenix parameter p = 0.5667 for classic pattern
-      const p = 0.5667;
+      const p = typeof parameters?.p === 'number' ? parameters.p : DEFAULT_PHOENIX_P;
       const defaultC = c || { real: 0.5667, imag: 0 };
       
       const newReal = z.real * z.real - z.imag * z.imag + defaultC.real;
@@ -25,6 +27,49 @@ export class PhoenixFractal extends BaseFractal {
       
       return { real: newReal, imag: newImag };
     },
+    shader: {
+      init: `
+        vec2 z = vec2(0.0);
+        vec2 zPrev = vec2(0.0);
+        vec2 c = coord;
+      `,
+      carry: ['zPrev'],
+      step: `
+        // Phoenix: z_{n+1} = z_n^2 + c + p * z_{n-1}
+        vec2 zNext = complexSquare(z) + c + u_p * zPrev;
+        zPrev = z;
+        z = zNext;
+      `,
+      color: `
+        // Phoenix gets a fiery orange glow
+        color.r *= 1.2;
+        color.g *= 1.1;
+      `,
+      emulated: {
+        init: `
+          vec4 z = vec4(0.0);
+          vec4 zPrev = vec4(0.0);
+          vec4 c = coord;
+        `,
+        step: `
+          vec4 zNext = dcAdd(dcAdd(dcSquare(z), c), dcScale(zPrev, u_p));
+          zPrev = z;
+          z = zNext;
+        `
+      }
+    },
+    parameters: [
+      {
+        type: 'float',
+        name: 'p',
+        label: 'Coupling p',
+        description: 'Weight of the previous iterate z_{n-1}',
+        min: -1,
+        max: 1,
+        step: 0.0001,
+        default: DEFAULT_PHOENIX_P
+      }
+    ],
     defaultParams: {
       fractalType: 'phoenix',
       escapeRadius: 4,
@@ -0,0 +1,110 @@
+// Complex polynomials for the Newton fractal
+import { Complex } from '@/types/fractal';
+
+export const MAX_POLYNOMIAL_DEGREE = 8;
+
+const add = (a: Complex, b: Complex): Complex => ({ real: a.real + b.real, imag: a.imag + b.imag });
+
+const sub = (a: Complex, b: Complex): Complex => ({ real: a.real - b.real, imag: a.imag - b.imag });
+
+const mul = (a: Complex, b: Complex): Complex => ({
+  real: a.real * b.real - a.imag * b.imag,
+  imag: a.real * b.imag + a.imag * b.real
+});
+
+const div = (a: Complex, b: Complex): Complex => {
+  const denom = b.real * b.real + b.imag * b.imag;
+  return {
+    real: (a.real * b.real + a.imag * b.imag) / denom,
+    imag: (a.imag * b.real - a.real * b.imag) / denom
+  };
+};
+
+const magnitude = (z: Complex): number => Math.hypot(z.real, z.imag);
+
+/**
+ * Drop zero leading coefficients so the last one is the highest non-zero power.
+ * Coefficients are ordered lowest degree first: a0 + a1 z + ... + an z^n.
+ */
+export function trimCoefficients(coefficients: Complex[]): Complex[] {
+  let degree = coefficients.length - 1;
+  while (degree > 0 && magnitude(coefficients[degree]) === 0) degree--;
+  return coefficients.slice(0, degree + 1);
+}
+
+/**
+ * p(z) and p'(z) by Horner's scheme
+ */
+export function evaluatePolynomial(coefficients: Complex[], z: Complex): { value: Complex; derivative: Complex } {
+  let value = coefficients[coefficients.length - 1];
+  let derivative: Complex = { real: 0, imag: 0 };
+
+  for (let k = coefficients.length - 2; k >= 0; k--) {
+    derivative = add(mul(derivative, z), value);
+    value = add(mul(value, z), coefficients[k]);
+  }
+
+  return { value, derivative };
+}
+
+/**
+ * Coefficients of the monic polynomial (z - r1)(z - r2)...(z - rn)
+ */
+export function polynomialFromRoots(roots: Complex[]): Complex[] {
+  let coefficients: Complex[] = [{ real: 1, imag: 0 }];
+
+  for (const root of roots) {
+    // Multiply by (z - root)
+    const next: Complex[] = coefficients.map(() => ({ real: 0, imag: 0 }));
+    next.push({ real: 0, imag: 0 });
+    coefficients.forEach((coefficient, k) => {
+      next[k + 1] = add(next[k + 1], coefficient);
+      next[k] = sub(next[k], mul(coefficient, root));
+    });
+    coefficients = next;
+  }
+
+  return coefficients;
+}
+
+/**
+ * All complex roots by the Durand–Kerner (Weierstrass) iteration
+ */
+export function findRoots(coefficients: Complex[], maxIterations = 500, tolerance = 1e-12): Complex[] {
+  const trimmed = trimCoefficients(coefficients);
+  const degree = trimmed.length - 1;
+  if (degree < 1) return [];
+
+  // Work on the monic polynomial
+  const leading = trimmed[degree];
+  const monic = trimmed.map(coefficient => div(coefficient, leading));
+
+  // Standard starting points: powers of a number that is neither real nor a root of unity
+  const seed: Complex = { real: 0.4, imag: 0.9 };
+  const roots: Complex[] = [];
+  let guess: Complex = { real: 1, imag: 0 };
+  for (let k = 0; k < degree; k++) {
+    roots.push(guess);
+    guess = mul(guess, seed);
+  }
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let largestStep = 0;
+
+    for (let k = 0; k < degree; k++) {
+      let denominator: Complex = { real: 1, imag: 0 };
+      for (let j = 0; j < degree; j++) {
+        if (j !== k) denominator = mul(denominator, sub(roots[k], roots[j]));
+      }
+      if (magnitude(denominator) === 0) continue;
+
+      const step = div(evaluatePolynomial(monic, roots[k]).value, denominator);
+      roots[k] = sub(roots[k], step);
+      largestStep = Math.max(largestStep, magnitude(step));
+    }
+
+    if (largestStep < tolerance) break;
+  }
+
+  return roots;
+}
@@ -14,6 +14,12 @@ export class TricornFractal extends BaseFractal {
       const newImag = 2 * conjugateZ.real * conjugateZ.imag + (c?.imag || 0);
       return { real: newReal, imag: newImag };
     },
+    shader: {
+      step: 'z = complexSquare(vec2(z.x, -z.y)) + c;',
+      emulated: {
+        step: 'z = dcAdd(dcSquare(vec4(z.xy, -z.zw)), c);'
+      }
+    },
     defaultParams: {
       fractalType: 'tricorn',
       escapeRadius: 2,
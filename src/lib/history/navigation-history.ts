@@ -0,0 +1,171 @@
+// Undo/redo history of the views visited
+import {
+  FractalParams,
+  NavigationEvent,
+  PanEvent,
+  ParamUpdateEvent,
+  PresetChangeEvent,
+  ZoomEvent
+} from '@/types/fractal';
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Zooms, pans or updates of one parameter closer together than this are one gesture
+export const MERGE_WINDOW = 500;
+
+export const THUMBNAIL_SIZE = 96;
+
+export interface HistoryEntry {
+  id: number;
+  params: FractalParams;
+  event: NavigationEvent | null; // The event that led here; null for the first view
+  thumbnail?: string; // Data URL
+}
+
+export interface NavigationHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry on screen; later entries can be redone
+  nextId: number;
+}
+
+export function createHistory(params: FractalParams): NavigationHistory {
+  return { entries: [{ id: 0, params, event: null }], index: 0, nextId: 1 };
+}
+
+export function getCurrentParams(history: NavigationHistory): FractalParams {
+  return history.entries[history.index].params;
+}
+
+export const canUndo = (history: NavigationHistory) => history.index > 0;
+export const canRedo = (history: NavigationHistory) => history.index < history.entries.length - 1;
+
+export function createZoomEvent(previous: FractalParams, next: FractalParams, timestamp: number): ZoomEvent {
+  return { type: 'ZOOM', timestamp, center: next.center, zoomFactor: next.zoom / previous.zoom, zoomLevel: next.zoom };
+}
+
+export function createPanEvent(previous: FractalParams, next: FractalParams, timestamp: number): PanEvent {
+  return {
+    type: 'PAN',
+    timestamp,
+    delta: { real: next.center.real - previous.center.real, imag: next.center.imag - previous.center.imag },
+    newCenter: next.center
+  };
+}
+
+export function createPresetChangeEvent(presetName: string, timestamp: number): PresetChangeEvent {
+  return { type: 'PRESET_CHANGE', timestamp, presetName };
+}
+
+export function createParamUpdateEvent(
+  previous: FractalParams,
+  next: FractalParams,
+  paramName: keyof FractalParams,
+  timestamp: number
+): ParamUpdateEvent {
+  return { type: 'PARAM_UPDATE', timestamp, paramName, oldValue: previous[paramName], newValue: next[paramName] };
+}
+
+/**
+ * The event of one continuous gesture made of `first` followed by `next`, or
+ * null when they are separate steps
+ */
+export function mergeEvents(first: NavigationEvent, next: NavigationEvent): NavigationEvent | null {
+  if (next.timestamp - first.timestamp > MERGE_WINDOW) return null;
+
+  if (first.type === 'ZOOM' && next.type === 'ZOOM') {
+    return { ...next, zoomFactor: first.zoomFactor * next.zoomFactor };
+  }
+  if (first.type === 'PAN' && next.type === 'PAN') {
+    return { ...next, delta: { real: first.delta.real + next.delta.real, imag: first.delta.imag + next.delta.imag } };
+  }
+  if (first.type === 'PARAM_UPDATE' && next.type === 'PARAM_UPDATE' && first.paramName === next.paramName) {
+    return { ...next, oldValue: first.oldValue };
+  }
+  return null;
+}
+
+/**
+ * Move to a new view, dropping the redo entries. Part of a continuing gesture
+ * replaces the entry it started rather than adding one.
+ */
+export function pushHistory(history: NavigationHistory, params: FractalParams, event: NavigationEvent): NavigationHistory {
+  const current = history.entries[history.index];
+  if (JSON.stringify(params) === JSON.stringify(current.params)) return history;
+
+  const entries = history.entries.slice(0, history.index + 1);
+  const merged = current.event && mergeEvents(current.event, event);
+  if (merged) {
+    entries[history.index] = { id: current.id, params, event: merged };
+    return { ...history, entries };
+  }
+
+  entries.push({ id: history.nextId, params, event });
+  const dropped = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+  return {
+    entries: entries.slice(dropped),
+    index: entries.length - 1 - dropped,
+    nextId: history.nextId + 1
+  };
+}
+
+/**
+ * Show a view in place of the current entry without recording a step, as when
+ * previewing an animation
+ */
+export function replaceCurrent(history: NavigationHistory, params: FractalParams): NavigationHistory {
+  const entries = [...history.entries];
+  entries[history.index] = { ...entries[history.index], params, thumbnail: undefined };
+  return { ...history, entries };
+}
+
+export function jumpTo(history: NavigationHistory, index: number): NavigationHistory {
+  const clamped = Math.max(0, Math.min(history.entries.length - 1, index));
+  return clamped === history.index ? history : { ...history, index: clamped };
+}
+
+export const undo = (history: NavigationHistory) => jumpTo(history, history.index - 1);
+export const redo = (history: NavigationHistory) => jumpTo(history, history.index + 1);
+
+export function setThumbnail(history: NavigationHistory, id: number, thumbnail: string): NavigationHistory {
+  if (!history.entries.some(entry => entry.id === id)) return history;
+  return {
+    ...history,
+    entries: history.entries.map(entry => (entry.id === id ? { ...entry, thumbnail } : entry))
+  };
+}
+
+/**
+ * Short label for the breadcrumb of an entry
+ */
+export function describeEvent(event: NavigationEvent | null): string {
+  if (!event) return 'Start';
+
+  switch (event.type) {
+    case 'ZOOM':
+      return event.zoomFactor >= 1 ? `Zoom in ×${event.zoomFactor.toFixed(1)}` : `Zoom out ×${(1 / event.zoomFactor).toFixed(1)}`;
+    case 'PAN':
+      return 'Pan';
+    case 'PRESET_CHANGE':
+      return event.presetName;
+    case 'PARAM_UPDATE':
+      return `Change ${event.paramName}`;
+  }
+}
+
+/**
+ * JPEG data URL of a canvas scaled to at most `size` pixels on its longer side.
+ * WebGL canvases must be captured in the same task as their last draw.
+ */
+export function createThumbnail(source: HTMLCanvasElement, size: number = THUMBNAIL_SIZE): string | null {
+  if (source.width === 0 || source.height === 0) return null;
+
+  const scale = size / Math.max(source.width, source.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+}
@@ -0,0 +1,332 @@
+// Palette files of other fractal and graphics tools: Fractint .map,
+// UltraFractal .ugr, GIMP .ggr and GMT .cpt
+import { ColorPalette, PaletteInterpolation } from '@/types/fractal';
+import { ColorUtils, createCustomPalette, generateSmoothGradient, getGradientStops } from '../color-palettes';
+
+export type PaletteFormat = 'map' | 'ugr' | 'ggr' | 'cpt';
+
+export const PALETTE_FORMATS: Array<{ value: PaletteFormat; label: string }> = [
+  { value: 'map', label: 'Fractint (.map)' },
+  { value: 'ugr', label: 'UltraFractal (.ugr)' },
+  { value: 'ggr', label: 'GIMP (.ggr)' },
+  { value: 'cpt', label: 'GMT (.cpt)' }
+];
+
+// Colors of a Fractint map, and the index range of an UltraFractal gradient
+const MAP_COLORS = 256;
+const UGR_INDICES = 400;
+
+// Stops sampled from gradients in color spaces the target format lacks
+const RESAMPLED_STOPS = 64;
+
+type Rgb = [number, number, number];
+
+interface Stop {
+  position: number;
+  rgb: Rgb;
+}
+
+export function getPaletteFormat(fileName: string): PaletteFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return PALETTE_FORMATS.find(format => format.value === extension)?.value ?? null;
+}
+
+function getBaseName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '') || 'Imported';
+}
+
+function toHex([r, g, b]: Rgb): string {
+  return ColorUtils.rgbToHex(...[r, g, b].map(c => Math.max(0, Math.min(255, Math.round(c)))) as Rgb);
+}
+
+function fromHex(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Hue in degrees, saturation and value in [0, 1]
+function hsvToRgb(h: number, s: number, v: number): Rgb {
+  const c = v * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = v - c;
+  const sector = Math.floor((((h % 360) + 360) % 360) / 60);
+  const [r, g, b] = [[c, x, 0], [x, c, 0], [0, c, x], [0, x, c], [x, 0, c], [c, 0, x]][sector];
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255];
+}
+
+function rgbToHsv([r, g, b]: Rgb): [number, number, number] {
+  const [h] = ColorUtils.rgbToHsl(r, g, b);
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  return [h, max === 0 ? 0 : (max - min) / max, max];
+}
+
+// Drop stops repeating the one before them; hard edges keep both of their colors
+function toPalette(
+  name: string,
+  stops: Stop[],
+  type: ColorPalette['type'],
+  interpolation: PaletteInterpolation
+): ColorPalette {
+  const distinct = stops
+    .sort((a, b) => a.position - b.position)
+    .filter((stop, i, all) => i === 0 || stop.position !== all[i - 1].position ||
+      toHex(stop.rgb) !== toHex(all[i - 1].rgb));
+  if (distinct.length < 2) {
+    throw new Error(`"${name}" has fewer than two colors`);
+  }
+
+  return createCustomPalette(
+    name,
+    distinct.map(stop => toHex(stop.rgb)),
+    type,
+    distinct.map(stop => stop.position),
+    interpolation
+  );
+}
+
+function parseMap(text: string, name: string): ColorPalette[] {
+  const colors: Rgb[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(\d+)\s+(\d+)\s+(\d+)/.exec(line);
+    if (match) colors.push([+match[1], +match[2], +match[3]]);
+  }
+
+  const spacing = Math.max(1, colors.length - 1);
+  return [toPalette(name, simplifyStops(colors.map((rgb, i) => ({ position: i / spacing, rgb }))), 'linear', 'rgb')];
+}
+
+// Leave out the colors of a sampled gradient that RGB interpolation between
+// the colors kept recreates to within a unit
+function simplifyStops(stops: Stop[]): Stop[] {
+  const kept = stops.slice(0, 1);
+  for (let i = 1; i < stops.length - 1; i++) {
+    const previous = kept[kept.length - 1];
+    const next = stops[i + 1];
+    const t = (stops[i].position - previous.position) / (next.position - previous.position);
+    const expected = ColorUtils.interpolateRgb(previous.rgb, next.rgb, t);
+    if (expected.some((c, k) => Math.abs(c - stops[i].rgb[k]) > 1)) kept.push(stops[i]);
+  }
+  return stops.length > 1 ? [...kept, stops[stops.length - 1]] : stops;
+}
+
+// UltraFractal colors are 0xBBGGRR integers at indices 0-399 of a cyclic gradient
+function parseUgr(text: string): ColorPalette[] {
+  const palettes: ColorPalette[] = [];
+  const blocks = /([^\s{}][^{}]*?)\s*\{([^{}]*)\}/g;
+
+  for (let block = blocks.exec(text); block; block = blocks.exec(text)) {
+    const body = block[2];
+    const title = /title\s*=\s*"([^"]*)"/.exec(body)?.[1] || block[1].trim();
+    const stops: Stop[] = [];
+    const entries = /index\s*=\s*(-?\d+)\s+color\s*=\s*(\d+)/g;
+
+    for (let entry = entries.exec(body); entry; entry = entries.exec(body)) {
+      const index = ((+entry[1] % UGR_INDICES) + UGR_INDICES) % UGR_INDICES;
+      const color = +entry[2];
+      stops.push({ position: index / UGR_INDICES, rgb: [color & 255, (color >> 8) & 255, (color >> 16) & 255] });
+    }
+    if (stops.length > 0) palettes.push(toPalette(title, stops, 'cyclic', 'rgb'));
+  }
+
+  if (palettes.length === 0) {
+    throw new Error('No gradients in the .ugr file');
+  }
+  return palettes;
+}
+
+// GIMP segments run from a left to a right color with a midpoint; HSV
+// coloring is taken as HSL interpolation
+function parseGgr(text: string, fallbackName: string): ColorPalette[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines[0] !== 'GIMP Gradient') {
+    throw new Error('Not a GIMP gradient');
+  }
+
+  let line = 1;
+  const name = lines[line]?.startsWith('Name:') ? lines[line++].slice(5).trim() : fallbackName;
+  const count = parseInt(lines[line++]);
+  const stops: Stop[] = [];
+  let hsv = false;
+
+  for (let i = 0; i < count && line < lines.length; i++, line++) {
+    const values = lines[line].split(/\s+/).map(Number);
+    if (values.length < 11 || values.slice(0, 11).some(value => !Number.isFinite(value))) {
+      throw new Error(`Invalid segment on line ${line + 1} of the .ggr file`);
+    }
+
+    const [left, middle, right] = values;
+    const leftRgb = values.slice(3, 6).map(c => c * 255) as Rgb;
+    const rightRgb = values.slice(7, 10).map(c => c * 255) as Rgb;
+    stops.push({ position: left, rgb: leftRgb });
+    if (Math.abs(middle - (left + right) / 2) > 1e-3) {
+      stops.push({ position: middle, rgb: ColorUtils.interpolateRgb(leftRgb, rightRgb, 0.5) });
+    }
+    stops.push({ position: right, rgb: rightRgb });
+    hsv = hsv || (values[12] ?? 0) > 0;
+  }
+
+  return [toPalette(name, stops, 'linear', hsv ? 'hsl' : 'rgb')];
+}
+
+// A GMT color is "r g b", "r/g/b" or, in the HSV color model, "h-s-v" or "h s v"
+function readCptColor(tokens: string[], start: number, hsv: boolean): [Rgb, number] {
+  const separated = tokens[start]?.split(hsv ? '-' : '/');
+  const [values, next] = separated && separated.length === 3
+    ? [separated.map(Number), start + 1]
+    : [tokens.slice(start, start + 3).map(Number), start + 3];
+
+  if (values.length < 3 || values.some(value => !Number.isFinite(value))) {
+    throw new Error('Invalid color in the .cpt file');
+  }
+  return [hsv ? hsvToRgb(values[0], values[1], values[2]) : values as Rgb, next];
+}
+
+function parseCpt(text: string, name: string): ColorPalette[] {
+  let hsv = false;
+  const stops: Stop[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const model = /^#\s*COLOR_MODEL\s*=\s*\+?(\w+)/i.exec(line);
+    if (model) hsv = model[1].toUpperCase() === 'HSV';
+    if (!line || line.startsWith('#') || /^[BFN]\s/.test(line)) continue;
+
+    const tokens = line.split(/\s+/);
+    const [lowColor, next] = readCptColor(tokens, 1, hsv);
+    const [highColor] = readCptColor(tokens, next + 1, hsv);
+    stops.push({ position: +tokens[0], rgb: lowColor }, { position: +tokens[next], rgb: highColor });
+  }
+
+  // Slice values map onto [0, 1]
+  const low = Math.min(...stops.map(stop => stop.position));
+  const range = Math.max(...stops.map(stop => stop.position)) - low || 1;
+  return [toPalette(
+    name,
+    stops.map(stop => ({ ...stop, position: (stop.position - low) / range })),
+    'linear',
+    hsv ? 'hsl' : 'rgb'
+  )];
+}
+
+/**
+ * Palettes in a palette file, named after the file where the format has no
+ * names. Throws for unknown formats and malformed files.
+ */
+export function importPaletteFile(text: string, fileName: string): ColorPalette[] {
+  const name = getBaseName(fileName);
+  switch (getPaletteFormat(fileName)) {
+    case 'map':
+      return parseMap(text, name);
+    case 'ugr':
+      return parseUgr(text);
+    case 'ggr':
+      return parseGgr(text, name);
+    case 'cpt':
+      return parseCpt(text, name);
+    default:
+      throw new Error(`${fileName} is not a .map, .ugr, .ggr or .cpt palette`);
+  }
+}
+
+/**
+ * The palette's stops in a format's terms: sampled in RGB when the format
+ * cannot interpolate in the palette's color space, and closed with the first
+ * color for cyclic palettes in formats that do not wrap
+ */
+function getExportStops(palette: ColorPalette, interpolations: PaletteInterpolation[], wraps: boolean): Stop[] {
+  const cyclic = palette.type === 'cyclic';
+  const interpolation = palette.interpolation ?? 'rgb';
+
+  if (!interpolations.includes(interpolation)) {
+    const colors = generateSmoothGradient(palette.colors, RESAMPLED_STOPS, {
+      stops: palette.stops,
+      interpolation,
+      cyclic
+    });
+    const spacing = cyclic ? RESAMPLED_STOPS : RESAMPLED_STOPS - 1;
+    const stops = colors.map((color, i) => ({ position: i / spacing, rgb: fromHex(color) }));
+    return cyclic && !wraps ? [...stops, { position: 1, rgb: stops[0].rgb }] : stops;
+  }
+
+  const stops = getGradientStops(palette.colors, palette.stops, cyclic)
+    .map(stop => ({ position: stop.position, rgb: fromHex(stop.color) }));
+  if (cyclic && !wraps) {
+    const first = stops[0];
+    if (first.position > 0) stops.unshift({ position: 0, rgb: first.rgb });
+    stops.push({ position: 1, rgb: first.rgb });
+  }
+  return stops;
+}
+
+function exportMap(palette: ColorPalette): string {
+  const colors = generateSmoothGradient(palette.colors, MAP_COLORS, {
+    stops: palette.stops,
+    interpolation: palette.interpolation,
+    cyclic: palette.type === 'cyclic'
+  });
+  return colors.map(color => fromHex(color).join(' ')).join('\n') + '\n';
+}
+
+function exportUgr(palette: ColorPalette): string {
+  // One color per index; the first stop at an index wins
+  const colors = new Map<number, number>();
+  for (const { position, rgb: [r, g, b] } of getExportStops(palette, ['rgb'], true)) {
+    const index = Math.min(UGR_INDICES - 1, Math.round(position * UGR_INDICES));
+    if (!colors.has(index)) colors.set(index, (b << 16) | (g << 8) | r);
+  }
+  const entries = Array.from(colors, ([index, color]) => `index=${index} color=${color}`);
+
+  const id = palette.name.replace(/[^\w-]+/g, '-');
+  return `${id} {\ngradient:\n  title="${palette.name.replace(/"/g, "'")}" smooth=no\n  ${entries.join('\n  ')}\n}\n`;
+}
+
+function exportGgr(palette: ColorPalette): string {
+  const stops = getExportStops(palette, ['rgb', 'hsl'], false);
+  const coloring = palette.interpolation === 'hsl' ? 1 : 0;
+  const channel = (c: number) => (c / 255).toFixed(6);
+  const segments = stops.slice(1).map((right, i) => {
+    const left = stops[i];
+    return [
+      left.position.toFixed(6),
+      ((left.position + right.position) / 2).toFixed(6),
+      right.position.toFixed(6),
+      ...left.rgb.map(channel), '1.000000',
+      ...right.rgb.map(channel), '1.000000',
+      0,
+      coloring
+    ].join(' ');
+  });
+  return `GIMP Gradient\nName: ${palette.name}\n${segments.length}\n${segments.join('\n')}\n`;
+}
+
+function exportCpt(palette: ColorPalette): string {
+  const stops = getExportStops(palette, ['rgb', 'hsl'], false);
+  const hsv = palette.interpolation === 'hsl';
+  const color = (rgb: Rgb) => hsv
+    ? rgbToHsv(rgb).map((value, i) => i === 0 ? value.toFixed(1) : value.toFixed(4)).join('-')
+    : rgb.join('/');
+  const slices = stops.slice(1).map((high, i) =>
+    `${stops[i].position.toFixed(6)} ${color(stops[i].rgb)} ${high.position.toFixed(6)} ${color(high.rgb)}`);
+
+  const background = color(stops[0].rgb);
+  const foreground = color(stops[stops.length - 1].rgb);
+  return `# ${palette.name}\n# COLOR_MODEL = ${hsv ? 'HSV' : 'RGB'}\n${slices.join('\n')}\n` +
+    `B ${background}\nF ${foreground}\nN ${hsv ? '0-0-0' : '0/0/0'}\n`;
+}
+
+/**
+ * A palette as the text of a palette file
+ */
+export function exportPalette(palette: ColorPalette, format: PaletteFormat): string {
+  switch (format) {
+    case 'map':
+      return exportMap(palette);
+    case 'ugr':
+      return exportUgr(palette);
+    case 'ggr':
+      return exportGgr(palette);
+    case 'cpt':
+      return exportCpt(palette);
+  }
+}
@@ -0,0 +1,78 @@
+// Local storage persistence of the palettes made in the palette editor
+import { ColorPalette } from '@/types/fractal';
+import {
+  PALETTE_INTERPOLATIONS,
+  createCustomPalette,
+  getCustomPalettes,
+  registerCustomPalette,
+  unregisterCustomPalette
+} from '../color-palettes';
+
+const STORAGE_KEY = 'fractal-studio:palettes';
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Storage can be blocked by the browser's privacy settings
+    return null;
+  }
+}
+
+// A stored palette rebuilt through createCustomPalette, or null when it is not one
+function parsePalette(value: unknown): ColorPalette | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { name, colors, type, stops, interpolation } = value as Partial<ColorPalette>;
+  if (typeof name !== 'string' || !Array.isArray(colors)) return null;
+
+  const palette = createCustomPalette(
+    name,
+    colors.filter((color): color is string => typeof color === 'string'),
+    type === 'cyclic' ? 'cyclic' : 'linear',
+    Array.isArray(stops) && stops.length === colors.length ? stops : undefined,
+    PALETTE_INTERPOLATIONS.find(option => option.value === interpolation)?.value
+  );
+  return palette.colors.length >= 2 ? palette : null;
+}
+
+function persist(): void {
+  try {
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(getCustomPalettes()));
+  } catch (error) {
+    console.error('Failed to save palettes:', error);
+  }
+}
+
+/**
+ * Register the palettes saved in this browser and return them
+ */
+export function loadCustomPalettes(): ColorPalette[] {
+  let saved: unknown = [];
+  try {
+    saved = JSON.parse(getStorage()?.getItem(STORAGE_KEY) ?? '[]');
+  } catch (error) {
+    console.error('Failed to load palettes:', error);
+  }
+
+  for (const palette of Array.isArray(saved) ? saved.map(parsePalette) : []) {
+    if (palette) registerCustomPalette(palette);
+  }
+  return getCustomPalettes();
+}
+
+/**
+ * Register and save a palette, replacing one of the same name. Returns all
+ * custom palettes.
+ */
+export function saveCustomPalette(palette: ColorPalette): ColorPalette[] {
+  registerCustomPalette(palette);
+  persist();
+  return getCustomPalettes();
+}
+
+export function deleteCustomPalette(id: string): ColorPalette[] {
+  unregisterCustomPalette(id);
+  persist();
+  return getCustomPalettes();
+}
@@ -1,5 +1,5 @@
 // Performance monitoring and optimization system
-import { PerformanceMetrics, LODConfig } from '@/types/fractal';
+import { PerformanceMetrics, LODConfig, ShaderPrecision } from '@/types/fractal';
 
 export class PerformanceMonitor {
   private frameCount = 0;
@@ -62,6 +62,11 @@ export class PerformanceMonitor {
     this.metrics.renderLatency = frameTime;
   }
 
+  // Share of pixels periodicity checking stopped early, undefined when not measured
+  updateEarlyExits(ratio: number | undefined): void {
+    this.metrics.earlyExitRatio = ratio;
+  }
+
   // Get current performance metrics
   getMetrics(): PerformanceMetrics {
     return { ...this.metrics };
@@ -191,7 +196,7 @@ export class PerformanceMonitor {
   getAdaptiveQuality(baseIterations: number): {
     maxIterations: number;
     samplesPerPixel: number;
-    precision: 'highp' | 'mediump' | 'lowp';
+    precision: ShaderPrecision;
   } {
     const performanceRatio = Math.min(1, this.metrics.fps / 60);
     
@@ -0,0 +1,251 @@
+// Shareable URLs holding the full view state
+import {
+  ColorMappingMode,
+  Complex,
+  FractalParameterValue,
+  FractalParams,
+  FractalType,
+  InteriorColoringMode,
+  OrbitTrapOutput,
+  OrbitTrapShape,
+  PaletteDensity
+} from '@/types/fractal';
+import FractalLoader from './fractals/loader';
+import { validateFractalParams } from './fractal-presets-modular';
+import { getPreciseCenter } from './deep-zoom/perturbation';
+import { isDecimalString } from './deep-zoom/fixed-point';
+import { getCustomFormula, getCustomFractalType, registerCustomFormula } from './formula/custom-fractal';
+
+// Bumped when the meaning of a field changes; links from older versions are
+// still decoded, newer ones are ignored
+export const VIEW_URL_VERSION = 1;
+
+// Prefix of the fields holding a fractal's schema parameters
+const PARAMETER_PREFIX = 'p.';
+
+const formatComplex = ({ real, imag }: Complex) => `${real},${imag}`;
+
+function parseComplex(value: string | null): Complex | undefined {
+  if (!value) return undefined;
+  const [real, imag] = value.split(',').map(Number);
+  return Number.isFinite(real) && Number.isFinite(imag) ? { real, imag } : undefined;
+}
+
+const parseNumber = (value: string | null) => (value === null || value === '' ? undefined : Number(value));
+
+/**
+ * Query string for a view. Numbers are written in their shortest round-trip
+ * form and deep zoom centers as their exact decimal strings, so nothing is lost.
+ */
+export function encodeViewUrl(params: FractalParams): string {
+  const query = new URLSearchParams();
+  const center = getPreciseCenter(params);
+
+  query.set('v', String(VIEW_URL_VERSION));
+  query.set('type', params.fractalType);
+  query.set('re', center.real);
+  query.set('im', center.imag);
+  query.set('zoom', String(params.zoom));
+  query.set('iter', String(params.maxIterations));
+  query.set('escape', String(params.escapeRadius));
+  query.set('palette', params.colorPalette);
+  query.set('precision', params.precision);
+  if (params.deepZoom) query.set('deep', '1');
+  if (params.periodicityCheck !== undefined) query.set('periodic', params.periodicityCheck ? '1' : '0');
+  if (params.juliaConstant) query.set('julia', formatComplex(params.juliaConstant));
+  if (params.exponent !== undefined) query.set('exp', String(params.exponent));
+
+  // A custom fractal only exists where its formula is registered, so the link carries the source
+  const formula = getCustomFormula(params.fractalType);
+  if (formula) {
+    query.set('fName', formula.name);
+    if (formula.init) query.set('fInit', formula.init);
+    query.set('fIter', formula.iterate);
+    if (formula.bailout) query.set('fBail', formula.bailout);
+  }
+
+  if (params.newton) {
+    query.set('poly', params.newton.coefficients.map(formatComplex).join(';'));
+    query.set('variant', params.newton.variant);
+    query.set('relax', String(params.newton.relaxation));
+  }
+
+  if (params.coloring) query.set('color', params.coloring);
+  if (params.orbitTrap) {
+    // Trap images are too large for a link
+    query.set('trap', params.orbitTrap.shape);
+    query.set('trapOut', params.orbitTrap.output);
+    query.set('trapAt', formatComplex(params.orbitTrap.center));
+    query.set('trapAngle', String(params.orbitTrap.angle));
+    query.set('trapRadius', String(params.orbitTrap.radius));
+    query.set('trapFalloff', String(params.orbitTrap.falloff));
+  }
+  if (params.colorMapping) {
+    query.set('map', params.colorMapping.mode);
+    query.set('clip', String(params.colorMapping.clip));
+  }
+  if (params.distanceEstimation) {
+    query.set('deLine', String(params.distanceEstimation.boundary));
+    query.set('deGlow', String(params.distanceEstimation.glow));
+    query.set('deLight', params.distanceEstimation.lighting ? '1' : '0');
+    query.set('deAngle', String(params.distanceEstimation.lightAngle));
+    query.set('deHeight', String(params.distanceEstimation.lightHeight));
+  }
+  if (params.interior) {
+    query.set('inside', params.interior.mode);
+    query.set('insideColor', params.interior.color);
+    for (const [mode, palette] of Object.entries(params.interior.palettes)) {
+      query.set(`insidePalette.${mode}`, palette);
+    }
+  }
+  if (params.paletteTransform) {
+    query.set('pOffset', String(params.paletteTransform.offset));
+    query.set('pCycles', String(params.paletteTransform.cycles));
+    query.set('pDensity', params.paletteTransform.density);
+    query.set('pReverse', params.paletteTransform.reverse ? '1' : '0');
+    query.set('pSpeed', String(params.paletteTransform.speed));
+    query.set('wobble', params.paletteTransform.wobble ? '1' : '0');
+  }
+
+  for (const [name, value] of Object.entries(params.parameters || {})) {
+    query.set(PARAMETER_PREFIX + name, typeof value === 'object' ? formatComplex(value) : String(value));
+  }
+
+  return query.toString();
+}
+
+/**
+ * Register the custom formula a link carries for its fractal type. False when
+ * the link has none for it and none is registered, or it does not compile.
+ */
+function registerLinkedFormula(query: URLSearchParams, fractalType: FractalType): boolean {
+  const name = query.get('fName');
+  const iterate = query.get('fIter');
+  if (!name && !iterate) return getCustomFormula(fractalType) !== undefined;
+  if (!name || !iterate || getCustomFractalType(name) !== fractalType) return false;
+
+  return registerCustomFormula({
+    name,
+    init: query.get('fInit') || undefined,
+    iterate,
+    bailout: query.get('fBail') || undefined
+  }).success;
+}
+
+/**
+ * The view in a query string, validated, or null when it holds none. A custom
+ * formula in the link is registered; a custom-formula view whose formula is
+ * missing or does not compile is rejected rather than shown as another fractal.
+ */
+export function decodeViewUrl(search: string): FractalParams | null {
+  const query = new URLSearchParams(search);
+  const version = parseInt(query.get('v') || '');
+  if (!(version >= 1 && version <= VIEW_URL_VERSION) || !query.has('type')) return null;
+
+  const fractalType = query.get('type') as FractalType;
+  if (fractalType.startsWith('custom-') && !registerLinkedFormula(query, fractalType)) {
+    console.warn(`Ignoring the linked view: the formula of ${fractalType} is missing or does not compile`);
+    return null;
+  }
+
+  const real = query.get('re');
+  const imag = query.get('im');
+  const params: Partial<FractalParams> = {
+    fractalType,
+    center: { real: Number(real ?? NaN), imag: Number(imag ?? NaN) },
+    zoom: parseNumber(query.get('zoom')),
+    maxIterations: parseNumber(query.get('iter')) as FractalParams['maxIterations'],
+    escapeRadius: parseNumber(query.get('escape')) as FractalParams['escapeRadius'],
+    colorPalette: query.get('palette') || undefined,
+    precision: (query.get('precision') || undefined) as FractalParams['precision'],
+    deepZoom: query.get('deep') === '1' || undefined,
+    periodicityCheck: query.has('periodic') ? query.get('periodic') !== '0' : undefined,
+    juliaConstant: parseComplex(query.get('julia')),
+    exponent: parseNumber(query.get('exp'))
+  };
+
+  if (params.deepZoom && isDecimalString(real) && isDecimalString(imag)) {
+    params.preciseCenter = { real, imag };
+  }
+
+  const poly = query.get('poly');
+  if (poly) {
+    params.newton = {
+      coefficients: poly.split(';').map(parseComplex) as Complex[],
+      variant: query.get('variant') === 'nova' ? 'nova' : 'newton',
+      relaxation: parseNumber(query.get('relax')) ?? 1
+    };
+  }
+
+  params.coloring = (query.get('color') || undefined) as FractalParams['coloring'];
+  const trap = query.get('trap');
+  if (trap) {
+    params.orbitTrap = {
+      shape: trap as OrbitTrapShape,
+      output: query.get('trapOut') as OrbitTrapOutput,
+      center: parseComplex(query.get('trapAt'))!,
+      angle: parseNumber(query.get('trapAngle'))!,
+      radius: parseNumber(query.get('trapRadius'))!,
+      falloff: parseNumber(query.get('trapFalloff'))!
+    };
+  }
+  const mapping = query.get('map');
+  if (mapping) {
+    params.colorMapping = {
+      mode: mapping as ColorMappingMode,
+      clip: parseNumber(query.get('clip'))!
+    };
+  }
+  if (query.has('deLine')) {
+    params.distanceEstimation = {
+      boundary: parseNumber(query.get('deLine'))!,
+      glow: parseNumber(query.get('deGlow'))!,
+      lighting: query.get('deLight') !== '0',
+      lightAngle: parseNumber(query.get('deAngle'))!,
+      lightHeight: parseNumber(query.get('deHeight'))!
+    };
+  }
+  const inside = query.get('inside');
+  if (inside) {
+    const palettes: Record<string, string> = {};
+    query.forEach((value, key) => {
+      if (key.startsWith('insidePalette.')) palettes[key.slice('insidePalette.'.length)] = value;
+    });
+    params.interior = {
+      mode: inside as InteriorColoringMode,
+      color: query.get('insideColor') ?? '',
+      palettes
+    };
+  }
+  if (query.has('pCycles')) {
+    params.paletteTransform = {
+      offset: parseNumber(query.get('pOffset'))!,
+      cycles: parseNumber(query.get('pCycles'))!,
+      density: query.get('pDensity') as PaletteDensity,
+      reverse: query.get('pReverse') === '1',
+      speed: parseNumber(query.get('pSpeed'))!,
+      wobble: query.get('wobble') !== '0'
+    };
+  }
+
+  // Parameters are read by the current schema; validation fills in any it lacks
+  if (FractalLoader.getAvailableTypes().includes(fractalType)) {
+    const values: Record<string, FractalParameterValue> = {};
+    for (const parameter of FractalLoader.getDefinition(fractalType).parameters || []) {
+      const value = query.get(PARAMETER_PREFIX + parameter.name);
+      if (value === null) continue;
+
+      if (parameter.type === 'complex') {
+        const complex = parseComplex(value);
+        if (complex) values[parameter.name] = complex;
+      } else if (parameter.type === 'float' || parameter.type === 'int') {
+        values[parameter.name] = Number(value);
+      } else {
+        values[parameter.name] = value;
+      }
+    }
+    params.parameters = values;
+  }
+
+  return validateFractalParams(params);
+}
@@ -30,52 +30,22 @@ export class WebGLContextManager {
     // Initialize context first to check limits
     this.initializeContext(contextConfig);
     
-    // Validate and adjust buffer config based on WebGL limits
-    this.validateAndAdjustBufferConfig();
+    // Warn about sizes beyond the WebGL limits
+    this.checkBufferConfig();
     
     this.setupBuffers();
     this.setupEventHandlers();
   }
 
-  private validateAndAdjustBufferConfig(): void {
+  // The canvas keeps the size it was given: the browser caps its drawing
+  // buffer, and images beyond the GPU limits are rendered in tiles of at most
+  // getMaxRenderSize() pixels instead
+  private checkBufferConfig(): void {
     if (!this.gl) return;
-    
-    const maxTextureSize = this.gl.getParameter(this.gl.MAX_TEXTURE_SIZE);
-    const maxFramebufferSize = this.gl.getParameter(this.gl.MAX_RENDERBUFFER_SIZE);
-    const maxSize = Math.min(maxTextureSize, maxFramebufferSize);
-    
-    let adjustedWidth = this.config.width;
-    let adjustedHeight = this.config.height;
-    
-    // Reduce size if it exceeds limits
-    if (adjustedWidth > maxSize) {
-      const ratio = maxSize / adjustedWidth;
-      adjustedWidth = maxSize;
-      adjustedHeight = Math.floor(adjustedHeight * ratio);
-      console.warn(`Canvas width ${this.config.width} exceeds WebGL limit ${maxSize}, reducing to ${adjustedWidth}x${adjustedHeight}`);
-    }
-    
-    if (adjustedHeight > maxSize) {
-      const ratio = maxSize / adjustedHeight;
-      adjustedHeight = maxSize;
-      adjustedWidth = Math.floor(adjustedWidth * ratio);
-      console.warn(`Canvas height ${this.config.height} exceeds WebGL limit ${maxSize}, reducing to ${adjustedWidth}x${adjustedHeight}`);
-    }
-    
-    // Also check for reasonable minimums
-    adjustedWidth = Math.max(1, adjustedWidth);
-    adjustedHeight = Math.max(1, adjustedHeight);
-    
-    if (adjustedWidth !== this.config.width || adjustedHeight !== this.config.height) {
-      console.log(`Adjusted buffer size from ${this.config.width}x${this.config.height} to ${adjustedWidth}x${adjustedHeight}`);
-      this.config.width = adjustedWidth;
-      this.config.height = adjustedHeight;
-      
-      // Update canvas size to match
-      if (this.canvas instanceof HTMLCanvasElement) {
-        this.canvas.width = adjustedWidth;
-        this.canvas.height = adjustedHeight;
-      }
+
+    const maxSize = this.getMaxRenderSize();
+    if (this.config.width > maxSize || this.config.height > maxSize) {
+      console.warn(`Canvas ${this.config.width}x${this.config.height} exceeds the WebGL limit ${maxSize}; larger images must be rendered in tiles`);
     }
   }
 
@@ -206,8 +176,10 @@ export class WebGLContextManager {
       };
     }
 
-    const vertexShader = this.createShader(this.gl.VERTEX_SHADER, source.vertex);
-    const fragmentShader = this.createShader(this.gl.FRAGMENT_SHADER, source.fragment);
+    // Info logs of shaders that fail to compile
+    const compileErrors: string[] = [];
+    const vertexShader = this.createShader(this.gl.VERTEX_SHADER, source.vertex, compileErrors);
+    const fragmentShader = this.createShader(this.gl.FRAGMENT_SHADER, source.fragment, compileErrors);
 
     if (!vertexShader || !fragmentShader) {
       return {
@@ -215,7 +187,7 @@ export class WebGLContextManager {
         program: null,
         vertexShader,
         fragmentShader,
-        errors: ['Failed to compile shaders'],
+        errors: compileErrors.length > 0 ? compileErrors : ['Failed to compile shaders'],
         precision: 'lowp'
       };
     }
@@ -262,7 +234,7 @@ export class WebGLContextManager {
     };
   }
 
-  private createShader(type: number, source: string): WebGLShader | null {
+  private createShader(type: number, source: string, errors: string[]): WebGLShader | null {
     if (!this.gl) return null;
 
     const shader = this.gl.createShader(type);
@@ -274,6 +246,7 @@ export class WebGLContextManager {
     if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
       const error = this.gl.getShaderInfoLog(shader);
       console.error('Shader compilation error:', error);
+      if (error) errors.push(error);
       this.gl.deleteShader(shader);
       return null;
     }
@@ -366,6 +339,37 @@ export class WebGLContextManager {
     return this.gl;
   }
 
+  /**
+   * Largest width or height that can be drawn in a single pass
+   */
+  public getMaxRenderSize(): number {
+    if (!this.gl) return 0;
+
+    const maxViewport = this.gl.getParameter(this.gl.MAX_VIEWPORT_DIMS) as Int32Array;
+    return Math.min(
+      this.gl.getParameter(this.gl.MAX_TEXTURE_SIZE),
+      this.gl.getParameter(this.gl.MAX_RENDERBUFFER_SIZE),
+      maxViewport[0],
+      maxViewport[1]
+    );
+  }
+
+  /**
+   * Whether float textures can be rendered to, as the iteration pass needs
+   */
+  public supportsFloatRenderTargets(): boolean {
+    if (!this.gl) return false;
+    return !!this.gl.getExtension('EXT_color_buffer_float');
+  }
+
+  /**
+   * Whether float textures can also be blended into, as the histogram pass of
+   * statistical coloring needs
+   */
+  public supportsFloatBlending(): boolean {
+    return this.supportsFloatRenderTargets() && !!this.gl?.getExtension('EXT_float_blend');
+  }
+
   private cleanupBuffers(): void {
     if (!this.gl) return;
 
@@ -0,0 +1,21 @@
+// Double-single (float-float) support for the emulated-double shader tier
+import { FractalType } from '@/types/fractal';
+import FractalLoader from '../fractals/loader';
+
+// A hi/lo pair of float32 values carries ~48 mantissa bits
+export const MAX_EMULATED_DOUBLE_ZOOM = 1e13;
+
+/**
+ * Whether the fractal's definition provides double-single shader snippets
+ */
+export function supportsEmulatedDouble(type: FractalType): boolean {
+  return !!FractalLoader.getDefinition(type).shader.emulated;
+}
+
+/**
+ * Split a double into float32 hi and lo parts with hi + lo ≈ value
+ */
+export function splitDouble(value: number): [number, number] {
+  const hi = Math.fround(value);
+  return [hi, Math.fround(value - hi)];
+}
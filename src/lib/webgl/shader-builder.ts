@@ -0,0 +1,510 @@
+// Fragment shader generation from the GLSL snippets in a FractalDefinition
+import { FractalDefinition, FractalShader } from '../fractals/base';
+import { getParameterUniformDeclarations } from '../fractals/parameters';
+import { COMPLEX_FUNCTIONS, DOUBLE_SINGLE_FUNCTIONS } from './shaders';
+import { ORBIT_TRAP_FUNCTIONS } from '../coloring/orbit-traps';
+import { DISTANCE_ESCAPE_RADIUS, DISTANCE_ESTIMATION_FUNCTIONS } from '../coloring/distance-estimation';
+import { getSupportedColoring } from '../coloring/coloring';
+import { PALETTE_TRANSFORM_FUNCTIONS } from '../coloring/palette-transform';
+import { INTERIOR_COLORING_FUNCTIONS, INTERIOR_TRACKING, getSupportedInterior } from '../coloring/interior-coloring';
+import { PERIODICITY_FUNCTIONS } from '../fractals/periodicity';
+import { ColoringAlgorithm, InteriorColoringMode } from '@/types/fractal';
+
+export interface ShaderBuildOptions {
+  // Run coordinates and the iteration loop in double-single arithmetic
+  emulatedDouble?: boolean;
+  // Defaults to smooth iteration count; a coloring the fractal does not support
+  // falls back to it
+  coloring?: ColoringAlgorithm;
+  // Defaults to solid; a mode the fractal or coloring does not support falls back to it
+  interior?: InteriorColoringMode;
+  // Stop iterating orbits caught in a cycle, which never escape
+  periodicity?: boolean;
+  // Write the iteration count and the coloring's orbit state instead of a
+  // color, for the colorize pass of escape-time fractals
+  output?: 'color' | 'state';
+  // Iterate from u_iterationStart to u_iterationEnd and keep the orbits still
+  // running for the next pass, so long iterations spread over several frames;
+  // applies to the state output of fractals supporting it
+  progressive?: boolean;
+}
+
+// Shader state and functions each coloring adds before the iteration code
+const COLORING_FUNCTIONS: Partial<Record<ColoringAlgorithm, string>> = {
+  'orbit-trap': ORBIT_TRAP_FUNCTIONS,
+  'distance-estimation': DISTANCE_ESTIMATION_FUNCTIONS
+};
+
+// Orbit state each coloring keeps for the colorize pass: the vec3 stored after
+// the iteration count in the first state texture and the vec4 of the second,
+// and the statements reading them back from `state0` and `state1`. Colorings
+// that leave the interior to the interior mode keep its palette position and
+// whether the orbit stopped early in a cycle.
+const COLORING_STATE: Record<ColoringAlgorithm, { write: [string, string]; read: string }> = {
+  smooth: {
+    write: ['vec3(interiorPosition, cyclePeriod > 0 ? 1.0 : 0.0, 0.0)', 'vec4(0.0)'],
+    read: 'interiorPosition = state0.g;'
+  },
+  'orbit-trap': {
+    write: ['trapColor', 'vec4(trapDistance, trapIteration, trapAngle, trapHit ? 1.0 : 0.0)'],
+    read: `trapColor = state0.gba;
+trapDistance = state1.x;
+trapIteration = state1.y;
+trapAngle = state1.z;
+trapHit = state1.w > 0.5;`
+  },
+  'distance-estimation': {
+    write: ['vec3(interiorPosition, cyclePeriod > 0 ? 1.0 : 0.0, 0.0)', 'vec4(escapeZ, escapeDz)'],
+    read: `interiorPosition = state0.g;
+escapeZ = state1.xy;
+escapeDz = state1.zw;`
+  }
+};
+
+const FRAGMENT_HEADER = `#version 300 es
+precision highp float;
+
+uniform vec2 u_resolution;
+uniform vec2 u_center;
+uniform float u_zoom;
+uniform int u_maxIterations;
+uniform float u_escapeRadius;
+uniform vec2 u_juliaConstant;
+uniform float u_exponent;
+uniform sampler2D u_colorPalette;
+uniform float u_time;
+
+in vec2 v_texCoord;
+`;
+
+const COLOR_OUTPUT = `out vec4 fragColor;
+`;
+
+const STATE_OUTPUT = `layout(location = 0) out vec4 fragColor;
+layout(location = 1) out vec4 fragState;
+`;
+
+// Orbits still running after a progressive pass are kept in two more state
+// textures: z and its derivative dz in the first (z alone at emulated double
+// precision), and in the second the definition's carried variable (dz at
+// emulated double precision), the orbit sum of the orbit-average interior and
+// whether the orbit is finished. Each pass reads the previous pass's four
+// textures from the u_previous* samplers.
+const PROGRESSIVE_OUTPUT = `layout(location = 2) out vec4 fragCarry0;
+layout(location = 3) out vec4 fragCarry1;
+`;
+
+export const PROGRESSIVE_SAMPLERS = ['u_previousIteration', 'u_previousOrbit', 'u_previousCarry0', 'u_previousCarry1'];
+
+const PROGRESSIVE_DECLARATIONS = `
+uniform int u_iterationStart;
+uniform int u_iterationEnd;
+uniform sampler2D u_previousIteration;
+uniform sampler2D u_previousOrbit;
+uniform sampler2D u_previousCarry0;
+uniform sampler2D u_previousCarry1;
+
+vec4 carry0 = vec4(0.0);
+vec4 carry1 = vec4(0.0);
+// Whether the orbit is still iterating after this pass
+bool orbitRunning = false;
+`;
+
+const DEFAULT_INIT = `vec2 z = vec2(0.0);
+vec2 c = coord;`;
+
+const DEFAULT_EMULATED_INIT = `vec4 z = vec4(0.0);
+vec4 c = coord;`;
+
+/**
+ * Format a number as a GLSL float literal
+ */
+export function glslFloat(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Cannot use ${value} as a GLSL float`);
+  }
+  const text = String(value);
+  return /[.e]/.test(text) ? text : `${text}.0`;
+}
+
+// Re-indent a snippet to the given depth
+function indent(code: string, spaces: number): string {
+  const lines = code.replace(/^\n+|\s+$/g, '').split('\n');
+  const margin = Math.min(
+    ...lines.filter(line => line.trim()).map(line => line.match(/^ */)![0].length)
+  );
+  const padding = ' '.repeat(spaces);
+  return lines.map(line => (line.trim() ? padding + line.slice(margin) : '')).join('\n');
+}
+
+// `position` is the GLSL expression of the palette position of `iteration`
+function buildColorFunction(
+  definition: FractalDefinition,
+  escapeTime: boolean,
+  coloring: ColoringAlgorithm = 'smooth',
+  position: string = 'iteration / float(u_maxIterations)'
+): string {
+  const adjust = definition.shader.color ? `\n${indent(definition.shader.color, 4)}\n` : '';
+
+  if (coloring === 'orbit-trap') {
+    return `
+vec3 getColor(float iteration) {
+    if (trapHit) {
+        return trapColor;
+    }
+
+    float t = getTrapPosition();
+    vec3 color = samplePalette(t);${adjust}
+    return color;
+}`;
+  }
+
+  if (!escapeTime) {
+    return `
+vec3 getColor(float t) {
+    vec3 color = samplePalette(t);${adjust}
+    return color;
+}`;
+  }
+
+  const shading = coloring === 'distance-estimation' ? 'shadeDistance(color)' : 'color';
+
+  return `
+vec3 getColor(float iteration) {
+    if (iteration >= float(u_maxIterations)) {
+        return getInteriorColor();
+    }
+
+    float t = ${position};
+    vec3 color = samplePalette(t);${adjust}
+    return ${shading};
+}`;
+}
+
+interface IterationOptions {
+  bailout?: string;
+  degree?: string;
+  // vec2 expression of z for orbit traps and derivatives
+  orbit: string;
+  coloring: ColoringAlgorithm;
+  interior: InteriorColoringMode;
+  periodicity: boolean;
+  progressive: boolean;
+  derivative?: FractalShader['derivative'];
+  // Variable of init besides z that progressive passes keep
+  carry?: string;
+}
+
+function buildEscapeTest(magnitudeSquared: string, options: IterationOptions): string {
+  const { bailout, degree } = options;
+  const distanceEstimation = options.coloring === 'distance-estimation';
+  if (bailout && !distanceEstimation) {
+    return `if (${bailout}) {
+            return float(i);
+        }`;
+  }
+
+  const radius = distanceEstimation ? glslFloat(DISTANCE_ESCAPE_RADIUS) : 'u_escapeRadius';
+  const capture = distanceEstimation
+    ? `
+            escapeZ = ${options.orbit};
+            escapeDz = dz;`
+    : '';
+
+  return `float zMagnitudeSquared = ${magnitudeSquared};
+        if (zMagnitudeSquared > ${radius} * ${radius}) {${capture}
+            // Smooth iteration count for better coloring
+            return float(i) + 1.0 - ${degree
+              ? `log(log2(zMagnitudeSquared) * 0.5) / log(${degree})`
+              : 'log2(log2(zMagnitudeSquared) * 0.5)'};
+        }`;
+}
+
+function buildIterationFunction(
+  init: string,
+  step: string,
+  magnitudeSquared: string,
+  coordType: string,
+  options: IterationOptions
+): string {
+  const { orbit, coloring, interior, periodicity, progressive, derivative } = options;
+  const tracking = INTERIOR_TRACKING[interior];
+  let setup = indent(init, 4);
+  let update = indent(step, 8);
+  let differentiated = false;
+
+  if (coloring === 'orbit-trap') {
+    update += `\n        updateTrap(${orbit}, i + 1);`;
+  } else if ((coloring === 'distance-estimation' || interior === 'distance') && derivative) {
+    setup += `\n${indent(derivative.init || 'vec2 dz = vec2(0.0);', 4)}`;
+    update = `        vec2 w = ${orbit};\n${indent(derivative.step, 8)}\n${update}`;
+    differentiated = true;
+  }
+  if (tracking.update) {
+    update += `\n        ${tracking.update(orbit)}`;
+  }
+  // Modes reading the last orbit point or the whole orbit iterate to the end
+  if (periodicity && (interior === 'solid' || interior === 'period')) {
+    // The period mode already feeds the cycle detection
+    update += `${interior === 'period' ? '' : `\n        updateCycle(${orbit});`}
+        if (cyclePeriod > 0) break;`;
+  }
+  const capture = tracking.position ? `    interiorPosition = ${tracking.position(orbit)};\n` : '';
+  const resume = progressive ? buildResume(coordType === 'vec4', differentiated, options.carry) : null;
+
+  return `
+float iterate(${coordType} coord) {
+${setup}
+${resume ? `\n${resume.restore}\n` : ''}
+    for (int i = ${resume ? 'u_iterationStart' : '0'}; i < ${resume ? 'u_iterationEnd' : 'u_maxIterations'}; i++) {
+        ${buildEscapeTest(magnitudeSquared, options)}
+
+${update}
+    }
+
+${resume ? `${resume.save}\n` : ''}${capture}    return float(u_maxIterations);
+}`;
+}
+
+// Statements restoring the orbit of the previous pass after init, and keeping
+// it in carry0 and carry1 after the loop; cycle detection starts over each pass
+function buildResume(emulated: boolean, differentiated: boolean, carry?: string): { restore: string; save: string } {
+  const derivative = differentiated ? 'dz' : 'vec2(0.0)';
+  const [restore, save] = emulated
+    ? [
+      `z = carry0;${differentiated ? '\n        dz = carry1.xy;' : ''}`,
+      `carry0 = z;\n    carry1 = vec4(${derivative}, orbitSum, 0.0);`
+    ]
+    : [
+      `z = carry0.xy;${differentiated ? '\n        dz = carry0.zw;' : ''}${carry ? `\n        ${carry} = carry1.xy;` : ''}`,
+      `carry0 = vec4(z, ${derivative});\n    carry1 = vec4(${carry ?? 'vec2(0.0)'}, orbitSum, 0.0);`
+    ];
+
+  return {
+    restore: `    if (u_iterationStart > 0) {
+        ${restore}
+        orbitSum = carry1.z;
+        orbitCount = float(u_iterationStart);
+    }`,
+    save: `    orbitRunning = u_iterationEnd < u_maxIterations && cyclePeriod == 0;
+    ${save}`
+  };
+}
+
+function buildOutput(
+  value: string,
+  output: ShaderBuildOptions['output'],
+  coloring: ColoringAlgorithm,
+  progressive = false
+): string {
+  if (output === 'state') {
+    const [color, state] = COLORING_STATE[coloring].write;
+    const carry = progressive
+      ? `
+    fragCarry0 = carry0;
+    fragCarry1 = vec4(carry1.xyz, orbitRunning ? 0.0 : 1.0);`
+      : '';
+    return `${progressive ? `${buildProgressiveRead(coloring)}\n\n    ` : ''}float iteration = ${value};
+
+    fragColor = vec4(iteration, ${color});
+    fragState = ${state};${carry}`;
+  }
+  return `vec3 color = getColor(${value});
+
+    fragColor = vec4(color, 1.0);`;
+}
+
+// Read the previous pass, copying the orbits it finished and restoring the
+// coloring's state of the others
+function buildProgressiveRead(coloring: ColoringAlgorithm): string {
+  return `if (u_iterationStart > 0) {
+        ivec2 pixel = ivec2(gl_FragCoord.xy);
+        vec4 state0 = texelFetch(u_previousIteration, pixel, 0);
+        vec4 state1 = texelFetch(u_previousOrbit, pixel, 0);
+        carry0 = texelFetch(u_previousCarry0, pixel, 0);
+        carry1 = texelFetch(u_previousCarry1, pixel, 0);
+        if (carry1.w > 0.5) {
+            fragColor = state0;
+            fragState = state1;
+            fragCarry0 = carry0;
+            fragCarry1 = carry1;
+            return;
+        }
+${indent(COLORING_STATE[coloring].read, 8)}
+    }`;
+}
+
+function buildEmulatedDoubleBody(
+  definition: FractalDefinition,
+  coloring: ColoringAlgorithm,
+  interior: InteriorColoringMode,
+  periodicity: boolean,
+  output: ShaderBuildOptions['output'],
+  progressive: boolean
+): string {
+  const { emulated } = definition.shader;
+  if (!emulated) {
+    throw new Error(`Fractal ${definition.id} has no emulated-double shader`);
+  }
+
+  // The lo parts do not matter for the escape test or the coloring
+  const iteration = buildIterationFunction(
+    emulated.init || DEFAULT_EMULATED_INIT,
+    emulated.step,
+    'z.x * z.x + z.z * z.z',
+    'vec4',
+    { orbit: 'vec2(z.x, z.z)', coloring, interior, periodicity, progressive, derivative: definition.shader.derivative }
+  );
+
+  return `${iteration}
+${buildColorFunction(definition, true, coloring)}
+
+void main() {
+    vec2 uv = v_texCoord;
+    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
+
+    // The offset from the center is small, so plain floats represent it well;
+    // only the sum with the center needs the extra precision
+    vec2 offset = (uv - 0.5) * aspect / u_zoom;
+    vec4 coord = vec4(
+        dsAdd(vec2(u_centerHi.x, u_centerLo.x), vec2(offset.x, 0.0)),
+        dsAdd(vec2(u_centerHi.y, u_centerLo.y), vec2(offset.y, 0.0))
+    );
+
+    ${buildOutput('iterate(coord)', output, coloring, progressive)}
+}`;
+}
+
+function buildFloatBody(
+  definition: FractalDefinition,
+  coloring: ColoringAlgorithm,
+  interior: InteriorColoringMode,
+  periodicity: boolean,
+  output: ShaderBuildOptions['output'],
+  progressive: boolean
+): string {
+  const { shader } = definition;
+  const escapeTime = !shader.evaluate;
+  if (escapeTime && !shader.step) {
+    throw new Error(`Fractal ${definition.id} needs either a step or an evaluate shader snippet`);
+  }
+
+  const evaluation = escapeTime
+    ? buildIterationFunction(
+      shader.init || DEFAULT_INIT,
+      shader.step!,
+      'dot(z, z)',
+      'vec2',
+      {
+        bailout: shader.bailout,
+        degree: shader.degree,
+        orbit: 'z',
+        coloring,
+        interior,
+        periodicity,
+        progressive,
+        derivative: shader.derivative,
+        carry: shader.carry?.[0]
+      }
+    )
+    : `\nfloat evaluate(vec2 coord) {\n${indent(shader.evaluate!, 4)}\n}`;
+
+  return `${evaluation}
+${buildColorFunction(definition, escapeTime, coloring)}
+
+void main() {
+    vec2 uv = v_texCoord;
+    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
+
+    // Transform to fractal coordinates (higher zoom = more zoomed in)
+    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
+
+    ${escapeTime ? buildOutput('iterate(coord)', output, coloring, progressive) : buildOutput('evaluate(coord)', 'color', coloring)}
+}`;
+}
+
+/**
+ * Build the fragment shader for a fractal: shared and parameter uniforms, coordinate
+ * mapping, escape test and palette coloring around the definition's snippets.
+ */
+export function buildFractalShader(definition: FractalDefinition, options: ShaderBuildOptions = {}): string {
+  const library = options.emulatedDouble
+    ? `${COMPLEX_FUNCTIONS}\nuniform vec2 u_centerHi;\nuniform vec2 u_centerLo;\n${DOUBLE_SINGLE_FUNCTIONS}`
+    : COMPLEX_FUNCTIONS;
+  const coloring = getSupportedColoring(definition, options.coloring);
+  const interior = getSupportedInterior(definition, coloring, options.interior);
+  const output = options.output === 'state' && supportsColorizePass(definition) ? 'state' : 'color';
+  const progressive = !!options.progressive && output === 'state' &&
+    supportsProgressiveIteration(definition, options.emulatedDouble);
+  // With carried state such as Phoenix's previous z, a repeated z is no cycle
+  const periodicity = !!options.periodicity && !definition.shader.carry?.length;
+  const body = options.emulatedDouble
+    ? buildEmulatedDoubleBody(definition, coloring, interior, periodicity, output, progressive)
+    : buildFloatBody(definition, coloring, interior, periodicity, output, progressive);
+
+  const outputs = output === 'state' ? `${STATE_OUTPUT}${progressive ? PROGRESSIVE_OUTPUT : ''}` : COLOR_OUTPUT;
+  const declarations = `${buildDeclarations(definition, library, coloring)}${progressive ? PROGRESSIVE_DECLARATIONS : ''}`;
+  return `${FRAGMENT_HEADER}${outputs}${declarations}${body}`;
+}
+
+// Parameter uniforms, the function library, the palette lookup, the definition's
+// and coloring's functions and, for fractals with an interior, cycle detection
+// and the interior coloring
+function buildDeclarations(definition: FractalDefinition, library: string, coloring: ColoringAlgorithm): string {
+  const uniforms = definition.parameters ? `${getParameterUniformDeclarations(definition.parameters)}\n` : '';
+  const functions = definition.shader.functions ? `\n${indent(definition.shader.functions, 0)}\n` : '';
+  const coloringFunctions = COLORING_FUNCTIONS[coloring] ? `${COLORING_FUNCTIONS[coloring]}\n` : '';
+  const interiorFunctions = supportsColorizePass(definition) ? `${PERIODICITY_FUNCTIONS}${INTERIOR_COLORING_FUNCTIONS}` : '';
+  return `${uniforms}${library}${PALETTE_TRANSFORM_FUNCTIONS}${functions}${coloringFunctions}${interiorFunctions}`;
+}
+
+/**
+ * Escape-time fractals can iterate into state textures and color in a second
+ * pass; other fractals color as they evaluate
+ */
+export function supportsColorizePass(definition: FractalDefinition): boolean {
+  return !!definition.shader.step && !definition.shader.evaluate;
+}
+
+/**
+ * Whether the iteration can stop after any pass and resume in the next: the
+ * orbit state besides z has to fit the carried state textures
+ */
+export function supportsProgressiveIteration(definition: FractalDefinition, emulatedDouble = false): boolean {
+  return supportsColorizePass(definition) && (definition.shader.carry?.length ?? 0) <= (emulatedDouble ? 0 : 1);
+}
+
+
+/**
+ * Build the colorize pass of an escape-time fractal. It reads the iteration
+ * counts and orbit state an `output: 'state'` shader wrote to u_iterationState
+ * and u_orbitState, and looks up the palette positions of the iteration counts
+ * in u_colorMap, the positions at the edges of its bins.
+ */
+export function buildColorizeShader(definition: FractalDefinition, coloring: ColoringAlgorithm = 'smooth'): string {
+  const supported = getSupportedColoring(definition, coloring);
+  const read = COLORING_STATE[supported].read;
+
+  return `${FRAGMENT_HEADER}${COLOR_OUTPUT}
+uniform sampler2D u_iterationState;
+uniform sampler2D u_orbitState;
+uniform sampler2D u_colorMap;
+${buildDeclarations(definition, COMPLEX_FUNCTIONS, supported)}
+float getPalettePosition(float iteration) {
+    int bins = textureSize(u_colorMap, 0).x - 1;
+    float edge = clamp(iteration / float(u_maxIterations), 0.0, 1.0) * float(bins);
+    int bin = min(int(edge), bins - 1);
+    float low = texelFetch(u_colorMap, ivec2(bin, 0), 0).r;
+    float high = texelFetch(u_colorMap, ivec2(bin + 1, 0), 0).r;
+    return mix(low, high, edge - float(bin));
+}
+${buildColorFunction(definition, true, supported, 'getPalettePosition(iteration)')}
+
+void main() {
+    ivec2 pixel = ivec2(gl_FragCoord.xy);
+    vec4 state0 = texelFetch(u_iterationState, pixel, 0);
+    vec4 state1 = texelFetch(u_orbitState, pixel, 0);${read ? `\n${indent(read, 4)}` : ''}
+
+    fragColor = vec4(getColor(state0.r), 1.0);
+}`;
+}
@@ -1,4 +1,6 @@
 // GLSL shader sources for fractal rendering
+import { PALETTE_TRANSFORM_FUNCTIONS } from '../coloring/palette-transform';
+
 export const VERTEX_SHADER = `#version 300 es
 precision highp float;
 
@@ -10,285 +12,6 @@ void main() {
     gl_Position = vec4(a_position, 0.0, 1.0);
 }`;
 
-export const MANDELBROT_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
-
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
-
-in vec2 v_texCoord;
-out vec4 fragColor;
-
-vec2 complexMul(vec2 a, vec2 b) {
-    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
-}
-
-vec2 complexSquare(vec2 z) {
-    return vec2(z.x * z.x - z.y * z.y, 2.0 * z.x * z.y);
-}
-
-float mandelbrotIteration(vec2 c) {
-    vec2 z = vec2(0.0);
-    float iterations = 0.0;
-    
-    for (int i = 0; i < 1000; i++) {
-        if (i >= u_maxIterations) break;
-        
-        float zMagnitudeSquared = dot(z, z);
-        if (zMagnitudeSquared > u_escapeRadius * u_escapeRadius) {
-            // Smooth iteration count for better coloring
-            float smoothIteration = float(i) + 1.0 - log2(log2(zMagnitudeSquared) * 0.5);
-            return smoothIteration;
-        }
-        
-        z = complexSquare(z) + c;
-        iterations += 1.0;
-    }
-    
-    return iterations;
-}
-
-vec3 getColor(float iteration) {
-    if (iteration >= float(u_maxIterations)) {
-        return vec3(0.0); // Interior color (black)
-    }
-    
-    // Normalize iteration to [0, 1]
-    float normalizedIteration = iteration / float(u_maxIterations);
-    
-    // Sample color palette
-    vec3 color = texture(u_colorPalette, vec2(normalizedIteration, 0.5)).rgb;
-    
-    // Add subtle animation
-    float wave = sin(u_time * 2.0 + normalizedIteration * 10.0) * 0.1 + 0.9;
-    return color * wave;
-}
-
-void main() {
-    // Convert screen coordinates to complex plane
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    
-    // Transform to fractal coordinates (higher zoom = more zoomed in)
-    vec2 c = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    // Calculate fractal iteration
-    float iteration = mandelbrotIteration(c);
-    
-    // Get final color
-    vec3 color = getColor(iteration);
-    
-    fragColor = vec4(color, 1.0);
-}`;
-
-export const JULIA_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
-
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform vec2 u_juliaConstant;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
-
-in vec2 v_texCoord;
-out vec4 fragColor;
-
-vec2 complexSquare(vec2 z) {
-    return vec2(z.x * z.x - z.y * z.y, 2.0 * z.x * z.y);
-}
-
-float juliaIteration(vec2 z) {
-    float iterations = 0.0;
-    
-    // Use a default Julia constant if u_juliaConstant is not set properly
-    vec2 juliaC = u_juliaConstant;
-    if (length(juliaC) == 0.0) {
-        juliaC = vec2(-0.7269, 0.1889); // Default beautiful Julia constant
-    }
-    
-    for (int i = 0; i < 1000; i++) {
-        if (i >= u_maxIterations) break;
-        
-        float zMagnitudeSquared = dot(z, z);
-        if (zMagnitudeSquared > u_escapeRadius * u_escapeRadius) {
-            float smoothIteration = float(i) + 1.0 - log2(log2(zMagnitudeSquared) * 0.5);
-            return smoothIteration;
-        }
-        
-        z = complexSquare(z) + juliaC;
-        iterations += 1.0;
-    }
-    
-    return iterations;
-}
-
-vec3 getColor(float iteration) {
-    if (iteration >= float(u_maxIterations)) {
-        return vec3(0.0);
-    }
-    
-    float normalizedIteration = iteration / float(u_maxIterations);
-    vec3 color = texture(u_colorPalette, vec2(normalizedIteration, 0.5)).rgb;
-    
-    // Different animation pattern for Julia sets
-    float wave = cos(u_time * 1.5 + normalizedIteration * 8.0) * 0.15 + 0.85;
-    return color * wave;
-}
-
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 z = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float iteration = juliaIteration(z);
-    vec3 color = getColor(iteration);
-    
-    fragColor = vec4(color, 1.0);
-}`;
-
-export const BURNING_SHIP_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
-
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
-
-in vec2 v_texCoord;
-out vec4 fragColor;
-
-vec2 complexSquareAbs(vec2 z) {
-    // Burning ship uses abs(z) before squaring
-    vec2 absZ = abs(z);
-    return vec2(absZ.x * absZ.x - absZ.y * absZ.y, 2.0 * absZ.x * absZ.y);
-}
-
-float burningShipIteration(vec2 c) {
-    vec2 z = vec2(0.0);
-    float iterations = 0.0;
-    
-    for (int i = 0; i < 1000; i++) {
-        if (i >= u_maxIterations) break;
-        
-        float zMagnitudeSquared = dot(z, z);
-        if (zMagnitudeSquared > u_escapeRadius * u_escapeRadius) {
-            float smoothIteration = float(i) + 1.0 - log2(log2(zMagnitudeSquared) * 0.5);
-            return smoothIteration;
-        }
-        
-        z = complexSquareAbs(z) + c;
-        iterations += 1.0;
-    }
-    
-    return iterations;
-}
-
-vec3 getColor(float iteration) {
-    if (iteration >= float(u_maxIterations)) {
-        return vec3(0.1, 0.0, 0.05); // Darker interior for burning ship
-    }
-    
-    float normalizedIteration = iteration / float(u_maxIterations);
-    vec3 color = texture(u_colorPalette, vec2(normalizedIteration, 0.5)).rgb;
-    
-    // Fire-like animation
-    float flame = sin(u_time * 3.0 + normalizedIteration * 15.0) * 0.2 + 0.8;
-    color.r *= flame * 1.2; // Enhance red channel for fire effect
-    
-    return color;
-}
-
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    
-    // Burning ship is typically viewed with flipped y-axis
-    vec2 c = (uv - 0.5) * aspect / u_zoom + u_center;
-    c.y = -c.y;
-    
-    float iteration = burningShipIteration(c);
-    vec3 color = getColor(iteration);
-    
-    fragColor = vec4(color, 1.0);
-}`;
-
-export const LYAPUNOV_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
-
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
-
-in vec2 v_texCoord;
-out vec4 fragColor;
-
-// Lyapunov fractal using logistic map
-float lyapunovIteration(vec2 coord) {
-    float a = coord.x;
-    float b = coord.y;
-    
-    float x = 0.5; // Initial value
-    float lyapunov = 0.0;
-    
-    // Use a simple AB pattern
-    for (int i = 0; i < 1000; i++) {
-        if (i >= u_maxIterations) break;
-        
-        float r = (i % 2 == 0) ? a : b;
-        
-        if (r <= 0.0 || r >= 4.0 || x <= 0.0 || x >= 1.0) {
-            return -10.0; // Divergent
-        }
-        
-        float derivative = r * (1.0 - 2.0 * x);
-        lyapunov += log(abs(derivative));
-        
-        x = r * x * (1.0 - x);
-    }
-    
-    return lyapunov / float(u_maxIterations);
-}
-
-vec3 getColor(float lyapunov) {
-    // Color based on Lyapunov exponent
-    float normalizedLyapunov = (lyapunov + 2.0) / 4.0; // Normalize to [0, 1]
-    normalizedLyapunov = clamp(normalizedLyapunov, 0.0, 1.0);
-    
-    vec3 color = texture(u_colorPalette, vec2(normalizedLyapunov, 0.5)).rgb;
-    
-    // Subtle oscillation
-    float wave = sin(u_time + normalizedLyapunov * 6.28) * 0.1 + 0.9;
-    return color * wave;
-}
-
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    // Map to parameter space [0, 4] x [0, 4]
-    coord = (coord + vec2(2.0)) * 2.0;
-    
-    float lyapunov = lyapunovIteration(coord);
-    vec3 color = getColor(lyapunov);
-    
-    fragColor = vec4(color, 1.0);
-}`;
-
 // Compute shader for enhanced performance (WebGL 2.0)
 export const COMPUTE_FRAGMENT_SHADER = `#version 300 es
 precision highp float;
@@ -302,7 +25,8 @@ uniform int u_fractalType; // 0: Mandelbrot, 1: Julia, 2: Burning Ship, 3: Lyapu
 uniform vec2 u_juliaConstant;
 uniform sampler2D u_colorPalette;
 uniform float u_time;
-
+uniform vec3 u_interiorColor;
+${PALETTE_TRANSFORM_FUNCTIONS}
 in vec2 v_texCoord;
 out vec4 fragColor;
 
@@ -311,8 +35,7 @@ float calculateFractal(vec2 coord, int fractalType) {
     if (fractalType == 0) {
         // Mandelbrot
         vec2 z = vec2(0.0);
-        for (int i = 0; i < 1000; i++) {
-            if (i >= u_maxIterations) break;
+        for (int i = 0; i < u_maxIterations; i++) {
             if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
                 return float(i) + 1.0 - log2(log2(dot(z, z)) * 0.5);
             }
@@ -322,8 +45,7 @@ float calculateFractal(vec2 coord, int fractalType) {
     } else if (fractalType == 1) {
         // Julia
         vec2 z = coord;
-        for (int i = 0; i < 1000; i++) {
-            if (i >= u_maxIterations) break;
+        for (int i = 0; i < u_maxIterations; i++) {
             if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
                 return float(i) + 1.0 - log2(log2(dot(z, z)) * 0.5);
             }
@@ -334,8 +56,7 @@ float calculateFractal(vec2 coord, int fractalType) {
         // Burning Ship
         vec2 z = vec2(0.0);
         coord.y = -coord.y; // Flip y-axis
-        for (int i = 0; i < 1000; i++) {
-            if (i >= u_maxIterations) break;
+        for (int i = 0; i < u_maxIterations; i++) {
             if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
                 return float(i) + 1.0 - log2(log2(dot(z, z)) * 0.5);
             }
@@ -350,11 +71,11 @@ float calculateFractal(vec2 coord, int fractalType) {
 
 vec3 getColor(float iteration, int fractalType) {
     if (iteration >= float(u_maxIterations)) {
-        return fractalType == 2 ? vec3(0.1, 0.0, 0.05) : vec3(0.0);
+        return u_interiorColor;
     }
     
     float normalizedIteration = iteration / float(u_maxIterations);
-    vec3 color = texture(u_colorPalette, vec2(normalizedIteration, 0.5)).rgb;
+    vec3 color = samplePalette(normalizedIteration);
     
     // Different animation patterns per fractal type
     float wave;
@@ -364,11 +85,11 @@ vec3 getColor(float iteration, int fractalType) {
         wave = cos(u_time * 1.5 + normalizedIteration * 8.0) * 0.15 + 0.85;
     } else {
         wave = sin(u_time * 3.0 + normalizedIteration * 15.0) * 0.2 + 0.8;
-        color.r *= wave * 1.2; // Fire effect for burning ship
+        color.r *= paletteWobble(wave) * 1.2; // Fire effect for burning ship
         return color;
     }
     
-    return color * wave;
+    return color * paletteWobble(wave);
 }
 
 void main() {
@@ -421,124 +142,211 @@ void main() {
     fragColor = vec4(finalColor, 1.0);
 }`;
 
-export const TRICORN_FRAGMENT_SHADER = `#version 300 es
+// Perturbation shader for deep zooms: pixels iterate their offset from a
+// reference orbit computed on the CPU in arbitrary precision. Deltas are kept
+// as w * 2^e so they stay representable far below the float32 range.
+export const PERTURBATION_FRAGMENT_SHADER = `#version 300 es
 precision highp float;
 
 uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
 uniform int u_maxIterations;
 uniform float u_escapeRadius;
+uniform int u_fractalType; // 0: Mandelbrot, 1: Burning Ship, 2: Tricorn, 3: Celtic
 uniform sampler2D u_colorPalette;
 uniform float u_time;
+// Deep zoom interiors are solid
+uniform vec3 u_interiorColor;
+${PALETTE_TRANSFORM_FUNCTIONS}
+// Reference orbit Z_n, one RG32F texel per iteration
+uniform sampler2D u_referenceOrbit;
+uniform int u_referenceLength;
+uniform int u_orbitTextureWidth;
+
+// Pixel scale 1/zoom = u_scaleMantissa * 2^u_scaleExponent
+uniform float u_scaleMantissa;
+uniform int u_scaleExponent;
+
+// View center minus reference center, in units of 2^u_scaleExponent
+uniform vec2 u_referenceOffset;
+
+// 1 to write the iteration count for the colorize pass instead of a color,
+// with the solid interior's palette position of -1
+uniform int u_outputIteration;
+
+// Progressive iteration of the colorize pass's input, as in the shader builder:
+// this pass runs iterations u_iterationStart to u_iterationEnd and keeps the
+// delta (w, e) and reference index m of the orbits still running
+uniform int u_iterationStart;
+uniform int u_iterationEnd;
+uniform sampler2D u_previousIteration;
+uniform sampler2D u_previousCarry0;
+uniform sampler2D u_previousCarry1;
 
 in vec2 v_texCoord;
-out vec4 fragColor;
+layout(location = 0) out vec4 fragColor;
+layout(location = 2) out vec4 fragCarry0;
+layout(location = 3) out vec4 fragCarry1;
+
+vec4 carry0 = vec4(0.0);
+bool orbitRunning = false;
 
 vec2 complexMul(vec2 a, vec2 b) {
     return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
 }
 
-float tricornEscape(vec2 c) {
-    vec2 z = vec2(0.0, 0.0);
-    
-    for (int i = 0; i < u_maxIterations; i++) {
-        if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
-            return float(i);
-        }
-        
-        // Tricorn: conjugate(z)^2 + c
-        vec2 zConj = vec2(z.x, -z.y);
-        z = complexMul(zConj, zConj) + c;
-    }
-    
-    return float(u_maxIterations);
+vec2 referencePoint(int n) {
+    return texelFetch(u_referenceOrbit, ivec2(n % u_orbitTextureWidth, n / u_orbitTextureWidth), 0).rg;
 }
 
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float escape = tricornEscape(coord);
-    float t = escape / float(u_maxIterations);
-    
-    if (t >= 1.0) {
-        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
-    } else {
-        vec3 color = texture(u_colorPalette, vec2(t, 0.5)).rgb;
-        fragColor = vec4(color, 1.0);
+// 2^e, flushed to zero below the float32 range
+float scaleFactor(int e) {
+    if (e < -126) return 0.0;
+    return exp2(float(min(e, 127)));
+}
+
+float maxNorm(vec2 v) {
+    return max(abs(v.x), abs(v.y));
+}
+
+// (|c + d| - |c|) / s for d = dw * s, without catastrophic cancellation
+float diffAbs(float c, float dw, float s) {
+    float d = dw * s;
+    if (c >= 0.0) {
+        return (c + d >= 0.0) ? dw : -(2.0 * c / s + dw);
     }
-}`;
+    return (c + d > 0.0) ? (2.0 * c / s + dw) : -dw;
+}
 
-export const CELTIC_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
+// delta_{n+1} / s, excluding the dc term, for delta_n = w * s
+vec2 perturbStep(vec2 Z, vec2 w, float s) {
+    vec2 delta = 2.0 * complexMul(Z, w) + s * complexMul(w, w);
+
+    if (u_fractalType == 1) {
+        // Burning Ship: Im = 2|XY|
+        float crossTerm = Z.x * w.y + Z.y * w.x + s * w.x * w.y;
+        return vec2(delta.x, 2.0 * diffAbs(Z.x * Z.y, crossTerm, s));
+    } else if (u_fractalType == 2) {
+        // Tricorn: conj((Z + d)^2) - conj(Z^2)
+        return vec2(delta.x, -delta.y);
+    } else if (u_fractalType == 3) {
+        // Celtic: Re = |X^2 - Y^2|
+        return vec2(diffAbs(Z.x * Z.x - Z.y * Z.y, delta.x, s), delta.y);
+    }
 
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
+    return delta;
+}
 
-in vec2 v_texCoord;
-out vec4 fragColor;
+// Keep |w| near 1 by moving powers of two into the exponent
+void normalizeDelta(inout vec2 w, inout int e) {
+    float magnitude = maxNorm(w);
+    if (magnitude == 0.0) return;
 
-vec2 complexMul(vec2 a, vec2 b) {
-    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+    int k = int(floor(log2(magnitude)));
+    if (k > 16 || k < -16) {
+        w *= exp2(float(-k));
+        e += k;
+    }
 }
 
-float celticEscape(vec2 c) {
-    vec2 z = vec2(0.0, 0.0);
-    
-    for (int i = 0; i < u_maxIterations; i++) {
-        if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
-            return float(i);
+float perturbationIteration(vec2 dc, int dcExponent) {
+    vec2 w = vec2(0.0); // delta_n = w * 2^e
+    int e = dcExponent;
+    int m = 0;          // Index into the reference orbit
+    if (u_iterationStart > 0) {
+        w = carry0.xy;
+        e = int(carry0.z);
+        m = int(carry0.w);
+    }
+
+    for (int i = u_iterationStart; i < u_iterationEnd; i++) {
+        vec2 Z = referencePoint(m);
+        float s = scaleFactor(e);
+        vec2 delta = w * s;
+        vec2 z = Z + delta;
+
+        float zMagnitudeSquared = dot(z, z);
+        if (zMagnitudeSquared > u_escapeRadius * u_escapeRadius) {
+            return float(i) + 1.0 - log2(log2(zMagnitudeSquared) * 0.5);
+        }
+
+        // Glitch detection: the pixel orbit came closer to zero than its delta
+        // (the reference can no longer approximate it), or the reference orbit
+        // escaped first. Rebase onto the start of the reference orbit.
+        if (maxNorm(z) < maxNorm(delta) || m >= u_referenceLength - 1) {
+            w = z;
+            e = 0;
+            m = 0;
+            normalizeDelta(w, e);
+            Z = vec2(0.0);
+            s = scaleFactor(e);
         }
-        
-        // Celtic: (|Re(z^2)| + i*Im(z^2)) + c
-        vec2 z2 = complexMul(z, z);
-        z = vec2(abs(z2.x), z2.y) + c;
+
+        w = perturbStep(Z, w, s) + dc * scaleFactor(dcExponent - e);
+        m++;
+        normalizeDelta(w, e);
     }
-    
+
+    orbitRunning = u_iterationEnd < u_maxIterations;
+    carry0 = vec4(w, float(e), float(m));
     return float(u_maxIterations);
 }
 
+vec3 getColor(float iteration) {
+    if (iteration >= float(u_maxIterations)) {
+        return u_interiorColor;
+    }
+
+    float normalizedIteration = iteration / float(u_maxIterations);
+    vec3 color = samplePalette(normalizedIteration);
+
+    float wave = sin(u_time * 2.0 + normalizedIteration * 10.0) * 0.1 + 0.9;
+    return color * paletteWobble(wave);
+}
+
 void main() {
     vec2 uv = v_texCoord;
     vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float escape = celticEscape(coord);
-    float t = escape / float(u_maxIterations);
-    
-    if (t >= 1.0) {
-        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
-    } else {
-        vec3 color = texture(u_colorPalette, vec2(t, 0.5)).rgb;
-        fragColor = vec4(color, 1.0);
+
+    // Offset from the reference point in units of 2^u_scaleExponent
+    vec2 dc = (uv - 0.5) * aspect * u_scaleMantissa + u_referenceOffset;
+    if (u_fractalType == 1) {
+        dc.y = -dc.y; // Burning Ship is viewed with a flipped y-axis
     }
-}`;
 
-export const NEWTON_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
+    if (u_iterationStart > 0) {
+        ivec2 pixel = ivec2(gl_FragCoord.xy);
+        carry0 = texelFetch(u_previousCarry0, pixel, 0);
+        // Finished orbits keep their iteration count
+        if (texelFetch(u_previousCarry1, pixel, 0).w > 0.5) {
+            fragColor = texelFetch(u_previousIteration, pixel, 0);
+            fragCarry0 = carry0;
+            fragCarry1 = vec4(1.0);
+            return;
+        }
+    }
 
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
+    float iteration = perturbationIteration(dc, u_scaleExponent);
+    if (u_outputIteration == 1) {
+        fragColor = vec4(iteration, -1.0, 0.0, 1.0);
+        fragCarry0 = carry0;
+        fragCarry1 = vec4(0.0, 0.0, 0.0, orbitRunning ? 0.0 : 1.0);
+        return;
+    }
+    vec3 color = getColor(iteration);
 
-in vec2 v_texCoord;
-out vec4 fragColor;
+    fragColor = vec4(color, 1.0);
+}`;
 
+// Complex arithmetic shared by generated fractal shaders (vec2 = re, im)
+export const COMPLEX_FUNCTIONS = `
 vec2 complexMul(vec2 a, vec2 b) {
     return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
 }
 
+vec2 complexSquare(vec2 z) {
+    return vec2(z.x * z.x - z.y * z.y, 2.0 * z.x * z.y);
+}
+
 vec2 complexDiv(vec2 a, vec2 b) {
     float denom = b.x * b.x + b.y * b.y;
     return vec2((a.x * b.x + a.y * b.y) / denom, (a.y * b.x - a.x * b.y) / denom);
@@ -552,275 +360,140 @@ vec2 complexPow(vec2 z, int n) {
     return result;
 }
 
-float newtonIteration(vec2 z0) {
-    vec2 z = z0;
-    
-    for (int i = 0; i < u_maxIterations; i++) {
-        // Newton's method for z^3 - 1 = 0
-        // f(z) = z^3 - 1
-        // f'(z) = 3*z^2
-        vec2 f = complexPow(z, 3) - vec2(1.0, 0.0);
-        vec2 fp = 3.0 * complexMul(z, z);
-        
-        if (length(fp) < 0.0001) break;
-        
-        vec2 delta = complexDiv(f, fp);
-        z = z - delta;
-        
-        if (length(delta) < 0.0001) {
-            // Check which root we converged to
-            vec2 root1 = vec2(1.0, 0.0);
-            vec2 root2 = vec2(-0.5, 0.866025); // (-1 + i*sqrt(3))/2
-            vec2 root3 = vec2(-0.5, -0.866025); // (-1 - i*sqrt(3))/2
-            
-            float dist1 = length(z - root1);
-            float dist2 = length(z - root2);
-            float dist3 = length(z - root3);
-            
-            if (dist1 < dist2 && dist1 < dist3) return float(i) / float(u_maxIterations);
-            if (dist2 < dist3) return 0.33 + float(i) / float(u_maxIterations) * 0.33;
-            return 0.66 + float(i) / float(u_maxIterations) * 0.33;
-        }
-    }
-    
-    return 1.0;
+vec2 complexExp(vec2 z) {
+    return exp(z.x) * vec2(cos(z.y), sin(z.y));
 }
 
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float escape = newtonIteration(coord);
-    float t = escape;
-    
-    vec3 color = texture(u_colorPalette, vec2(t, 0.5)).rgb;
-    fragColor = vec4(color, 1.0);
-}`;
-
-export const PHOENIX_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
-
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
-
-in vec2 v_texCoord;
-out vec4 fragColor;
-
-vec2 complexMul(vec2 a, vec2 b) {
-    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+// Principal branches for log and sqrt
+vec2 complexLog(vec2 z) {
+    return vec2(log(length(z)), atan(z.y, z.x));
 }
 
-float phoenixIteration(vec2 c) {
-    vec2 z = vec2(0.0, 0.0);
-    vec2 zPrev = vec2(0.0, 0.0);
-    float p = 0.5667; // Phoenix parameter
-    
-    for (int i = 0; i < u_maxIterations; i++) {
-        if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
-            return float(i) + 1.0 - log2(log2(dot(z, z)) * 0.5);
-        }
-        
-        // Phoenix: z_{n+1} = z_n^2 + c + p * z_{n-1}
-        vec2 zNext = complexMul(z, z) + c + p * zPrev;
-        zPrev = z;
-        z = zNext;
-    }
-    
-    return float(u_maxIterations);
+vec2 complexSqrt(vec2 z) {
+    float r = length(z);
+    float im = sqrt(max(0.5 * (r - z.x), 0.0));
+    return vec2(sqrt(max(0.5 * (r + z.x), 0.0)), z.y < 0.0 ? -im : im);
 }
 
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float escape = phoenixIteration(coord);
-    float t = escape / float(u_maxIterations);
-    
-    if (t >= 1.0) {
-        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
-    } else {
-        vec3 color = texture(u_colorPalette, vec2(t, 0.5)).rgb;
-        // Phoenix gets a fiery orange glow
-        color.r *= 1.2;
-        color.g *= 1.1;
-        fragColor = vec4(color, 1.0);
-    }
-}`;
-
-export const LAMBDA_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
+// z^d for a real exponent in polar form; 0^d is taken as 0
+vec2 complexPowReal(vec2 z, float d) {
+    float r2 = dot(z, z);
+    if (r2 == 0.0) return vec2(0.0);
+    float angle = atan(z.y, z.x) * d;
+    return pow(r2, 0.5 * d) * vec2(cos(angle), sin(angle));
+}
 
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
+// z^w for a complex exponent; 0^w is taken as 0
+vec2 complexPowComplex(vec2 z, vec2 w) {
+    if (dot(z, z) == 0.0) return vec2(0.0);
+    return complexExp(complexMul(w, complexLog(z)));
+}
 
-in vec2 v_texCoord;
-out vec4 fragColor;
+vec2 complexSin(vec2 z) {
+    return vec2(sin(z.x) * cosh(z.y), cos(z.x) * sinh(z.y));
+}
 
-vec2 complexMul(vec2 a, vec2 b) {
-    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+vec2 complexCos(vec2 z) {
+    return vec2(cos(z.x) * cosh(z.y), -sin(z.x) * sinh(z.y));
 }
 
-float lambdaIteration(vec2 lambda) {
-    vec2 z = vec2(0.5, 0.0); // Starting point
-    
-    for (int i = 0; i < u_maxIterations; i++) {
-        if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
-            return float(i) + 1.0 - log2(log2(dot(z, z)) * 0.5);
-        }
-        
-        // Lambda: z_{n+1} = lambda * z_n * (1 - z_n)
-        vec2 oneMinusZ = vec2(1.0 - z.x, -z.y);
-        z = complexMul(lambda, complexMul(z, oneMinusZ));
-    }
-    
-    return float(u_maxIterations);
+vec2 complexTan(vec2 z) {
+    return complexDiv(complexSin(z), complexCos(z));
 }
 
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float escape = lambdaIteration(coord);
-    float t = escape / float(u_maxIterations);
-    
-    if (t >= 1.0) {
-        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
-    } else {
-        vec3 color = texture(u_colorPalette, vec2(t, 0.5)).rgb;
-        fragColor = vec4(color, 1.0);
-    }
-}`;
+vec2 complexSinh(vec2 z) {
+    return vec2(sinh(z.x) * cos(z.y), cosh(z.x) * sin(z.y));
+}
 
-export const PERPENDICULAR_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
+vec2 complexCosh(vec2 z) {
+    return vec2(cosh(z.x) * cos(z.y), sinh(z.x) * sin(z.y));
+}
 
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
+vec2 complexTanh(vec2 z) {
+    return complexDiv(complexSinh(z), complexCosh(z));
+}
+`;
+
+// Double-single (float-float) arithmetic for the emulated-double tier. Each
+// real number is an unevaluated sum hi + lo of two floats (vec2), and complex
+// values are packed as vec4(re.hi, re.lo, im.hi, im.lo).
+export const DOUBLE_SINGLE_FUNCTIONS = `
+// Always 1.0. Multiplying by it keeps the compiler from simplifying
+// (a + b) - a to b, which would discard the rounding error terms.
+uniform float u_dsGuard;
+
+// Error-free sum, assuming |a| >= |b|
+vec2 quickTwoSum(float a, float b) {
+    float s = (a + b) * u_dsGuard;
+    return vec2(s, b - (s - a));
+}
 
-in vec2 v_texCoord;
-out vec4 fragColor;
+// Error-free sum
+vec2 twoSum(float a, float b) {
+    float s = (a + b) * u_dsGuard;
+    float v = (s - a) * u_dsGuard;
+    return vec2(s, (a - (s - v)) + (b - v));
+}
 
-vec2 complexMul(vec2 a, vec2 b) {
-    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+// Dekker split into two non-overlapping 12-bit halves
+vec2 splitFloat(float a) {
+    float t = (4097.0 * a) * u_dsGuard;
+    float hi = t - (t - a);
+    return vec2(hi, a - hi);
 }
 
-float perpendicularIteration(vec2 c) {
-    vec2 z = vec2(0.0, 0.0);
-    
-    for (int i = 0; i < u_maxIterations; i++) {
-        if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
-            return float(i) + 1.0 - log2(log2(dot(z, z)) * 0.5);
-        }
-        
-        // Perpendicular: z_{n+1} = (Re(z_n^2) - Im(z_n^2)) + c
-        vec2 z2 = complexMul(z, z);
-        z = vec2(z2.x, -z2.y) + c;
-    }
-    
-    return float(u_maxIterations);
+// Error-free product
+vec2 twoProd(float a, float b) {
+    float p = (a * b) * u_dsGuard;
+    vec2 aSplit = splitFloat(a);
+    vec2 bSplit = splitFloat(b);
+    float e = ((aSplit.x * bSplit.x - p) + aSplit.x * bSplit.y + aSplit.y * bSplit.x) + aSplit.y * bSplit.y;
+    return vec2(p, e);
 }
 
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float escape = perpendicularIteration(coord);
-    float t = escape / float(u_maxIterations);
-    
-    if (t >= 1.0) {
-        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
-    } else {
-        vec3 color = texture(u_colorPalette, vec2(t, 0.5)).rgb;
-        fragColor = vec4(color, 1.0);
-    }
-}`;
+vec2 dsAdd(vec2 a, vec2 b) {
+    vec2 s = twoSum(a.x, b.x);
+    vec2 t = twoSum(a.y, b.y);
+    s.y += t.x;
+    s = quickTwoSum(s.x, s.y);
+    s.y += t.y;
+    return quickTwoSum(s.x, s.y);
+}
 
-export const HEART_FRAGMENT_SHADER = `#version 300 es
-precision highp float;
+vec2 dsMul(vec2 a, vec2 b) {
+    vec2 p = twoProd(a.x, b.x);
+    p.y += a.x * b.y + a.y * b.x;
+    return quickTwoSum(p.x, p.y);
+}
 
-uniform vec2 u_resolution;
-uniform vec2 u_center;
-uniform float u_zoom;
-uniform int u_maxIterations;
-uniform float u_escapeRadius;
-uniform sampler2D u_colorPalette;
-uniform float u_time;
+vec2 dsAbs(vec2 a) {
+    return a.x < 0.0 ? -a : a;
+}
 
-in vec2 v_texCoord;
-out vec4 fragColor;
+vec4 dcAdd(vec4 a, vec4 b) {
+    return vec4(dsAdd(a.xy, b.xy), dsAdd(a.zw, b.zw));
+}
 
-vec2 complexMul(vec2 a, vec2 b) {
-    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+vec4 dcMul(vec4 a, vec4 b) {
+    return vec4(
+        dsAdd(dsMul(a.xy, b.xy), -dsMul(a.zw, b.zw)),
+        dsAdd(dsMul(a.xy, b.zw), dsMul(a.zw, b.xy))
+    );
 }
 
-float heartIteration(vec2 c) {
-    vec2 z = vec2(0.0, 0.0);
-    
-    for (int i = 0; i < u_maxIterations; i++) {
-        if (dot(z, z) > u_escapeRadius * u_escapeRadius) {
-            return float(i) + 1.0 - log2(log2(dot(z, z)) * 0.5);
-        }
-        
-        // Heart-shaped fractal: use modified Mandelbrot with heart transformation
-        // Apply heart curve transformation: x' = x, y' = sqrt(|x|) - y
-        vec2 zTransformed = vec2(z.x, sqrt(abs(z.x)) - z.y);
-        z = complexMul(zTransformed, zTransformed) + c;
-    }
-    
-    return float(u_maxIterations);
+vec4 dcSquare(vec4 z) {
+    vec2 xy = dsMul(z.xy, z.zw);
+    return vec4(dsAdd(dsMul(z.xy, z.xy), -dsMul(z.zw, z.zw)), dsAdd(xy, xy));
 }
 
-void main() {
-    vec2 uv = v_texCoord;
-    vec2 aspect = vec2(u_resolution.x / u_resolution.y, 1.0);
-    vec2 coord = (uv - 0.5) * aspect / u_zoom + u_center;
-    
-    float escape = heartIteration(coord);
-    float t = escape / float(u_maxIterations);
-    
-    if (t >= 1.0) {
-        fragColor = vec4(0.0, 0.0, 0.0, 1.0);
-    } else {
-        vec3 color = texture(u_colorPalette, vec2(t, 0.5)).rgb;
-        // Heart gets a romantic red tint
-        color.r *= 1.3;
-        color.g *= 0.9;
-        fragColor = vec4(color, 1.0);
-    }
-}`;
+vec4 dcScale(vec4 z, float s) {
+    return vec4(dsMul(z.xy, vec2(s, 0.0)), dsMul(z.zw, vec2(s, 0.0)));
+}
+`;
 
 export const shaderSources = {
   vertex: VERTEX_SHADER,
-  mandelbrot: MANDELBROT_FRAGMENT_SHADER,
-  julia: JULIA_FRAGMENT_SHADER,
-  burningShip: BURNING_SHIP_FRAGMENT_SHADER,
-  lyapunov: LYAPUNOV_FRAGMENT_SHADER,
-  tricorn: TRICORN_FRAGMENT_SHADER,
-  celtic: CELTIC_FRAGMENT_SHADER,
-  newton: NEWTON_FRAGMENT_SHADER,
-  phoenix: PHOENIX_FRAGMENT_SHADER,
-  lambda: LAMBDA_FRAGMENT_SHADER,
-  perpendicular: PERPENDICULAR_FRAGMENT_SHADER,
-  heart: HEART_FRAGMENT_SHADER,
   compute: COMPUTE_FRAGMENT_SHADER,
+  perturbation: PERTURBATION_FRAGMENT_SHADER,
   antialiasing: AA_FRAGMENT_SHADER,
 };
@@ -5,6 +5,12 @@ export interface Complex {
   imag: number;
 }
 
+// Lossless decimal representation of a complex number for deep zooms
+export interface HighPrecisionComplex {
+  real: string;
+  imag: string;
+}
+
 export type FractalType = 
   | 'mandelbrot' 
   | 'julia' 
@@ -16,9 +22,112 @@ export type FractalType =
   | 'heart'
   | 'newton'
   | 'phoenix'
-  | 'lambda';
+  | 'lambda'
+  | 'multibrot'
+  | `custom-${string}`; // User-defined formulas registered at runtime
+
+// 'nova' adds the pixel to every Newton step and starts from z = 1
+export type NewtonVariant = 'newton' | 'nova';
+
+export interface NewtonParams {
+  coefficients: Complex[]; // a0 + a1 z + ... + an z^n, lowest degree first, n <= 8
+  variant: NewtonVariant;
+  relaxation: number; // a in z - a f(z)/f'(z); 1 is the classic method
+}
+
+// How escape-time fractals map each pixel's orbit to the palette
+export type ColoringAlgorithm = 'smooth' | 'orbit-trap' | 'distance-estimation';
+
+export type OrbitTrapShape = 'point' | 'line' | 'cross' | 'circle' | 'image';
+
+// Quantity of the closest approach to the trap that picks the palette color
+export type OrbitTrapOutput = 'distance' | 'iteration' | 'angle';
 
-export type ShaderPrecision = 'highp' | 'mediump' | 'lowp';
+export interface OrbitTrapParams {
+  shape: OrbitTrapShape;
+  output: OrbitTrapOutput;
+  center: Complex; // The point, the circle's center, where the lines cross, or the image's center
+  angle: number; // Rotation of the line, cross and image in radians
+  radius: number; // Circle radius, or half the image's width
+  falloff: number; // Trap distance at which the palette is about two thirds through
+  image?: string; // PNG data URL for image traps
+}
+
+// Exterior shading from the distance estimate |z| log|z| / |dz|
+export interface DistanceEstimationParams {
+  boundary: number; // Width of the boundary lines in pixels; 0 hides them
+  glow: number; // Reach of the glow around the set in pixels; 0 turns it off
+  lighting: boolean; // Shade the exterior as a relief lit from one side
+  lightAngle: number; // Direction the light comes from, in radians
+  lightHeight: number; // Elevation of the light; higher flattens the relief
+}
+
+// How points that never escape are colored: one solid color, or a palette
+// position from the final z, the period of the cycle the orbit settles into,
+// the orbit's average distance from the origin or its derivative
+export type InteriorColoringMode = 'solid' | 'magnitude' | 'angle' | 'period' | 'orbit-average' | 'distance';
+
+export interface InteriorColoringParams {
+  mode: InteriorColoringMode;
+  color: string; // Hex color of solid interiors and of points a mode cannot place
+  palettes: Partial<Record<InteriorColoringMode, string>>; // Palette id of each mode; left out for its default
+}
+
+// How iteration counts spread over the palette: divided by the iteration limit,
+// or fitted to the statistics of the whole frame
+export type ColorMappingMode = 'linear' | 'histogram' | 'percentile' | 'auto-range';
+
+export interface ColorMappingParams {
+  mode: ColorMappingMode;
+  clip: number; // Percent of escaped pixels clipped at each end in percentile mode
+}
+
+// Spread of the palette over the iteration range: evenly, or compressed toward
+// the high iteration counts
+export type PaletteDensity = 'linear' | 'logarithmic';
+
+export interface PaletteTransformParams {
+  offset: number; // Shift of the palette in [0, 1)
+  cycles: number; // Repeats of the palette across the iteration range
+  density: PaletteDensity;
+  reverse: boolean;
+  speed: number; // Palette cycles per second of animation; 0 holds it still
+  wobble: boolean; // The fractals' animated brightness waves
+}
+
+// Orbit density rendering: escaping orbits (Buddhabrot), escaping orbits split
+// into R, G and B by iteration count (Nebulabrot) or non-escaping orbits
+export type DensityMode = 'buddhabrot' | 'nebulabrot' | 'anti-buddhabrot';
+
+export interface DensitySettings {
+  mode: DensityMode;
+  maxIterations: number; // Iteration limit for Buddhabrot and anti-Buddhabrot
+  bands: [number, number, number]; // Nebulabrot iteration limits of the R, G and B channels
+  minIterations: number; // Escaping orbits shorter than this are skipped
+  gamma: number;
+  exposure: number;
+}
+
+export interface ExportSettings {
+  width: number;
+  height: number;
+  supersampling: number; // Jittered samples per pixel along each axis
+}
+
+export type MovieFormat = 'png-sequence' | 'gif';
+
+export interface MovieSettings {
+  width: number;
+  height: number;
+  fps: number;
+  format: MovieFormat;
+}
+
+// Value of a fractal-specific parameter: float, complex, choice or sequence
+export type FractalParameterValue = number | Complex | string;
+
+// 'emulated-double' runs the iteration in double-single (float-float) arithmetic
+export type ShaderPrecision = 'highp' | 'mediump' | 'lowp' | 'emulated-double';
 
 export type BufferType = 'double' | 'triple';
 
@@ -34,12 +143,24 @@ export interface FractalPreset {
 export interface FractalParams {
   fractalType: FractalType;
   escapeRadius: 2 | 4 | 8;
-  maxIterations: 50 | 100 | 500 | 1000;
+  maxIterations: number; // MIN_ITERATIONS to MAX_ITERATIONS
   center: Complex;
   zoom: number;
   juliaConstant?: Complex; // Only for Julia sets
+  exponent?: number; // Only for Multibrot sets: the real degree d in z^d + c
+  newton?: NewtonParams; // Only for Newton fractals
+  coloring?: ColoringAlgorithm; // Defaults to smooth iteration count
+  orbitTrap?: OrbitTrapParams; // Used when coloring is 'orbit-trap'
+  distanceEstimation?: DistanceEstimationParams; // Used when coloring is 'distance-estimation'
+  colorMapping?: ColorMappingParams; // Defaults to linear
+  interior?: InteriorColoringParams; // Defaults to solid black
+  paletteTransform?: PaletteTransformParams; // Defaults to one still cycle with the wobble
+  parameters?: Record<string, FractalParameterValue>; // Values for the fractal's parameter schema, by name
   colorPalette: string;
   precision: ShaderPrecision;
+  deepZoom?: boolean; // Perturbation rendering for zooms past float32 precision
+  periodicityCheck?: boolean; // Stop orbits caught in a cycle early; on when left out
+  preciseCenter?: HighPrecisionComplex; // Authoritative center when deepZoom is on
 }
 
 export interface RenderBufferConfig {
@@ -65,22 +186,28 @@ export interface PerformanceMetrics {
   gpuMemoryUsage: number;
   renderLatency: number;
   lastRenderTime: number;
+  earlyExitRatio?: number; // Fraction of pixels stopped by periodicity checking, when measured
 }
 
 export interface ViewportState {
   center: Complex;
+  preciseCenter?: HighPrecisionComplex; // Authoritative center of deep zoom views
   zoom: number;
   width: number;
   height: number;
   aspectRatio: number;
 }
 
+// Color space gradients are interpolated in between stops
+export type PaletteInterpolation = 'rgb' | 'hsl' | 'lab' | 'oklab';
+
 export interface ColorPalette {
   id: string;
   name: string;
   colors: string[];
   type: 'linear' | 'cyclic';
-  stops?: number[];
+  stops?: number[]; // Positions of the colors in [0, 1], evenly spaced when left out
+  interpolation?: PaletteInterpolation; // RGB when left out
 }
 
 export interface GestureState {
@@ -91,12 +218,30 @@ export interface GestureState {
   lastZoomCenter?: { x: number; y: number };
 }
 
+// The three editable parts of a user-defined formula
+export type FormulaField = 'init' | 'iterate' | 'bailout';
+
+export interface FormulaSource {
+  name: string;
+  init?: string;    // Statements run once per pixel, e.g. "z = 0"
+  iterate: string;  // Statements run every iteration, e.g. "z = z^3 + c*sin(z)"
+  bailout?: string; // Escape condition, e.g. "|z| > 4"; defaults to |z| > escapeRadius
+}
+
 // Web Worker message types
 export interface WorkerMessage {
-  type: 'COMPUTE_FRACTAL' | 'GENERATE_PALETTE' | 'VALIDATE_PARAMS';
+  type: 'COMPUTE_FRACTAL' | 'GENERATE_PALETTE' | 'VALIDATE_PARAMS' | 'COMPUTE_REFERENCE_ORBIT' | 'COMPUTE_DENSITY';
   payload: unknown;
 }
 
+// Rectangle of the viewport in pixels, rows from the top
+export interface RenderTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface ComputeFractalMessage extends WorkerMessage {
   type: 'COMPUTE_FRACTAL';
   payload: {
@@ -104,6 +249,9 @@ export interface ComputeFractalMessage extends WorkerMessage {
     params: FractalParams;
     viewport: ViewportState;
     samplesPerPixel?: number;
+    formula?: FormulaSource; // Source of a custom-* fractal, compiled in the worker
+    tile?: RenderTile; // Defaults to the whole viewport
+    step?: number; // Pixel stride of a coarse pass; 1 samples every pixel
   };
 }
 
@@ -116,6 +264,29 @@ export interface GeneratePaletteMessage extends WorkerMessage {
   };
 }
 
+export interface ComputeReferenceOrbitMessage extends WorkerMessage {
+  type: 'COMPUTE_REFERENCE_ORBIT';
+  payload: {
+    requestId: number;
+    fractalType: FractalType;
+    center: HighPrecisionComplex;
+    maxIterations: number;
+    escapeRadius: number;
+    precisionBits: number;
+  };
+}
+
+export interface ComputeDensityMessage extends WorkerMessage {
+  type: 'COMPUTE_DENSITY';
+  payload: {
+    requestId: number;
+    view: ViewportState;
+    settings: DensitySettings;
+    samples: number;
+    histogram: ArrayBuffer; // Zeroed RGB float histogram, filled and transferred back
+  };
+}
+
 // Event types for fractal exploration
 export interface FractalEvent {
   type: 'ZOOM' | 'PAN' | 'PRESET_CHANGE' | 'PARAM_UPDATE' | 'RENDER_COMPLETE';
@@ -135,6 +306,11 @@ export interface PanEvent extends FractalEvent {
   newCenter: Complex;
 }
 
+export interface PresetChangeEvent extends FractalEvent {
+  type: 'PRESET_CHANGE';
+  presetName: string;
+}
+
 export interface ParamUpdateEvent extends FractalEvent {
   type: 'PARAM_UPDATE';
   paramName: keyof FractalParams;
@@ -142,6 +318,9 @@ export interface ParamUpdateEvent extends FractalEvent {
   newValue: unknown;
 }
 
+// Events that move the view and are recorded in the navigation history
+export type NavigationEvent = ZoomEvent | PanEvent | PresetChangeEvent | ParamUpdateEvent;
+
 // Shader compilation and hot-reloading
 export interface ShaderSource {
   vertex: string;
@@ -185,6 +364,17 @@ export interface Animation {
   autoplay: boolean;
 }
 
+// Saved view in the user's bookmark library
+export interface Bookmark {
+  id: string;
+  name: string;
+  params: FractalParams;
+  thumbnail?: string; // Data URL
+  tags: string[];
+  notes: string;
+  createdAt: number;
+}
+
 // Error handling
 export interface FractalError extends Error {
   code: 'WEBGL_CONTEXT_LOST' | 'SHADER_COMPILATION_FAILED' | 'WORKER_ERROR' | 'MATH_OVERFLOW' | 'PRECISION_LOSS';
@@ -198,7 +388,7 @@ export const isFractalType = (value: string): value is FractalType => {
 };
 
 export const isShaderPrecision = (value: string): value is ShaderPrecision => {
-  return ['highp', 'mediump', 'lowp'].includes(value);
+  return ['highp', 'mediump', 'lowp', 'emulated-double'].includes(value);
 };
 
 export const isValidComplex = (value: unknown): value is Complex => {
@@ -1,12 +1,29 @@
 // Web Worker for high-performance fractal computation
 import { 
+  ComputeDensityMessage,
   ComputeFractalMessage, 
+  ComputeReferenceOrbitMessage,
   GeneratePaletteMessage,
   WorkerMessage,
   Complex,
+  FormulaSource,
   FractalParams,
+  FractalType,
   ViewportState
 } from '@/types/fractal';
+import { escapeTime } from '@/lib/cpu/escape-time';
+import { computeReferenceOrbit, supportsPerturbation } from '@/lib/deep-zoom/reference-orbit';
+import { compileFormula, formatDiagnostic } from '@/lib/formula/compiler';
+import { CompiledFormula } from '@/lib/formula/javascript';
+import { DEFAULT_JULIA_CONSTANT } from '@/lib/fractals/julia';
+import { DEFAULT_MULTIBROT_EXPONENT, complexPowReal } from '@/lib/fractals/multibrot';
+import FractalLoader from '@/lib/fractals/loader';
+import { LYAPUNOV_DIVERGENCE } from '@/lib/fractals/lyapunov';
+import { DEFAULT_NEWTON_PARAMS, iterateNewton } from '@/lib/fractals/newton';
+import { validateParameterValues } from '@/lib/fractals/parameters';
+import { findRoots } from '@/lib/fractals/polynomial';
+import { PeriodicityChecker, getPeriodicityEpsilon } from '@/lib/fractals/periodicity';
+import { accumulateOrbits } from '@/lib/buddhabrot/density';
 
 // Complex number arithmetic utilities
 class ComplexMath {
@@ -47,10 +64,17 @@ class ComplexMath {
   }
 }
 
-// High-precision fractal iteration functions
+// High-precision fractal iteration functions. The escape-time iterations stop
+// as interior once the optional periodicity checker finds the orbit in a cycle.
 class FractalCompute {
   // Mandelbrot set iteration with smooth coloring
-  static mandelbrot(c: Complex, maxIterations: number, escapeRadius: number): number {
+  static mandelbrot(
+    c: Complex,
+    maxIterations: number,
+    escapeRadius: number,
+    checker: PeriodicityChecker | null = null
+  ): number {
+    checker?.reset();
     let z: Complex = { real: 0, imag: 0 };
     let iteration = 0;
 
@@ -66,13 +90,21 @@ class FractalCompute {
 
       z = ComplexMath.add(ComplexMath.square(z), c);
       iteration++;
+      if (checker?.check(z)) break;
     }
 
     return maxIterations;
   }
 
   // Julia set iteration
-  static julia(z: Complex, c: Complex, maxIterations: number, escapeRadius: number): number {
+  static julia(
+    z: Complex,
+    c: Complex,
+    maxIterations: number,
+    escapeRadius: number,
+    checker: PeriodicityChecker | null = null
+  ): number {
+    checker?.reset();
     let iteration = 0;
     const escapeRadiusSquared = escapeRadius * escapeRadius;
 
@@ -85,13 +117,20 @@ class FractalCompute {
 
       z = ComplexMath.add(ComplexMath.square(z), c);
       iteration++;
+      if (checker?.check(z)) break;
     }
 
     return maxIterations;
   }
 
   // Burning Ship fractal iteration
-  static burningShip(c: Complex, maxIterations: number, escapeRadius: number): number {
+  static burningShip(
+    c: Complex,
+    maxIterations: number,
+    escapeRadius: number,
+    checker: PeriodicityChecker | null = null
+  ): number {
+    checker?.reset();
     let z: Complex = { real: 0, imag: 0 };
     let iteration = 0;
     const escapeRadiusSquared = escapeRadius * escapeRadius;
@@ -107,39 +146,59 @@ class FractalCompute {
       const absZ = ComplexMath.abs(z);
       z = ComplexMath.add(ComplexMath.square(absZ), c);
       iteration++;
+      if (checker?.check(z)) break;
     }
 
     return maxIterations;
   }
 
-  // Lyapunov fractal (simplified implementation)
-  static lyapunov(coord: Complex, maxIterations: number): number {
-    const a = coord.real;
-    const b = coord.imag;
-    
-    // Ensure parameters are in valid range
-    if (a <= 0 || a >= 4 || b <= 0 || b >= 4) {
-      return 0;
+  // Multibrot iteration z^d + c; smoothing uses log base d
+  static multibrot(
+    c: Complex,
+    exponent: number,
+    maxIterations: number,
+    escapeRadius: number,
+    checker: PeriodicityChecker | null = null
+  ): number {
+    checker?.reset();
+    let z: Complex = { real: 0, imag: 0 };
+    let iteration = 0;
+    const escapeRadiusSquared = escapeRadius * escapeRadius;
+
+    while (iteration < maxIterations) {
+      const zMagSquared = ComplexMath.magnitudeSquared(z);
+
+      if (zMagSquared > escapeRadiusSquared) {
+        return iteration + 1 - Math.log(Math.log2(zMagSquared) * 0.5) / Math.log(exponent);
+      }
+
+      z = ComplexMath.add(complexPowReal(z, exponent), c);
+      iteration++;
+      if (checker?.check(z)) break;
     }
 
+    return maxIterations;
+  }
+
+  // Lyapunov exponent as the shader's lyapunovExponent computes it; the
+  // sequence picks the rate from a (A), b (B) or c (C) at each step, after
+  // warmup steps that are not averaged
+  static lyapunov(coord: Complex, c: number, sequence: string, warmup: number, maxIterations: number): number {
+    const rates: Record<string, number> = { A: coord.real, B: coord.imag, C: c };
     let x = 0.5; // Starting value
     let lyapunovSum = 0;
-    
-    // Use simple AB pattern
-    for (let i = 0; i < maxIterations; i++) {
-      const r = (i % 2 === 0) ? a : b;
-      
-      // Check for divergence
-      if (x <= 0 || x >= 1) {
-        return -10; // Divergent
-      }
 
-      const derivative = r * (1 - 2 * x);
-      if (Math.abs(derivative) < 1e-10) {
-        return -10; // Avoid log(0)
+    for (let i = 0; i < warmup; i++) {
+      x = rates[sequence[i % sequence.length]] * x * (1 - x);
+    }
+
+    for (let i = 0; i < maxIterations; i++) {
+      const r = rates[sequence[(warmup + i) % sequence.length]];
+      if (r <= 0 || r >= 4 || x <= 0 || x >= 1) {
+        return LYAPUNOV_DIVERGENCE;
       }
 
-      lyapunovSum += Math.log(Math.abs(derivative));
+      lyapunovSum += Math.log(Math.abs(r * (1 - 2 * x)));
       x = r * x * (1 - x);
     }
 
@@ -147,7 +206,9 @@ class FractalCompute {
   }
 }
 
-// Compute fractal for a rectangular region
+// Compute fractal for a rectangular region, sampling every `step`-th pixel
+// in each direction for coarse refinement passes; also counts the samples that
+// periodicity checking stopped early
 function computeFractalRegion(
   preset: { id?: string; params?: { fractalType?: string } } | { fractalType: string },
   params: FractalParams,
@@ -156,17 +217,36 @@ function computeFractalRegion(
   endX: number,
   startY: number,
   endY: number,
-  samplesPerPixel: number = 1
-): Float32Array {
-  const width = endX - startX;
-  const height = endY - startY;
+  samplesPerPixel: number = 1,
+  formula?: CompiledFormula,
+  step: number = 1
+): { data: Float32Array; earlyExits: number } {
+  const width = Math.ceil((endX - startX) / step);
+  const height = Math.ceil((endY - startY) / step);
   const data = new Float32Array(width * height);
+  let earlyExits = 0;
 
   // Get fractal type from preset or params
   const fractalType = ('fractalType' in preset) 
     ? preset.fractalType 
     : (preset.id || preset.params?.fractalType || params.fractalType);
 
+  const definition = FractalLoader.getAvailableTypes().includes(fractalType as FractalType)
+    ? FractalLoader.getDefinition(fractalType as FractalType)
+    : undefined;
+
+  // Schema parameters (Lyapunov sequence, Lambda plane), with defaults for anything missing
+  const parameters = validateParameterValues(definition?.parameters || [], params.parameters);
+
+  // The Newton polynomial's roots, found once for the region
+  const newton = params.newton ?? DEFAULT_NEWTON_PARAMS;
+  const newtonRoots = fractalType === 'newton' ? findRoots(newton.coefficients) : [];
+
+  // Orbits with carried state besides z do not repeat when z does
+  const checker = (params.periodicityCheck ?? true) && !definition?.shader.carry?.length
+    ? new PeriodicityChecker(getPeriodicityEpsilon(viewport.zoom, viewport.height))
+    : null;
+
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       let totalIteration = 0;
@@ -175,16 +255,17 @@ function computeFractalRegion(
       for (let sy = 0; sy < samplesPerPixel; sy++) {
         for (let sx = 0; sx < samplesPerPixel; sx++) {
           // Calculate complex coordinate
-          const pixelX = startX + x + sx / samplesPerPixel;
-          const pixelY = startY + y + sy / samplesPerPixel;
+          const pixelX = startX + x * step + (sx + 0.5) / samplesPerPixel;
+          const pixelY = startY + y * step + (sy + 0.5) / samplesPerPixel;
           
           const normalizedX = pixelX / viewport.width;
           const normalizedY = pixelY / viewport.height;
           
-          // Transform to complex plane
+          // Transform to complex plane like the shaders: the visible height is
+          // 1/zoom and rows run from the top down
           const aspectRatio = viewport.width / viewport.height;
-          const complexX = (normalizedX - 0.5) * aspectRatio * viewport.zoom + viewport.center.real;
-          const complexY = (normalizedY - 0.5) * viewport.zoom + viewport.center.imag;
+          const complexX = (normalizedX - 0.5) * aspectRatio / viewport.zoom + viewport.center.real;
+          const complexY = (0.5 - normalizedY) / viewport.zoom + viewport.center.imag;
           
           const coord: Complex = { real: complexX, imag: complexY };
           let iteration: number;
@@ -192,37 +273,90 @@ function computeFractalRegion(
           // Compute based on fractal type
           switch (fractalType) {
             case 'mandelbrot':
-              iteration = FractalCompute.mandelbrot(coord, params.maxIterations, params.escapeRadius);
+              iteration = FractalCompute.mandelbrot(coord, params.maxIterations, params.escapeRadius, checker);
               break;
               
             case 'julia':
-              if (!params.juliaConstant) {
-                iteration = 0;
-                break;
-              }
-              iteration = FractalCompute.julia(coord, params.juliaConstant, params.maxIterations, params.escapeRadius);
+              iteration = FractalCompute.julia(
+                coord,
+                params.juliaConstant || DEFAULT_JULIA_CONSTANT,
+                params.maxIterations,
+                params.escapeRadius,
+                checker
+              );
               break;
               
             case 'burning-ship':
               // Flip y-axis for burning ship
               const flippedCoord: Complex = { real: coord.real, imag: -coord.imag };
-              iteration = FractalCompute.burningShip(flippedCoord, params.maxIterations, params.escapeRadius);
+              iteration = FractalCompute.burningShip(flippedCoord, params.maxIterations, params.escapeRadius, checker);
               break;
               
+            case 'multibrot':
+              iteration = FractalCompute.multibrot(
+                coord,
+                params.exponent ?? DEFAULT_MULTIBROT_EXPONENT,
+                params.maxIterations,
+                params.escapeRadius,
+                checker
+              );
+              break;
+
             case 'lyapunov':
-              // Map to parameter space [0, 4] x [0, 4]
-              const paramCoord: Complex = {
-                real: (coord.real + 2) * 2,
-                imag: (coord.imag + 2) * 2
-              };
-              iteration = FractalCompute.lyapunov(paramCoord, params.maxIterations);
+              // The pixel is (a, b) in parameter space; the volume view is shader-only
+              iteration = FractalCompute.lyapunov(
+                coord,
+                parameters.cRate as number,
+                parameters.sequence as string,
+                parameters.warmup as number,
+                params.maxIterations
+              );
               break;
               
+            case 'lambda': {
+              // Parameter plane from the critical point, or the dynamic plane of λ
+              const dynamicPlane = parameters.plane === 'dynamic';
+              iteration = escapeTime(
+                FractalLoader.getDefinition('lambda').formula,
+                dynamicPlane ? coord : { real: 0.5, imag: 0 },
+                dynamicPlane ? parameters.lambda as Complex : coord,
+                params.maxIterations,
+                params.escapeRadius,
+                checker
+              );
+              break;
+            }
+
+            case 'newton':
+              // Scaled so that points that do not converge land on the interior
+              iteration = iterateNewton(coord, newton, newtonRoots, params.maxIterations) * params.maxIterations;
+              break;
+
             default:
-              iteration = 0;
+              // Custom formulas arrive with their source; other registered
+              // fractals iterate their JavaScript formula from z = 0
+              if (formula) {
+                iteration = formula.iterate(coord, params.maxIterations, params.escapeRadius);
+              } else if (definition) {
+                iteration = escapeTime(
+                  definition.formula,
+                  { real: 0, imag: 0 },
+                  coord,
+                  params.maxIterations,
+                  params.escapeRadius,
+                  checker,
+                  parameters
+                );
+              } else {
+                iteration = 0;
+              }
           }
 
           totalIteration += iteration;
+          if (checker?.period) {
+            earlyExits++;
+            checker.reset();
+          }
         }
       }
 
@@ -232,7 +366,24 @@ function computeFractalRegion(
     }
   }
 
-  return data;
+  return { data, earlyExits };
+}
+
+// Compiled custom formulas, keyed by their source
+const formulaCache = new Map<string, CompiledFormula>();
+
+function getCompiledFormula(source: FormulaSource): CompiledFormula {
+  const key = JSON.stringify([source.init, source.iterate, source.bailout]);
+  const cached = formulaCache.get(key);
+  if (cached) return cached;
+
+  const result = compileFormula(source);
+  if (!result.success || !result.javascript) {
+    throw new Error(`Invalid formula ${source.name}: ${result.errors.map(formatDiagnostic).join('; ')}`);
+  }
+
+  formulaCache.set(key, result.javascript);
+  return result.javascript;
 }
 
 // Generate color palette data
@@ -343,15 +494,25 @@ self.onmessage = function(e: MessageEvent<WorkerMessage>) {
   try {
     switch (type) {
       case 'COMPUTE_FRACTAL': {
-        const { preset, params, viewport, samplesPerPixel = 1 } = (payload as ComputeFractalMessage['payload']);
+        const {
+          preset,
+          params,
+          viewport,
+          samplesPerPixel = 1,
+          formula,
+          tile = { x: 0, y: 0, width: viewport.width, height: viewport.height },
+          step = 1
+        } = (payload as ComputeFractalMessage['payload']);
         
-        const data = computeFractalRegion(
+        const { data, earlyExits } = computeFractalRegion(
           preset,
           params,
           viewport,
-          0, viewport.width,
-          0, viewport.height,
-          samplesPerPixel
+          tile.x, tile.x + tile.width,
+          tile.y, tile.y + tile.height,
+          samplesPerPixel,
+          formula && getCompiledFormula(formula),
+          step
         );
 
         const ctx = self as unknown as Worker;
@@ -359,8 +520,12 @@ self.onmessage = function(e: MessageEvent<WorkerMessage>) {
           type: 'FRACTAL_COMPUTED',
           payload: {
             data: data.buffer,
-            width: viewport.width,
-            height: viewport.height
+            width: Math.ceil(tile.width / step),
+            height: Math.ceil(tile.height / step),
+            tile,
+            step,
+            earlyExits,
+            samples: data.length * samplesPerPixel * samplesPerPixel
           }
         }, { transfer: [data.buffer] });
         break;
@@ -382,6 +547,47 @@ self.onmessage = function(e: MessageEvent<WorkerMessage>) {
         break;
       }
 
+      case 'COMPUTE_REFERENCE_ORBIT': {
+        const { requestId, fractalType, center, maxIterations, escapeRadius, precisionBits } =
+          (payload as ComputeReferenceOrbitMessage['payload']);
+
+        if (!supportsPerturbation(fractalType)) {
+          throw new Error(`Perturbation is not supported for ${fractalType}`);
+        }
+
+        const orbit = computeReferenceOrbit(fractalType, center, maxIterations, escapeRadius, precisionBits);
+
+        const ctx = self as unknown as Worker;
+        ctx.postMessage({
+          type: 'REFERENCE_ORBIT_COMPUTED',
+          payload: {
+            requestId,
+            points: orbit.points.buffer,
+            length: orbit.length,
+            escaped: orbit.escaped
+          }
+        }, { transfer: [orbit.points.buffer] });
+        break;
+      }
+
+      case 'COMPUTE_DENSITY': {
+        const { requestId, view, settings, samples, histogram } = (payload as ComputeDensityMessage['payload']);
+
+        const data = new Float32Array(histogram);
+        accumulateOrbits(data, view, settings, samples);
+
+        const ctx = self as unknown as Worker;
+        ctx.postMessage({
+          type: 'DENSITY_COMPUTED',
+          payload: {
+            requestId,
+            histogram: data.buffer,
+            samples
+          }
+        }, { transfer: [data.buffer] });
+        break;
+      }
+
       case 'VALIDATE_PARAMS': {
         // Parameter validation logic
         self.postMessage({